@@ -6,6 +6,7 @@ import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import CreateVideo from "@/pages/create-video";
 import MyContent from "@/pages/my-content";
+import VideoDetails from "@/pages/video-details";
 import Publish from "@/pages/publish";
 import Analytics from "@/pages/analytics";
 import SeoOptimizer from "@/pages/seo-optimizer";
@@ -22,6 +23,7 @@ function Router() {
       <ProtectedRoute path="/" component={Dashboard} />
       <ProtectedRoute path="/create-video" component={CreateVideo} />
       <ProtectedRoute path="/my-content" component={MyContent} />
+      <ProtectedRoute path="/videos/:id" component={VideoDetails} />
       <ProtectedRoute path="/publish" component={Publish} />
       <ProtectedRoute path="/analytics" component={Analytics} />
       <ProtectedRoute path="/seo-optimizer" component={SeoOptimizer} />
@@ -1,20 +1,23 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Youtube, Instagram, ExternalLink, RefreshCw, AlertCircle, CheckCircle } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Youtube, Instagram, ExternalLink, Plus, AlertCircle, CheckCircle, Unlink } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { askForSecrets } from "@/lib/utils";
+import { PublicConnectedAccount } from "@shared/schema";
 
 interface PlatformConnectionProps {
   platform: string;
-  isConnected: boolean;
+  accounts: PublicConnectedAccount[];
   authUrl?: string;
   onConnect: () => void;
+  onDisconnect: (account: PublicConnectedAccount) => void;
 }
 
-function PlatformConnection({ platform, isConnected, authUrl, onConnect }: PlatformConnectionProps) {
+function PlatformConnection({ platform, accounts, authUrl, onConnect, onDisconnect }: PlatformConnectionProps) {
+  const isConnected = accounts.length > 0;
   const { toast } = useToast();
   
   const handleConnect = async () => {
@@ -106,6 +109,30 @@ function PlatformConnection({ platform, isConnected, authUrl, onConnect }: Platf
         <CardDescription>{platformDescription}</CardDescription>
       </CardHeader>
       <CardContent>
+        {isConnected && (
+          <ul className="mb-3 divide-y divide-gray-200 dark:divide-gray-700">
+            {accounts.map((account) => (
+              <li key={account.id} className="py-2 flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{account.displayName || account.externalAccountId}</p>
+                  {account.status !== 'active' && (
+                    <p className="text-xs text-amber-500">Needs reconnecting</p>
+                  )}
+                </div>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  className="text-xs text-gray-500 hover:text-red-500"
+                  onClick={() => onDisconnect(account)}
+                >
+                  <Unlink className="w-3 h-3 mr-1" />
+                  Disconnect
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        
         <Button 
           onClick={handleConnect}
           className={isConnected ? "w-full bg-gray-200 hover:bg-gray-300 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-200" : "w-full"}
@@ -113,8 +140,8 @@ function PlatformConnection({ platform, isConnected, authUrl, onConnect }: Platf
         >
           {isConnected ? (
             <>
-              <RefreshCw className="w-4 h-4 mr-2" />
-              Reconnect
+              <Plus className="w-4 h-4 mr-2" />
+              Add Account
             </>
           ) : (
             <>
@@ -132,6 +159,31 @@ export function PlatformConnections() {
   const { toast } = useToast();
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   
+  // Accounts the user has connected, across all platforms
+  const { data: accounts = [] } = useQuery<PublicConnectedAccount[]>({
+    queryKey: ['/api/connected-accounts'],
+  });
+  
+  const disconnectMutation = useMutation({
+    mutationFn: async (account: PublicConnectedAccount) => {
+      await apiRequest({ method: "DELETE", url: `/api/connected-accounts/${account.id}` });
+    },
+    onSuccess: (_data, account) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/connected-accounts'] });
+      toast({
+        title: "Account disconnected",
+        description: `${account.displayName || account.externalAccountId} will no longer be published to.`
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Disconnect failed",
+        description: "Could not disconnect the account. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+  
   // Fetch available platforms
   const { data: platformsData } = useQuery({
     queryKey: ['/api/social-media/platforms'],
@@ -180,40 +232,40 @@ export function PlatformConnections() {
   });
   
   const handleConnect = () => {
-    // Refresh the auth URLs after connection attempt
+    // Refresh the auth URLs (each carries a single-use state) and pick up the new account
     setRefreshTrigger(prev => prev + 1);
-    
-    // In real implementation, we'd check if the connection was successful
-    toast({
-      title: "Connection Initiated",
-      description: "Please complete the authentication in the opened window."
-    });
+    queryClient.invalidateQueries({ queryKey: ['/api/connected-accounts'] });
   };
   
+  const accountsFor = (platform: string) => accounts.filter(account => account.platform === platform);
+  
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
       {/* YouTube */}
       <PlatformConnection
         platform="youtube"
-        isConnected={false}
+        accounts={accountsFor('youtube')}
         authUrl={platformsQuery.data?.youtube?.authUrl || undefined}
         onConnect={handleConnect}
+        onDisconnect={(account) => disconnectMutation.mutate(account)}
       />
       
       {/* Instagram */}
       <PlatformConnection
         platform="instagram"
-        isConnected={false}
+        accounts={accountsFor('instagram')}
         authUrl={platformsQuery.data?.instagram?.authUrl || undefined}
         onConnect={handleConnect}
+        onDisconnect={(account) => disconnectMutation.mutate(account)}
       />
       
       {/* TikTok */}
       <PlatformConnection
         platform="tiktok"
-        isConnected={false}
+        accounts={accountsFor('tiktok')}
         authUrl={platformsQuery.data?.tiktok?.authUrl || undefined}
         onConnect={handleConnect}
+        onDisconnect={(account) => disconnectMutation.mutate(account)}
       />
     </div>
   );
@@ -0,0 +1,388 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, isSameDay } from "date-fns";
+import type { DayContentProps } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket, type WebSocketMessage } from "@/hooks/use-websocket";
+import { Calendar as CalendarIcon, Clock, GripVertical, X } from "lucide-react";
+import { PublicConnectedAccount, ScheduledPost, Video } from "@shared/schema";
+import { toZonedParts } from "@shared/timezone";
+
+// Drag payload type for moving a post onto a calendar day
+const POST_DRAG_TYPE = "application/x-scheduled-post";
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/**
+ * Scheduled time in the zone it was picked in, e.g. "Jan 31, 2025, 2:30 PM (America/New_York)"
+ */
+export function formatScheduledTime(post: ScheduledPost): string {
+  const time = new Date(post.scheduledAt).toLocaleString(undefined, {
+    timeZone: post.timezone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+  return `${time} (${post.timezone})`;
+}
+
+function useScheduledPosts() {
+  return useQuery<ScheduledPost[]>({
+    queryKey: ['/api/scheduled-posts'],
+  });
+}
+
+const invalidateScheduledPosts = () => queryClient.invalidateQueries({ queryKey: ['/api/scheduled-posts'] });
+
+/**
+ * Moves a post to another day, keeping its time of day in its own time zone
+ */
+function useReschedulePost() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ post, day }: { post: ScheduledPost; day: Date }) => {
+      const { time } = toZonedParts(new Date(post.scheduledAt), post.timezone);
+      const response = await apiRequest({
+        method: "PUT",
+        url: `/api/scheduled-posts/${post.id}`,
+        body: { scheduledAt: `${format(day, "yyyy-MM-dd")}T${time}`, timezone: post.timezone },
+      });
+      return response.json();
+    },
+    onSuccess: (post: ScheduledPost) => {
+      invalidateScheduledPosts();
+      toast({
+        title: "Post rescheduled",
+        description: formatScheduledTime(post),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not reschedule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Dialog for scheduling a video to one or more connected accounts
+ */
+export function ScheduleDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [videoId, setVideoId] = useState<string>("");
+  const [accountIds, setAccountIds] = useState<number[]>([]);
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [timezone, setTimezone] = useState(browserTimeZone);
+
+  const { data: videos = [] } = useQuery<Video[]>({
+    queryKey: ['/api/videos'],
+  });
+
+  const { data: accounts = [] } = useQuery<PublicConnectedAccount[]>({
+    queryKey: ['/api/connected-accounts'],
+  });
+
+  // Only generated videos can be published
+  const publishableVideos = videos.filter((video) => video.videoUrl);
+  const activeAccounts = accounts.filter((account) => account.status === "active");
+
+  const scheduleMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest({
+        method: "POST",
+        url: `/api/videos/${videoId}/schedule`,
+        body: { accountIds, scheduledAt, timezone },
+      });
+      return response.json();
+    },
+    onSuccess: (posts: ScheduledPost[]) => {
+      invalidateScheduledPosts();
+      toast({
+        title: "Post scheduled",
+        description: posts[0] ? formatScheduledTime(posts[0]) : undefined,
+      });
+      setOpen(false);
+      setVideoId("");
+      setAccountIds([]);
+      setScheduledAt("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not schedule",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleAccount = (id: number, checked: boolean) => {
+    setAccountIds((prev) => checked ? [...prev, id] : prev.filter((accountId) => accountId !== id));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CalendarIcon className="h-4 w-4 mr-2" />
+          Schedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Schedule a Post</DialogTitle>
+          <DialogDescription>Pick a video, the accounts to publish to, and when.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Video</Label>
+            <Select value={videoId} onValueChange={setVideoId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a video" />
+              </SelectTrigger>
+              <SelectContent>
+                {publishableVideos.map((video) => (
+                  <SelectItem key={video.id} value={String(video.id)}>
+                    {video.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Accounts</Label>
+            {activeAccounts.length > 0 ? (
+              activeAccounts.map((account) => (
+                <div key={account.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`schedule-account-${account.id}`}
+                    checked={accountIds.includes(account.id)}
+                    onCheckedChange={(checked) => toggleAccount(account.id, checked === true)}
+                  />
+                  <Label htmlFor={`schedule-account-${account.id}`} className="font-normal">
+                    <span className="capitalize">{account.platform}</span> · {account.displayName || account.externalAccountId}
+                  </Label>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Connect an account on the Connect Platforms tab first.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-time">Date & time</Label>
+              <Input
+                id="schedule-time"
+                type="datetime-local"
+                value={scheduledAt}
+                onChange={(e) => setScheduledAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-timezone">Time zone</Label>
+              <Input
+                id="schedule-timezone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => scheduleMutation.mutate()}
+            disabled={!videoId || accountIds.length === 0 || !scheduledAt || scheduleMutation.isPending}
+          >
+            {scheduleMutation.isPending ? "Scheduling..." : "Schedule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Queue of upcoming posts. Items can be dragged onto the publishing calendar.
+ */
+export function UpcomingPosts() {
+  const { toast } = useToast();
+  const { data: posts = [], isLoading } = useScheduledPosts();
+  const { data: videos = [] } = useQuery<Video[]>({
+    queryKey: ['/api/videos'],
+  });
+
+  // Refresh when the scheduler publishes something
+  useWebSocket({
+    onMessage: (message: WebSocketMessage) => {
+      if (message.type === 'scheduled_post_published' || message.type === 'scheduled_post_failed') {
+        invalidateScheduledPosts();
+      }
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (post: ScheduledPost) => {
+      await apiRequest({ method: "POST", url: `/api/scheduled-posts/${post.id}/cancel` });
+    },
+    onSuccess: () => {
+      invalidateScheduledPosts();
+      toast({ title: "Scheduled post canceled" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not cancel",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const upcoming = posts.filter((post) => post.status === "scheduled" || post.status === "publishing");
+  const recentlyFailed = posts.filter((post) => post.status === "failed").slice(-3);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">Loading...</p>;
+  }
+
+  if (upcoming.length === 0 && recentlyFailed.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500 dark:text-gray-400">
+          No scheduled posts yet
+        </p>
+      </div>
+    );
+  }
+
+  const videoTitle = (post: ScheduledPost) =>
+    videos.find((video) => video.id === post.videoId)?.title || `Video #${post.videoId}`;
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+      {upcoming.map((post) => (
+        <li
+          key={post.id}
+          className="py-3 flex items-start cursor-grab"
+          draggable={post.status === "scheduled"}
+          onDragStart={(e) => {
+            e.dataTransfer.setData(POST_DRAG_TYPE, String(post.id));
+            e.dataTransfer.effectAllowed = "move";
+          }}
+        >
+          <GripVertical className="h-4 w-4 mt-1 mr-2 text-gray-400 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-sm truncate">{videoTitle(post)}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 capitalize">{post.platform}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
+              <Clock className="h-3 w-3 mr-1" />
+              {post.status === "publishing" ? "Publishing now..." : formatScheduledTime(post)}
+            </p>
+          </div>
+          {post.status === "scheduled" && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-gray-500 hover:text-red-500"
+              onClick={() => cancelMutation.mutate(post)}
+              title="Cancel"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </li>
+      ))}
+      {recentlyFailed.map((post) => (
+        <li key={post.id} className="py-3">
+          <p className="font-medium text-sm truncate">{videoTitle(post)}</p>
+          <p className="text-xs text-red-500">
+            <span className="capitalize">{post.platform}</span> failed: {post.error}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Month calendar marking days with scheduled posts. Dropping a post from
+ * the upcoming list onto a day moves it to that day.
+ */
+export function PublishingCalendar() {
+  const [month, setMonth] = useState(new Date());
+  const [dropTarget, setDropTarget] = useState<Date | null>(null);
+  const { data: posts = [] } = useScheduledPosts();
+  const reschedule = useReschedulePost();
+
+  const scheduled = posts.filter((post) => post.status === "scheduled");
+  const scheduledDays = scheduled.map((post) => new Date(post.scheduledAt));
+
+  const handleDrop = (day: Date, e: React.DragEvent) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const post = scheduled.find((p) => String(p.id) === e.dataTransfer.getData(POST_DRAG_TYPE));
+    if (post) {
+      reschedule.mutate({ post, day });
+    }
+  };
+
+  // Day cells double as drop targets
+  const DayContent = ({ date }: DayContentProps) => (
+    <div
+      className={`h-full w-full flex items-center justify-center rounded-md ${
+        dropTarget && isSameDay(dropTarget, date) ? "ring-2 ring-primary" : ""
+      }`}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(POST_DRAG_TYPE)) return;
+        e.preventDefault();
+        setDropTarget(date);
+      }}
+      onDragLeave={() => setDropTarget(null)}
+      onDrop={(e) => handleDrop(date, e)}
+    >
+      {date.getDate()}
+    </div>
+  );
+
+  return (
+    <div>
+      <Calendar
+        mode="multiple"
+        month={month}
+        onMonthChange={setMonth}
+        selected={scheduledDays}
+        components={{ DayContent }}
+        className="mx-auto w-fit"
+      />
+      <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+        {scheduled.length > 0
+          ? "Drag a post from Upcoming Posts onto a day to reschedule it."
+          : "No upcoming scheduled posts"}
+      </p>
+    </div>
+  );
+}
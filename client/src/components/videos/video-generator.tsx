@@ -0,0 +1,698 @@
+import { useState, useCallback, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { insertVideoSchema, voiceoverLanguages, voiceoverVoices, type MusicTrack, type Template, type VoiceoverSettings } from "@shared/schema";
+import { DEFAULT_RESOLUTION, videoResolutions, type PlanLimits, type VideoResolution } from "@shared/plans";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { VideoPreview } from "@/components/videos/video-preview";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, LayoutTemplate, X } from "lucide-react";
+import { Link } from "wouter";
+
+// Define platform options
+const platformOptions = [
+  { id: "youtube", label: "YouTube" },
+  { id: "instagram", label: "Instagram" },
+  { id: "tiktok", label: "TikTok" },
+];
+
+// Define style options
+const styleOptions = [
+  { id: "cinematic", label: "Cinematic" },
+  { id: "animated", label: "Animated" },
+  { id: "professional", label: "Professional" },
+  { id: "energetic", label: "Energetic" },
+  { id: "minimalist", label: "Minimalist" },
+  { id: "custom", label: "Custom" },
+];
+
+// Define duration options
+const durationOptions = [
+  { value: "15 seconds", label: "15 seconds" },
+  { value: "30 seconds", label: "30 seconds" },
+  { value: "60 seconds", label: "60 seconds" },
+  { value: "90 seconds", label: "90 seconds" },
+  { value: "Custom", label: "Custom" },
+];
+
+// Define aspect ratio options
+const aspectRatioOptions = [
+  { value: "16:9", label: "16:9 (Landscape)" },
+  { value: "9:16", label: "9:16 (Portrait)" },
+  { value: "1:1", label: "1:1 (Square)" },
+  { value: "4:5", label: "4:5 (Instagram)" },
+];
+
+// Define voiceover options
+const voiceLabels: Record<typeof voiceoverVoices[number], string> = {
+  female: "Female",
+  male: "Male",
+};
+
+const languageLabels: Record<typeof voiceoverLanguages[number], string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+};
+
+// Settings a voiceover starts with when it is switched on
+const defaultVoiceover: VoiceoverSettings = { voice: "female", speed: 1, language: "en", script: "" };
+
+// Extend the schema with validation; the server assigns the owner from the session
+const formSchema = insertVideoSchema.omit({ userId: true }).extend({
+  title: z.string().min(3, "Title must be at least 3 characters"),
+});
+
+interface VideoGeneratorProps {
+  // Template to base the video on; its style, duration and scenes are fixed
+  templateId?: number;
+}
+
+export function VideoGenerator({ templateId }: VideoGeneratorProps = {}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [generatingPreview, setGeneratingPreview] = useState(false);
+  const [previewData, setPreviewData] = useState<any>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [resolution, setResolution] = useState<VideoResolution>(DEFAULT_RESOLUTION);
+
+  // Initialize the form
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      title: "",
+      prompt: "",
+      style: "cinematic",
+      duration: "30 seconds",
+      aspectRatio: "16:9",
+      platforms: ["youtube"],
+      status: "draft",
+      voiceover: null,
+      burnSubtitles: false,
+      musicTrackId: null,
+    },
+  });
+  const voiceoverEnabled = !!form.watch("voiceover");
+
+  const { data: template, isError: templateMissing } = useQuery<Template>({
+    queryKey: [`/api/templates/${templateId}`],
+    enabled: templateId !== undefined,
+  });
+  // Resolutions above the plan's limit are shown but cannot be picked
+  const { data: usage } = useQuery<{ limits: PlanLimits }>({ queryKey: ["/api/usage"] });
+  const maxResolution = usage?.limits.maxResolution ?? DEFAULT_RESOLUTION;
+  
+  // Background music is offered for the chosen style
+  const style = form.watch("style");
+  const { data: musicTracks } = useQuery<MusicTrack[]>({
+    queryKey: [`/api/music?style=${encodeURIComponent(style)}`],
+  });
+  
+  // Drop a picked track that does not suit a newly chosen style
+  useEffect(() => {
+    const musicTrackId = form.getValues("musicTrackId");
+    if (musicTracks && musicTrackId && !musicTracks.some(track => track.id === musicTrackId)) {
+      form.setValue("musicTrackId", null);
+    }
+  }, [musicTracks, form]);
+
+  const templateSettings = template?.settings as { sections?: string[]; aspectRatio?: string; prompt?: string } | null | undefined;
+  const templateSections: string[] = templateSettings?.sections || [];
+
+  // Pre-fill the generator with the template
+  useEffect(() => {
+    if (!template) return;
+    form.setValue("style", template.style);
+    form.setValue("duration", template.duration);
+    if (!form.getValues("title")) {
+      form.setValue("title", template.title);
+    }
+    // Templates saved from a video also carry its aspect ratio and prompt
+    if (templateSettings?.aspectRatio) {
+      form.setValue("aspectRatio", templateSettings.aspectRatio);
+    }
+    if (templateSettings?.prompt && !form.getValues("prompt")) {
+      form.setValue("prompt", templateSettings.prompt);
+    }
+  }, [template, templateSettings, form]);
+
+  // Template durations such as "45s" are not among the usual choices
+  const durationChoices = template && !durationOptions.some(option => option.value === template.duration)
+    ? [...durationOptions, { value: template.duration, label: template.duration }]
+    : durationOptions;
+
+  // Videos made from a template record it so template usage can be reported
+  const withTemplate = <T extends z.infer<typeof formSchema>>(values: T) =>
+    template ? { ...values, templateId: template.id } : values;
+
+  // Handle video generation
+  const generateMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof formSchema>) => {
+      setGeneratingPreview(true);
+      setPreviewData(null);
+      const response = await apiRequest({
+        method: "POST",
+        url: "/api/generate-video",
+        body: { ...withTemplate(values), resolution },
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      // Generation continues in the background; VideoPreview follows the job
+      setJobId(data.jobId);
+      queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
+    },
+    onError: (error: Error) => {
+      setGeneratingPreview(false);
+      // Plan limits come back as 402/403 with a message worth showing as is
+      const planLimited = /API Error \((402|403)\)/.test(error.message);
+      toast({
+        title: "Generation Failed",
+        description: planLimited
+          ? error.message.replace(/^API Error \(\d+\): /, "")
+          : "Failed to generate video preview. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Handle video save; renderId is the generated preview to keep
+  const saveMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof formSchema> & { renderId?: number }) => {
+      const response = await apiRequest({
+        method: "POST",
+        url: "/api/videos",
+        body: withTemplate(values),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/videos'] });
+      toast({
+        title: "Video Saved",
+        description: "Your video has been saved successfully!",
+      });
+      form.reset();
+      if (template) {
+        form.setValue("style", template.style);
+        form.setValue("duration", template.duration);
+      }
+      setPreviewData(null);
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Failed to save video. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleGenerationComplete = useCallback((video: any) => {
+    setPreviewData(video);
+    setGeneratingPreview(false);
+    setJobId(null);
+    toast({
+      title: "Preview Generated",
+      description: "Your video preview has been generated successfully!",
+    });
+  }, [toast]);
+
+  const handleGenerationFailed = useCallback((error: string) => {
+    setGeneratingPreview(false);
+    setJobId(null);
+    toast({
+      title: "Generation Failed",
+      description: error,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  const onGenerateVideo = (values: z.infer<typeof formSchema>) => {
+    generateMutation.mutate(values);
+  };
+
+  const onSaveVideo = (values: z.infer<typeof formSchema>) => {
+    // Keep the generated render, whose assets the server attaches to the video
+    saveMutation.mutate(previewData ? {
+      ...values,
+      provider: previewData.provider,
+      renderId: previewData.renderId,
+    } : values);
+  };
+
+  return (
+    <Card className="rounded-xl">
+      <CardHeader>
+        <CardTitle>Generate New Video</CardTitle>
+      </CardHeader>
+      
+      <CardContent>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Input Form Side */}
+          <div className="space-y-6">
+            {template && (
+              <div className="rounded-lg border border-primary/30 bg-primary/5 p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center text-sm font-medium">
+                    <LayoutTemplate className="h-4 w-4 mr-2 text-primary" />
+                    Using template: {template.title}
+                  </div>
+                  <Link href="/create-video" className="text-muted-foreground hover:text-foreground" aria-label="Stop using template">
+                    <X className="h-4 w-4" />
+                  </Link>
+                </div>
+                {templateSections.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {templateSections.map((section, index) => (
+                      <Badge key={section} variant="outline" className="text-xs">
+                        {index + 1}. {section}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Style and duration come from the template. Your prompt is spread across its scenes.
+                </p>
+              </div>
+            )}
+            {templateMissing && (
+              <p className="text-sm text-destructive">This template could not be loaded, so the video will not use it.</p>
+            )}
+            
+            <Form {...form}>
+              <form className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Video Title</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter a title for your video" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="prompt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Video Prompt</FormLabel>
+                      <FormControl>
+                        <Textarea 
+                          placeholder="Describe the video you want to create. Be specific about the style, content, and tone."
+                          className="h-40 resize-none"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="style"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Video Style</FormLabel>
+                      {template ? (
+                        <div>
+                          <Badge variant="secondary">{field.value}</Badge>
+                        </div>
+                      ) : (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                        {styleOptions.map((style) => (
+                          <FormItem key={style.id} className="flex flex-col">
+                            <FormLabel className="relative block p-3 rounded-lg border border-gray-200 dark:border-gray-700 text-center text-sm cursor-pointer hover:bg-primary/5 peer-checked:border-primary peer-checked:bg-primary/5 dark:peer-checked:bg-primary/20">
+                              <FormControl>
+                                <input
+                                  type="radio"
+                                  className="peer absolute opacity-0"
+                                  checked={field.value === style.id}
+                                  onChange={() => field.onChange(style.id)}
+                                />
+                              </FormControl>
+                              {style.label}
+                            </FormLabel>
+                          </FormItem>
+                        ))}
+                      </div>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="duration"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Duration</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange} disabled={!!template}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select duration" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {durationChoices.map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="aspectRatio"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Aspect Ratio</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select aspect ratio" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {aspectRatioOptions.map(option => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormItem>
+                    <FormLabel>Resolution</FormLabel>
+                    <Select
+                      value={String(resolution)}
+                      onValueChange={value => setResolution(Number(value) as VideoResolution)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select resolution" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {videoResolutions.map(option => (
+                          <SelectItem key={option} value={String(option)} disabled={option > maxResolution}>
+                            {option}p{option > maxResolution ? " (upgrade)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                </div>
+                
+                <div className="space-y-4 rounded-lg border p-4">
+                  <FormField
+                    control={form.control}
+                    name="voiceover"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between">
+                        <div className="space-y-0.5">
+                          <FormLabel className="text-base">Voiceover</FormLabel>
+                          <FormDescription>
+                            Narrate the video with a generated voice
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={!!field.value}
+                            onCheckedChange={(checked) => field.onChange(checked ? defaultVoiceover : null)}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  
+                  {voiceoverEnabled && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="voiceover.script"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Script</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                placeholder="Leave empty to narrate the title and prompt"
+                                className="h-24 resize-none"
+                                {...field}
+                                value={field.value ?? ""}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="voiceover.voice"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Voice</FormLabel>
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select voice" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {voiceoverVoices.map(voice => (
+                                    <SelectItem key={voice} value={voice}>
+                                      {voiceLabels[voice]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        
+                        <FormField
+                          control={form.control}
+                          name="voiceover.language"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Language</FormLabel>
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select language" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {voiceoverLanguages.map(language => (
+                                    <SelectItem key={language} value={language}>
+                                      {languageLabels[language]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      
+                      <FormField
+                        control={form.control}
+                        name="voiceover.speed"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Speed</FormLabel>
+                            <FormControl>
+                              <div className="pt-2">
+                                <Slider
+                                  min={0.5}
+                                  max={2}
+                                  step={0.25}
+                                  value={[field.value]}
+                                  onValueChange={(vals) => field.onChange(vals[0])}
+                                  className="w-full"
+                                />
+                              </div>
+                            </FormControl>
+                            <div className="flex justify-between mt-1">
+                              <FormDescription>Slower</FormDescription>
+                              <FormDescription>{field.value}x</FormDescription>
+                              <FormDescription>Faster</FormDescription>
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+                </div>
+                
+                <FormField
+                  control={form.control}
+                  name="musicTrackId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Background Music</FormLabel>
+                      <Select
+                        value={field.value ? String(field.value) : "none"}
+                        onValueChange={value => field.onChange(value === "none" ? null : Number(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select music" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">No music</SelectItem>
+                          {musicTracks?.map(track => (
+                            <SelectItem key={track.id} value={String(track.id)}>
+                              {track.title} · {track.artist} ({track.mood}, {track.bpm} BPM)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {musicTracks && musicTracks.length === 0
+                          ? "No tracks in the music library suit this style."
+                          : "Royalty-free tracks that suit the chosen style. The music is quieter while the voiceover speaks."}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="burnSubtitles"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Burn In Subtitles</FormLabel>
+                        <FormDescription>
+                          Show subtitles in the picture for muted viewers. SRT and WebVTT files are always included.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={!!field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="platforms"
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>Platforms</FormLabel>
+                      <div className="flex flex-wrap gap-4">
+                        {platformOptions.map((platform) => (
+                          <FormField
+                            key={platform.id}
+                            control={form.control}
+                            name="platforms"
+                            render={({ field }) => {
+                              return (
+                                <FormItem key={platform.id} className="flex items-center space-x-2">
+                                  <FormControl>
+                                    <Checkbox
+                                      checked={field.value?.includes(platform.id)}
+                                      onCheckedChange={(checked) => {
+                                        return checked
+                                          ? field.onChange([...field.value, platform.id])
+                                          : field.onChange(
+                                              field.value?.filter(
+                                                (value) => value !== platform.id
+                                              )
+                                            )
+                                      }}
+                                    />
+                                  </FormControl>
+                                  <FormLabel className="text-sm font-normal cursor-pointer">
+                                    {platform.label}
+                                  </FormLabel>
+                                </FormItem>
+                              )
+                            }}
+                          />
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <div className="flex items-center justify-end space-x-3">
+                  <Button 
+                    type="button" 
+                    variant="outline"
+                    onClick={() => onSaveVideo(form.getValues())} 
+                    disabled={saveMutation.isPending}
+                  >
+                    {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save Draft
+                  </Button>
+                  <Button 
+                    type="button" 
+                    className="bg-gradient-to-r from-primary to-[#EC4899] hover:opacity-90"
+                    onClick={() => onGenerateVideo(form.getValues())}
+                    disabled={generateMutation.isPending || generatingPreview}
+                  >
+                    {(generateMutation.isPending || generatingPreview) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Generate Video
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+          
+          {/* Preview Side */}
+          <VideoPreview 
+            isGenerating={generatingPreview} 
+            previewData={previewData}
+            selectedPlatforms={form.watch("platforms")}
+            jobId={jobId}
+            onGenerationComplete={handleGenerationComplete}
+            onGenerationFailed={handleGenerationFailed}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,43 +1,94 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
 import { Film, Youtube, Instagram, ExternalLink, Download, Share2, Play, Pause } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useWebSocket, type WebSocketMessage } from "@/hooks/use-websocket";
 import placeholderVideo from "@/assets/placeholder-video.svg";
+import { PublicConnectedAccount, Publication } from "@shared/schema";
 
 interface VideoPreviewProps {
   isGenerating: boolean;
   previewData: any | null;
   selectedPlatforms: string[];
+  jobId?: string | null;
+  onGenerationComplete?: (video: any) => void;
+  onGenerationFailed?: (error: string) => void;
 }
 
-export function VideoPreview({ isGenerating, previewData, selectedPlatforms }: VideoPreviewProps) {
+// Labels for the generation stages reported by the server
+const stageLabels: Record<string, string> = {
+  frame: "Rendering frames",
+  thumbnail: "Creating thumbnail",
+  encode: "Encoding video",
+  voiceover: "Recording voiceover",
+  music: "Mixing music",
+  subtitles: "Adding subtitles",
+};
+
+export function VideoPreview({ 
+  isGenerating, 
+  previewData, 
+  selectedPlatforms, 
+  jobId, 
+  onGenerationComplete, 
+  onGenerationFailed 
+}: VideoPreviewProps) {
   const [progress, setProgress] = useState(0);
+  const [stage, setStage] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
-  const [publishResults, setPublishResults] = useState<any[] | null>(null);
+  const [publications, setPublications] = useState<Publication[] | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  // Idempotency key of the publish request in progress or whose outcome is
+  // unknown, so retrying it never uploads the video twice
+  const idempotencyKeyRef = useRef<{ videoId: number; key: string } | null>(null);
   const { toast } = useToast();
+  
+  // Accounts the video can be published to
+  const { data: accounts = [] } = useQuery<PublicConnectedAccount[]>({
+    queryKey: ['/api/connected-accounts'],
+  });
+  
+  const activeAccountsFor = (platform: string) =>
+    accounts.filter(account => account.platform === platform && account.status === 'active');
 
-  // Simulate progress when generating
+  // Track progress of the current generation job from server events
+  const handleMessage = useCallback((message: WebSocketMessage) => {
+    if (!jobId || message.jobId !== jobId) return;
+    
+    switch (message.type) {
+      case 'generation_progress':
+        setStage(message.stage);
+        setProgress(message.progress);
+        break;
+      case 'generation_completed':
+        setStage(null);
+        setProgress(100);
+        onGenerationComplete?.(message.video);
+        break;
+      case 'generation_failed':
+        setStage(null);
+        onGenerationFailed?.(message.error || 'Video generation failed');
+        break;
+    }
+  }, [jobId, onGenerationComplete, onGenerationFailed]);
+  
+  useWebSocket({ onMessage: handleMessage });
+  
+  // Reset progress when a new job starts
   useEffect(() => {
     if (isGenerating) {
       setProgress(0);
-      const interval = setInterval(() => {
-        setProgress((prev) => {
-          const increment = Math.random() * 10;
-          const newProgress = Math.min(prev + increment, 95); // Caps at 95% until complete
-          return newProgress;
-        });
-      }, 500);
-      
-      return () => clearInterval(interval);
+      setStage(null);
     } else if (previewData) {
       setProgress(100);
     }
-  }, [isGenerating, previewData]);
+  }, [isGenerating, jobId, previewData]);
 
   // Handle video playback
   const togglePlayback = () => {
@@ -96,35 +147,62 @@ export function VideoPreview({ isGenerating, previewData, selectedPlatforms }: V
       });
       return;
     }
+    
+    // Publish to every connected account on the selected platforms
+    const accountIds = selectedPlatforms.flatMap(platform => activeAccountsFor(platform).map(account => account.id));
+    
+    if (accountIds.length === 0) {
+      toast({
+        title: "No connected accounts",
+        description: "Connect an account for the selected platforms before publishing.",
+        variant: "destructive"
+      });
+      return;
+    }
 
+    // Guards against a second click landing before the disabled state renders
+    if (isPublishing) return;
     setIsPublishing(true);
     
+    const pending = idempotencyKeyRef.current;
+    const idempotencyKey = pending && pending.videoId === previewData.id ? pending.key : crypto.randomUUID();
+    idempotencyKeyRef.current = { videoId: previewData.id, key: idempotencyKey };
+    
     try {
       const response = await apiRequest({
         method: "POST", 
         url: `/api/videos/${previewData.id}/publish`,
-        body: { platforms: selectedPlatforms }
+        body: { accountIds, idempotencyKey }
       });
       
+      // The server has settled this request, so publishing again is a new attempt
+      idempotencyKeyRef.current = null;
+      
       if (!response.ok) {
         throw new Error("Failed to publish video");
       }
       
-      const data = await response.json();
-      setPublishResults(data.results);
+      const data: { publications: Publication[] } = await response.json();
+      setPublications(data.publications);
       
-      // Check if there were any successful publishes
-      const successfulPublishes = data.results.filter((r: any) => r.success);
+      const succeeded = data.publications.filter((p) => p.status === "succeeded");
+      const retrying = data.publications.filter((p) => p.status === "retrying");
       
-      if (successfulPublishes.length > 0) {
+      if (succeeded.length > 0) {
         toast({
           title: "Publishing successful",
-          description: `Video published to ${successfulPublishes.length} platform(s)`,
+          description: `Video published to ${succeeded.length} account(s)` + 
+            (retrying.length > 0 ? `, retrying ${retrying.length} more` : ""),
+        });
+      } else if (retrying.length > 0) {
+        toast({
+          title: "Publishing delayed",
+          description: "The platform could not be reached. Publishing will be retried automatically.",
         });
       } else {
         toast({
           title: "Publishing failed",
-          description: "Could not publish to any platforms. Check the platform authentication.",
+          description: "Could not publish to any accounts. Check the account connections.",
           variant: "destructive"
         });
       }
@@ -245,7 +323,14 @@ export function VideoPreview({ isGenerating, previewData, selectedPlatforms }: V
       <div className="space-y-4">
         {isGenerating && (
           <div>
-            <h4 className="text-sm font-medium mb-2">Generation Progress</h4>
+            <h4 className="text-sm font-medium mb-2">
+              Generation Progress
+              {stage && (
+                <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                  {stageLabels[stage] || stage}
+                </span>
+              )}
+            </h4>
             <div className="flex items-center space-x-2">
               <Progress value={progress} className="h-2 flex-1" />
               <span className="text-xs text-gray-500 dark:text-gray-400">{Math.floor(progress)}%</span>
@@ -272,25 +357,28 @@ export function VideoPreview({ isGenerating, previewData, selectedPlatforms }: V
                     </div>
                     
                     {/* Connection status indicator */}
-                    {publishResults ? (
-                      // Show status based on publish results
-                      publishResults.find((r) => r.platform === platform)?.success ? (
-                        <span className="text-xs text-green-500 flex items-center">
-                          <span className="w-2 h-2 bg-green-500 rounded-full mr-1"></span>
-                          Connected
-                        </span>
-                      ) : (
-                        <Button variant="ghost" size="sm" className="text-xs text-red-500 hover:text-red-600">
-                          Connect Account
-                        </Button>
-                      )
+                    {activeAccountsFor(platform).length > 0 ? (
+                      <div className="text-right">
+                        {activeAccountsFor(platform).map((account) => {
+                          const publication = publications?.find((p) => p.accountId === account.id);
+                          const [textColor, dotColor] = publication?.status === "failed" ? ["text-red-500", "bg-red-500"] 
+                            : publication?.status === "retrying" ? ["text-amber-500", "bg-amber-500"] 
+                            : ["text-green-500", "bg-green-500"];
+                          return (
+                            <span 
+                              key={account.id} 
+                              className={`text-xs flex items-center justify-end ${textColor}`}
+                              title={publication?.error || undefined}
+                            >
+                              <span className={`w-2 h-2 rounded-full mr-1 ${dotColor}`}></span>
+                              {account.displayName || account.externalAccountId}
+                            </span>
+                          );
+                        })}
+                      </div>
                     ) : (
-                      <Button 
-                        variant="ghost" 
-                        size="sm" 
-                        className="text-xs text-gray-500 hover:text-primary"
-                      >
-                        Connect Account
+                      <Button variant="ghost" size="sm" className="text-xs text-gray-500 hover:text-primary" asChild>
+                        <Link href="/publish">Connect Account</Link>
                       </Button>
                     )}
                   </div>
@@ -8,12 +8,23 @@ export interface WebSocketMessage {
   [key: string]: any;
 }
 
-export function useWebSocket() {
+interface UseWebSocketOptions {
+  // Called for every message received, including ones sent before re-render
+  onMessage?: (message: WebSocketMessage) => void;
+}
+
+export function useWebSocket({ onMessage }: UseWebSocketOptions = {}) {
   const [status, setStatus] = useState<WebSocketStatus>('closed');
   const [messages, setMessages] = useState<WebSocketMessage[]>([]);
   const socketRef = useRef<WebSocket | null>(null);
+  const onMessageRef = useRef(onMessage);
   const { toast } = useToast();
   
+  // Keep the latest handler without reconnecting the socket
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+  
   // Initialize WebSocket connection
   useEffect(() => {
     if (!socketRef.current) {
@@ -38,6 +49,7 @@ export function useWebSocket() {
           
           // Add message to state
           setMessages((prev) => [...prev, message]);
+          onMessageRef.current?.(message);
           
           // Handle different message types
           if (message.type === 'welcome') {
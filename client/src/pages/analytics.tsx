@@ -0,0 +1,549 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Header } from "@/components/layout/header";
+import { Sidebar } from "@/components/layout/sidebar";
+import { PageContainer } from "@/components/layout/page-container";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Download, Filter, Loader2, TrendingDown, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PLATFORM_OPTIONS, TIME_RANGES } from "@/lib/constants";
+
+interface MetricTotals {
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  engagementRate: number;
+}
+
+interface AnalyticsOverviewData {
+  range: string;
+  totals: MetricTotals;
+  previousTotals: MetricTotals;
+  daily: (MetricTotals & { date: string })[];
+}
+
+interface PlatformBreakdown extends MetricTotals {
+  platform: string;
+  publications: number;
+}
+
+interface ContentPerformance extends MetricTotals {
+  videoId: number;
+  title: string;
+  thumbnailUrl: string | null;
+  platform: string;
+  totalViews: number;
+  publishedAt: string | null;
+}
+
+const PLATFORM_STYLES: Record<string, { label: string; icon: string; iconClass: string; headerClass: string }> = {
+  youtube: {
+    label: "YouTube",
+    icon: "M23.498 6.186a3.016 3.016 0 0 0-2.122-2.136C19.505 3.545 12 3.545 12 3.545s-7.505 0-9.377.505A3.017 3.017 0 0 0 .502 6.186C0 8.07 0 12 0 12s0 3.93.502 5.814a3.016 3.016 0 0 0 2.122 2.136c1.871.505 9.376.505 9.376.505s7.505 0 9.377-.505a3.015 3.015 0 0 0 2.122-2.136C24 15.93 24 12 24 12s0-3.93-.502-5.814zM9.545 15.568V8.432L15.818 12l-6.273 3.568z",
+    iconClass: "text-red-500",
+    headerClass: "bg-gradient-to-r from-red-500/10 to-red-600/10 dark:from-red-500/5 dark:to-red-600/5"
+  },
+  instagram: {
+    label: "Instagram",
+    icon: "M12 2.163c3.204 0 3.584.012 4.85.07 3.252.148 4.771 1.691 4.919 4.919.058 1.265.069 1.645.069 4.849 0 3.205-.012 3.584-.069 4.849-.149 3.225-1.664 4.771-4.919 4.919-1.266.058-1.644.07-4.85.07-3.204 0-3.584-.012-4.849-.07-3.26-.149-4.771-1.699-4.919-4.92-.058-1.265-.07-1.644-.07-4.849 0-3.204.013-3.583.07-4.849.149-3.227 1.664-4.771 4.919-4.919 1.266-.057 1.645-.069 4.849-.069zM12 0C8.741 0 8.333.014 7.053.072 2.695.272.273 2.69.073 7.052.014 8.333 0 8.741 0 12c0 3.259.014 3.668.072 4.948.2 4.358 2.618 6.78 6.98 6.98C8.333 23.986 8.741 24 12 24c3.259 0 3.668-.014 4.948-.072 4.354-.2 6.782-2.618 6.979-6.98.059-1.28.073-1.689.073-4.948 0-3.259-.014-3.667-.072-4.947-.196-4.354-2.617-6.78-6.979-6.98C15.668.014 15.259 0 12 0zm0 5.838a6.162 6.162 0 1 0 0 12.324 6.162 6.162 0 0 0 0-12.324zM12 16a4 4 0 1 1 0-8 4 4 0 0 1 0 8zm6.406-11.845a1.44 1.44 0 1 0 0 2.881 1.44 1.44 0 0 0 0-2.881z",
+    iconClass: "text-pink-500",
+    headerClass: "bg-gradient-to-r from-pink-500/10 to-purple-600/10 dark:from-pink-500/5 dark:to-purple-600/5"
+  },
+  tiktok: {
+    label: "TikTok",
+    icon: "M19.59 6.69a4.83 4.83 0 0 1-3.77-4.25V2h-3.45v13.67a2.89 2.89 0 0 1-5.2 1.74 2.89 2.89 0 0 1 2.31-4.64 2.93 2.93 0 0 1 .88.13V9.4a6.84 6.84 0 0 0-1-.05A6.33 6.33 0 0 0 5 20.1a6.34 6.34 0 0 0 10.86-4.43v-7a8.16 8.16 0 0 0 4.77 1.52v-3.4a4.85 4.85 0 0 1-1-.1z",
+    iconClass: "",
+    headerClass: "bg-gradient-to-r from-gray-500/10 to-gray-600/10 dark:from-gray-400/5 dark:to-gray-500/5"
+  }
+};
+
+// Columns offered by /api/analytics/export, in its default order
+const EXPORT_COLUMNS = [
+  { key: "videoId", label: "Video ID" },
+  { key: "title", label: "Title" },
+  { key: "platform", label: "Platform" },
+  { key: "views", label: "Views" },
+  { key: "likes", label: "Likes" },
+  { key: "comments", label: "Comments" },
+  { key: "shares", label: "Shares" },
+  { key: "engagementRate", label: "Engagement Rate" },
+  { key: "totalViews", label: "Total Views" },
+  { key: "publishedAt", label: "Published At" },
+];
+
+const EXPORT_FORMATS = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+  { value: "json", label: "JSON" },
+];
+
+const chartConfig = {
+  views: { label: "Views", color: "hsl(var(--primary))" },
+  likes: { label: "Likes", color: "#ec4899" },
+  comments: { label: "Comments", color: "#f59e0b" }
+} satisfies ChartConfig;
+
+const formatNumber = (value: number) =>
+  value >= 1000 ? `${(value / 1000).toFixed(1)}K` : value.toLocaleString();
+
+function PlatformIcon({ platform, className }: { platform: string; className: string }) {
+  const style = PLATFORM_STYLES[platform];
+  if (!style) return null;
+
+  return (
+    <svg className={`${className} ${style.iconClass}`} viewBox="0 0 24 24" fill="currentColor">
+      <path d={style.icon} />
+    </svg>
+  );
+}
+
+function StatCard({ label, value, current, previous, suffix = "" }: {
+  label: string;
+  value: number;
+  current: number;
+  previous: number;
+  suffix?: string;
+}) {
+  // No change indicator without a previous period to compare against
+  const change = previous > 0 ? ((current - previous) / previous) * 100 : null;
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+        <p className="text-2xl font-semibold mt-1">
+          {suffix ? `${value}${suffix}` : formatNumber(value)}
+        </p>
+        {change !== null && (
+          <p className={`text-xs mt-2 flex items-center ${change >= 0 ? "text-green-600" : "text-red-600"}`}>
+            {change >= 0 ? <TrendingUp className="h-3 w-3 mr-1" /> : <TrendingDown className="h-3 w-3 mr-1" />}
+            {Math.abs(change).toFixed(1)}% vs previous period
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ContentTable({ rows, isLoading }: { rows?: ContentPerformance[]; isLoading: boolean }) {
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!rows || rows.length === 0) {
+    return (
+      <p className="text-gray-500 dark:text-gray-400 text-center py-12">
+        No published content has collected views in this period yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-gray-200 dark:border-gray-800">
+            <th className="text-left font-medium text-sm py-3 px-4">Video</th>
+            <th className="text-left font-medium text-sm py-3 px-4">Platform</th>
+            <th className="text-left font-medium text-sm py-3 px-4">Views</th>
+            <th className="text-left font-medium text-sm py-3 px-4">Total Views</th>
+            <th className="text-left font-medium text-sm py-3 px-4">Engagement</th>
+            <th className="text-left font-medium text-sm py-3 px-4">Published</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={`${row.videoId}-${row.platform}`}
+              className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-900/50"
+            >
+              <td className="py-3 px-4">
+                <div className="flex items-center">
+                  {row.thumbnailUrl ? (
+                    <img src={row.thumbnailUrl} alt="" className="w-10 h-6 object-cover rounded mr-3" />
+                  ) : (
+                    <div className="w-10 h-6 bg-gray-100 dark:bg-gray-800 rounded mr-3"></div>
+                  )}
+                  <span className="font-medium">{row.title}</span>
+                </div>
+              </td>
+              <td className="py-3 px-4">
+                <div className="flex items-center">
+                  <PlatformIcon platform={row.platform} className="w-4 h-4 mr-2" />
+                  {PLATFORM_STYLES[row.platform]?.label || row.platform}
+                </div>
+              </td>
+              <td className="py-3 px-4">{row.views.toLocaleString()}</td>
+              <td className="py-3 px-4">{row.totalViews.toLocaleString()}</td>
+              <td className="py-3 px-4">{row.engagementRate}%</td>
+              <td className="py-3 px-4 text-gray-500 dark:text-gray-400">
+                {row.publishedAt ? formatDistanceToNow(new Date(row.publishedAt), { addSuffix: true }) : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Downloads per-video metrics for the current time range and platform filter
+ */
+function ExportDialog({ timeRange, platform }: { timeRange: string; platform: string }) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState("csv");
+  const [columns, setColumns] = useState<string[]>(EXPORT_COLUMNS.map((column) => column.key));
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    // Keep the default column order regardless of click order
+    setColumns((prev) => EXPORT_COLUMNS
+      .map((column) => column.key)
+      .filter((columnKey) => columnKey === key ? checked : prev.includes(columnKey)));
+  };
+
+  const handleExport = () => {
+    const params = new URLSearchParams({ range: timeRange, format, columns: columns.join(",") });
+    if (platform !== "all") params.set("platform", platform);
+
+    // A plain navigation lets the browser stream the file straight to disk
+    const link = document.createElement("a");
+    link.href = `/api/analytics/export?${params}`;
+    link.rel = "noopener";
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    setOpen(false);
+  };
+
+  const rangeLabel = TIME_RANGES.find((range) => range.value === timeRange)?.label;
+  const platformLabel = PLATFORM_OPTIONS.find((option) => option.id === platform)?.label || "all platforms";
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export analytics</DialogTitle>
+          <DialogDescription>
+            Per-video metrics for {rangeLabel?.toLowerCase()} on {platformLabel}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={format} onValueChange={setFormat} className="flex space-x-4">
+              {EXPORT_FORMATS.map((option) => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value} id={`export-format-${option.value}`} />
+                  <Label htmlFor={`export-format-${option.value}`} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {EXPORT_COLUMNS.map((column) => (
+                <div key={column.key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`export-column-${column.key}`}
+                    checked={columns.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label htmlFor={`export-column-${column.key}`} className="font-normal">{column.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={columns.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Analytics() {
+  const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [timeRange, setTimeRange] = useState("7days");
+  const [platformFilter, setPlatformFilter] = useState("all");
+
+  const { data: overview, isLoading: overviewLoading } = useQuery<AnalyticsOverviewData>({
+    queryKey: [`/api/analytics/overview?range=${timeRange}`],
+  });
+
+  const { data: platforms, isLoading: platformsLoading } = useQuery<PlatformBreakdown[]>({
+    queryKey: [`/api/analytics/platforms?range=${timeRange}`],
+  });
+
+  const { data: content, isLoading: contentLoading } = useQuery<ContentPerformance[]>({
+    queryKey: [`/api/analytics/content?range=${timeRange}`],
+  });
+
+  const { data: filteredContent, isLoading: filteredContentLoading } = useQuery<ContentPerformance[]>({
+    queryKey: [platformFilter === "all"
+      ? `/api/analytics/content?range=${timeRange}`
+      : `/api/analytics/content?range=${timeRange}&platform=${platformFilter}`],
+  });
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-neutral dark:bg-gray-950 text-dark dark:text-white">
+      {sidebarOpen && <Sidebar />}
+      
+      <PageContainer>
+        <Header 
+          title="Analytics" 
+          onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} 
+        />
+        
+        <main className="flex-1 overflow-y-auto p-6">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+            <div>
+              <h1 className="text-2xl font-bold mb-1">Analytics Dashboard</h1>
+              <p className="text-gray-600 dark:text-gray-400">Track your content performance across platforms</p>
+            </div>
+            
+            <div className="flex items-center space-x-2">
+              <Select value={timeRange} onValueChange={setTimeRange}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Select time range" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_RANGES.map((range) => (
+                    <SelectItem key={range.value} value={range.value}>
+                      {range.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              
+              <ExportDialog timeRange={timeRange} platform={platformFilter} />
+            </div>
+          </div>
+          
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <StatCard
+              label="Views"
+              value={overview?.totals.views ?? 0}
+              current={overview?.totals.views ?? 0}
+              previous={overview?.previousTotals.views ?? 0}
+            />
+            <StatCard
+              label="Likes"
+              value={overview?.totals.likes ?? 0}
+              current={overview?.totals.likes ?? 0}
+              previous={overview?.previousTotals.likes ?? 0}
+            />
+            <StatCard
+              label="Comments"
+              value={overview?.totals.comments ?? 0}
+              current={overview?.totals.comments ?? 0}
+              previous={overview?.previousTotals.comments ?? 0}
+            />
+            <StatCard
+              label="Engagement"
+              value={overview?.totals.engagementRate ?? 0}
+              current={overview?.totals.engagementRate ?? 0}
+              previous={overview?.previousTotals.engagementRate ?? 0}
+              suffix="%"
+            />
+          </div>
+          
+          <Tabs defaultValue="overview" className="mb-6">
+            <TabsList>
+              <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="platforms">Platform Breakdown</TabsTrigger>
+              <TabsTrigger value="content">Content Performance</TabsTrigger>
+              <TabsTrigger value="audience">Audience</TabsTrigger>
+            </TabsList>
+            
+            <TabsContent value="overview" className="mt-6">
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+                <Card className="lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle>Daily Performance</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {overviewLoading ? (
+                      <div className="flex justify-center py-12">
+                        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                      </div>
+                    ) : (
+                      <ChartContainer config={chartConfig} className="h-[280px] w-full aspect-auto">
+                        <LineChart data={overview?.daily || []}>
+                          <CartesianGrid vertical={false} />
+                          <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+                          <YAxis tickLine={false} axisLine={false} width={40} />
+                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <Line dataKey="views" type="monotone" stroke="var(--color-views)" strokeWidth={2} dot={false} />
+                          <Line dataKey="likes" type="monotone" stroke="var(--color-likes)" strokeWidth={2} dot={false} />
+                          <Line dataKey="comments" type="monotone" stroke="var(--color-comments)" strokeWidth={2} dot={false} />
+                        </LineChart>
+                      </ChartContainer>
+                    )}
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Platform Performance</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {platforms && platforms.length > 0 ? platforms.map((platform) => {
+                      const share = overview?.totals.views ? (platform.views / overview.totals.views) * 100 : 0;
+                      return (
+                        <div key={platform.platform}>
+                          <div className="flex items-center justify-between text-sm mb-1">
+                            <div className="flex items-center">
+                              <PlatformIcon platform={platform.platform} className="w-4 h-4 mr-2" />
+                              {PLATFORM_STYLES[platform.platform]?.label || platform.platform}
+                            </div>
+                            <span className="font-medium">{formatNumber(platform.views)}</span>
+                          </div>
+                          <div className="h-2 rounded bg-gray-100 dark:bg-gray-800">
+                            <div className="h-2 rounded bg-primary" style={{ width: `${share}%` }} />
+                          </div>
+                        </div>
+                      );
+                    }) : (
+                      <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+                        {platformsLoading ? "Loading..." : "No platform data yet"}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle>Recent Content Performance</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ContentTable rows={content?.slice(0, 5)} isLoading={contentLoading} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+            
+            <TabsContent value="platforms" className="mt-6">
+              {platforms && platforms.length === 0 && (
+                <p className="text-gray-500 dark:text-gray-400 text-center py-12">
+                  Publish a video to a connected account to see platform analytics
+                </p>
+              )}
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {platforms?.map((platform) => (
+                  <Card key={platform.platform}>
+                    <CardHeader className={PLATFORM_STYLES[platform.platform]?.headerClass}>
+                      <div className="flex items-center">
+                        <PlatformIcon platform={platform.platform} className="w-6 h-6 mr-3" />
+                        <CardTitle>{PLATFORM_STYLES[platform.platform]?.label || platform.platform} Analytics</CardTitle>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="pt-6">
+                      <div className="grid grid-cols-2 gap-4 mb-4">
+                        <div>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">Views</p>
+                          <p className="text-xl font-semibold">{formatNumber(platform.views)}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">Likes</p>
+                          <p className="text-xl font-semibold">{formatNumber(platform.likes)}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">Comments</p>
+                          <p className="text-xl font-semibold">{formatNumber(platform.comments)}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">Engagement</p>
+                          <p className="text-xl font-semibold">{platform.engagementRate}%</p>
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Across {platform.publications} {platform.publications === 1 ? "publication" : "publications"}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </TabsContent>
+            
+            <TabsContent value="content" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Content Performance</CardTitle>
+                    <Select value={platformFilter} onValueChange={setPlatformFilter}>
+                      <SelectTrigger className="w-[180px]">
+                        <Filter className="h-4 w-4 mr-2" />
+                        <SelectValue placeholder="Filter by platform" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All platforms</SelectItem>
+                        {PLATFORM_OPTIONS.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ContentTable rows={filteredContent} isLoading={filteredContentLoading} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+            <TabsContent value="audience" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Audience Demographics</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-gray-500 dark:text-gray-400 text-center py-12">
+                    Audience demographics and insights will be displayed here
+                  </p>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </main>
+      </PageContainer>
+    </div>
+  );
+}
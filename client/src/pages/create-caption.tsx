@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { PageContainer } from "@/components/layout/page-container";
 import { Header } from "@/components/layout/header";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
@@ -16,6 +16,7 @@ import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   FileText, 
   Image, 
@@ -27,27 +28,15 @@ import {
   ThumbsUp,
   Instagram,
   Youtube,
-  Hash
+  Hash,
+  Link2,
+  Loader2
 } from "lucide-react";
 import { SiTiktok } from "react-icons/si";
 import { useToast } from "@/hooks/use-toast";
-
-// Form schema for caption generation
-const captionFormSchema = z.object({
-  topic: z.string().min(3, "Topic must be at least 3 characters").max(100, "Topic is too long"),
-  mood: z.enum(["professional", "casual", "funny", "inspirational", "serious"]),
-  platform: z.enum(["instagram", "tiktok", "youtube"]),
-  includeHashtags: z.boolean().default(true),
-  includeEmojis: z.boolean().default(true),
-  toneStrength: z.number().min(1).max(5),
-  imageDescription: z.string().optional(),
-  callToAction: z.enum(["none", "follow", "like", "comment", "share", "visit", "custom"]),
-  customCta: z.string().optional(),
-  language: z.enum(["english", "spanish", "french", "german", "portuguese", "japanese", "korean"]),
-  captionLength: z.enum(["short", "medium", "long"]),
-});
-
-type CaptionFormValues = z.infer<typeof captionFormSchema>;
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { captionFormSchema, platformCaptionLimits, type Caption, type CaptionFormValues, type Video } from "@shared/schema";
+import { countCaptionCharacters } from "@shared/caption-text";
 
 // Mood descriptions for the user interface
 const moodDescriptions = {
@@ -63,19 +52,19 @@ const platformDetails = {
   instagram: {
     icon: <Instagram className="h-5 w-5" />,
     description: "Visual-first platform with carousel, reels, and stories",
-    hashtagLimit: 30,
+    hashtagLimit: platformCaptionLimits.instagram.hashtagLimit,
     captionLengthRecommendation: "Keep under 2,200 characters (about 300-500 words)"
   },
   tiktok: {
     icon: <SiTiktok className="h-5 w-5" />,
     description: "Short-form vertical videos with trending sounds",
-    hashtagLimit: 5, 
+    hashtagLimit: platformCaptionLimits.tiktok.hashtagLimit,
     captionLengthRecommendation: "Keep short, around 100-150 characters"
   },
   youtube: {
     icon: <Youtube className="h-5 w-5" />,
     description: "Longer videos with detailed descriptions and timestamps",
-    hashtagLimit: 15,
+    hashtagLimit: platformCaptionLimits.youtube.hashtagLimit,
     captionLengthRecommendation: "Detailed descriptions up to 5,000 characters"
   }
 };
@@ -87,145 +76,19 @@ const captionLengthGuide = {
   long: "300+ characters (multiple paragraphs)"
 };
 
-// Helper to generate random captions
-const generateCaption = (data: CaptionFormValues): string => {
-  // This would be replaced with an actual AI-powered API call in production
-  
-  // Start with greeting appropriate to platform and mood
-  let caption = "";
-  const emoji = data.includeEmojis ? getRandomEmojis(data.mood, 1) : "";
-  
-  // Add intro based on mood
-  switch (data.mood) {
-    case "professional":
-      caption += `Today I'm sharing insights about ${data.topic}. ${emoji}\n\n`;
-      break;
-    case "casual":
-      caption += `Hey guys! Check out this ${data.topic} content! ${emoji}\n\n`;
-      break;
-    case "funny":
-      caption += `Who else struggles with ${data.topic}? This is too real! ${emoji}\n\n`;
-      break;
-    case "inspirational":
-      caption += `Never give up on your ${data.topic} journey. Remember that every day is a new opportunity. ${emoji}\n\n`;
-      break;
-    case "serious":
-      caption += `We need to address ${data.topic}. This is an important conversation. ${emoji}\n\n`;
-      break;
-  }
-  
-  // Add a middle section based on caption length
-  if (data.captionLength === "medium" || data.captionLength === "long") {
-    caption += `${data.topic} can transform the way you think about content creation. I've found that consistent practice makes a huge difference.\n\n`;
-  }
-  
-  if (data.captionLength === "long") {
-    caption += `One of the key insights I've discovered about ${data.topic} is that it requires both creativity and strategy. The most successful creators understand this balance.\n\n`;
-  }
-  
-  // Add image description if provided
-  if (data.imageDescription && data.imageDescription.trim() !== "") {
-    caption += `📷 ${data.imageDescription}\n\n`;
-  }
-  
-  // Add call to action
-  switch (data.callToAction) {
-    case "follow":
-      caption += `Follow for more ${data.topic} content! ${data.includeEmojis ? "👉 " : ""}`;
-      break;
-    case "like":
-      caption += `If you enjoyed this, hit that like button! ${data.includeEmojis ? "❤️ " : ""}`;
-      break;
-    case "comment":
-      caption += `What are your thoughts on ${data.topic}? Share in the comments! ${data.includeEmojis ? "💬 " : ""}`;
-      break;
-    case "share":
-      caption += `If you found this helpful, share with a friend who needs to see this! ${data.includeEmojis ? "🔄 " : ""}`;
-      break;
-    case "visit":
-      caption += `Learn more at the link in bio! ${data.includeEmojis ? "🔗 " : ""}`;
-      break;
-    case "custom":
-      if (data.customCta) {
-        caption += `${data.customCta} ${data.includeEmojis ? "✨ " : ""}`;
-      }
-      break;
-  }
-  
-  // Add hashtags based on topic if requested
-  if (data.includeHashtags) {
-    caption += "\n\n";
-    const hashtags = generateHashtags(data.topic, data.platform);
-    caption += hashtags;
-  }
-  
-  return caption;
-};
-
-// Generate hashtags based on topic and platform
-const generateHashtags = (topic: string, platform: string): string => {
-  const baseHashtags = ["content", "creator", "socialmedia", "digital"];
-  const topicWords = topic.toLowerCase().split(" ");
-  
-  // Generate hashtags based on the topic
-  const topicHashtags = topicWords.map(word => {
-    if (word.length < 3) return null;
-    return word.replace(/[^a-zA-Z0-9]/g, "");
-  }).filter(Boolean);
-  
-  // Platform-specific hashtags
-  const platformHashtags: Record<string, string[]> = {
-    instagram: ["instagram", "instagramreels", "instagramstories", "igdaily"],
-    tiktok: ["tiktok", "tiktokviral", "fyp", "foryoupage"],
-    youtube: ["youtube", "youtuber", "youtubechannel", "video"],
-  };
-  
-  // Combine all hashtags
-  const allHashtags = [
-    ...topicHashtags,
-    ...baseHashtags,
-    ...(platformHashtags[platform] || [])
-  ];
-  
-  // Limit number of hashtags based on platform
-  let maxHashtags = 30; // Default for Instagram
-  if (platform === "tiktok") maxHashtags = 5;
-  if (platform === "youtube") maxHashtags = 15;
-  
-  // Shuffle and select limited number of hashtags
-  const shuffled = allHashtags.sort(() => 0.5 - Math.random());
-  const selected = shuffled.slice(0, maxHashtags);
-  
-  return selected.map(tag => `#${tag}`).join(" ");
-};
-
-// Get random emojis based on mood
-const getRandomEmojis = (mood: string, count: number = 1): string => {
-  const moodEmojis: Record<string, string[]> = {
-    professional: ["💼", "📊", "📈", "🔍", "📱", "💻", "🤝", "📝"],
-    casual: ["😊", "👋", "✌️", "🙌", "👍", "💕", "✨", "🎉"],
-    funny: ["😂", "🤣", "😜", "🤪", "😆", "😅", "👻", "🙃"],
-    inspirational: ["✨", "💫", "🌟", "🔥", "💪", "🙏", "❤️", "🌈"],
-    serious: ["📢", "❗", "⚠️", "🔴", "📌", "🧐", "🤔", "💭"],
-  };
-  
-  const emojisForMood = moodEmojis[mood] || moodEmojis.casual;
-  let result = "";
-  
-  for (let i = 0; i < count; i++) {
-    const randomIndex = Math.floor(Math.random() * emojisForMood.length);
-    result += emojisForMood[randomIndex];
-  }
-  
-  return result;
-};
-
 export default function CreateCaption() {
-  const [generatedCaptions, setGeneratedCaptions] = useState<string[]>([]);
-  const [currentCaption, setCurrentCaption] = useState<string>("");
+  const [generatedCaptions, setGeneratedCaptions] = useState<Caption[]>([]);
+  const [currentCaption, setCurrentCaption] = useState<Caption | null>(null);
   const [copied, setCopied] = useState(false);
+  // Bumped on regenerate so the same options produce new wording
+  const [seed, setSeed] = useState(0);
+  const [attachVideoId, setAttachVideoId] = useState<string>("");
   const { toast } = useToast();
 
+  const { data: videos = [] } = useQuery<Video[]>({
+    queryKey: ['/api/videos'],
+  });
+
   // Form setup
   const form = useForm<CaptionFormValues>({
     resolver: zodResolver(captionFormSchema),
@@ -244,28 +107,77 @@ export default function CreateCaption() {
     },
   });
 
-  // Generate multiple captions based on form data
+  // Generate (and save) 3 caption variations on the server
+  const generateMutation = useMutation({
+    mutationFn: async ({ data, seed }: { data: CaptionFormValues; seed: number }) => {
+      const response = await apiRequest({
+        method: "POST",
+        url: "/api/captions/generate",
+        body: { ...data, seed, count: 3 },
+      });
+      return response.json();
+    },
+    onSuccess: (captions: Caption[]) => {
+      setGeneratedCaptions(captions);
+      setCurrentCaption(captions[0] || null);
+      queryClient.invalidateQueries({ queryKey: ['/api/captions'] });
+      
+      toast({
+        title: "Captions Generated",
+        description: "We've created some caption options for your content.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not generate captions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Attach the selected caption to a video so it is used when publishing
+  const attachMutation = useMutation({
+    mutationFn: async ({ captionId, videoId }: { captionId: number; videoId: number }) => {
+      const response = await apiRequest({
+        method: "PUT",
+        url: `/api/captions/${captionId}`,
+        body: { videoId },
+      });
+      return response.json();
+    },
+    onSuccess: (caption: Caption) => {
+      // Attaching replaces any caption used for the same platform before
+      setGeneratedCaptions((prev) => prev.map((c) =>
+        c.id === caption.id ? caption : c.videoId === caption.videoId ? { ...c, videoId: null } : c
+      ));
+      setCurrentCaption(caption);
+      queryClient.invalidateQueries({ queryKey: ['/api/captions'] });
+      
+      const video = videos.find((v) => v.id === caption.videoId);
+      toast({
+        title: "Caption attached",
+        description: `It will be used when publishing "${video?.title}" to ${caption.platform}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not attach caption",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: CaptionFormValues) => {
-    // In a real application, this would call an API to generate captions
-    const captions: string[] = [];
-    
-    // Generate 3 variations
-    for (let i = 0; i < 3; i++) {
-      captions.push(generateCaption(data));
-    }
-    
-    setGeneratedCaptions(captions);
-    setCurrentCaption(captions[0]);
-    
-    toast({
-      title: "Captions Generated",
-      description: "We've created some caption options for your content.",
-    });
+    setSeed(0);
+    generateMutation.mutate({ data, seed: 0 });
   };
 
   // Copy caption to clipboard
   const copyToClipboard = () => {
-    navigator.clipboard.writeText(currentCaption);
+    if (!currentCaption) return;
+    navigator.clipboard.writeText(currentCaption.text);
     setCopied(true);
     
     toast({
@@ -278,14 +190,21 @@ export default function CreateCaption() {
 
   // Regenerate a new set of captions
   const regenerateCaptions = () => {
-    onSubmit(form.getValues());
+    const nextSeed = seed + 1;
+    setSeed(nextSeed);
+    generateMutation.mutate({ data: form.getValues(), seed: nextSeed });
   };
 
   // Select a caption from the generated options
-  const selectCaption = (caption: string) => {
+  const selectCaption = (caption: Caption) => {
     setCurrentCaption(caption);
   };
 
+  const attachCaption = () => {
+    if (!currentCaption || !attachVideoId) return;
+    attachMutation.mutate({ captionId: currentCaption.id, videoId: parseInt(attachVideoId) });
+  };
+
   return (
     <PageContainer>
       <Header title="Create Caption" />
@@ -665,7 +584,10 @@ export default function CreateCaption() {
                 />
                 
                 <div className="pt-4">
-                  <Button type="submit" className="w-full">Generate Captions</Button>
+                  <Button type="submit" className="w-full" disabled={generateMutation.isPending}>
+                    {generateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Generate Captions
+                  </Button>
                 </div>
               </form>
             </Form>
@@ -690,10 +612,10 @@ export default function CreateCaption() {
                   <div className="flex items-center justify-between">
                     <div className="flex items-center">
                       <Badge variant="outline" className="mr-2">
-                        {form.watch("platform")}
+                        {currentCaption.platform}
                       </Badge>
                       <Badge variant="secondary">
-                        {form.watch("mood")}
+                        {currentCaption.options.mood}
                       </Badge>
                     </div>
                     <Button 
@@ -716,17 +638,21 @@ export default function CreateCaption() {
                   </div>
                   
                   <div className="bg-muted p-4 rounded-md max-h-[400px] overflow-y-auto whitespace-pre-wrap">
-                    {currentCaption}
+                    {currentCaption.text}
                   </div>
                   
+                  <p className="text-xs text-muted-foreground text-right">
+                    {countCaptionCharacters(currentCaption.text)} / {platformCaptionLimits[currentCaption.platform as CaptionFormValues["platform"]].maxLength} characters
+                  </p>
+                  
                   {generatedCaptions.length > 1 && (
                     <div className="mt-4">
                       <h4 className="text-sm font-medium mb-2">Alternate Options:</h4>
                       <div className="space-y-2">
                         {generatedCaptions.map((caption, index) => (
                           <Button
-                            key={index}
-                            variant={currentCaption === caption ? "default" : "outline"}
+                            key={caption.id}
+                            variant={currentCaption.id === caption.id ? "default" : "outline"}
                             className="mr-2 mb-2"
                             onClick={() => selectCaption(caption)}
                           >
@@ -737,12 +663,44 @@ export default function CreateCaption() {
                     </div>
                   )}
                   
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Use for a video:</h4>
+                    <div className="flex space-x-2">
+                      <Select value={attachVideoId} onValueChange={setAttachVideoId}>
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Select a video" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {videos.map((video) => (
+                            <SelectItem key={video.id} value={String(video.id)}>
+                              {video.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        onClick={attachCaption}
+                        disabled={!attachVideoId || attachMutation.isPending}
+                      >
+                        <Link2 className="h-4 w-4 mr-1" />
+                        Attach
+                      </Button>
+                    </div>
+                    {currentCaption.videoId && (
+                      <p className="text-xs text-muted-foreground">
+                        Used when publishing "{videos.find((video) => video.id === currentCaption.videoId)?.title}" to {currentCaption.platform}
+                      </p>
+                    )}
+                  </div>
+                  
                   <Button 
                     variant="outline" 
                     onClick={regenerateCaptions}
                     className="w-full"
+                    disabled={generateMutation.isPending}
                   >
-                    <RefreshCcw className="h-4 w-4 mr-2" />
+                    <RefreshCcw className={`h-4 w-4 mr-2 ${generateMutation.isPending ? "animate-spin" : ""}`} />
                     Regenerate Options
                   </Button>
                 </div>
@@ -1,10 +1,15 @@
 import { useState } from "react";
+import { useSearch } from "wouter";
 import { Header } from "@/components/layout/header";
 import { Sidebar } from "@/components/layout/sidebar";
 import { VideoGenerator } from "@/components/videos/video-generator";
 
 export default function CreateVideo() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  
+  // Set when coming from "Use Template" on the templates page
+  const templateParam = new URLSearchParams(useSearch()).get("template");
+  const templateId = templateParam ? parseInt(templateParam, 10) : NaN;
 
   return (
     <div className="flex h-screen overflow-hidden bg-neutral dark:bg-gray-950 text-dark dark:text-white">
@@ -17,7 +22,7 @@ export default function CreateVideo() {
         />
         
         <main className="flex-1 overflow-y-auto p-6">
-          <VideoGenerator />
+          <VideoGenerator templateId={Number.isNaN(templateId) ? undefined : templateId} />
         </main>
       </div>
     </div>
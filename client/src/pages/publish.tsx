@@ -7,9 +7,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useQuery } from "@tanstack/react-query";
 import { Video } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Youtube, Instagram, ExternalLink, Calendar, Clock, Users, Settings } from "lucide-react";
+import { Youtube, Instagram, ExternalLink, Clock, Users, Settings } from "lucide-react";
 import { VideoCard } from "@/components/videos/video-card";
 import { PlatformConnections } from "@/components/videos/platform-connect";
+import { ScheduleDialog, UpcomingPosts, PublishingCalendar } from "@/components/videos/scheduled-posts";
 import { askForSecrets } from "@/lib/utils";
 
 export default function Publish() {
@@ -199,18 +200,11 @@ export default function Publish() {
                   <CardHeader>
                     <div className="flex items-center justify-between">
                       <CardTitle>Upcoming Posts</CardTitle>
-                      <Button variant="outline" size="sm">
-                        <Calendar className="h-4 w-4 mr-2" />
-                        Schedule
-                      </Button>
+                      <ScheduleDialog />
                     </div>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-center py-8">
-                      <p className="text-gray-500 dark:text-gray-400">
-                        No scheduled posts yet
-                      </p>
-                    </div>
+                    <UpcomingPosts />
                   </CardContent>
                 </Card>
                 
@@ -263,16 +257,8 @@ export default function Publish() {
                     <CardTitle>Publishing Calendar</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-center py-8">
-                      <Calendar className="h-16 w-16 mx-auto mb-2 text-gray-400" />
-                      <p className="text-gray-500 dark:text-gray-400">
-                        No upcoming scheduled posts
-                      </p>
-                    </div>
+                    <PublishingCalendar />
                   </CardContent>
-                  <CardFooter>
-                    <Button variant="outline" className="w-full">View Calendar</Button>
-                  </CardFooter>
                 </Card>
               </div>
             </TabsContent>
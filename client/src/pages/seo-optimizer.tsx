@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
 import { PageContainer } from "@/components/layout/page-container";
 import { Header } from "@/components/layout/header";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,136 +12,42 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { Info, AlertCircle, Check, ArrowRight, Copy } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Info, AlertCircle, Check, ArrowRight, Copy, Link2, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { seoFormSchema, type SeoFormValues, type Video, type VideoMetadata } from "@shared/schema";
 
-// Form schema for SEO optimization
-const seoFormSchema = z.object({
-  title: z.string().min(5, "Title must be at least 5 characters").max(60, "Title should be under 60 characters"),
-  description: z.string().min(50, "Description must be at least 50 characters").max(160, "Description should be under 160 characters"),
-  keywords: z.string().min(3, "Add at least a few keywords"),
-  platform: z.enum(["youtube", "tiktok", "instagram", "all"]),
-  contentType: z.enum(["video", "image", "text"]),
-});
+// Mirrors SeoAnalysis from the SEO service
+interface SeoAnalysis {
+  scores: { title: number; description: number; keywords: number; overall: number };
+  keywords: string[];
+  tags: string[];
+  tips: string[];
+  optimized: { title: string; description: string; text: string };
+}
 
-type SeoFormValues = z.infer<typeof seoFormSchema>;
+// Wait for a pause in typing before rescoring
+const ANALYZE_DEBOUNCE_MS = 400;
 
-// Mock optimization data - would be replaced with actual API calls in production
-const optimizationSuggestions = {
-  title: {
-    youtube: [
-      "Use emotional triggers in your title",
-      "Include numbers (e.g., '5 Ways to...')",
-      "Keep between 40-60 characters for optimal display",
-      "Include primary keyword near the beginning"
-    ],
-    tiktok: [
-      "Keep titles short and catchy",
-      "Use emojis strategically",
-      "Include trending hashtags",
-      "Create curiosity or FOMO"
-    ],
-    instagram: [
-      "Use relevant emojis",
-      "Keep it conversational",
-      "Ask a question to engage viewers",
-      "Include a call to action"
-    ]
-  },
-  description: {
-    youtube: [
-      "First 2-3 lines are crucial (visible before 'Show more')",
-      "Include primary and secondary keywords naturally",
-      "Add timestamps for longer videos",
-      "Include relevant links and calls to action"
-    ],
-    tiktok: [
-      "Use relevant hashtags (3-5 is optimal)",
-      "Keep it casual and conversational",
-      "Create excitement or curiosity",
-      "Include a call to action"
-    ],
-    instagram: [
-      "Use a mix of niche and broad hashtags",
-      "Break text into readable paragraphs",
-      "Include a question to encourage comments",
-      "Mention other accounts when relevant"
-    ]
-  },
-  keywords: {
-    youtube: [
-      "Include primary keyword in title, description and tags",
-      "Use a mix of broad and specific niche keywords",
-      "Research trending keywords in your niche",
-      "Include some long-tail keywords"
-    ],
-    tiktok: [
-      "Research trending hashtags",
-      "Use a mix of broad, niche, and trending tags",
-      "Don't exceed 4-5 hashtags",
-      "Include location-based tags if relevant"
-    ],
-    instagram: [
-      "Use up to 30 hashtags maximum",
-      "Mix popular, niche and branded hashtags",
-      "Research competitor hashtags",
-      "Create a branded hashtag for your content"
-    ]
-  }
-};
-
-// Tags suggestions based on inputs
-const getSuggestedTags = (input: string, platform: string) => {
-  const keywords = input.split(',').map(k => k.trim().toLowerCase());
-  
-  const commonTags = [
-    "trending", "viral", "trending2025", "fyp", "foryoupage", 
-    "content", "socialmedia", "digitalmarketing", "creator"
-  ];
-  
-  const platformSpecificTags: Record<string, string[]> = {
-    youtube: ["youtube", "youtuber", "youtubechannel", "youtubevideos", "subscribe"],
-    tiktok: ["tiktok", "tiktokviral", "tiktoktrending", "tiktoker", "tiktokmarketing"],
-    instagram: ["instagram", "instagramreels", "instagrammarketing", "igdaily", "instagrammers"]
-  };
-  
-  // Combine common tags with platform-specific ones
-  const baseTags = [...commonTags];
-  if (platform !== "all") {
-    baseTags.push(...(platformSpecificTags[platform] || []));
-  } else {
-    Object.values(platformSpecificTags).forEach(tags => {
-      baseTags.push(...tags);
-    });
-  }
-  
-  // Add keyword-based tags
-  const keywordTags = keywords.flatMap(keyword => {
-    if (keyword.length < 3) return [];
-    return [
-      keyword,
-      `${keyword}tips`,
-      `${keyword}hacks`,
-      `${keyword}ideas`,
-      `best${keyword}`
-    ];
+async function analyze(values: SeoFormValues & { videoId?: number }): Promise<SeoAnalysis & { metadata?: VideoMetadata[] }> {
+  const response = await apiRequest({
+    method: "POST",
+    url: "/api/seo/analyze",
+    body: values,
   });
-  
-  // Combine and remove duplicates
-  const allTags = Array.from(new Set([...baseTags, ...keywordTags]));
-  
-  return allTags.slice(0, 15); // Return top 15 tags
-};
+  return response.json();
+}
 
 export default function SeoOptimizer() {
-  const [suggestions, setSuggestions] = useState<string[]>([]);
-  const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
-  const [scoreTitle, setScoreTitle] = useState(0);
-  const [scoreDescription, setScoreDescription] = useState(0);
-  const [scoreKeywords, setScoreKeywords] = useState(0);
   const [optimizedText, setOptimizedText] = useState("");
+  const [applyVideoId, setApplyVideoId] = useState<string>("");
   const { toast } = useToast();
 
+  const { data: videos = [] } = useQuery<Video[]>({
+    queryKey: ['/api/videos'],
+  });
+
   // Form setup
   const form = useForm<SeoFormValues>({
     resolver: zodResolver(seoFormSchema),
@@ -154,192 +60,64 @@ export default function SeoOptimizer() {
     },
   });
 
-  // Watch form values for real-time suggestions
-  const platform = form.watch("platform");
-  const title = form.watch("title");
-  const description = form.watch("description");
-  const keywords = form.watch("keywords");
-
-  // Update suggestions based on selected platform
+  // Score the form as it changes, once typing pauses
+  const values = form.watch();
+  const [debouncedValues, setDebouncedValues] = useState<SeoFormValues>(values);
+  const valuesKey = JSON.stringify(values);
   useEffect(() => {
-    if (platform) {
-      const allSuggestions = [
-        ...(optimizationSuggestions.title[platform === "all" ? "youtube" : platform] || []),
-        ...(optimizationSuggestions.description[platform === "all" ? "youtube" : platform] || []),
-        ...(optimizationSuggestions.keywords[platform === "all" ? "youtube" : platform] || [])
-      ];
-      setSuggestions(allSuggestions);
-    }
-  }, [platform]);
+    const timer = setTimeout(() => setDebouncedValues(JSON.parse(valuesKey)), ANALYZE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [valuesKey]);
 
-  // Update tag suggestions when any content changes
-  useEffect(() => {
-    // Extract potential keywords from title and description if they exist
-    let extractedKeywords = keywords;
-    
-    // If there's a title but no keywords, try to extract keywords from title
-    if (title && (!keywords || keywords.trim() === "")) {
-      // Remove common words and split by spaces
-      const titleWords = title.toLowerCase()
-        .replace(/the|and|or|of|to|a|in|for|with|on|at|by|from|an/g, "")
-        .split(/\s+/)
-        .filter(word => word.length > 3)
-        .join(", ");
-      
-      extractedKeywords = titleWords;
-    }
-    
-    // If there's a description but still no keywords, extract from description
-    if (description && (!extractedKeywords || extractedKeywords.trim() === "")) {
-      // Get the most significant words from description
-      const descWords = description.toLowerCase()
-        .replace(/the|and|or|of|to|a|in|for|with|on|at|by|from|an/g, "")
-        .split(/\s+/)
-        .filter(word => word.length > 3)
-        .slice(0, 5)  // Take the first 5 significant words
-        .join(", ");
-      
-      extractedKeywords = descWords;
-    }
-    
-    // Generate tags based on available content
-    if (extractedKeywords && extractedKeywords.trim() !== "") {
-      const tags = getSuggestedTags(extractedKeywords, platform);
-      setSuggestedTags(tags);
-      
-      // If we auto-generated keywords and the user hasn't set any, update the form
-      if (!keywords || keywords.trim() === "") {
-        form.setValue("keywords", extractedKeywords);
-      }
-    }
-  }, [title, description, keywords, platform, form]);
+  const { data: analysis } = useQuery({
+    queryKey: ['/api/seo/analyze', debouncedValues],
+    queryFn: () => analyze(debouncedValues),
+    // Keep showing the last scores while the next ones load
+    placeholderData: keepPreviousData,
+  });
 
-  // Calculate SEO scores
-  useEffect(() => {
-    // Title score calculation
-    let titleScore = 0;
-    if (title.length > 0) {
-      if (title.length >= 5 && title.length <= 60) titleScore += 30;
-      if (title.length >= 20 && title.length <= 50) titleScore += 10;
-      if (title.includes("?") || title.includes("!")) titleScore += 10;
-      if (/\d/.test(title)) titleScore += 10; // Contains numbers
-      if (keywords.split(",").some(k => title.toLowerCase().includes(k.trim().toLowerCase()))) titleScore += 40;
-    }
-    setScoreTitle(titleScore);
+  const scoreTitle = analysis?.scores.title ?? 0;
+  const scoreDescription = analysis?.scores.description ?? 0;
+  const scoreKeywords = analysis?.scores.keywords ?? 0;
+  const scoreOverall = analysis?.scores.overall ?? 0;
+  const suggestions = analysis?.tips ?? [];
+  const suggestedTags = analysis?.tags ?? [];
 
-    // Description score calculation
-    let descScore = 0;
-    if (description.length > 0) {
-      if (description.length >= 50 && description.length <= 160) descScore += 30;
-      if (description.length >= 80 && description.length <= 140) descScore += 10;
-      if (description.includes("?") || description.includes("!")) descScore += 5;
-      if (description.toLowerCase().includes("how") || 
-          description.toLowerCase().includes("why") || 
-          description.toLowerCase().includes("what")) descScore += 10;
-      
-      // Check if keywords are in description
-      const keywordList = keywords.split(",").map(k => k.trim().toLowerCase());
-      const keywordsFound = keywordList.filter(k => 
-        k.length > 2 && description.toLowerCase().includes(k)
-      ).length;
-      
-      descScore += Math.min(keywordsFound * 15, 45); // Up to 45 points for keywords
-    }
-    setScoreDescription(descScore);
+  const optimizeMutation = useMutation({
+    mutationFn: analyze,
+    onSuccess: (result) => {
+      setOptimizedText(result.optimized.text);
 
-    // Keywords score calculation
-    let keywordsScore = 0;
-    if (keywords.length > 0) {
-      const keywordList = keywords.split(",").map(k => k.trim());
-      keywordsScore += Math.min(keywordList.length * 10, 50); // Up to 50 points for number of keywords
-      
-      // Check if there are both short and long keywords
-      const hasShortKeywords = keywordList.some(k => k.length <= 5 && k.length >= 2);
-      const hasLongKeywords = keywordList.some(k => k.length > 5);
-      
-      if (hasShortKeywords && hasLongKeywords) keywordsScore += 20;
-      
-      // Check if there are location keywords
-      const hasLocationKeyword = keywordList.some(k => 
-        k.toLowerCase().includes("city") || 
-        k.toLowerCase().includes("town") || 
-        k.toLowerCase().includes("state") || 
-        k.toLowerCase().includes("country")
-      );
-      
-      if (hasLocationKeyword) keywordsScore += 15;
-      
-      // Limit to 100
-      keywordsScore = Math.min(keywordsScore, 100);
-    }
-    setScoreKeywords(keywordsScore);
-  }, [title, description, keywords]);
+      if (result.metadata) {
+        queryClient.invalidateQueries({ queryKey: [`/api/videos/${applyVideoId}/metadata`] });
+        const video = videos.find((v) => v.id === parseInt(applyVideoId));
+        toast({
+          title: "SEO applied",
+          description: `"${video?.title}" will be published with this title, description and tags on ${result.metadata.map((m) => m.platform).join(", ")}.`,
+        });
+      } else {
+        toast({
+          title: "SEO Analysis Complete",
+          description: "Your content has been optimized for better discoverability.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not optimize content",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
-  // Form submission handler - would send to API in production
   const onSubmit = (data: SeoFormValues) => {
-    // In a real application, this would send the data to the backend for processing
-    console.log("SEO data submitted:", data);
-    
-    // Simulate optimization
-    const optimizedTextSample = generateOptimizedText(data);
-    setOptimizedText(optimizedTextSample);
-    
-    toast({
-      title: "SEO Analysis Complete",
-      description: "Your content has been optimized for better discoverability.",
-    });
+    optimizeMutation.mutate(data);
   };
 
-  // Generate optimized text based on form data
-  const generateOptimizedText = (data: SeoFormValues) => {
-    const keywordList = data.keywords.split(",").map(k => k.trim());
-    const primaryKeyword = keywordList[0] || "";
-    
-    let optimizedTitle = data.title;
-    
-    // Add emotional words if not present
-    const emotionalWords = ["amazing", "incredible", "essential", "powerful", "ultimate"];
-    const hasEmotionalWord = emotionalWords.some(word => data.title.toLowerCase().includes(word));
-    
-    if (!hasEmotionalWord && data.title.length < 45) {
-      const randomEmotional = emotionalWords[Math.floor(Math.random() * emotionalWords.length)];
-      optimizedTitle = `The ${randomEmotional} ${data.title}`;
-    }
-    
-    // Enhance description
-    let enhancedDescription = data.description;
-    if (!data.description.includes("!") && !data.description.includes("?")) {
-      enhancedDescription += " Discover how this can transform your results!";
-    }
-    
-    // Add hashtags
-    const hashtags = suggestedTags.map(tag => `#${tag}`).join(" ");
-    
-    // Platform-specific enhancements
-    let platformTips = "";
-    switch(data.platform) {
-      case "youtube":
-        platformTips = "▶️ Don't forget to like, subscribe, and hit the notification bell!";
-        break;
-      case "tiktok":
-        platformTips = "📱 Follow for more content like this! #fyp #foryoupage";
-        break;
-      case "instagram":
-        platformTips = "📷 Double tap if you found this helpful! ✨";
-        break;
-      default:
-        platformTips = "👍 Follow for more content like this!";
-    }
-    
-    return `
-${optimizedTitle}
-
-${enhancedDescription}
-
-${platformTips}
-
-${hashtags}
-    `.trim();
+  // Optimize and store the result on a video so publishing uses it
+  const applyToVideo = (data: SeoFormValues) => {
+    optimizeMutation.mutate({ ...data, videoId: parseInt(applyVideoId) });
   };
 
   // Copy optimized text to clipboard
@@ -491,7 +269,9 @@ ${hashtags}
                       </FormControl>
                       <div className="flex justify-between items-center mt-1">
                         <FormDescription>
-                          Add keywords relevant to your content
+                          {!field.value.trim() && analysis && analysis.keywords.length > 0
+                            ? `Using: ${analysis.keywords.join(", ")}`
+                            : "Add keywords relevant to your content"}
                         </FormDescription>
                         <div className="flex items-center">
                           <span className="mr-2">Score:</span>
@@ -506,7 +286,40 @@ ${hashtags}
                 />
                 
                 <div className="pt-4">
-                  <Button type="submit" className="w-full">Optimize Content</Button>
+                  <Button type="submit" className="w-full" disabled={optimizeMutation.isPending}>
+                    {optimizeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Optimize Content
+                  </Button>
+                </div>
+                
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Apply to a video:</h4>
+                  <div className="flex space-x-2">
+                    <Select value={applyVideoId} onValueChange={setApplyVideoId}>
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Select a video" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {videos.map((video) => (
+                          <SelectItem key={video.id} value={String(video.id)}>
+                            {video.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={form.handleSubmit(applyToVideo)}
+                      disabled={!applyVideoId || optimizeMutation.isPending}
+                    >
+                      <Link2 className="h-4 w-4 mr-1" />
+                      Apply
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The optimized title, description and tags are used when publishing the video
+                  </p>
                 </div>
               </form>
             </Form>
@@ -541,18 +354,18 @@ ${hashtags}
             <CardContent>
               <div className="flex flex-col items-center justify-center">
                 <div className={`text-5xl font-bold ${
-                  (scoreTitle + scoreDescription + scoreKeywords) / 3 >= 70 
+                  scoreOverall >= 70 
                     ? "text-green-500"
-                    : (scoreTitle + scoreDescription + scoreKeywords) / 3 >= 40
+                    : scoreOverall >= 40
                     ? "text-amber-500"
                     : "text-red-500"
                 }`}>
-                  {Math.round((scoreTitle + scoreDescription + scoreKeywords) / 3)}%
+                  {scoreOverall}%
                 </div>
                 <p className="text-sm text-muted-foreground mt-2">
-                  {(scoreTitle + scoreDescription + scoreKeywords) / 3 >= 70 
+                  {scoreOverall >= 70 
                     ? "Your content is well optimized!"
-                    : (scoreTitle + scoreDescription + scoreKeywords) / 3 >= 40
+                    : scoreOverall >= 40
                     ? "Your content needs some improvements"
                     : "Your content needs significant optimization"
                   }
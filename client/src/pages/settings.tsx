@@ -1,4 +1,6 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -13,7 +15,10 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { 
   User, 
   Bell, 
@@ -29,11 +34,34 @@ import {
   EyeOff,
   Check,
   Youtube,
-  Instagram
+  Instagram,
+  Gauge
 } from "lucide-react";
 import { SiTiktok } from "react-icons/si";
 import { askForSecrets } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
+import { formatBytes, planPrices, planTiers, type PlanLimits, type PlanTier } from "@shared/plans";
+import type { Subscription } from "@shared/schema";
+
+interface PlanUsage {
+  tier: PlanTier;
+  limits: PlanLimits;
+  usage: {
+    monthlyGenerations: number;
+    connectedAccounts: number;
+    scheduledPosts: number;
+    storageBytes: number;
+  };
+  periodEnd: string;
+}
+
+// Quotas shown as progress bars on the plan card
+const usageRows: { key: keyof PlanUsage["usage"]; label: string; format?: (value: number) => string }[] = [
+  { key: "monthlyGenerations", label: "Video generations this month" },
+  { key: "connectedAccounts", label: "Connected accounts" },
+  { key: "scheduledPosts", label: "Scheduled posts" },
+  { key: "storageBytes", label: "Storage", format: formatBytes },
+];
 
 // Form schema for user settings
 const profileFormSchema = z.object({
@@ -81,6 +109,68 @@ export default function Settings() {
   });
   const [isChecking, setIsChecking] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const billingResult = new URLSearchParams(useSearch()).get("billing");
+  const { data: planUsage } = useQuery<PlanUsage>({ queryKey: ["/api/usage"] });
+  const subscriptionKey = `/api/users/${user?.id}/subscription`;
+  const { data: subscription } = useQuery<Subscription>({
+    queryKey: [subscriptionKey],
+    enabled: !!user,
+    retry: false,
+  });
+  
+  const refreshPlan = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
+    queryClient.invalidateQueries({ queryKey: [subscriptionKey] });
+  };
+  
+  // Back from the billing provider's checkout page
+  useEffect(() => {
+    if (billingResult === "success") {
+      toast({ title: "Subscription started", description: "Your new plan is active." });
+      refreshPlan();
+    }
+  }, [billingResult]);
+  
+  const checkoutMutation = useMutation({
+    mutationFn: async (tier: PlanTier) => {
+      const response = await apiRequest({ method: "POST", url: "/api/billing/checkout", body: { tier } });
+      return response.json();
+    },
+    onSuccess: (data: { url?: string; proratedAmount?: number }) => {
+      // New subscriptions are paid for on the provider's checkout page
+      if (data.url) {
+        window.location.href = data.url;
+        return;
+      }
+      
+      refreshPlan();
+      toast({
+        title: "Plan changed",
+        description: data.proratedAmount
+          ? `You were charged $${(data.proratedAmount / 100).toFixed(2)} for the rest of this period.`
+          : "Your new plan is active.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change plan", description: error.message, variant: "destructive" });
+    },
+  });
+  
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest({ method: "POST", url: `/api/subscriptions/${id}/cancel` });
+      return response.json();
+    },
+    onSuccess: () => {
+      refreshPlan();
+      toast({ title: "Subscription canceled", description: "Your plan stays active until the end of the period." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel", description: error.message, variant: "destructive" });
+    },
+  });
 
   // Form setups
   const profileForm = useForm<ProfileFormValues>({
@@ -388,6 +478,93 @@ export default function Settings() {
                 </div>
               </CardContent>
             </Card>
+            
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Gauge className="h-5 w-5" />
+                  <span>Plan & Usage</span>
+                  {planUsage && <Badge variant="secondary" className="capitalize">{planUsage.tier}</Badge>}
+                </CardTitle>
+                <CardDescription>
+                  {planUsage
+                    ? `Generations reset on ${new Date(planUsage.periodEnd).toLocaleDateString()}`
+                    : "What your plan includes and how much of it you have used"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {planUsage && (
+                  <div className="space-y-4">
+                    {usageRows.map(({ key, label, format = String }) => {
+                      const used = planUsage.usage[key];
+                      const limit = planUsage.limits[key];
+                      return (
+                        <div key={key} className="space-y-1">
+                          <div className="flex justify-between text-sm">
+                            <span>{label}</span>
+                            <span className="text-muted-foreground">
+                              {limit === null ? `${format(used)} (unlimited)` : `${format(used)} / ${format(limit)}`}
+                            </span>
+                          </div>
+                          {limit !== null && <Progress value={Math.min(100, (used / limit) * 100)} />}
+                        </div>
+                      );
+                    })}
+                    
+                    <Separator />
+                    
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <h4 className="font-medium">Max duration</h4>
+                        <p className="text-muted-foreground">{planUsage.limits.maxDurationSeconds} seconds</p>
+                      </div>
+                      <div>
+                        <h4 className="font-medium">Max resolution</h4>
+                        <p className="text-muted-foreground">{planUsage.limits.maxResolution}p</p>
+                      </div>
+                      <div>
+                        <h4 className="font-medium">Premium templates</h4>
+                        <p className="text-muted-foreground">{planUsage.limits.premiumTemplates ? "Included" : "Not included"}</p>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+              {planUsage && (
+                <CardFooter className="flex flex-wrap items-center gap-2">
+                  {planTiers
+                    .filter(tier => tier !== "free" && tier !== planUsage.tier)
+                    .map(tier => (
+                      <Button
+                        key={tier}
+                        variant="outline"
+                        className="capitalize"
+                        disabled={checkoutMutation.isPending}
+                        onClick={() => checkoutMutation.mutate(tier)}
+                      >
+                        Switch to {tier} (${(planPrices[tier] / 100).toFixed(2)}/month)
+                      </Button>
+                    ))}
+                  {subscription?.externalSubscriptionId && (subscription.status === "active" || subscription.status === "past_due") && (
+                    <Button
+                      variant="ghost"
+                      disabled={cancelMutation.isPending}
+                      onClick={() => cancelMutation.mutate(subscription.id)}
+                    >
+                      Cancel subscription
+                    </Button>
+                  )}
+                  {subscription?.status === "canceled" && subscription.endDate && (
+                    <p className="text-sm text-muted-foreground">
+                      Ends on {new Date(subscription.endDate).toLocaleDateString()}
+                    </p>
+                  )}
+                  {subscription?.status === "past_due" && (
+                    <p className="text-sm text-destructive">Your last payment failed</p>
+                  )}
+                </CardFooter>
+              )}
+            </Card>
           </TabsContent>
           
           {/* Appearance Settings */}
@@ -6,9 +6,12 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Link } from "wouter";
-import { Check, Play, Search, ThumbsUp, Timer, Crown, Star, ScrollText, Palette, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocation } from "wouter";
+import { ArrowRight, Check, Play, Search, ThumbsUp, Timer, Crown, Star, ScrollText, Palette, Loader2 } from "lucide-react";
 import { ASPECT_RATIO_OPTIONS, DURATION_OPTIONS, VIDEO_STYLES } from "@/lib/constants";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -26,6 +29,20 @@ interface Template {
   popular: boolean;
   premium: boolean;
   settings: Record<string, any> | null;
+  ownerId: number | null;
+  visibility: "private" | "team" | "public";
+  currentVersion: number;
+  // Published version shown; null for your own drafts and catalog templates
+  version: number | null;
+  // Premium template your subscription does not include
+  locked: boolean;
+  createdAt: string;
+}
+
+interface TemplateVersion {
+  id: number;
+  version: number;
+  changelog: string;
   createdAt: string;
 }
 
@@ -72,6 +89,10 @@ export default function Templates() {
   const [activeCategory, setActiveCategory] = useState("all");
   const [selectedDuration, setSelectedDuration] = useState<string | null>(null);
   const [selectedStyle, setSelectedStyle] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState<Template | null>(null);
+  const [changelog, setChangelog] = useState("");
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
   const { toast } = useToast();
   
   // Fetch templates from API
@@ -95,23 +116,56 @@ export default function Templates() {
     return matchesSearch && matchesCategory && matchesDuration && matchesStyle;
   });
 
-  // Function to use template
+  // Open the generator with the template pre-loaded
   const useTemplate = (templateId: number) => {
-    // In a real app, this would redirect to the create-video page with the template pre-loaded
-    toast({
-      title: "Template Selected",
-      description: "You've selected a template. Now you can customize it.",
-    });
+    navigate(`/create-video?template=${templateId}`);
   };
 
-  // Function to preview template
+  // Show the template's scenes and transitions
   const previewTemplate = (templateId: number) => {
-    toast({
-      title: "Template Preview",
-      description: "Opening template preview...",
-    });
+    setPreviewing(templates.find(template => template.id === templateId) || null);
   };
 
+  const previewSections: string[] = previewing?.settings?.sections || [];
+  const previewTransitions: string[] = previewing?.settings?.transitions || [];
+  const ownsPreviewed = !!previewing && previewing.ownerId !== null && previewing.ownerId === user?.id;
+
+  const { data: versions = [] } = useQuery<TemplateVersion[]>({
+    queryKey: [`/api/templates/${previewing?.id}/versions`],
+    enabled: !!previewing && previewing.ownerId !== null,
+  });
+
+  // Publish the owner's current draft as a new version
+  const publishMutation = useMutation({
+    mutationFn: async ({ templateId, changelog }: { templateId: number; changelog: string }) => {
+      const response = await apiRequest({
+        method: "POST",
+        url: `/api/templates/${templateId}/versions`,
+        body: { changelog },
+      });
+      return response.json();
+    },
+    onSuccess: (version: TemplateVersion) => {
+      setChangelog("");
+      setPreviewing((current) => current && { ...current, currentVersion: version.version });
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/templates/${previewing?.id}/versions`] });
+      toast({
+        title: `Version ${version.version} published`,
+        description: previewing?.visibility === "private"
+          ? "Only you can see this template. Change its visibility to share it."
+          : "Everyone it is shared with now gets this version.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not publish template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Toggle filter for duration
   const toggleDurationFilter = (duration: string) => {
     if (selectedDuration === duration) {
@@ -260,6 +314,14 @@ export default function Templates() {
                           </div>
                         )}
                         
+                        {template.ownerId !== null && (
+                          <div className="absolute top-2 left-2 bg-gray-900/80 text-white text-xs px-2 py-1 rounded-md capitalize">
+                            {template.ownerId === user?.id
+                              ? `${template.visibility} · ${template.currentVersion > 0 ? `v${template.currentVersion}` : "draft"}`
+                              : `v${template.version}`}
+                          </div>
+                        )}
+                        
                         {template.premium && (
                           <div className="absolute top-2 right-2 bg-purple-600 text-white text-xs px-2 py-1 rounded-md flex items-center">
                             <Crown className="h-3 w-3 mr-1" />
@@ -303,12 +365,10 @@ export default function Templates() {
                           onClick={() => useTemplate(template.id)}
                           size="sm"
                           className="w-full"
-                          disabled={template.premium}
+                          disabled={template.locked}
                         >
-                          <Link href="/create-video" className="flex items-center justify-center w-full">
-                            <Check className="h-4 w-4 mr-2" />
-                            {template.premium ? 'Premium Template' : 'Use Template'}
-                          </Link>
+                          <Check className="h-4 w-4 mr-2" />
+                          {template.locked ? 'Premium Template' : 'Use Template'}
                         </Button>
                       </CardFooter>
                     </Card>
@@ -319,6 +379,89 @@ export default function Templates() {
           ))}
         </Tabs>
       </div>
+      
+      <Dialog open={previewing !== null} onOpenChange={(open) => !open && setPreviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{previewing?.title}</DialogTitle>
+            <DialogDescription>{previewing?.description}</DialogDescription>
+          </DialogHeader>
+          
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{previewing?.style}</Badge>
+            <Badge variant="outline">{previewing?.duration}</Badge>
+          </div>
+          
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Scenes</h4>
+            {previewSections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Scenes follow your prompt.</p>
+            ) : (
+              <ol className="space-y-1">
+                {previewSections.map((section, index) => (
+                  <li key={section} className="text-sm">
+                    <span className="font-medium">{index + 1}. {section}</span>
+                    {index < previewSections.length - 1 && previewTransitions.length > 0 && (
+                      <span className="ml-2 text-xs text-muted-foreground inline-flex items-center">
+                        <ArrowRight className="h-3 w-3 mr-1" />
+                        {previewTransitions[index % previewTransitions.length]}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+          
+          {versions.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Changelog</h4>
+              <ul className="space-y-2 max-h-40 overflow-y-auto">
+                {versions.map((version) => (
+                  <li key={version.id} className="text-sm">
+                    <span className="font-medium">v{version.version}</span>
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {new Date(version.createdAt).toLocaleDateString()}
+                    </span>
+                    <p className="text-muted-foreground whitespace-pre-wrap">{version.changelog}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          
+          {ownsPreviewed && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Publish version {(previewing?.currentVersion ?? 0) + 1}</h4>
+              <Textarea
+                placeholder="What changed in this version?"
+                value={changelog}
+                onChange={(e) => setChangelog(e.target.value)}
+                className="h-20"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => previewing && publishMutation.mutate({ templateId: previewing.id, changelog })}
+                disabled={!changelog.trim() || publishMutation.isPending}
+              >
+                {publishMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Publish
+              </Button>
+            </div>
+          )}
+          
+          <DialogFooter>
+            <Button
+              onClick={() => previewing && useTemplate(previewing.id)}
+              disabled={previewing?.locked}
+            >
+              <Check className="h-4 w-4 mr-2" />
+              {previewing?.locked ? 'Premium Template' : 'Use Template'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </PageContainer>
   );
 }
\ No newline at end of file
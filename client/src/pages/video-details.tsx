@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { PageContainer } from "@/components/layout/page-container";
+import { Header } from "@/components/layout/header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { MusicTrack, Video, VideoRender, VoiceoverSettings } from "@shared/schema";
+import { GitCompare, History, Loader2, Music, RefreshCw, RotateCcw, Subtitles } from "lucide-react";
+import placeholderVideo from "@/assets/placeholder-video.svg";
+
+interface RenderComparison {
+  a: VideoRender;
+  b: VideoRender;
+  differences: { setting: string; a: SettingValue; b: SettingValue }[];
+}
+
+type SettingValue = string | number | boolean | VoiceoverSettings | null;
+
+const settingLabels: Record<string, string> = {
+  prompt: "Prompt",
+  style: "Style",
+  duration: "Duration",
+  aspectRatio: "Aspect ratio",
+  resolution: "Resolution",
+  provider: "Provider",
+  templateId: "Template",
+  templateVersion: "Template version",
+  voiceover: "Voiceover",
+  burnSubtitles: "Burned-in subtitles",
+  musicTrackId: "Music track",
+};
+
+function formatSetting(value: SettingValue) {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value !== "object") return value;
+  // Voiceover settings
+  return `${value.voice} voice, ${value.speed}x, ${value.language.toUpperCase()}${value.script ? ", own script" : ""}`;
+}
+
+export default function VideoDetails() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  // Up to two renders picked for the side-by-side comparison
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const { data: video, isLoading } = useQuery<Video>({
+    queryKey: [`/api/videos/${id}`],
+  });
+
+  // Track and license of the video's music, for licensing audits
+  const { data: musicTrack } = useQuery<MusicTrack>({
+    queryKey: [`/api/music/${video?.musicTrackId}`],
+    enabled: !!video?.musicTrackId,
+  });
+
+  const { data: renders } = useQuery<VideoRender[]>({
+    queryKey: [`/api/videos/${id}/renders`],
+    enabled: !!video,
+  });
+
+  const [a, b] = selected;
+  const { data: comparison } = useQuery<RenderComparison>({
+    queryKey: [`/api/videos/${id}/renders/compare?a=${a}&b=${b}`],
+    enabled: selected.length === 2,
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async (render: VideoRender) => {
+      const response = await apiRequest({
+        method: "POST",
+        url: `/api/videos/${id}/renders/${render.id}/promote`,
+      });
+      return response.json();
+    },
+    onSuccess: (_video: Video, render: VideoRender) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/videos/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/videos'] });
+      toast({
+        title: "Version restored",
+        description: `Version ${render.version} is now the current version of this video.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Restore Failed",
+        description: "Failed to restore this version. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest({
+        method: "POST",
+        url: `/api/videos/${id}/regenerate`,
+        body: {},
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Regenerating",
+        description: "The new render will appear here as the next version when it is ready.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Regeneration Failed",
+        description: error.message.replace(/^API Error \(\d+\): /, ""),
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleSelected = (renderId: number) => {
+    setSelected((current) =>
+      current.includes(renderId)
+        ? current.filter((id) => id !== renderId)
+        // Picking a third render replaces the oldest pick
+        : [...current, renderId].slice(-2)
+    );
+  };
+
+  const renderPreview = (render: VideoRender) => (
+    <div className="space-y-2">
+      <div className="aspect-video rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-800">
+        <video
+          src={render.videoUrl}
+          poster={render.thumbnailUrl || placeholderVideo}
+          controls
+          className="w-full h-full object-contain"
+        />
+      </div>
+      <p className="text-sm font-medium">Version {render.version}</p>
+    </div>
+  );
+
+  return (
+    <PageContainer>
+      <Header title={video?.title || "Video"} description="Every render of this video" />
+
+      <div className="space-y-6">
+        {isLoading || !video ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>{video.title}</CardTitle>
+                <CardDescription>{video.prompt}</CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={regenerateMutation.isPending}
+              >
+                {regenerateMutation.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <RefreshCw className="mr-2 h-4 w-4" />}
+                Regenerate
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <div className="aspect-video max-w-2xl rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-800">
+                <video
+                  src={video.videoUrl || undefined}
+                  poster={video.thumbnailUrl || placeholderVideo}
+                  controls
+                  className="w-full h-full object-contain"
+                >
+                  {video.subtitlesVttUrl && !video.burnSubtitles && (
+                    <track kind="subtitles" src={video.subtitlesVttUrl} srcLang={video.voiceover?.language ?? "en"} label="Subtitles" />
+                  )}
+                </video>
+              </div>
+              {musicTrack && (
+                <div className="mt-4 flex items-start text-sm">
+                  <Music className="mr-2 mt-0.5 h-4 w-4 text-gray-500 dark:text-gray-400" />
+                  <div>
+                    <p>{musicTrack.title} by {musicTrack.artist}</p>
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {musicTrack.licenseUrl
+                        ? <a href={musicTrack.licenseUrl} target="_blank" rel="noopener noreferrer" className="underline">{musicTrack.license}</a>
+                        : musicTrack.license}
+                      {musicTrack.attribution && ` · ${musicTrack.attribution}`}
+                    </p>
+                  </div>
+                </div>
+              )}
+              {video.subtitlesSrtUrl && (
+                <div className="mt-4 flex items-center gap-2">
+                  <span className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                    <Subtitles className="mr-2 h-4 w-4" />
+                    Subtitles
+                  </span>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/videos/${video.id}/subtitles/srt`}>SRT</a>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/videos/${video.id}/subtitles/vtt`}>WebVTT</a>
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <History className="mr-2 h-5 w-5" />
+              Versions
+            </CardTitle>
+            <CardDescription>Select two versions to compare them side by side.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {renders && renders.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Version</TableHead>
+                    <TableHead>Style</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Aspect ratio</TableHead>
+                    <TableHead>Resolution</TableHead>
+                    <TableHead>Provider</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {renders.map((render) => (
+                    <TableRow key={render.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(render.id)}
+                          onCheckedChange={() => toggleSelected(render.id)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {render.version}
+                        {video?.currentRenderId === render.id && (
+                          <Badge variant="secondary" className="ml-2">Current</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{render.style}</TableCell>
+                      <TableCell>{render.duration}</TableCell>
+                      <TableCell>{render.aspectRatio}</TableCell>
+                      <TableCell>{render.resolution}p</TableCell>
+                      <TableCell>{render.provider}</TableCell>
+                      <TableCell>{format(new Date(render.createdAt), "MMM d, yyyy HH:mm")}</TableCell>
+                      <TableCell className="text-right">
+                        {video?.currentRenderId !== render.id && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => promoteMutation.mutate(render)}
+                            disabled={promoteMutation.isPending}
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Make current
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                This video has no saved renders yet. Regenerate it to start its version history.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {comparison && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <GitCompare className="mr-2 h-5 w-5" />
+                Version {comparison.a.version} vs. version {comparison.b.version}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {renderPreview(comparison.a)}
+                {renderPreview(comparison.b)}
+              </div>
+
+              {comparison.differences.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Setting</TableHead>
+                      <TableHead>Version {comparison.a.version}</TableHead>
+                      <TableHead>Version {comparison.b.version}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {comparison.differences.map((difference) => (
+                      <TableRow key={difference.setting}>
+                        <TableCell className="font-medium">{settingLabels[difference.setting] || difference.setting}</TableCell>
+                        <TableCell>{formatSetting(difference.a)}</TableCell>
+                        <TableCell>{formatSetting(difference.b)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Both versions were rendered with the same settings.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </PageContainer>
+  );
+}
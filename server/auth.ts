@@ -1,6 +1,6 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
@@ -13,6 +13,15 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Pending OAuth state values keyed by platform
+    oauthState?: Record<string, string>;
+    // Set by passport once the user has logged in
+    passport?: { user?: number };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(password: string) {
@@ -28,19 +37,37 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+/**
+ * Rejects requests that do not carry an authenticated session
+ */
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ success: false, message: "Not authenticated" });
+  }
+  next();
+};
+
+/**
+ * Configures sessions and passport on the app.
+ * Returns the session middleware so other transports (e.g. WebSockets) can
+ * resolve the logged-in user from the same session cookie.
+ */
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || 'vidiyome-secret-key',
     resave: false,
     saveUninitialized: false,
+    store: storage.sessionStore,
     cookie: {
       secure: process.env.NODE_ENV === "production",
       maxAge: 24 * 60 * 60 * 1000 // 1 day
     }
   };
 
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -76,9 +103,12 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ success: false, message: "Username already exists" });
       }
 
+      // Tiers come from subscriptions and teams are assigned by administrators, never chosen at sign-up
+      const { subscriptionTier: _subscriptionTier, teamId: _teamId, ...profile } = req.body;
+      
       const hashedPassword = await hashPassword(req.body.password);
       const user = await storage.createUser({
-        ...req.body,
+        ...profile,
         password: hashedPassword,
       });
 
@@ -118,4 +148,6 @@ export function setupAuth(app: Express) {
     }
     res.json({ success: true, user: req.user });
   });
-}
\ No newline at end of file
+
+  return sessionMiddleware;
+}
@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+// Neon's serverless driver talks to Postgres over WebSockets
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Creates a connection pool and drizzle instance for the given database URL
+ */
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
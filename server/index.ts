@@ -1,10 +1,20 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { seedTemplates } from "./seed";
+import { publishScheduler } from "./services/publish-scheduler";
+import { publicationService } from "./services/publication-service";
+import { analyticsCollector } from "./services/analytics-collector";
+import { keywordIndex } from "./services/keyword-index";
+import { billingService } from "./services/billing-service";
+import { assetSweeper } from "./services/asset-sweeper";
+import { assetService } from "./services/asset-service";
+import { S3AssetStore } from "./services/s3-asset-store";
+import { musicService } from "./services/music-service";
 import { setupVite, serveStatic, log } from "./vite";
 import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import hpp from "hpp";
-import path from "path";
 
 const app = express();
 
@@ -15,6 +25,9 @@ app.set('trust proxy', 1);
 // Security middleware with development-friendly settings
 const isDev = process.env.NODE_ENV !== 'production';
 
+// Signed asset URLs of an object store point at its own origin
+const assetOrigins = assetService.store instanceof S3AssetStore ? [assetService.store.origin] : [];
+
 // Configure Helmet with Replit-friendly settings
 app.use(
   helmet({
@@ -23,7 +36,8 @@ app.use(
         defaultSrc: ["'self'"],
         scriptSrc: ["'self'", "'unsafe-inline'", "'unsafe-eval'"],
         styleSrc: ["'self'", "'unsafe-inline'", "https://fonts.googleapis.com"],
-        imgSrc: ["'self'", "data:", "blob:"],
+        imgSrc: ["'self'", "data:", "blob:", ...assetOrigins],
+        mediaSrc: ["'self'", "blob:", ...assetOrigins],
         fontSrc: ["'self'", "https://fonts.gstatic.com"],
         connectSrc: ["'self'", "wss://*.replit.dev", "https://*.replit.dev"],
         frameSrc: ["'self'", "https://*.replit.dev"],
@@ -86,13 +100,11 @@ const apiLimiter = rateLimit({
 // Apply rate limiting to API endpoints
 app.use("/api", apiLimiter);
 
-// Body parsers
+// Body parsers. Billing webhooks keep their raw bytes so their signature can be checked.
+app.use("/api/billing/webhook", express.raw({ type: "application/json", limit: "1mb" }));
 app.use(express.json({ limit: "1mb" })); // Limit JSON body size
 app.use(express.urlencoded({ extended: false, limit: "1mb" })); // Limit URL-encoded body size
 
-// Serve static files from the public directory for generated assets
-app.use('/generated', express.static(path.join(process.cwd(), 'public', 'generated')));
-
 // Security headers for all responses
 app.use((req, res, next) => {
   // Set security headers
@@ -144,8 +156,25 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Make sure the template catalog exists (safe to run on every start)
+  await seedTemplates(storage);
+
+  // Pick up tracks added to the music library manifest
+  await musicService.loadLibrary();
+
+  // Move files from before the asset store into it (safe to run on every start)
+  await assetService.importLegacyFiles();
+
   const server = await registerRoutes(app);
 
+  // Resume publish retries, scheduled publishing, analytics collection, keyword indexing and subscription expiry (routes are registered first so events reach sockets)
+  await publicationService.start();
+  await publishScheduler.start();
+  analyticsCollector.start();
+  keywordIndex.start();
+  billingService.start();
+  assetSweeper.start();
+
   // Enhanced error handling
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
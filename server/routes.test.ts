@@ -0,0 +1,705 @@
+import express, { type Express } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import request from "supertest";
+import { WebSocket } from "ws";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { ConnectedAccount, InsertVideo, InsertVideoRender, Subscription, Template, User, Video } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { assetService } from "./services/asset-service";
+import { generationQueue, type GenerationJob } from "./services/generation-queue";
+import { socialMediaService } from "./services/social-media-service";
+import { videoRenderService } from "./services/video-render-service";
+import { voiceoverService } from "./services/voiceover-service";
+
+// Id that no resource is ever given in these tests
+const MISSING_ID = 999999;
+
+let app: Express;
+let server: Server;
+let alice: request.Agent;
+let bob: User;
+
+// Resources of Bob's that Alice tries to reach
+let bobVideo: Video;
+let bobPrivateTemplate: Template;
+let bobPublicTemplate: Template;
+let bobSubscription: Subscription;
+let bobAccount: ConnectedAccount;
+let bobScheduledPostId: number;
+let bobCaptionId: number;
+
+async function register(username: string): Promise<request.Agent> {
+  const agent = request.agent(app);
+  await agent.post("/api/register").send({ username, password: "correct horse battery" }).expect(201);
+  return agent;
+}
+
+beforeAll(async () => {
+  app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+
+  alice = await register("alice");
+  const bobAgent = await register("bob");
+  bob = (await storage.getUserByUsername("bob"))!;
+
+  bobVideo = await storage.createVideo({
+    userId: bob.id,
+    title: "Bob's video",
+    prompt: "A sunrise over the mountains",
+    style: "cinematic",
+    duration: "30s",
+    aspectRatio: "16:9",
+    platforms: ["youtube"],
+    videoUrl: "bob-video.mp4",
+    thumbnailUrl: "bob-video-thumbnail.png"
+  });
+
+  const template = {
+    description: "Bob's own template",
+    category: "custom",
+    style: "cinematic",
+    duration: "30s",
+    ownerId: bob.id,
+    currentVersion: 0
+  };
+  bobPrivateTemplate = await storage.createTemplate({ ...template, title: "Private", visibility: "private" });
+  bobPublicTemplate = await storage.createTemplate({ ...template, title: "Public", visibility: "public" });
+  // Other users only see templates once a version is published
+  await bobAgent.post(`/api/templates/${bobPublicTemplate.id}/versions`).send({ changelog: "First version" }).expect(201);
+
+  bobSubscription = await storage.createSubscription({
+    userId: bob.id,
+    tier: "basic",
+    price: 999,
+    status: "active",
+    billingProvider: "fake",
+    externalSubscriptionId: "sub_bob"
+  });
+
+  bobAccount = await storage.createConnectedAccount({
+    userId: bob.id,
+    platform: "youtube",
+    externalAccountId: "UC-bob",
+    accessToken: "token",
+    status: "active"
+  });
+
+  const post = await storage.createScheduledPost({
+    userId: bob.id,
+    videoId: bobVideo.id,
+    accountId: bobAccount.id,
+    platform: "youtube",
+    scheduledAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    status: "scheduled"
+  });
+  bobScheduledPostId = post.id;
+
+  const caption = await storage.createCaption({
+    userId: bob.id,
+    platform: "youtube",
+    language: "english",
+    text: "Sunrise",
+    provider: "template",
+    options: {
+      topic: "Sunrise",
+      mood: "casual",
+      platform: "youtube",
+      includeHashtags: false,
+      includeEmojis: false,
+      toneStrength: 3,
+      callToAction: "none",
+      language: "english",
+      captionLength: "short"
+    }
+  });
+  bobCaptionId = caption.id;
+});
+
+describe("videos", () => {
+  it.each([
+    ["GET", (id: number) => alice.get(`/api/videos/${id}`)],
+    ["PUT", (id: number) => alice.put(`/api/videos/${id}`).send({ title: "Mine now" })],
+    ["DELETE", (id: number) => alice.delete(`/api/videos/${id}`)],
+    ["publish", (id: number) => alice.post(`/api/videos/${id}/publish`).send({ accountIds: [bobAccount.id] })]
+  ])("%s answers 404 for a missing video and 403 for another user's", async (_method, send) => {
+    await send(MISSING_ID).expect(404);
+    await send(bobVideo.id).expect(403);
+  });
+
+  it("leaves the other user's video unchanged", async () => {
+    expect(await storage.getVideo(bobVideo.id)).toMatchObject({ title: "Bob's video", userId: bob.id });
+  });
+});
+
+describe("templates", () => {
+  it("hides another user's private template", async () => {
+    await alice.get(`/api/templates/${MISSING_ID}`).expect(404);
+    await alice.get(`/api/templates/${bobPrivateTemplate.id}`).expect(404);
+    await alice.get(`/api/templates/${bobPublicTemplate.id}`).expect(200);
+  });
+
+  it.each([
+    ["PUT", (id: number) => alice.put(`/api/templates/${id}`).send({ title: "Mine now" })],
+    ["DELETE", (id: number) => alice.delete(`/api/templates/${id}`)],
+    ["publish", (id: number) => alice.post(`/api/templates/${id}/versions`).send({ changelog: "Taken over" })]
+  ])("%s answers 404 for a template the user cannot see and 403 for another user's public one", async (_method, send) => {
+    await send(MISSING_ID).expect(404);
+    await send(bobPrivateTemplate.id).expect(404);
+    await send(bobPublicTemplate.id).expect(403);
+  });
+
+  it("leaves the other user's templates unchanged", async () => {
+    expect(await storage.getTemplate(bobPublicTemplate.id)).toMatchObject({ title: "Public", currentVersion: 1 });
+    expect(await storage.getTemplate(bobPrivateTemplate.id)).toBeDefined();
+  });
+
+  describe("premium", () => {
+    let premiumTemplate: Template;
+
+    const videoBody = () => ({
+      title: "From a premium template",
+      prompt: "A sunrise over the mountains",
+      style: "anime",
+      duration: "15s",
+      aspectRatio: "16:9",
+      platforms: ["youtube"],
+      templateId: premiumTemplate.id
+    });
+
+    beforeAll(async () => {
+      premiumTemplate = await storage.createTemplate({
+        title: "Premium catalog template",
+        description: "Only for premium plans",
+        category: "marketing",
+        style: "cinematic",
+        duration: "30s",
+        premium: true
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("are shown locked to users whose plan does not include them", async () => {
+      const { body } = await alice.get(`/api/templates/${premiumTemplate.id}`).expect(200);
+
+      expect(body).toMatchObject({ premium: true, locked: true });
+    });
+
+    it("cannot be used to save or generate a video without a premium plan", async () => {
+      const enqueue = vi.spyOn(generationQueue, "enqueue");
+
+      const { body } = await alice.post("/api/videos").send(videoBody()).expect(403);
+      expect(body).toMatchObject({ code: "premiumTemplates", tier: "free" });
+      await alice.post("/api/generate-video").send(videoBody()).expect(403);
+
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+
+    it("cannot be made by users", async () => {
+      const { body } = await alice.post("/api/templates")
+        .send({ title: "My premium", description: "Mine", category: "custom", style: "cinematic", duration: "30s", premium: true })
+        .expect(201);
+
+      expect(body.premium).toBe(false);
+    });
+
+    it("unlock with a premium subscription and apply their style and duration", async () => {
+      const aliceId = (await storage.getUserByUsername("alice"))!.id;
+      const subscription = await storage.createSubscription({ userId: aliceId, tier: "premium", price: 2900, status: "active" });
+
+      try {
+        const { body: template } = await alice.get(`/api/templates/${premiumTemplate.id}`).expect(200);
+        expect(template.locked).toBe(false);
+
+        const { body: video } = await alice.post("/api/videos").send(videoBody()).expect(201);
+        expect(video).toMatchObject({ templateId: premiumTemplate.id, style: "cinematic", duration: "30s" });
+      } finally {
+        // The other tests expect Alice on the free plan
+        await storage.updateSubscription(subscription.id, { status: "expired" });
+      }
+    });
+  });
+
+  describe("in the generator", () => {
+    let sectionedTemplate: Template;
+
+    beforeAll(async () => {
+      sectionedTemplate = await storage.createTemplate({
+        title: "Product launch",
+        description: "Hook, features and a call to action",
+        category: "marketing",
+        style: "cinematic",
+        duration: "30s",
+        settings: { sections: ["hook", "features", "call-to-action"], transitions: ["fade", "wipeleft"] }
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("apply the template's style, duration, sections and transitions and record the template", async () => {
+      const enqueue = vi.spyOn(generationQueue, "enqueue").mockReturnValue({ id: "job", status: "queued" } as GenerationJob);
+
+      await alice.post("/api/generate-video").send({
+        title: "Launch day",
+        prompt: "Meet the new app. It plans your week. Download it today.",
+        style: "anime",
+        duration: "15s",
+        aspectRatio: "9:16",
+        platforms: ["tiktok"],
+        templateId: sectionedTemplate.id
+      }).expect(202);
+
+      const [, videoData, options] = enqueue.mock.calls[0];
+      expect(videoData).toMatchObject({ templateId: sectionedTemplate.id, style: "cinematic", duration: "30s" });
+      expect(options?.template).toMatchObject({
+        sections: ["hook", "features", "call-to-action"],
+        transitions: ["fade", "wipeleft"]
+      });
+    });
+
+    it("answers 404 for a template the user cannot see", async () => {
+      const enqueue = vi.spyOn(generationQueue, "enqueue");
+      const body = {
+        title: "Launch day",
+        prompt: "Meet the new app.",
+        style: "cinematic",
+        duration: "15s",
+        aspectRatio: "9:16",
+        platforms: ["tiktok"]
+      };
+
+      await alice.post("/api/generate-video").send({ ...body, templateId: MISSING_ID }).expect(404);
+      await alice.post("/api/generate-video").send({ ...body, templateId: bobPrivateTemplate.id }).expect(404);
+
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("subscriptions", () => {
+  it("GET answers 403 for another user's subscription", async () => {
+    await alice.get(`/api/users/${bob.id}/subscription`).expect(403);
+  });
+
+  it("cancel answers 404 for a missing subscription and 403 for another user's", async () => {
+    await alice.post(`/api/subscriptions/${MISSING_ID}/cancel`).expect(404);
+    await alice.post(`/api/subscriptions/${bobSubscription.id}/cancel`).expect(403);
+    expect(await storage.getSubscription(bobSubscription.id)).toMatchObject({ status: "active" });
+  });
+});
+
+describe("connected accounts", () => {
+  it.each([
+    ["PUT", (id: number) => alice.put(`/api/connected-accounts/${id}`).send({ displayName: "Mine now" })],
+    ["DELETE", (id: number) => alice.delete(`/api/connected-accounts/${id}`)]
+  ])("%s answers 404 for a missing account and 403 for another user's", async (_method, send) => {
+    await send(MISSING_ID).expect(404);
+    await send(bobAccount.id).expect(403);
+  });
+});
+
+describe("scheduled posts", () => {
+  it.each([
+    ["PUT", (id: number) => alice.put(`/api/scheduled-posts/${id}`).send({ scheduledAt: "2099-01-01T12:00" })],
+    ["cancel", (id: number) => alice.post(`/api/scheduled-posts/${id}/cancel`)]
+  ])("%s answers 404 for a missing post and 403 for another user's", async (_method, send) => {
+    await send(MISSING_ID).expect(404);
+    await send(bobScheduledPostId).expect(403);
+  });
+
+  it("are scheduled at the wall-clock time in their zone, on either side of daylight saving time", async () => {
+    const aliceId = (await storage.getUserByUsername("alice"))!.id;
+    const video = await storage.createVideo({
+      userId: aliceId,
+      title: "Alice's scheduled video",
+      prompt: "A sunrise over the mountains",
+      style: "cinematic",
+      duration: "30s",
+      aspectRatio: "16:9",
+      platforms: ["youtube"],
+      videoUrl: "alice-scheduled.mp4"
+    });
+    const account = await storage.createConnectedAccount({
+      userId: aliceId,
+      platform: "youtube",
+      externalAccountId: "UC-alice-scheduled",
+      accessToken: "token",
+      status: "active"
+    });
+
+    const { body: [post] } = await alice.post(`/api/videos/${video.id}/schedule`)
+      .send({ accountIds: [account.id], scheduledAt: "2099-07-15T09:00", timezone: "America/New_York" })
+      .expect(201);
+    expect(post).toMatchObject({ scheduledAt: "2099-07-15T13:00:00.000Z", timezone: "America/New_York" });
+
+    // Rescheduling keeps the post's zone, now in standard time
+    const { body: moved } = await alice.put(`/api/scheduled-posts/${post.id}`).send({ scheduledAt: "2099-01-15T09:00" }).expect(200);
+    expect(moved).toMatchObject({ scheduledAt: "2099-01-15T14:00:00.000Z", timezone: "America/New_York" });
+
+    await alice.put(`/api/scheduled-posts/${post.id}`).send({ scheduledAt: "2099-01-15T09:00", timezone: "Mars/Olympus_Mons" }).expect(400);
+    await alice.put(`/api/scheduled-posts/${post.id}`).send({ scheduledAt: "2000-01-15T09:00" }).expect(400);
+
+    // The free plan has room for one account, which the publishing tests connect
+    await storage.updateConnectedAccount(account.id, { status: "revoked" });
+  });
+});
+
+describe("captions", () => {
+  it.each([
+    ["PUT", (id: number) => alice.put(`/api/captions/${id}`).send({ videoId: null })],
+    ["DELETE", (id: number) => alice.delete(`/api/captions/${id}`)]
+  ])("%s answers 404 for a missing caption and 403 for another user's", async (_method, send) => {
+    await send(MISSING_ID).expect(404);
+    await send(bobCaptionId).expect(403);
+  });
+});
+
+describe("generation text", () => {
+  const settings = {
+    style: "cinematic",
+    duration: "15s",
+    aspectRatio: "16:9",
+    platforms: ["youtube"]
+  };
+
+  // Captures what would be rendered instead of rendering it
+  const captureJobs = () =>
+    vi.spyOn(generationQueue, "enqueue").mockReturnValue({ id: "job", status: "queued" } as GenerationJob);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("passes the title, prompt and script on without HTML escaping", async () => {
+    const enqueue = captureJobs();
+
+    await alice.post("/api/generate-video").send({
+      ...settings,
+      title: "Don't stop",
+      prompt: "Left/right <now>",
+      voiceover: { script: "Don't stop/go" }
+    }).expect(202);
+
+    const videoData = enqueue.mock.calls[0][1];
+    expect(videoData).toMatchObject({ title: "Don't stop", prompt: "Left/right <now>" });
+    expect(voiceoverService.getScript(videoData, videoData.voiceover!)).toBe("Don't stop/go");
+  });
+
+  it("narrates a saved video's text as it was typed when regenerating", async () => {
+    const { body: video } = await alice.post("/api/videos").send({
+      ...settings,
+      title: "Don't stop",
+      prompt: "Go left/right."
+    }).expect(201);
+    expect(video).toMatchObject({ title: "Don't stop", prompt: "Go left/right." });
+
+    const enqueue = captureJobs();
+    await alice.post(`/api/videos/${video.id}/regenerate`).send({ voiceover: { speed: 1 } }).expect(202);
+
+    const videoData = enqueue.mock.calls[0][1];
+    expect(voiceoverService.getScript(videoData, videoData.voiceover!)).toBe("Don't stop. Go left/right.");
+  });
+
+  it("refuses music that is not in the library", async () => {
+    const enqueue = captureJobs();
+
+    const { body } = await alice.post("/api/generate-video").send({
+      ...settings,
+      title: "With music",
+      prompt: "A sunrise over the mountains",
+      musicTrackId: MISSING_ID
+    }).expect(400);
+
+    expect(body.error).toBe("The chosen music track is not in the library");
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+});
+
+describe("publishing", () => {
+  let video: Video;
+  let otherVideo: Video;
+  let accountId: number;
+
+  const publish = (videoId: number, idempotencyKey: string) =>
+    alice.post(`/api/videos/${videoId}/publish`).send({ accountIds: [accountId], idempotencyKey });
+
+  beforeAll(async () => {
+    const aliceId = (await storage.getUserByUsername("alice"))!.id;
+    const videoSettings: Omit<InsertVideo, "title"> = {
+      userId: aliceId,
+      prompt: "A sunrise over the mountains",
+      style: "cinematic",
+      duration: "30s",
+      aspectRatio: "16:9",
+      platforms: ["youtube"],
+      videoUrl: "alice-video.mp4"
+    };
+    video = await storage.createVideo({ ...videoSettings, title: "Alice's video" });
+    otherVideo = await storage.createVideo({ ...videoSettings, title: "Alice's other video" });
+
+    const account = await storage.createConnectedAccount({
+      userId: aliceId,
+      platform: "youtube",
+      externalAccountId: "UC-alice",
+      accessToken: "token",
+      status: "active"
+    });
+    accountId = account.id;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("replays a repeated request and publishes again under a new key", async () => {
+    const upload = vi.spyOn(socialMediaService, "publishToAccount")
+      .mockResolvedValue({ success: false, platform: "youtube", error: "Upload rejected" });
+
+    const { body: first } = await publish(video.id, "first-attempt").expect(200);
+    expect(first.publications).toMatchObject([{ videoId: video.id, accountId, status: "failed" }]);
+
+    const { body: repeated } = await publish(video.id, "first-attempt").expect(200);
+    expect(repeated.publications).toEqual(first.publications);
+    expect(upload).toHaveBeenCalledTimes(1);
+
+    const { body: second } = await publish(video.id, "second-attempt").expect(200);
+    expect(second.publications[0].id).not.toBe(first.publications[0].id);
+    expect(upload).toHaveBeenCalledTimes(2);
+  });
+
+  it("marks publications whose upload was only simulated", async () => {
+    vi.spyOn(socialMediaService, "publishToAccount")
+      .mockResolvedValue({ success: true, platform: "youtube", externalId: "dQw4w9WgXcQ", simulated: true });
+
+    const { body } = await publish(video.id, "simulated-attempt").expect(200);
+
+    expect(body.publications).toMatchObject([{ status: "succeeded", externalId: "dQw4w9WgXcQ", simulated: true }]);
+  });
+
+  it("does not hand out another video's publications for a reused key", async () => {
+    const upload = vi.spyOn(socialMediaService, "publishToAccount");
+
+    await publish(otherVideo.id, "first-attempt").expect(409);
+    expect(upload).not.toHaveBeenCalled();
+  });
+});
+
+describe("renders", () => {
+  let aliceId: number;
+
+  const videoBody = {
+    title: "Alice's rendered video",
+    prompt: "A sunrise over the mountains",
+    style: "cinematic",
+    duration: "30s",
+    aspectRatio: "16:9",
+    platforms: ["youtube"]
+  };
+
+  const createRender = (userId: number, settings: Partial<InsertVideoRender> = {}) =>
+    storage.createVideoRender({
+      userId,
+      prompt: "A sunrise over the mountains",
+      style: "cinematic",
+      duration: "30s",
+      aspectRatio: "16:9",
+      resolution: 1080,
+      provider: "mock",
+      videoUrl: "render-video.mp4",
+      thumbnailUrl: "render-thumbnail.png",
+      ...settings
+    });
+
+  beforeAll(async () => {
+    aliceId = (await storage.getUserByUsername("alice"))!.id;
+  });
+
+  it("saves a video with its preview render as the first version", async () => {
+    const render = await createRender(aliceId, { videoUrl: "preview.mp4" });
+
+    const { body: video } = await alice.post("/api/videos").send({ ...videoBody, renderId: render.id }).expect(201);
+
+    expect(await storage.getVideo(video.id)).toMatchObject({ videoUrl: "preview.mp4", currentRenderId: render.id });
+    expect(await storage.getVideoRender(render.id)).toMatchObject({ videoId: video.id, version: 1 });
+  });
+
+  it("ignores another user's render and one already saved with a video", async () => {
+    const bobRender = await createRender(bob.id);
+    const { body: saved } = await alice.post("/api/videos").send(videoBody).expect(201);
+    const savedRender = await createRender(aliceId, { videoId: saved.id, version: 1 });
+
+    for (const render of [bobRender, savedRender]) {
+      const { body: video } = await alice.post("/api/videos").send({ ...videoBody, renderId: render.id }).expect(201);
+
+      expect(await storage.getVideo(video.id)).toMatchObject({ videoUrl: null, currentRenderId: null });
+      expect(await storage.getVideoRender(render.id)).toEqual(render);
+    }
+  });
+
+  describe("of a saved video", () => {
+    let video: Video;
+    let first: number;
+    let second: number;
+
+    beforeAll(async () => {
+      const { body } = await alice.post("/api/videos").send(videoBody).expect(201);
+      video = body;
+      first = (await createRender(aliceId, { videoId: video.id, version: 1, style: "cinematic", videoUrl: "first.mp4" })).id;
+      second = (await createRender(aliceId, { videoId: video.id, version: 2, style: "anime", videoUrl: "second.mp4" })).id;
+    });
+
+    it("are listed newest first", async () => {
+      const { body } = await alice.get(`/api/videos/${video.id}/renders`).expect(200);
+
+      expect(body.map((render: { id: number }) => render.id)).toEqual([second, first]);
+    });
+
+    it("are compared by the settings they were made with", async () => {
+      const { body } = await alice.get(`/api/videos/${video.id}/renders/compare?a=${first}&b=${second}`).expect(200);
+
+      expect(body.differences).toEqual([{ setting: "style", a: "cinematic", b: "anime" }]);
+    });
+
+    it("can have an earlier one promoted back to current", async () => {
+      await alice.post(`/api/videos/${video.id}/renders/${first}/promote`).expect(200);
+
+      expect(await storage.getVideo(video.id)).toMatchObject({ style: "cinematic", videoUrl: "first.mp4", currentRenderId: first });
+    });
+
+    it("answer 404 for a render of another video", async () => {
+      const otherRender = await createRender(aliceId);
+
+      await alice.get(`/api/videos/${video.id}/renders/compare?a=${first}&b=${otherRender.id}`).expect(404);
+      await alice.post(`/api/videos/${video.id}/renders/${otherRender.id}/promote`).expect(404);
+    });
+
+    it("answer 403 for another user's video", async () => {
+      await alice.get(`/api/videos/${bobVideo.id}/renders`).expect(403);
+    });
+  });
+});
+
+describe("generation notifications", () => {
+  let socket: WebSocket;
+  let aliceId: number;
+  const messages: Array<Record<string, unknown>> = [];
+
+  const nextMessage = (type: string) => vi.waitFor(() => {
+    const message = messages.find(message => message.type === type);
+    if (!message) throw new Error(`No ${type} message yet`);
+    return message;
+  });
+
+  const job = (settings: Partial<GenerationJob> = {}): GenerationJob => ({
+    id: "job",
+    userId: aliceId,
+    status: "completed",
+    stage: null,
+    progress: 100,
+    videoData: {
+      userId: aliceId,
+      title: "Alice's generated video",
+      prompt: "A sunrise over the mountains",
+      style: "cinematic",
+      duration: "30s",
+      aspectRatio: "16:9",
+      platforms: ["youtube"]
+    },
+    options: {},
+    videoUrl: "generated.mp4",
+    thumbnailUrl: "generated.png",
+    provider: "mock",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...settings
+  });
+
+  beforeAll(async () => {
+    aliceId = (await storage.getUserByUsername("alice"))!.id;
+    await new Promise<void>(resolve => server.listen(0, resolve));
+
+    const login = await request(app).post("/api/login").send({ username: "alice", password: "correct horse battery" }).expect(200);
+    socket = new WebSocket(`ws://localhost:${(server.address() as AddressInfo).port}/ws`, {
+      headers: { cookie: login.headers["set-cookie"] }
+    });
+    socket.on("message", data => messages.push(JSON.parse(data.toString())));
+
+    // The socket joins its user once the session has loaded, which the pong comes after
+    await nextMessage("welcome");
+    socket.send(JSON.stringify({ type: "ping" }));
+    await nextMessage("pong");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    messages.length = 0;
+  });
+
+  afterAll(async () => {
+    socket.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("tells the owner how far a job has got", async () => {
+    generationQueue.emit("progress", job({ id: "job-progress", status: "running", stage: "voiceover", progress: 40 }));
+
+    expect(await nextMessage("generation_progress")).toEqual({
+      type: "generation_progress",
+      jobId: "job-progress",
+      status: "running",
+      stage: "voiceover",
+      progress: 40
+    });
+  });
+
+  it("sends the finished video with the render it can be saved with", async () => {
+    const render = await storage.createVideoRender({
+      userId: aliceId,
+      prompt: "A sunrise over the mountains",
+      style: "cinematic",
+      duration: "30s",
+      aspectRatio: "16:9",
+      resolution: 1080,
+      provider: "mock",
+      videoUrl: "generated.mp4",
+      thumbnailUrl: "generated.png"
+    });
+    vi.spyOn(videoRenderService, "record").mockResolvedValue(render);
+
+    generationQueue.emit("completed", job({ id: "job-completed" }));
+
+    expect(await nextMessage("generation_completed")).toMatchObject({
+      jobId: "job-completed",
+      video: { title: "Alice's generated video", status: "completed", provider: "mock", renderId: render.id }
+    });
+  });
+
+  it("reports a failure when the finished video cannot be loaded", async () => {
+    vi.spyOn(videoRenderService, "record").mockRejectedValue(new Error("Database unavailable"));
+    vi.spyOn(assetService, "withSignedUrls").mockRejectedValue(new Error("Asset store unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    generationQueue.emit("completed", job({ id: "job-unloadable" }));
+
+    expect(await nextMessage("generation_failed")).toMatchObject({
+      jobId: "job-unloadable",
+      error: "The video was generated but could not be loaded"
+    });
+    expect(messages.some(message => message.type === "generation_completed")).toBe(false);
+  });
+
+  it("does not tell other users about the job", async () => {
+    generationQueue.emit("progress", job({ id: "job-bob", userId: bob.id, status: "running" }));
+    generationQueue.emit("progress", job({ id: "job-alice", status: "running" }));
+
+    await nextMessage("generation_progress");
+    expect(messages.map(message => message.jobId)).toEqual(["job-alice"]);
+  });
+});
@@ -0,0 +1,2122 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { createServer, type Server } from "http";
+import { storage } from "./storage";
+import { setupAuth, requireAuth } from "./auth";
+import { WebSocketServer, WebSocket } from "ws";
+import { 
+  insertVideoSchema, 
+  insertAnalyticsSchema, 
+  insertActivitySchema,
+  insertTemplateSchema,
+  type Video,
+  type VideoRender,
+  type ConnectedAccount,
+  type ScheduledPost,
+  type Caption,
+  type InsertVideo,
+  type Template,
+  type TemplateSettings,
+  templateVisibilities,
+  parseTemplateSettings,
+  captionFormSchema,
+  seoFormSchema
+} from "@shared/schema";
+import { isValidTimeZone, zonedTimeToUtc } from "@shared/timezone";
+import { DEFAULT_RESOLUTION, videoResolutions, type VideoResolution } from "@shared/plans";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { aiService } from "./services/ai-service";
+import { socialMediaService } from "./services/social-media-service";
+import { generationQueue, type GenerationJob } from "./services/generation-queue";
+import { oauthService } from "./services/oauth-service";
+import { encryptToken } from "./services/token-crypto";
+import { publishScheduler } from "./services/publish-scheduler";
+import { publicationService } from "./services/publication-service";
+import { analyticsQueryService, isTimeRange } from "./services/analytics-query";
+import { captionService } from "./services/caption-service";
+import { seoService } from "./services/seo-service";
+import { keywordIndex, type KeywordKind } from "./services/keyword-index";
+import { templateService } from "./services/template-service";
+import { planLimits, PlanLimitError, sendPlanViolation } from "./services/plan-limits";
+import { billingService } from "./services/billing-service";
+import { BillingSignatureError } from "./services/billing-provider";
+import { FakeBillingProvider, createFakeBillingRouter } from "./services/fake-billing-provider";
+import { parseDurationSeconds } from "./services/composition-engine";
+import { videoRenderService } from "./services/video-render-service";
+import { assetService } from "./services/asset-service";
+import { musicService } from "./services/music-service";
+import { LocalAssetStore, createLocalAssetRouter } from "./services/local-asset-store";
+import {
+  analyticsExporter,
+  EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  isExportColumn,
+  isExportFormat,
+  type ExportColumnKey
+} from "./services/analytics-export";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+
+// Create route middleware
+const asyncHandler = (fn: Function) => (req: Request, res: Response, next: NextFunction) => {
+  Promise.resolve(fn(req, res, next)).catch(next);
+};
+
+// Id of the logged-in user; only valid behind requireAuth
+const currentUserId = (req: Request): number => req.user!.id;
+
+// Connected account as sent to the client; tokens never leave the server
+const toPublicAccount = ({ accessToken: _accessToken, refreshToken: _refreshToken, ...account }: ConnectedAccount) => account;
+
+// Input sanitization - prevents NoSQL injection and XSS
+const sanitizeInput = (obj: any): any => {
+  if (obj === null || obj === undefined) {
+    return obj;
+  }
+  
+  if (typeof obj !== 'object') {
+    // If string, sanitize for potential XSS
+    if (typeof obj === 'string') {
+      return obj
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#x27;')
+        .replace(/\//g, '&#x2F;');
+    }
+    return obj;
+  }
+  
+  // Handle arrays
+  if (Array.isArray(obj)) {
+    return obj.map(sanitizeInput);
+  }
+  
+  // Handle objects by recursively sanitizing values
+  const result: any = {};
+  for (const key in obj) {
+    if (Object.prototype.hasOwnProperty.call(obj, key)) {
+      result[key] = sanitizeInput(obj[key]);
+    }
+  }
+  
+  return result;
+};
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Setup authentication
+  const sessionParser = setupAuth(app);
+  
+  // Create HTTP server
+  const httpServer = createServer(app);
+  
+  // Setup WebSocket server on a specific path
+  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  
+  // Open sockets per user, so job updates only reach their owner
+  const userSockets = new Map<number, Set<WebSocket>>();
+  
+  const sendToUser = (userId: number, message: Record<string, unknown>) => {
+    const sockets = userSockets.get(userId);
+    if (!sockets) return;
+    
+    const payload = JSON.stringify(message);
+    sockets.forEach(socket => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    });
+  };
+  
+  // Handle WebSocket connections
+  wss.on('connection', (ws, req) => {
+    console.log('WebSocket client connected');
+    
+    // Resolve the logged-in user from the session cookie sent with the upgrade request
+    let userId: number | undefined;
+    sessionParser(req as Request, {} as Response, () => {
+      userId = (req as Request).session.passport?.user;
+      // The socket may have closed while the session was loading
+      if (userId === undefined || ws.readyState !== WebSocket.OPEN) return;
+      
+      if (!userSockets.has(userId)) {
+        userSockets.set(userId, new Set());
+      }
+      userSockets.get(userId)!.add(ws);
+    });
+    
+    // Send welcome message
+    ws.send(JSON.stringify({ 
+      type: 'welcome', 
+      message: 'Connected to VIDIYOME real-time updates' 
+    }));
+    
+    // Handle incoming messages
+    ws.on('message', (message) => {
+      try {
+        const data = JSON.parse(message.toString());
+        console.log('Received WebSocket message:', data);
+        
+        // Handle different message types here
+        if (data.type === 'ping') {
+          ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+        }
+      } catch (error) {
+        console.error('WebSocket message error:', error);
+      }
+    });
+    
+    // Handle client disconnect
+    ws.on('close', () => {
+      console.log('WebSocket client disconnected');
+      
+      if (userId !== undefined) {
+        const sockets = userSockets.get(userId);
+        sockets?.delete(ws);
+        if (sockets?.size === 0) {
+          userSockets.delete(userId);
+        }
+      }
+    });
+  });
+  
+  // Forward generation job events to the user who requested the video
+  const jobSummary = (job: GenerationJob) => ({
+    jobId: job.id,
+    status: job.status,
+    stage: job.stage,
+    progress: job.progress
+  });
+  
+  generationQueue.on('progress', (job: GenerationJob) => {
+    sendToUser(job.userId, { type: 'generation_progress', ...jobSummary(job) });
+  });
+  
+  generationQueue.on('completed', async (job: GenerationJob) => {
+    // Keep the render so it can be saved, compared and promoted later
+    const render = await videoRenderService.record(job)
+      .catch(error => console.error('Error recording video render:', error));
+    
+    try {
+      sendToUser(job.userId, {
+        type: 'generation_completed',
+        ...jobSummary(job),
+        video: await assetService.withSignedUrls({
+          ...job.videoData,
+          ...(job.videoId ? { id: job.videoId } : {}),
+          status: "completed",
+          videoUrl: job.videoUrl ?? null,
+          thumbnailUrl: job.thumbnailUrl ?? null,
+          subtitlesSrtUrl: job.subtitlesSrtUrl ?? null,
+          subtitlesVttUrl: job.subtitlesVttUrl ?? null,
+          provider: job.provider,
+          renderId: render ? render.id : undefined
+        })
+      });
+    } catch (error) {
+      // Nothing catches errors of event listeners, so the page would wait for the video forever
+      console.error('Error sending generated video:', error);
+      sendToUser(job.userId, {
+        type: 'generation_failed',
+        ...jobSummary(job),
+        error: 'The video was generated but could not be loaded'
+      });
+    }
+    
+    // Record the successful generation as an activity
+    await storage.createActivity({
+      userId: job.userId,
+      action: 'video_generation_completed',
+      details: { message: `Completed generating "${job.videoData.title}" video` }
+    }).catch(error => console.error('Error recording generation activity:', error));
+  });
+  
+  generationQueue.on('failed', async (job: GenerationJob) => {
+    sendToUser(job.userId, {
+      type: 'generation_failed',
+      ...jobSummary(job),
+      error: job.error
+    });
+    
+    await storage.createActivity({
+      userId: job.userId,
+      action: 'video_generation_failed',
+      details: { message: `Failed generating "${job.videoData.title}" video` }
+    }).catch(error => console.error('Error recording generation activity:', error));
+  });
+  
+  // Let the owner's open pages know when a scheduled post goes out or fails
+  publishScheduler.on('published', (post: ScheduledPost) => {
+    sendToUser(post.userId, { type: 'scheduled_post_published', post });
+  });
+  
+  publishScheduler.on('failed', (post: ScheduledPost) => {
+    sendToUser(post.userId, { type: 'scheduled_post_failed', post });
+  });
+  
+  // Enhanced validation with sanitization
+  const validateRequest = (schema: any, data: any) => {
+    try {
+      // First sanitize the data
+      const sanitizedData = sanitizeInput(data);
+      // Then validate with schema
+      return { data: schema.parse(sanitizedData), error: null };
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return { data: null, error: fromZodError(error).message };
+      }
+      return { data: null, error: 'Validation error' };
+    }
+  };
+
+  // Loads a video and checks the caller owns it, responding 404/403 otherwise
+  const findOwnedVideo = async (req: Request, res: Response, id: number): Promise<Video | undefined> => {
+    const video = await storage.getVideo(id);
+    
+    if (!video) {
+      res.status(404).json({ message: "Video not found" });
+      return undefined;
+    }
+    
+    if (video.userId !== currentUserId(req)) {
+      res.status(403).json({ message: "You do not have access to this video" });
+      return undefined;
+    }
+    
+    return video;
+  };
+  
+  /**
+   * Resolve a wall-clock time picked in a time zone to the UTC instant to publish at.
+   * Read from the raw body: sanitizing would mangle zone names like "America/New_York",
+   * and both values are checked strictly here instead.
+   */
+  const parseScheduleTime = (body: any): { scheduledAt: Date; timezone: string } | { error: string } => {
+    const timezone = typeof body?.timezone === 'string' && body.timezone ? body.timezone : 'UTC';
+    if (!isValidTimeZone(timezone)) {
+      return { error: `Unknown time zone: ${sanitizeInput(timezone)}` };
+    }
+    
+    const scheduledAt = typeof body?.scheduledAt === 'string' ? zonedTimeToUtc(body.scheduledAt, timezone) : null;
+    if (!scheduledAt) {
+      return { error: "scheduledAt must be a date and time like 2025-01-31T14:30" };
+    }
+    
+    if (scheduledAt.getTime() <= Date.now()) {
+      return { error: "Scheduled time must be in the future" };
+    }
+    
+    return { scheduledAt, timezone };
+  };
+  
+  /**
+   * For videos based on a template: checks the caller may use the template and
+   * applies its style and duration, which the generator cannot change. Responds
+   * 404 when the template is not visible to the caller, 403 for premium
+   * templates their plan does not include, and returns undefined.
+   */
+  const applyVideoTemplate = async (req: Request, res: Response, data: InsertVideo): Promise<{ data: InsertVideo; settings?: TemplateSettings } | undefined> => {
+    if (!data.templateId) return { data: { ...data, templateVersion: null } };
+    
+    const template = await templateService.getForUser(data.templateId, req.user!);
+    if (!template) {
+      res.status(404).json({ message: "Template not found" });
+      return undefined;
+    }
+    
+    if (template.locked) {
+      const violation = await planLimits.checkPremiumTemplates(currentUserId(req));
+      if (violation) {
+        sendPlanViolation(res, violation);
+        return undefined;
+      }
+    }
+    
+    return {
+      data: { ...data, style: template.style, duration: template.duration, templateVersion: template.version },
+      settings: parseTemplateSettings(template)
+    };
+  };
+  
+  // Loads a template the caller can see and checks they own it, responding 404/403 otherwise
+  const findEditableTemplate = async (req: Request, res: Response, id: number): Promise<Template | undefined> => {
+    const template = await storage.getTemplate(id);
+    
+    if (!template || !(await templateService.getForUser(id, req.user!))) {
+      res.status(404).json({ message: "Template not found" });
+      return undefined;
+    }
+    
+    if (!templateService.canEdit(template, req.user!)) {
+      res.status(403).json({ message: "You can only change templates you created" });
+      return undefined;
+    }
+    
+    return template;
+  };
+  
+  // Same as findOwnedVideo, for scheduled posts
+  const findOwnedScheduledPost = async (req: Request, res: Response, id: number): Promise<ScheduledPost | undefined> => {
+    const post = await storage.getScheduledPost(id);
+    
+    if (!post) {
+      res.status(404).json({ message: "Scheduled post not found" });
+      return undefined;
+    }
+    
+    if (post.userId !== currentUserId(req)) {
+      res.status(403).json({ message: "You do not have access to this scheduled post" });
+      return undefined;
+    }
+    
+    return post;
+  };
+  
+  // Same as findOwnedVideo, for connected accounts
+  const findOwnedAccount = async (req: Request, res: Response, id: number): Promise<ConnectedAccount | undefined> => {
+    const account = await storage.getConnectedAccount(id);
+    
+    if (!account) {
+      res.status(404).json({ message: "Connected account not found" });
+      return undefined;
+    }
+    
+    if (account.userId !== currentUserId(req)) {
+      res.status(403).json({ message: "You do not have access to this account" });
+      return undefined;
+    }
+    
+    return account;
+  };
+  
+  // Same as findOwnedVideo, for captions
+  const findOwnedCaption = async (req: Request, res: Response, id: number): Promise<Caption | undefined> => {
+    const caption = await storage.getCaption(id);
+    
+    if (!caption) {
+      res.status(404).json({ message: "Caption not found" });
+      return undefined;
+    }
+    
+    if (caption.userId !== currentUserId(req)) {
+      res.status(403).json({ message: "You do not have access to this caption" });
+      return undefined;
+    }
+    
+    return caption;
+  };
+
+  // API Routes
+  
+  // Billing provider webhooks are signed instead of carrying a session.
+  // The body arrives unparsed (see index.ts) because the signature covers the exact bytes.
+  app.post("/api/billing/webhook", asyncHandler(async (req: Request, res: Response) => {
+    if (!billingService.provider) {
+      return res.status(503).json({ message: "Billing is not configured" });
+    }
+    
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ message: "Expected a JSON body" });
+    }
+    
+    try {
+      await billingService.handleWebhook(req.body, req.get('billing-signature'));
+    } catch (error) {
+      if (error instanceof BillingSignatureError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+    
+    res.json({ received: true });
+  }));
+  
+  // Checkout pages of the fake billing provider, for development without a payment service
+  if (billingService.provider instanceof FakeBillingProvider) {
+    app.use("/fake-billing", createFakeBillingRouter(billingService.provider));
+  }
+  
+  // Signed URLs of assets kept on local disk; other stores serve their own
+  if (assetService.store instanceof LocalAssetStore) {
+    app.use("/media", createLocalAssetRouter(assetService.store));
+  }
+  
+  // Every API route below acts on behalf of the logged-in user
+  app.use("/api", requireAuth);
+  
+  // Videos
+  app.get("/api/videos", asyncHandler(async (req: Request, res: Response) => {
+    const userId = currentUserId(req);
+    const videos = await storage.getVideosByUserId(userId);
+    res.json(await Promise.all(videos.map(video => assetService.withSignedUrls(video))));
+  }));
+
+  app.get("/api/videos/:id", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    res.json(await assetService.withSignedUrls(video));
+  }));
+
+  app.post("/api/videos", asyncHandler(async (req: Request, res: Response) => {
+    // Videos are always created for the caller, whatever userId the client sent.
+    // The text is what regenerating speaks and draws, so it is not HTML-escaped.
+    const parsed = insertVideoSchema.safeParse({ ...req.body, userId: currentUserId(req) });
+    
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    
+    const templated = await applyVideoTemplate(req, res, parsed.data);
+    if (!templated) return;
+    
+    // Assets and the current render are set only by promoting one of the video's renders
+    const video = await storage.createVideo({
+      ...templated.data,
+      videoUrl: null,
+      thumbnailUrl: null,
+      subtitlesSrtUrl: null,
+      subtitlesVttUrl: null,
+      currentRenderId: null
+    });
+    
+    // Saving a generated preview makes its render the video's first version
+    const renderId = Number(req.body.renderId);
+    if (renderId) {
+      const render = await storage.getVideoRender(renderId);
+      if (render && render.userId === video.userId && !render.videoId) {
+        const attached = await videoRenderService.attach(render, video);
+        const promoted = await videoRenderService.promote(video, attached);
+        return res.status(201).json(await assetService.withSignedUrls(promoted));
+      }
+    }
+    
+    res.status(201).json(await assetService.withSignedUrls(video));
+  }));
+
+  app.put("/api/videos/:id", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    if (!(await findOwnedVideo(req, res, id))) return;
+    
+    // Only the details around the video can be edited. Its render settings change
+    // by regenerating, which checks the caller may use them, and its assets by
+    // promoting a render. Like on creation, the title is stored unescaped.
+    const parsed = insertVideoSchema.pick({ title: true, platforms: true, status: true }).partial().safeParse(req.body ?? {});
+    
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    
+    const video = await storage.updateVideo(id, parsed.data);
+    
+    if (!video) {
+      return res.status(404).json({ message: "Video not found" });
+    }
+    
+    res.json(await assetService.withSignedUrls(video));
+  }));
+
+  app.delete("/api/videos/:id", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    if (!(await findOwnedVideo(req, res, id))) return;
+    
+    const success = await storage.deleteVideo(id);
+    
+    if (!success) {
+      return res.status(404).json({ message: "Video not found" });
+    }
+    
+    res.status(204).send();
+  }));
+
+  // Renders (versions) of a video, newest first
+  app.get("/api/videos/:id/renders", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    if (!(await findOwnedVideo(req, res, id))) return;
+    
+    const renders = await storage.getVideoRendersByVideoId(id);
+    res.json(await Promise.all(renders.map(render => assetService.withSignedUrls(render))));
+  }));
+
+  // Loads a render of the given video, responding 404 otherwise
+  const findVideoRender = async (res: Response, video: Video, renderId: number): Promise<VideoRender | undefined> => {
+    const render = isNaN(renderId) ? undefined : await storage.getVideoRender(renderId);
+    
+    if (!render || render.videoId !== video.id) {
+      res.status(404).json({ message: "Render not found" });
+      return undefined;
+    }
+    
+    return render;
+  };
+
+  // Side-by-side comparison of two renders: ?a=<renderId>&b=<renderId>
+  app.get("/api/videos/:id/renders/compare", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    const a = await findVideoRender(res, video, parseInt(sanitizeInput(String(req.query.a ?? ''))));
+    if (!a) return;
+    const b = await findVideoRender(res, video, parseInt(sanitizeInput(String(req.query.b ?? ''))));
+    if (!b) return;
+    
+    res.json(videoRenderService.compare(
+      await assetService.withSignedUrls(a),
+      await assetService.withSignedUrls(b)
+    ));
+  }));
+
+  // Make an earlier render the video's current one again
+  app.post("/api/videos/:id/renders/:renderId/promote", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    const render = await findVideoRender(res, video, parseInt(sanitizeInput(req.params.renderId)));
+    if (!render) return;
+    
+    const updated = await videoRenderService.promote(video, render);
+    
+    await storage.createActivity({
+      userId: video.userId,
+      action: 'video_render_promoted',
+      details: { videoId: video.id, renderId: render.id, message: `Restored version ${render.version} of "${video.title}"` }
+    });
+    
+    res.json(await assetService.withSignedUrls(updated));
+  }));
+
+  // Analytics
+  app.get("/api/videos/:videoId/analytics", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize videoId parameter
+    const videoId = parseInt(sanitizeInput(req.params.videoId));
+    if (isNaN(videoId)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    if (!(await findOwnedVideo(req, res, videoId))) return;
+    
+    const analytics = await storage.getAnalyticsByVideoId(videoId);
+    res.json(analytics);
+  }));
+
+  // Aggregated analytics for the user's publications over a time range (7days, 30days, 90days)
+  const parseTimeRange = (req: Request, res: Response): string | undefined => {
+    const range = req.query.range ? sanitizeInput(String(req.query.range)) : '7days';
+    if (!isTimeRange(range)) {
+      res.status(400).json({ message: `Unsupported time range: ${range}` });
+      return undefined;
+    }
+    return range;
+  };
+  
+  app.get("/api/analytics/overview", asyncHandler(async (req: Request, res: Response) => {
+    const range = parseTimeRange(req, res);
+    if (!range) return;
+    
+    res.json(await analyticsQueryService.getOverview(currentUserId(req), range));
+  }));
+  
+  app.get("/api/analytics/platforms", asyncHandler(async (req: Request, res: Response) => {
+    const range = parseTimeRange(req, res);
+    if (!range) return;
+    
+    res.json(await analyticsQueryService.getPlatformBreakdown(currentUserId(req), range));
+  }));
+  
+  app.get("/api/analytics/content", asyncHandler(async (req: Request, res: Response) => {
+    const range = parseTimeRange(req, res);
+    if (!range) return;
+    
+    const platform = req.query.platform ? sanitizeInput(String(req.query.platform)) : undefined;
+    const rows = await analyticsQueryService.getContentPerformance(currentUserId(req), range, { platform });
+    res.json(await Promise.all(rows.map(async row => ({
+      ...row,
+      thumbnailUrl: row.thumbnailUrl && await assetService.getViewUrl(row.thumbnailUrl)
+    }))));
+  }));
+  
+  // Per-video, per-platform metrics as a CSV, JSON or XLSX download
+  app.get("/api/analytics/export", asyncHandler(async (req: Request, res: Response) => {
+    const range = parseTimeRange(req, res);
+    if (!range) return;
+    
+    const format = req.query.format ? sanitizeInput(String(req.query.format)) : 'csv';
+    if (!isExportFormat(format)) {
+      return res.status(400).json({ message: `Unsupported export format: ${format}` });
+    }
+    
+    const platform = req.query.platform ? sanitizeInput(String(req.query.platform)) : undefined;
+    
+    // Comma-separated column keys; defaults to every column
+    let columns: ExportColumnKey[] = EXPORT_COLUMNS.map(column => column.key);
+    if (req.query.columns) {
+      const requested = sanitizeInput(String(req.query.columns)).split(',').map((key: string) => key.trim()).filter(Boolean);
+      const unknown = requested.filter((key: string) => !isExportColumn(key));
+      if (unknown.length > 0 || requested.length === 0) {
+        return res.status(400).json({ message: `Unknown export columns: ${unknown.join(', ') || '(none selected)'}` });
+      }
+      columns = requested as ExportColumnKey[];
+    }
+    
+    const rows = await analyticsQueryService.getContentPerformance(currentUserId(req), range, { platform });
+    const filename = `analytics-${range}${platform ? `-${platform}` : ''}-${new Date().toISOString().slice(0, 10)}`;
+    
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+    
+    await analyticsExporter.write(res, format, rows, columns);
+  }));
+
+  app.post("/api/analytics", asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = validateRequest(insertAnalyticsSchema, req.body);
+    
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    if (!(await findOwnedVideo(req, res, data.videoId))) return;
+    
+    const analytics = await storage.createAnalytics(data);
+    res.status(201).json(analytics);
+  }));
+
+  // Activities
+  app.get("/api/activities", asyncHandler(async (req: Request, res: Response) => {
+    const userId = currentUserId(req);
+    
+    // Validate and sanitize limit query parameter
+    let limit: number | undefined = undefined;
+    if (req.query.limit) {
+      const parsedLimit = parseInt(sanitizeInput(req.query.limit as string));
+      if (!isNaN(parsedLimit) && parsedLimit > 0) {
+        limit = parsedLimit;
+      }
+    }
+    
+    const activities = await storage.getActivitiesByUserId(userId, limit);
+    res.json(activities);
+  }));
+
+  app.post("/api/activities", asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = validateRequest(insertActivitySchema, { ...req.body, userId: currentUserId(req) });
+    
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    if (data.videoId && !(await findOwnedVideo(req, res, data.videoId))) return;
+    
+    const activity = await storage.createActivity(data);
+    res.status(201).json(activity);
+  }));
+
+  // AI video generation endpoint
+  /**
+   * Check a generation request against the caller's plan and queue it,
+   * responding 202 with the job. Shared by new videos and regenerations;
+   * videoId is set when regenerating a saved video.
+   */
+  const startGeneration = async (req: Request, res: Response, data: InsertVideo, videoId?: number) => {
+    if (data.provider && !aiService.hasProvider(data.provider)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Unknown video provider: ${data.provider}` 
+      });
+    }
+    
+    if (data.musicTrackId && !(await musicService.getAvailableTrack(data.musicTrackId))) {
+      return res.status(400).json({ 
+        success: false, 
+        error: "The chosen music track is not in the library" 
+      });
+    }
+    
+    // Output resolution is not stored with the video, only used for rendering
+    const resolution = Number(req.body.resolution ?? DEFAULT_RESOLUTION) as VideoResolution;
+    if (!videoResolutions.includes(resolution)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Resolution must be one of ${videoResolutions.join(', ')}` 
+      });
+    }
+    
+    const templated = await applyVideoTemplate(req, res, data);
+    if (!templated) return;
+    
+    // Jobs belong to the logged-in user so progress events reach the right sockets
+    const userId = currentUserId(req);
+    
+    // Checked after the template, which decides the duration
+    const violation = await planLimits.checkVideo(userId, {
+      durationSeconds: parseDurationSeconds(templated.data.duration),
+      resolution
+    });
+    if (violation) {
+      return sendPlanViolation(res, violation);
+    }
+    
+    // Create an activity to track the video generation
+    await storage.createActivity({
+      userId,
+      action: 'video_generation_started',
+      details: { message: `Started ${videoId ? 're' : ''}generating "${data.title}" video` }
+    });
+    
+    // Queue the generation; progress is reported over the /ws socket
+    const job = generationQueue.enqueue(userId, templated.data, { template: templated.settings, resolution }, videoId);
+    
+    res.status(202).json({ 
+      success: true, 
+      jobId: job.id, 
+      status: job.status 
+    });
+  };
+  
+  // New renders need room in the user's storage, so a full quota blocks generating
+  app.post("/api/generate-video", planLimits.requireQuota('monthlyGenerations'), planLimits.requireQuota('storageBytes'), asyncHandler(async (req: Request, res: Response) => {
+    // The title, prompt and script are spoken and drawn into the video as text,
+    // so the body is validated as-is rather than HTML-escaped
+    const parsed = insertVideoSchema.safeParse({ ...req.body, userId: currentUserId(req) });
+    
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        success: false, 
+        error: fromZodError(parsed.error).message 
+      });
+    }
+    
+    await startGeneration(req, res, parsed.data);
+  }));
+  
+  // Render a saved video again; the result becomes its next version
+  app.post("/api/videos/:id/regenerate", planLimits.requireQuota('monthlyGenerations'), planLimits.requireQuota('storageBytes'), asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, error: "Invalid video ID" });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    // Start from the video's current settings; the request may change any of
+    // them. Not HTML-escaped, as for new generations.
+    const parsed = insertVideoSchema
+      .pick({ prompt: true, style: true, duration: true, aspectRatio: true, provider: true, voiceover: true, burnSubtitles: true, musicTrackId: true })
+      .partial()
+      .safeParse(req.body ?? {});
+    
+    if (!parsed.success) {
+      return res.status(400).json({ 
+        success: false, 
+        error: fromZodError(parsed.error).message 
+      });
+    }
+    
+    const data: InsertVideo = {
+      userId: video.userId,
+      title: video.title,
+      prompt: video.prompt,
+      style: video.style,
+      duration: video.duration,
+      aspectRatio: video.aspectRatio,
+      // Checked against the schema when the video was saved
+      platforms: (video.platforms ?? []) as InsertVideo['platforms'],
+      status: video.status,
+      provider: video.provider,
+      templateId: video.templateId,
+      voiceover: video.voiceover,
+      burnSubtitles: video.burnSubtitles,
+      musicTrackId: video.musicTrackId,
+      ...parsed.data
+    };
+    
+    await startGeneration(req, res, data, video.id);
+  }));
+  
+  // Poll a generation job (fallback for clients without a socket)
+  app.get("/api/generate-video/:jobId", asyncHandler(async (req: Request, res: Response) => {
+    const job = generationQueue.getJob(sanitizeInput(req.params.jobId));
+    
+    if (!job || job.userId !== currentUserId(req)) {
+      return res.status(404).json({ message: "Generation job not found" });
+    }
+    
+    res.json({
+      jobId: job.id,
+      status: job.status,
+      stage: job.stage,
+      progress: job.progress,
+      videoUrl: job.videoUrl && await assetService.getViewUrl(job.videoUrl),
+      thumbnailUrl: job.thumbnailUrl && await assetService.getViewUrl(job.thumbnailUrl),
+      subtitlesSrtUrl: job.subtitlesSrtUrl && await assetService.getViewUrl(job.subtitlesSrtUrl),
+      subtitlesVttUrl: job.subtitlesVttUrl && await assetService.getViewUrl(job.subtitlesVttUrl),
+      provider: job.provider,
+      error: job.error
+    });
+  }));
+  
+  // Video generation providers available on this server
+  app.get("/api/video-providers", asyncHandler(async (req: Request, res: Response) => {
+    res.json({ 
+      providers: aiService.getProviders(), 
+      defaultProvider: aiService.getDefaultProvider() 
+    });
+  }));
+  
+  // Background music that can be picked, optionally only tracks suiting a video style
+  app.get("/api/music", asyncHandler(async (req: Request, res: Response) => {
+    const style = typeof req.query.style === 'string' ? sanitizeInput(req.query.style) : undefined;
+    res.json(await musicService.getTracks(style || undefined));
+  }));
+  
+  // A track with its license, including tracks that have since left the library
+  app.get("/api/music/:id", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid music track ID" });
+    }
+    
+    const track = await storage.getMusicTrack(id);
+    if (!track) {
+      return res.status(404).json({ message: "Music track not found" });
+    }
+    
+    res.json(track);
+  }));
+
+  // Social Media Integration Endpoints
+  
+  // Get configured platforms
+  app.get("/api/social-media/platforms", asyncHandler(async (req: Request, res: Response) => {
+    const platforms = socialMediaService.getConfiguredPlatforms();
+    res.json({ platforms });
+  }));
+  
+  // Get auth URL for a platform
+  app.get("/api/social-media/auth-url/:platform", asyncHandler(async (req: Request, res: Response) => {
+    const platform = sanitizeInput(req.params.platform);
+    
+    // Force reload config to ensure we have the latest environment variables
+    socialMediaService.reloadConfig();
+    
+    // Get the host from the request headers
+    const host = req.get('host') || 'localhost:5000';
+    const baseUrl = host;
+    
+    console.log(`[OAuth] Using host for ${platform} auth: ${host}`);
+    
+    // Remember the state in the session so the callback can verify it
+    const state = oauthService.createState();
+    req.session.oauthState = { ...req.session.oauthState, [platform]: state };
+    
+    const authUrl = socialMediaService.getAuthorizationUrl(platform, baseUrl, state);
+    
+    if (!authUrl) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Platform ${platform} is not configured or not supported`
+      });
+    }
+    
+    res.json({ authUrl });
+  }));
+  
+  // YouTube OAuth callback handler
+  app.get("/api/auth/youtube/callback", asyncHandler(async (req: Request, res: Response) => {
+    const { code, error, state } = req.query;
+    
+    // The state is single-use, whatever the outcome
+    const expectedState = req.session.oauthState?.youtube;
+    if (req.session.oauthState) {
+      delete req.session.oauthState.youtube;
+    }
+    
+    if (!oauthService.verifyState(expectedState, state)) {
+      console.error('YouTube OAuth state mismatch');
+      return res.status(403).send(`
+        <html>
+          <head><title>YouTube Connection Failed</title></head>
+          <body>
+            <h2>YouTube Connection Failed</h2>
+            <p>The authorization request could not be verified. Please try connecting again.</p>
+            <script>
+              setTimeout(function() {
+                window.close();
+              }, 5000);
+            </script>
+          </body>
+        </html>
+      `);
+    }
+    
+    if (error) {
+      console.error('YouTube OAuth error:', error);
+      return res.status(400).send(`
+        <html>
+          <head><title>YouTube Connection Failed</title></head>
+          <body>
+            <h2>YouTube Connection Failed</h2>
+            <p>Error: ${error}</p>
+            <script>
+              setTimeout(function() {
+                window.close();
+              }, 5000);
+            </script>
+          </body>
+        </html>
+      `);
+    }
+    
+    if (!code) {
+      return res.status(400).send(`
+        <html>
+          <head><title>Invalid Request</title></head>
+          <body>
+            <h2>Invalid Request</h2>
+            <p>No authorization code received.</p>
+            <script>
+              setTimeout(function() {
+                window.close();
+              }, 5000);
+            </script>
+          </body>
+        </html>
+      `);
+    }
+    
+    try {
+      // Exchange the authorization code for access and refresh tokens.
+      // The redirect URI must match the one sent with the authorization request.
+      const redirectUri = socialMediaService.getRedirectUri('youtube', req.get('host') || 'localhost:5000');
+      await oauthService.exchangeCode(currentUserId(req), 'youtube', String(code), redirectUri);
+      
+      // Return a success page that automatically closes
+      return res.status(200).send(`
+        <html>
+          <head><title>YouTube Connected</title></head>
+          <body>
+            <h2>YouTube Successfully Connected!</h2>
+            <p>You may close this window and return to the application.</p>
+            <script>
+              setTimeout(function() {
+                window.close();
+              }, 3000);
+            </script>
+          </body>
+        </html>
+      `);
+    } catch (error) {
+      if (error instanceof PlanLimitError) {
+        return res.status(error.violation.status).send(`
+        <html>
+          <head><title>YouTube Connection Failed</title></head>
+          <body>
+            <h2>YouTube Connection Failed</h2>
+            <p>${error.message}</p>
+            <script>
+              setTimeout(function() {
+                window.close();
+              }, 5000);
+            </script>
+          </body>
+        </html>
+      `);
+      }
+      
+      console.error('Error completing YouTube OAuth flow:', error);
+      return res.status(500).send(`
+        <html>
+          <head><title>Connection Error</title></head>
+          <body>
+            <h2>Connection Error</h2>
+            <p>There was an error connecting to YouTube. Please try again.</p>
+            <script>
+              setTimeout(function() {
+                window.close();
+              }, 5000);
+            </script>
+          </body>
+        </html>
+      `);
+    }
+  }));
+  
+  // Connected accounts
+  
+  // List the user's connected accounts
+  app.get("/api/connected-accounts", asyncHandler(async (req: Request, res: Response) => {
+    const accounts = await storage.getConnectedAccountsByUserId(currentUserId(req));
+    res.json(accounts.map(toPublicAccount));
+  }));
+  
+  // Connect an account with an existing access token (platforms without an OAuth flow here)
+  app.post("/api/connected-accounts", asyncHandler(async (req: Request, res: Response) => {
+    const connectSchema = z.object({
+      platform: z.enum(['tiktok', 'instagram']),
+      externalAccountId: z.string().min(1, "Account ID is required"),
+      displayName: z.string().optional(),
+      accessToken: z.string().min(1, "Access token is required")
+    });
+    
+    const { data, error } = validateRequest(connectSchema, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    const userId = currentUserId(req);
+    const fields = {
+      displayName: data.displayName || null,
+      // Tokens are opaque secrets, so store them as sent rather than sanitized
+      accessToken: encryptToken(String(req.body.accessToken)),
+      status: 'active'
+    };
+    
+    // Reconnecting the same account replaces its token and does not count against the plan
+    const existing = await storage.getConnectedAccountByExternalId(userId, data.platform, data.externalAccountId);
+    if (!existing) {
+      const violation = await planLimits.checkQuota(userId, 'connectedAccounts');
+      if (violation) {
+        return sendPlanViolation(res, violation);
+      }
+    }
+    const account = existing
+      ? await storage.updateConnectedAccount(existing.id, fields)
+      : await storage.createConnectedAccount({
+          userId,
+          platform: data.platform,
+          externalAccountId: data.externalAccountId,
+          ...fields
+        });
+    
+    await storage.createActivity({
+      userId,
+      action: "account_connected",
+      details: { 
+        platform: data.platform, 
+        message: `Connected ${data.platform} account ${data.displayName || data.externalAccountId}` 
+      }
+    });
+    
+    res.status(existing ? 200 : 201).json(toPublicAccount(account!));
+  }));
+  
+  // Rename or pause an account
+  app.put("/api/connected-accounts/:id", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid account ID" });
+    }
+    
+    const updateSchema = z.object({
+      displayName: z.string().optional(),
+      status: z.enum(['active', 'revoked']).optional()
+    });
+    
+    const { data, error } = validateRequest(updateSchema, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    const existing = await findOwnedAccount(req, res, id);
+    if (!existing) return;
+    
+    const account = await storage.updateConnectedAccount(id, data);
+    res.json(toPublicAccount(account!));
+  }));
+  
+  // Disconnect an account and forget its tokens
+  app.delete("/api/connected-accounts/:id", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid account ID" });
+    }
+    
+    const account = await findOwnedAccount(req, res, id);
+    if (!account) return;
+    
+    await storage.deleteConnectedAccount(id);
+    
+    await storage.createActivity({
+      userId: account.userId,
+      action: "account_disconnected",
+      details: { 
+        platform: account.platform, 
+        message: `Disconnected ${account.platform} account ${account.displayName || account.externalAccountId}` 
+      }
+    });
+    
+    res.status(204).end();
+  }));
+  
+  // Publish video to connected accounts
+  app.post("/api/videos/:id/publish", asyncHandler(async (req: Request, res: Response) => {
+    // Validate video ID
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    // Validate request body. Clients send the same idempotency key when a publish
+    // request is repeated (double clicks, retries after a network error).
+    const publishSchema = z.object({
+      accountIds: z.array(z.number().int()).min(1, "At least one account must be selected"),
+      idempotencyKey: z.string().min(8).max(200).optional()
+    });
+    
+    const { data, error } = validateRequest(publishSchema, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    // Get the video
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    // Users over their plan's account limit, e.g. after a downgrade, disconnect accounts before publishing
+    const accountViolation = await planLimits.checkQuota(video.userId, 'connectedAccounts', 0);
+    if (accountViolation) {
+      return sendPlanViolation(res, accountViolation);
+    }
+    
+    const idempotencyKey: string = data.idempotencyKey || uuidv4();
+    const accountIds: number[] = Array.from(new Set<number>(data.accountIds));
+    
+    // A repeated request gets the original outcome instead of a second upload
+    const replayed = await publicationService.findExisting(video.userId, video.id, idempotencyKey, accountIds);
+    if (replayed) {
+      return res.json({ idempotencyKey, publications: replayed });
+    }
+    
+    if (await publicationService.isKeyUsedByOtherVideo(video.userId, video.id, idempotencyKey)) {
+      return res.status(409).json({ message: "This idempotency key was already used to publish another video" });
+    }
+    
+    // Check if video has been generated
+    if (!video.videoUrl) {
+      return res.status(400).json({ 
+        message: "Video has not been generated yet. Generate the video first." 
+      });
+    }
+    
+    // Every target must be one of the user's own, active accounts
+    const userAccounts = await storage.getConnectedAccountsByUserId(video.userId);
+    const accounts: ConnectedAccount[] = [];
+    for (const accountId of accountIds) {
+      const account = userAccounts.find(a => a.id === accountId);
+      if (!account) {
+        return res.status(404).json({ message: `Connected account ${accountId} not found` });
+      }
+      if (account.status !== 'active') {
+        return res.status(400).json({ 
+          message: `${account.platform} account ${account.displayName || account.externalAccountId} needs to be reconnected` 
+        });
+      }
+      accounts.push(account);
+    }
+    
+    const accountLabel = (accountId: number) => {
+      const account = accounts.find(a => a.id === accountId);
+      return account ? `${account.platform} (${account.displayName || account.externalAccountId})` : `account ${accountId}`;
+    };
+    
+    try {
+      // Create activity for publish attempt
+      await storage.createActivity({
+        userId: video.userId,
+        action: 'video_publish_started',
+        details: { 
+          videoId: video.id,
+          accountIds,
+          message: `Started publishing "${video.title}" to ${accountIds.map(accountLabel).join(', ')}` 
+        }
+      });
+      
+      // Publish to selected accounts; the video is marked published once all succeed
+      const publications = await publicationService.publish(video, accounts, { idempotencyKey });
+      
+      const succeeded = publications.filter(p => p.status === 'succeeded');
+      if (succeeded.length > 0) {
+        await storage.createActivity({
+          userId: video.userId,
+          action: 'video_published',
+          details: { 
+            videoId: video.id,
+            platforms: succeeded.map(p => p.platform),
+            accountIds: succeeded.map(p => p.accountId),
+            message: `Published "${video.title}" to ${succeeded.map(p => accountLabel(p.accountId)).join(', ')}` 
+          }
+        });
+      }
+      
+      const retrying = publications.filter(p => p.status === 'retrying');
+      if (retrying.length > 0) {
+        await storage.createActivity({
+          userId: video.userId,
+          action: 'video_publish_retrying',
+          details: { 
+            videoId: video.id,
+            accountIds: retrying.map(p => p.accountId),
+            message: `Will retry publishing "${video.title}" to ${retrying.map(p => accountLabel(p.accountId)).join(', ')}` 
+          }
+        });
+      }
+      
+      res.json({ idempotencyKey, publications });
+    } catch (error) {
+      console.error('Error publishing video:', error);
+      res.status(500).json({ 
+        success: false, 
+        error: 'An unexpected error occurred while publishing the video' 
+      });
+    }
+  }));
+  
+  // Publish history for a video, newest first
+  app.get("/api/videos/:id/publications", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    res.json(await storage.getPublicationsByVideoId(id));
+  }));
+  
+  // Scheduled publishing
+  
+  // List the user's scheduled posts, soonest first
+  app.get("/api/scheduled-posts", asyncHandler(async (req: Request, res: Response) => {
+    const status = req.query.status ? sanitizeInput(String(req.query.status)) : undefined;
+    const posts = await storage.getScheduledPostsByUserId(currentUserId(req));
+    
+    res.json(status ? posts.filter(post => post.status === status) : posts);
+  }));
+  
+  // Scheduled posts for one video
+  app.get("/api/videos/:id/scheduled-posts", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    res.json(await storage.getScheduledPostsByVideoId(id));
+  }));
+  
+  // Schedule a video to publish to connected accounts at a later time
+  app.post("/api/videos/:id/schedule", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    const scheduleSchema = z.object({
+      accountIds: z.array(z.number().int()).min(1, "At least one account must be selected")
+    });
+    
+    const { data, error } = validateRequest(scheduleSchema, { accountIds: req.body?.accountIds });
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    const time = parseScheduleTime(req.body);
+    if ('error' in time) {
+      return res.status(400).json({ message: time.error });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    if (!video.videoUrl) {
+      return res.status(400).json({ 
+        message: "Video has not been generated yet. Generate the video first." 
+      });
+    }
+    
+    const userAccounts = await storage.getConnectedAccountsByUserId(video.userId);
+    const accounts: ConnectedAccount[] = [];
+    for (const accountId of Array.from(new Set<number>(data.accountIds))) {
+      const account = userAccounts.find(a => a.id === accountId);
+      if (!account) {
+        return res.status(404).json({ message: `Connected account ${accountId} not found` });
+      }
+      // Caught now rather than when the post is due
+      if (account.status !== 'active') {
+        return res.status(400).json({ 
+          message: `${account.platform} account ${account.displayName || account.externalAccountId} needs to be reconnected` 
+        });
+      }
+      accounts.push(account);
+    }
+    
+    const violation = await planLimits.checkQuota(video.userId, 'scheduledPosts', accounts.length);
+    if (violation) {
+      return sendPlanViolation(res, violation);
+    }
+    
+    const posts: ScheduledPost[] = [];
+    for (const account of accounts) {
+      posts.push(await storage.createScheduledPost({
+        userId: video.userId,
+        videoId: video.id,
+        accountId: account.id,
+        platform: account.platform,
+        scheduledAt: time.scheduledAt,
+        timezone: time.timezone,
+        status: 'scheduled'
+      }));
+    }
+    
+    await storage.createActivity({
+      userId: video.userId,
+      action: 'video_scheduled',
+      details: { 
+        videoId: video.id,
+        scheduledPostIds: posts.map(p => p.id),
+        scheduledAt: time.scheduledAt.toISOString(),
+        message: `Scheduled "${video.title}" for ${accounts.map(a => a.platform).join(', ')}` 
+      }
+    });
+    
+    res.status(201).json(posts);
+  }));
+  
+  // Move a scheduled post to a new time
+  app.put("/api/scheduled-posts/:id", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid scheduled post ID" });
+    }
+    
+    const post = await findOwnedScheduledPost(req, res, id);
+    if (!post) return;
+    
+    if (post.status !== 'scheduled') {
+      return res.status(409).json({ message: `Cannot reschedule a post that is ${post.status}` });
+    }
+    
+    // Keep the post's own time zone unless a new one is given
+    const time = parseScheduleTime({ timezone: post.timezone, ...req.body });
+    if ('error' in time) {
+      return res.status(400).json({ message: time.error });
+    }
+    
+    // The account may have been disconnected or expired since the post was scheduled
+    const account = await storage.getConnectedAccount(post.accountId);
+    if (!account || account.status !== 'active') {
+      return res.status(400).json({ 
+        message: account
+          ? `${account.platform} account ${account.displayName || account.externalAccountId} needs to be reconnected`
+          : `The ${post.platform} account of this post has been disconnected`
+      });
+    }
+    
+    const updated = await storage.updateScheduledPost(id, time);
+    
+    await storage.createActivity({
+      userId: post.userId,
+      action: 'scheduled_post_rescheduled',
+      details: { 
+        videoId: post.videoId,
+        scheduledPostId: post.id,
+        scheduledAt: time.scheduledAt.toISOString(),
+        message: `Rescheduled ${post.platform} post` 
+      }
+    });
+    
+    res.json(updated);
+  }));
+  
+  // Cancel a scheduled post; it stays in the list as canceled
+  app.post("/api/scheduled-posts/:id/cancel", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid scheduled post ID" });
+    }
+    
+    const post = await findOwnedScheduledPost(req, res, id);
+    if (!post) return;
+    
+    if (post.status !== 'scheduled') {
+      return res.status(409).json({ message: `Cannot cancel a post that is ${post.status}` });
+    }
+    
+    const updated = await storage.updateScheduledPost(id, { status: 'canceled' });
+    
+    await storage.createActivity({
+      userId: post.userId,
+      action: 'scheduled_post_canceled',
+      details: { 
+        videoId: post.videoId,
+        scheduledPostId: post.id,
+        message: `Canceled scheduled ${post.platform} post` 
+      }
+    });
+    
+    res.json(updated);
+  }));
+  
+  // Captions
+  
+  // Generate caption variations and save them. Caption text is only ever
+  // rendered as text, so the body is validated as-is rather than HTML-escaped,
+  // which would leave entities in the generated captions.
+  app.post("/api/captions/generate", asyncHandler(async (req: Request, res: Response) => {
+    const generateSchema = captionFormSchema.extend({
+      count: z.number().int().min(1).max(5).default(3),
+      // Change the seed to get different wording for the same options
+      seed: z.number().int().min(0).default(0),
+      videoId: z.number().int().positive().optional()
+    });
+    
+    const parsed = generateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    
+    const { count, seed, videoId, ...values } = parsed.data;
+    if (videoId && !(await findOwnedVideo(req, res, videoId))) return;
+    
+    const captions = await captionService.generate(currentUserId(req), values, { count, seed, videoId });
+    
+    res.status(201).json(captions);
+  }));
+  
+  // The user's saved captions, newest first, optionally only those attached to a video
+  app.get("/api/captions", asyncHandler(async (req: Request, res: Response) => {
+    if (req.query.videoId) {
+      const videoId = parseInt(sanitizeInput(String(req.query.videoId)));
+      if (isNaN(videoId)) {
+        return res.status(400).json({ message: "Invalid video ID" });
+      }
+      if (!(await findOwnedVideo(req, res, videoId))) return;
+      
+      return res.json(await storage.getCaptionsByVideoId(videoId));
+    }
+    
+    res.json(await storage.getCaptionsByUserId(currentUserId(req)));
+  }));
+  
+  // Attach a caption to a video (used when publishing to its platform), or detach it with videoId: null
+  app.put("/api/captions/:id", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid caption ID" });
+    }
+    
+    const updateSchema = z.object({
+      videoId: z.number().int().positive().nullable()
+    });
+    
+    const { data, error } = validateRequest(updateSchema, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    const caption = await findOwnedCaption(req, res, id);
+    if (!caption) return;
+    
+    if (data.videoId === null) {
+      return res.json(await captionService.detach(caption));
+    }
+    
+    if (!(await findOwnedVideo(req, res, data.videoId))) return;
+    
+    res.json(await captionService.attach(caption, data.videoId));
+  }));
+  
+  app.delete("/api/captions/:id", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid caption ID" });
+    }
+    
+    if (!(await findOwnedCaption(req, res, id))) return;
+    
+    await storage.deleteCaption(id);
+    
+    res.status(204).end();
+  }));
+  
+  // SEO
+  
+  // Score a title, description and keywords and suggest tags. Accepts partial
+  // input so the optimizer can score while the user types; with a videoId the
+  // form must be complete and the optimized metadata is stored on the video.
+  // Like captions, the text is validated unescaped since it is stored as content.
+  app.post("/api/seo/analyze", asyncHandler(async (req: Request, res: Response) => {
+    const analyzeSchema = z.object({
+      title: z.string().max(200).default(''),
+      description: z.string().max(5000).default(''),
+      keywords: z.string().max(1000).default(''),
+      platform: seoFormSchema.shape.platform.default('all'),
+      contentType: seoFormSchema.shape.contentType.default('video'),
+      videoId: z.number().int().positive().optional()
+    });
+    
+    const parsed = analyzeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    
+    const { videoId, ...values } = parsed.data;
+    const analysis = await seoService.analyze(values);
+    
+    if (!videoId) {
+      return res.json(analysis);
+    }
+    
+    const complete = seoFormSchema.safeParse(values);
+    if (!complete.success) {
+      return res.status(400).json({ message: fromZodError(complete.error).message });
+    }
+    
+    const video = await findOwnedVideo(req, res, videoId);
+    if (!video) return;
+    
+    const metadata = await seoService.applyToVideo(video, complete.data, analysis);
+    
+    await storage.createActivity({
+      userId: video.userId,
+      action: "seo_applied",
+      details: {
+        videoId: video.id,
+        platforms: metadata.map(m => m.platform),
+        message: `Applied SEO metadata to "${video.title}" (score ${analysis.scores.overall}%)`
+      }
+    });
+    
+    res.json({ ...analysis, metadata });
+  }));
+  
+  // Keywords and hashtags ranked by how published content using them performed
+  app.get("/api/seo/keywords", asyncHandler(async (req: Request, res: Response) => {
+    const platform = req.query.platform ? sanitizeInput(String(req.query.platform)) : undefined;
+    if (platform && !["youtube", "tiktok", "instagram"].includes(platform)) {
+      return res.status(400).json({ message: `Unsupported platform: ${platform}` });
+    }
+    
+    const kind = req.query.kind ? sanitizeInput(String(req.query.kind)) : undefined;
+    if (kind && kind !== 'keyword' && kind !== 'hashtag') {
+      return res.status(400).json({ message: "Kind must be 'keyword' or 'hashtag'" });
+    }
+    
+    const limit = req.query.limit ? parseInt(String(req.query.limit)) : 50;
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({ message: "Limit must be between 1 and 200" });
+    }
+    
+    const keywords = await keywordIndex.query({
+      platform,
+      kind: kind as KeywordKind | undefined,
+      search: req.query.q ? sanitizeInput(String(req.query.q)) : undefined,
+      limit
+    });
+    
+    res.json({ keywords, builtAt: keywordIndex.lastBuiltAt });
+  }));
+  
+  // Per-platform title, description and tags a video is published with
+  app.get("/api/videos/:id/metadata", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    if (!(await findOwnedVideo(req, res, id))) return;
+    
+    res.json(await storage.getVideoMetadata(id));
+  }));
+  
+  // Edit a video's metadata for one platform by hand
+  app.put("/api/videos/:id/metadata/:platform", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    const platform = sanitizeInput(req.params.platform);
+    if (!["youtube", "tiktok", "instagram"].includes(platform)) {
+      return res.status(400).json({ message: `Unsupported platform: ${platform}` });
+    }
+    
+    const metadataSchema = z.object({
+      title: z.string().min(1).max(100),
+      description: z.string().max(5000).default(''),
+      tags: z.array(z.string().min(1).max(100)).max(30).default([])
+    });
+    
+    const parsed = metadataSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    const metadata = await storage.upsertVideoMetadata({
+      videoId: video.id,
+      userId: video.userId,
+      platform,
+      ...parsed.data,
+      // Hand edits are no longer what the analysis scored
+      seoScore: null
+    });
+    
+    res.json(metadata);
+  }));
+  
+  // Download video
+  app.get("/api/videos/:id/download", asyncHandler(async (req: Request, res: Response) => {
+    // Validate video ID
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    // Get the video
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    // Check if video has been generated
+    if (!video.videoUrl) {
+      return res.status(400).json({ 
+        message: "Video has not been generated yet" 
+      });
+    }
+    
+    // Send the browser to a short-lived signed URL for the file
+    const fileName = `${video.title.replace(/[^\w\- ]+/g, '').trim() || 'video'}.mp4`;
+    res.redirect(await assetService.getDownloadUrl(video.videoUrl, fileName));
+  }));
+  
+  // Download a video's subtitles as SRT or WebVTT
+  app.get("/api/videos/:id/subtitles/:format", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    const format = req.params.format;
+    if (format !== 'srt' && format !== 'vtt') {
+      return res.status(400).json({ message: "Subtitle format must be srt or vtt" });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    const key = format === 'srt' ? video.subtitlesSrtUrl : video.subtitlesVttUrl;
+    if (!key) {
+      return res.status(404).json({ message: "This video has no subtitles" });
+    }
+    
+    const fileName = `${video.title.replace(/[^\w\- ]+/g, '').trim() || 'video'}.${format}`;
+    res.redirect(await assetService.getDownloadUrl(key, fileName));
+  }));
+  
+  // API route to check if secrets exist (would use check_secrets in production)
+  app.post("/api/check-secrets", asyncHandler(async (req: Request, res: Response) => {
+    const { secretKeys, platforms } = req.body;
+    
+    // Handle checking specific secret keys
+    if (secretKeys) {
+      if (!Array.isArray(secretKeys)) {
+        return res.status(400).json({ error: "secretKeys must be an array" });
+      }
+      
+      // Check if the secrets exist in the environment
+      const missing = secretKeys.filter(key => {
+        return !process.env[key];
+      });
+      
+      return res.json({
+        checked: secretKeys,
+        missing: missing,
+        complete: missing.length === 0
+      });
+    }
+    
+    // Handle checking platforms
+    if (platforms) {
+      if (!Array.isArray(platforms)) {
+        return res.status(400).json({ error: "platforms must be an array" });
+      }
+      
+      const result: Record<string, boolean> = {};
+      
+      // Initialize all platforms to false
+      platforms.forEach((platform: string) => {
+        result[platform] = false;
+      });
+      
+      // Check YouTube configuration
+      if (platforms.includes('youtube')) {
+        const youtubeClientId = process.env.YOUTUBE_CLIENT_ID;
+        const youtubeClientSecret = process.env.YOUTUBE_CLIENT_SECRET;
+        result.youtube = !!youtubeClientId && !!youtubeClientSecret;
+      }
+      
+      // Check TikTok configuration (if we had TikTok credentials)
+      if (platforms.includes('tiktok')) {
+        const tiktokClientKey = process.env.TIKTOK_CLIENT_KEY;
+        const tiktokClientSecret = process.env.TIKTOK_CLIENT_SECRET;
+        result.tiktok = !!tiktokClientKey && !!tiktokClientSecret;
+      }
+      
+      // Check Instagram configuration (if we had Instagram credentials)
+      if (platforms.includes('instagram')) {
+        const instagramAccessToken = process.env.INSTAGRAM_ACCESS_TOKEN;
+        result.instagram = !!instagramAccessToken;
+      }
+      
+      return res.json(result);
+    }
+    
+    // No valid parameters provided
+    return res.status(400).json({ 
+      error: "Request must include either 'secretKeys' or 'platforms' parameter" 
+    });
+  }));
+
+  // Template endpoints
+  app.get("/api/templates", asyncHandler(async (req: Request, res: Response) => {
+    let templates = await templateService.listForUser(req.user!);
+    
+    // Filter by category if provided
+    const category = req.query.category as string | undefined;
+    if (category) {
+      const sanitizedCategory = sanitizeInput(category);
+      templates = templates.filter(t => t.category === sanitizedCategory);
+    }
+    
+    // Filter by other query parameters
+    if (req.query.premium === 'true') {
+      templates = templates.filter(t => t.premium);
+    } else if (req.query.premium === 'false') {
+      templates = templates.filter(t => !t.premium);
+    }
+    
+    if (req.query.popular === 'true') {
+      templates = templates.filter(t => t.popular);
+    }
+    
+    if (req.query.mine === 'true') {
+      templates = templates.filter(t => t.ownerId === currentUserId(req));
+    }
+    
+    res.json(templates);
+  }));
+  
+  app.get("/api/templates/:id", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid template ID" });
+    }
+    
+    const template = await templateService.getForUser(id, req.user!);
+    
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    
+    res.json(template);
+  }));
+  
+  // Fields of a template its owner can set; ownership, versions and catalog flags are managed by the server
+  const editableTemplateSchema = insertTemplateSchema.pick({
+    title: true,
+    description: true,
+    category: true,
+    style: true,
+    duration: true,
+    thumbUrl: true,
+    previewUrl: true,
+    settings: true,
+    visibility: true
+  });
+  
+  app.post("/api/templates", asyncHandler(async (req: Request, res: Response) => {
+    const { data, error } = validateRequest(editableTemplateSchema, req.body);
+    
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    const template = await templateService.create(req.user!, data);
+    
+    res.status(201).json(template);
+  }));
+  
+  app.put("/api/templates/:id", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid template ID" });
+    }
+    
+    if (!(await findEditableTemplate(req, res, id))) return;
+    
+    const { data, error } = validateRequest(editableTemplateSchema.partial(), req.body);
+    
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    // Edits change the draft; published versions stay as they were
+    const template = await storage.updateTemplate(id, data);
+    
+    if (!template) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    
+    res.json(template);
+  }));
+  
+  app.delete("/api/templates/:id", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize id parameter
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid template ID" });
+    }
+    
+    if (!(await findEditableTemplate(req, res, id))) return;
+    
+    // Published versions are kept for the videos made from them
+    const success = await storage.deleteTemplate(id);
+    
+    if (!success) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    
+    res.status(204).send();
+  }));
+  
+  // Publish the current draft as a new immutable version
+  app.post("/api/templates/:id/versions", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid template ID" });
+    }
+    
+    const publishSchema = z.object({
+      changelog: z.string().trim().min(1, "Describe what changed").max(2000)
+    });
+    
+    const { data, error } = validateRequest(publishSchema, req.body);
+    
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    const template = await findEditableTemplate(req, res, id);
+    if (!template) return;
+    
+    const version = await templateService.publish(template, req.user!, data.changelog);
+    
+    await storage.createActivity({
+      userId: currentUserId(req),
+      action: "template_published",
+      details: {
+        templateId: template.id,
+        version: version.version,
+        message: `Published version ${version.version} of "${template.title}"`
+      }
+    });
+    
+    res.status(201).json(version);
+  }));
+  
+  // Version history with changelogs, newest first
+  app.get("/api/templates/:id/versions", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid template ID" });
+    }
+    
+    if (!(await templateService.getForUser(id, req.user!))) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    
+    res.json(await storage.getTemplateVersions(id));
+  }));
+  
+  app.get("/api/templates/:id/versions/:version", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    const versionNumber = parseInt(sanitizeInput(req.params.version));
+    if (isNaN(id) || isNaN(versionNumber)) {
+      return res.status(400).json({ message: "Invalid template version" });
+    }
+    
+    if (!(await templateService.getForUser(id, req.user!))) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+    
+    const version = await storage.getTemplateVersion(id, versionNumber);
+    
+    if (!version) {
+      return res.status(404).json({ message: "Template version not found" });
+    }
+    
+    res.json(version);
+  }));
+  
+  // Save a video's style, duration, aspect ratio and prompt as a new template
+  app.post("/api/videos/:id/template", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid video ID" });
+    }
+    
+    const saveSchema = z.object({
+      title: z.string().min(3).max(100),
+      description: z.string().max(500).default(''),
+      category: z.string().min(1).max(50).default('custom'),
+      visibility: z.enum(templateVisibilities).default('private')
+    });
+    
+    const { data, error } = validateRequest(saveSchema, req.body);
+    
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    const video = await findOwnedVideo(req, res, id);
+    if (!video) return;
+    
+    const template = await templateService.saveFromVideo(req.user!, video, data);
+    
+    res.status(201).json(template);
+  }));
+  
+  // The caller's plan, its limits and how much of them is used
+  app.get("/api/usage", asyncHandler(async (req: Request, res: Response) => {
+    res.json(await planLimits.getSummary(currentUserId(req)));
+  }));
+
+  // Subscription endpoints
+  app.get("/api/users/:userId/subscription", asyncHandler(async (req: Request, res: Response) => {
+    // Validate and sanitize userId parameter
+    const userId = parseInt(sanitizeInput(req.params.userId));
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+    
+    if (userId !== currentUserId(req)) {
+      return res.status(403).json({ message: "You do not have access to this subscription" });
+    }
+    
+    const subscription = await storage.getActiveSubscriptionByUserId(userId);
+    
+    if (!subscription) {
+      return res.status(404).json({ message: "No active subscription found" });
+    }
+    
+    res.json(subscription);
+  }));
+  
+  // Pay for a tier, or switch a running subscription to it
+  app.post("/api/billing/checkout", asyncHandler(async (req: Request, res: Response) => {
+    const checkoutSchema = z.object({
+      tier: z.enum(["basic", "premium"])
+    });
+    
+    const { data, error } = validateRequest(checkoutSchema, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    
+    if (!billingService.provider) {
+      return res.status(503).json({ message: "Billing is not available" });
+    }
+    
+    const current = await storage.getActiveSubscriptionByUserId(currentUserId(req));
+    
+    if (current?.status === 'past_due') {
+      return res.status(409).json({ message: "Your last payment failed. Update your payment method before changing plans." });
+    }
+    
+    // Running subscriptions change tier in place; the difference is prorated
+    if (current?.status === 'active' && current.externalSubscriptionId) {
+      if (current.tier === data.tier) {
+        return res.status(409).json({ message: `You are already on the ${data.tier} plan` });
+      }
+      
+      const proratedAmount = await billingService.changePlan(current, data.tier);
+      return res.json({ proratedAmount, subscription: await storage.getSubscription(current.id) });
+    }
+    
+    const origin = `${req.protocol}://${req.get('host')}`;
+    const session = await billingService.checkout(req.user!, data.tier, {
+      successUrl: `${origin}/settings?billing=success`,
+      cancelUrl: `${origin}/settings?billing=canceled`
+    });
+    
+    res.status(201).json({ url: session.url });
+  }));
+  
+  // Stop a subscription from renewing; it keeps its tier until the end date
+  app.post("/api/subscriptions/:id/cancel", asyncHandler(async (req: Request, res: Response) => {
+    const id = parseInt(sanitizeInput(req.params.id));
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid subscription ID" });
+    }
+    
+    const subscription = await storage.getSubscription(id);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    
+    if (subscription.userId !== currentUserId(req)) {
+      return res.status(403).json({ message: "You do not have access to this subscription" });
+    }
+    
+    if (!subscription.externalSubscriptionId || !['active', 'past_due'].includes(subscription.status)) {
+      return res.status(409).json({ message: "Only running paid subscriptions can be canceled" });
+    }
+    
+    await billingService.cancel(subscription);
+    
+    res.json(await storage.getSubscription(id));
+  }));
+
+  return httpServer;
+}
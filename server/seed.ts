@@ -0,0 +1,113 @@
+import type { InsertTemplate } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Catalog templates shipped with every installation
+const defaultTemplates: InsertTemplate[] = [
+  // Free templates
+  {
+    title: "Product Demo",
+    description: "Showcase your product features with a professional demo video",
+    category: "Marketing",
+    style: "professional",
+    duration: "60s",
+    thumbUrl: "/assets/templates/thumbnails/template-image.avif",
+    previewUrl: "/assets/templates/previews/product-demo.mp4",
+    popular: true,
+    premium: false,
+    settings: {
+      sections: ["intro", "features", "benefits", "call-to-action"],
+      transitions: ["fade", "slide"]
+    }
+  },
+  {
+    title: "Social Media Promo",
+    description: "Short and engaging video for social media promotion",
+    category: "Social Media",
+    style: "vibrant",
+    duration: "30s",
+    thumbUrl: "/assets/templates/thumbnails/template-image.avif",
+    previewUrl: "/assets/templates/previews/social-promo.mp4",
+    popular: true,
+    premium: false,
+    settings: {
+      sections: ["hook", "value-prop", "call-to-action"],
+      transitions: ["fast-cut", "zoom"]
+    }
+  },
+  {
+    title: "Tutorial Guide",
+    description: "Educational step-by-step guide with clear instructions",
+    category: "Education",
+    style: "minimal",
+    duration: "120s",
+    thumbUrl: "/assets/templates/thumbnails/template-image.avif",
+    previewUrl: "/assets/templates/previews/tutorial.mp4",
+    popular: false,
+    premium: false,
+    settings: {
+      sections: ["intro", "steps", "summary"],
+      transitions: ["simple-cut", "fade"]
+    }
+  },
+  // Premium templates
+  {
+    title: "Cinematic Brand Story",
+    description: "Premium cinematic template for powerful brand storytelling",
+    category: "Marketing",
+    style: "cinematic",
+    duration: "90s",
+    thumbUrl: "/assets/templates/thumbnails/template-image.avif",
+    previewUrl: "/assets/templates/previews/cinematic-brand.mp4",
+    popular: true,
+    premium: true,
+    settings: {
+      sections: ["dramatic-intro", "story-arc", "emotional-climax", "brand-reveal"],
+      transitions: ["film-dissolve", "parallax", "motion-blur"]
+    }
+  },
+  {
+    title: "E-commerce Product Showcase",
+    description: "Premium template for showcasing products with advanced 3D animations",
+    category: "E-commerce",
+    style: "elegant",
+    duration: "45s",
+    thumbUrl: "/assets/templates/thumbnails/template-image.avif",
+    previewUrl: "/assets/templates/previews/ecommerce-showcase.mp4",
+    popular: true,
+    premium: true,
+    settings: {
+      sections: ["product-reveal", "feature-highlights", "testimonial", "offer"],
+      transitions: ["3d-rotate", "smooth-pan", "elegant-fade"]
+    }
+  },
+  {
+    title: "AR Experience Demo",
+    description: "Showcase your AR app or experience with this premium template",
+    category: "Technology",
+    style: "futuristic",
+    duration: "60s",
+    thumbUrl: "/assets/templates/thumbnails/template-image.avif",
+    previewUrl: "/assets/templates/previews/ar-demo.mp4",
+    popular: false,
+    premium: true,
+    settings: {
+      sections: ["tech-intro", "experience-showcase", "user-benefits", "download-prompt"],
+      transitions: ["glitch", "digital-warp", "holographic"]
+    }
+  }
+];
+
+/**
+ * Seeds the catalog templates. Templates are matched by title, so running
+ * this on every startup only inserts the ones that are missing.
+ */
+export async function seedTemplates(storage: IStorage): Promise<void> {
+  const existing = await storage.getAllTemplates();
+  const existingTitles = new Set(existing.map(template => template.title));
+
+  for (const template of defaultTemplates) {
+    if (!existingTitles.has(template.title)) {
+      await storage.createTemplate(template);
+    }
+  }
+}
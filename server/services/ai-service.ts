@@ -0,0 +1,483 @@
+import { InsertVideo } from "@shared/schema";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import axios from "axios";
+import { v4 as uuidv4 } from "uuid";
+import {
+  videoProviderRegistry,
+  type GenerationOptions,
+  type GenerationStage as ProviderStage,
+  type VideoGenerationProvider
+} from "./video-provider";
+import { PlaceholderVideoProvider } from "./placeholder-provider";
+import { RemoteVideoProvider } from "./remote-video-provider";
+import { assetService } from "./asset-service";
+import { voiceoverService } from "./voiceover-service";
+import { subtitleService } from "./subtitle-service";
+import { musicService } from "./music-service";
+import { parseDurationSeconds } from "./composition-engine";
+
+export type { GenerationOptions } from "./video-provider";
+
+// Stages of the provider's render, then the voiceover, music and subtitles added here
+export type GenerationStage = ProviderStage | 'voiceover' | 'music' | 'subtitles';
+
+// Files of a video once the voiceover, music and subtitles have been added
+interface FinishedVideo {
+  videoPath: string;
+  srtPath: string;
+  vttPath: string;
+}
+
+// Define interface for AI service responses
+export interface AIVideoGenerationResponse {
+  success: boolean;
+  // Asset store keys of the rendered files
+  videoUrl?: string;
+  thumbnailUrl?: string;
+  subtitlesSrtUrl?: string;
+  subtitlesVttUrl?: string;
+  provider?: string;
+  error?: string;
+}
+
+// Receives the current stage and the overall progress (0-100)
+export type GenerationProgressCallback = (stage: GenerationStage, progress: number) => void;
+
+// Give up on provider jobs that take longer than this
+const GENERATION_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Share of the overall progress left for each step after the provider's render
+const FINISHING_STEP_PROGRESS = 10;
+
+/**
+ * AI Service for video generation and management
+ * Delegates rendering to the registered video generation providers
+ */
+export class AIService {
+  private apiKey: string | null = null;
+  private workDir: string;
+  private defaultProvider: string;
+  
+  constructor() {
+    // Get API key from environment variable
+    this.apiKey = process.env.AI_VIDEO_API_KEY || null;
+    
+    // Scratch directory for local renders; finished files move to the asset store
+    this.workDir = path.join(os.tmpdir(), 'vidiyome-renders');
+    this.ensureDirectoryExists(this.workDir);
+    
+    // The local canvas/ffmpeg renderer is always available
+    videoProviderRegistry.register(new PlaceholderVideoProvider(this.workDir));
+    
+    // External service speaking the provider job API, if configured
+    if (this.apiKey && process.env.AI_VIDEO_API_URL) {
+      videoProviderRegistry.register(new RemoteVideoProvider('remote', process.env.AI_VIDEO_API_URL, this.apiKey));
+    }
+    
+    this.defaultProvider = process.env.AI_VIDEO_PROVIDER ||
+      (videoProviderRegistry.has('remote') ? 'remote' : 'placeholder');
+  }
+  
+  private async ensureDirectoryExists(directory: string): Promise<void> {
+    try {
+      await fs.mkdir(directory, { recursive: true });
+    } catch (error) {
+      console.error('Error creating directory:', error);
+      throw new Error('Failed to create output directory');
+    }
+  }
+
+  /**
+   * Checks if the API key is available
+   */
+  public isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+  
+  /**
+   * Names of the providers videos can be generated with
+   */
+  public getProviders(): string[] {
+    return videoProviderRegistry.list();
+  }
+  
+  public getDefaultProvider(): string {
+    return this.defaultProvider;
+  }
+  
+  public hasProvider(name: string): boolean {
+    return videoProviderRegistry.has(name);
+  }
+  
+  /**
+   * Generates a video based on the provided parameters, using the provider
+   * named on the video or the default one. Template settings in the options lay
+   * out the scenes.
+   */
+  public async generateVideo(
+    videoData: InsertVideo,
+    onProgress?: GenerationProgressCallback,
+    options: GenerationOptions = {}
+  ): Promise<AIVideoGenerationResponse> {
+    const providerName = videoData.provider || this.defaultProvider;
+    const provider = videoProviderRegistry.get(providerName);
+    
+    if (!provider) {
+      return {
+        success: false,
+        error: `Unknown video provider: ${providerName}`
+      };
+    }
+    
+    try {
+      console.log(`Generating video with provider "${provider.name}"...`);
+      
+      // The provider's progress is scaled down to leave room for the steps that follow its render
+      const finishingSteps = [videoData.voiceover, videoData.musicTrackId, videoData.burnSubtitles].filter(Boolean).length;
+      const providerProgress = 100 - finishingSteps * FINISHING_STEP_PROGRESS;
+      const onProviderProgress: GenerationProgressCallback | undefined = onProgress &&
+        ((stage, progress) => onProgress(stage, Math.round(progress * providerProgress / 100)));
+      
+      const jobId = await provider.submit(videoData, options);
+      const failure = await this.waitForJob(provider, jobId, onProviderProgress);
+      
+      if (failure) {
+        return { success: false, provider: provider.name, error: failure };
+      }
+      
+      const result = await provider.fetchResult(jobId);
+      const id = uuidv4();
+      const finished = await this.finishVideo(id, result.videoUrl, videoData, providerProgress, onProgress);
+      
+      // Keep the files in the asset store, whether the provider rendered them here or elsewhere
+      const videoUrl = await this.storeAsset(videoData.userId, finished.videoPath, `videos/${id}.mp4`);
+      const thumbnailUrl = await this.storeAsset(videoData.userId, result.thumbnailUrl, `videos/${id}-thumbnail.png`);
+      const subtitlesSrtUrl = await this.storeAsset(videoData.userId, finished.srtPath, `videos/${id}.srt`);
+      const subtitlesVttUrl = await this.storeAsset(videoData.userId, finished.vttPath, `videos/${id}.vtt`);
+      
+      return {
+        success: true,
+        videoUrl,
+        thumbnailUrl,
+        subtitlesSrtUrl,
+        subtitlesVttUrl,
+        provider: provider.name
+      };
+    } catch (error) {
+      console.error('Error generating video:', error);
+      return {
+        success: false,
+        provider: provider.name,
+        error: 'Failed to generate video'
+      };
+    }
+  }
+  
+  /**
+   * Polls a provider job until it finishes. Returns an error message if it did not complete.
+   */
+  private async waitForJob(
+    provider: VideoGenerationProvider,
+    jobId: string,
+    onProgress?: GenerationProgressCallback
+  ): Promise<string | null> {
+    const deadline = Date.now() + GENERATION_TIMEOUT_MS;
+    
+    while (Date.now() < deadline) {
+      const status = await provider.getStatus(jobId);
+      
+      if (status.stage && onProgress) {
+        onProgress(status.stage, status.progress);
+      }
+      
+      switch (status.status) {
+        case 'completed':
+          return null;
+        case 'failed':
+          return status.error || 'Video generation failed';
+        case 'canceled':
+          return 'Video generation was canceled';
+      }
+      
+      await new Promise(resolve => setTimeout(resolve, provider.pollIntervalMs));
+    }
+    
+    await provider.cancel(jobId).catch(err => console.warn('Failed to cancel timed out job:', err));
+    return 'Video generation timed out';
+  }
+  
+  /**
+   * Narrates a provider's video, mixes in its background music and writes its
+   * subtitles, burning them in when asked, all in the scratch directory.
+   * Intermediate videos are removed as each step replaces them. Progress
+   * continues from the given value.
+   */
+  private async finishVideo(
+    id: string,
+    source: string,
+    videoData: InsertVideo,
+    progress: number,
+    onProgress?: GenerationProgressCallback
+  ): Promise<FinishedVideo> {
+    let videoPath = source;
+    if (/^https?:\/\//i.test(source)) {
+      videoPath = path.join(this.workDir, `${id}-source.mp4`);
+      const response = await axios.get(source, { responseType: 'arraybuffer', timeout: 120000 });
+      await fs.writeFile(videoPath, Buffer.from(response.data));
+    }
+    
+    const scratchFiles: string[] = [];
+    const replaceVideo = async (outputPath: string) => {
+      await fs.rm(videoPath, { force: true });
+      videoPath = outputPath;
+    };
+    
+    try {
+      // The narration is what the subtitles show
+      const durationSeconds = parseDurationSeconds(videoData.duration);
+      const script = voiceoverService.getScript(videoData, videoData.voiceover ?? { speed: 1 });
+      
+      // Subtitles follow the speech, or span the whole video when it is silent
+      let speechSeconds = durationSeconds;
+      if (videoData.voiceover) {
+        onProgress?.('voiceover', progress);
+        progress += FINISHING_STEP_PROGRESS;
+        
+        const narratedPath = path.join(this.workDir, `${id}-voiceover.mp4`);
+        scratchFiles.push(narratedPath);
+        const spokenSeconds = await voiceoverService.addVoiceover(videoPath, script, videoData.voiceover, narratedPath);
+        speechSeconds = Math.min(spokenSeconds, durationSeconds);
+        await replaceVideo(narratedPath);
+      }
+      
+      if (videoData.musicTrackId) {
+        const track = await musicService.getAvailableTrack(videoData.musicTrackId);
+        if (!track) {
+          throw new Error(`Music track ${videoData.musicTrackId} is not in the library`);
+        }
+        
+        onProgress?.('music', progress);
+        progress += FINISHING_STEP_PROGRESS;
+        
+        const scoredPath = path.join(this.workDir, `${id}-music.mp4`);
+        scratchFiles.push(scoredPath);
+        await musicService.addMusic(videoPath, track, durationSeconds, !!videoData.voiceover, scoredPath);
+        await replaceVideo(scoredPath);
+      }
+      
+      const cues = subtitleService.buildCues(script, speechSeconds);
+      const { srtPath, vttPath } = await subtitleService.writeFiles(cues, path.join(this.workDir, id));
+      scratchFiles.push(srtPath, vttPath);
+      
+      if (videoData.burnSubtitles) {
+        onProgress?.('subtitles', progress);
+        
+        const subtitledPath = path.join(this.workDir, `${id}-subtitled.mp4`);
+        scratchFiles.push(subtitledPath);
+        await subtitleService.burnIn(videoPath, srtPath, videoData.style, videoData.aspectRatio, subtitledPath);
+        await replaceVideo(subtitledPath);
+      }
+      
+      return { videoPath, srtPath, vttPath };
+    } catch (error) {
+      await Promise.all([videoPath, ...scratchFiles].map(file => fs.rm(file, { force: true })));
+      throw error;
+    }
+  }
+  
+  /**
+   * Puts a provider result into the asset store for the user under the given
+   * key and returns the key. Remote URLs are downloaded; local renders are
+   * moved out of the scratch directory.
+   */
+  private async storeAsset(userId: number, source: string, key: string): Promise<string> {
+    if (/^https?:\/\//i.test(source)) {
+      const response = await axios.get(source, { responseType: 'arraybuffer', timeout: 120000 });
+      await assetService.save(userId, key, Buffer.from(response.data));
+      return key;
+    }
+    
+    await assetService.saveFile(userId, key, source);
+    await fs.rm(source, { force: true });
+    return key;
+  }
+  
+  /**
+   * Creates an SVG placeholder for the video
+   */
+  private createVideoPlaceholderSvg(title: string, description: string, width: number, height: number, style: string): string {
+    // Normalize dimensions
+    const svgWidth = 800;
+    const svgHeight = Math.round((height / width) * svgWidth);
+    
+    // Choose color scheme based on style
+    let bgGradient, textColor, accentColor;
+    
+    switch (style) {
+      case 'cinematic':
+        bgGradient = 'linear-gradient(135deg, #1a2a6c 0%, #b21f1f 50%, #fdbb2d 100%)';
+        textColor = '#ffffff';
+        accentColor = '#fdbb2d';
+        break;
+      case 'animated':
+        bgGradient = 'linear-gradient(135deg, #42275a 0%, #734b6d 100%)';
+        textColor = '#ffffff';
+        accentColor = '#f7a8d8';
+        break;
+      case 'professional':
+        bgGradient = 'linear-gradient(135deg, #2b5876 0%, #4e4376 100%)';
+        textColor = '#ffffff';
+        accentColor = '#56ccf2';
+        break;
+      case 'energetic':
+        bgGradient = 'linear-gradient(135deg, #f12711 0%, #f5af19 100%)';
+        textColor = '#ffffff';
+        accentColor = '#ffffff';
+        break;
+      case 'minimalist':
+        bgGradient = 'linear-gradient(135deg, #485563 0%, #29323c 100%)';
+        textColor = '#ffffff';
+        accentColor = '#e0e0e0';
+        break;
+      default:
+        bgGradient = 'linear-gradient(135deg, #6366F1 0%, #EC4899 100%)';
+        textColor = '#ffffff';
+        accentColor = '#8B5CF6';
+    }
+    
+    // Truncate description if too long
+    const truncatedDescription = description.length > 120
+      ? description.substring(0, 117) + '...'
+      : description;
+    
+    return `
+      <svg width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}" xmlns="http://www.w3.org/2000/svg">
+        <defs>
+          <linearGradient id="bg" x1="0%" y1="0%" x2="100%" y2="100%">
+            <stop offset="0%" style="stop-color:#6366F1;stop-opacity:1" />
+            <stop offset="100%" style="stop-color:#EC4899;stop-opacity:1" />
+          </linearGradient>
+          <style type="text/css">
+            @keyframes pulse {
+              0% { opacity: 0.8; }
+              50% { opacity: 1; }
+              100% { opacity: 0.8; }
+            }
+            .pulse {
+              animation: pulse 2s infinite;
+            }
+          </style>
+        </defs>
+        
+        <!-- Background -->
+        <rect width="100%" height="100%" fill="url(#bg)" />
+        
+        <!-- Video style indicator -->
+        <rect x="${svgWidth * 0.05}" y="${svgHeight * 0.05}" width="${svgWidth * 0.9}" height="${svgHeight * 0.9}" fill="none" stroke="${accentColor}" stroke-width="4" rx="10" />
+        
+        <!-- Play button -->
+        <circle cx="${svgWidth/2}" cy="${svgHeight/2}" r="60" fill="rgba(255,255,255,0.2)" class="pulse" />
+        <path d="M${svgWidth/2 - 20} ${svgHeight/2 - 30} L${svgWidth/2 - 20} ${svgHeight/2 + 30} L${svgWidth/2 + 40} ${svgHeight/2} Z" fill="white" />
+        
+        <!-- Title -->
+        <text x="${svgWidth/2}" y="${svgHeight * 0.2}" font-family="Arial, sans-serif" font-size="32" font-weight="bold" fill="${textColor}" text-anchor="middle">${title}</text>
+        
+        <!-- Description -->
+        <foreignObject x="${svgWidth * 0.2}" y="${svgHeight * 0.7}" width="${svgWidth * 0.6}" height="${svgHeight * 0.2}">
+          <div xmlns="http://www.w3.org/1999/xhtml" style="font-family: Arial, sans-serif; font-size: 16px; color: ${textColor}; text-align: center;">
+            ${truncatedDescription}
+          </div>
+        </foreignObject>
+        
+        <!-- Style badge -->
+        <rect x="${svgWidth * 0.05 + 10}" y="${svgHeight * 0.05 + 10}" width="120" height="30" rx="15" fill="${accentColor}" />
+        <text x="${svgWidth * 0.05 + 70}" y="${svgHeight * 0.05 + 30}" font-family="Arial, sans-serif" font-size="16" fill="${textColor}" text-anchor="middle" alignment-baseline="middle">${style}</text>
+      </svg>
+    `;
+  }
+  
+  /**
+   * Creates an SVG placeholder for the thumbnail
+   */
+  private createThumbnailPlaceholderSvg(title: string, width: number, height: number, style: string): string {
+    // Normalize dimensions
+    const svgWidth = 400;
+    const svgHeight = Math.round((height / width) * svgWidth);
+    
+    // Choose color scheme based on style
+    let bgGradient, textColor, accentColor;
+    
+    switch (style) {
+      case 'cinematic':
+        bgGradient = 'linear-gradient(135deg, #1a2a6c 0%, #b21f1f 50%, #fdbb2d 100%)';
+        textColor = '#ffffff';
+        accentColor = '#fdbb2d';
+        break;
+      case 'animated':
+        bgGradient = 'linear-gradient(135deg, #42275a 0%, #734b6d 100%)';
+        textColor = '#ffffff';
+        accentColor = '#f7a8d8';
+        break;
+      case 'professional':
+        bgGradient = 'linear-gradient(135deg, #2b5876 0%, #4e4376 100%)';
+        textColor = '#ffffff';
+        accentColor = '#56ccf2';
+        break;
+      case 'energetic':
+        bgGradient = 'linear-gradient(135deg, #f12711 0%, #f5af19 100%)';
+        textColor = '#ffffff';
+        accentColor = '#ffffff';
+        break;
+      case 'minimalist':
+        bgGradient = 'linear-gradient(135deg, #485563 0%, #29323c 100%)';
+        textColor = '#ffffff';
+        accentColor = '#e0e0e0';
+        break;
+      default:
+        bgGradient = 'linear-gradient(135deg, #6366F1 0%, #EC4899 100%)';
+        textColor = '#ffffff';
+        accentColor = '#8B5CF6';
+    }
+    
+    // Truncate title if too long
+    const truncatedTitle = title.length > 40
+      ? title.substring(0, 37) + '...'
+      : title;
+    
+    return `
+      <svg width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}" xmlns="http://www.w3.org/2000/svg">
+        <defs>
+          <linearGradient id="thumbnail-bg" x1="0%" y1="0%" x2="100%" y2="100%">
+            <stop offset="0%" style="stop-color:#6366F1;stop-opacity:1" />
+            <stop offset="100%" style="stop-color:#EC4899;stop-opacity:1" />
+          </linearGradient>
+          <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
+            <feDropShadow dx="0" dy="0" stdDeviation="10" flood-color="#000" flood-opacity="0.3" />
+          </filter>
+        </defs>
+        
+        <!-- Background -->
+        <rect width="100%" height="100%" fill="url(#thumbnail-bg)" />
+        
+        <!-- Overlay pattern -->
+        <path d="M0 ${svgHeight} L${svgWidth} ${svgHeight * 0.7} L${svgWidth} ${svgHeight} Z" fill="rgba(0,0,0,0.3)" />
+        
+        <!-- Title at bottom -->
+        <foreignObject x="${svgWidth * 0.1}" y="${svgHeight * 0.7}" width="${svgWidth * 0.8}" height="${svgHeight * 0.25}">
+          <div xmlns="http://www.w3.org/1999/xhtml" style="font-family: Arial, sans-serif; font-size: 18px; font-weight: bold; color: ${textColor}; text-align: center; filter: drop-shadow(0px 1px 3px rgba(0,0,0,0.5));">
+            ${truncatedTitle}
+          </div>
+        </foreignObject>
+        
+        <!-- Play icon (simplified) -->
+        <circle cx="${svgWidth/2}" cy="${svgHeight/2}" r="40" fill="rgba(255,255,255,0.2)" />
+        <path d="M${svgWidth/2 - 15} ${svgHeight/2 - 20} L${svgWidth/2 - 15} ${svgHeight/2 + 20} L${svgWidth/2 + 25} ${svgHeight/2} Z" fill="white" />
+      </svg>
+    `;
+  }
+}
+
+// Export singleton instance
+export const aiService = new AIService();
\ No newline at end of file
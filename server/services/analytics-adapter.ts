@@ -0,0 +1,123 @@
+import axios from "axios";
+import { ConnectedAccount, Publication } from "@shared/schema";
+import { oauthService } from "./oauth-service";
+
+export interface PlatformMetrics {
+  // Cumulative counts since the video was published
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+}
+
+/**
+ * Contract for reading a published video's metrics from its platform
+ */
+export interface AnalyticsAdapter {
+  readonly name: string;
+  supports(platform: string): boolean;
+  fetchMetrics(publication: Publication, account: ConnectedAccount): Promise<PlatformMetrics>;
+}
+
+/**
+ * Reads view/like/comment counts from the YouTube Data API.
+ * YouTube does not report shares, so they stay at zero.
+ */
+export class YouTubeAnalyticsAdapter implements AnalyticsAdapter {
+  public readonly name = 'youtube';
+  private apiUrl = process.env.YOUTUBE_API_URL || 'https://www.googleapis.com/youtube/v3';
+
+  public supports(platform: string): boolean {
+    return platform === 'youtube';
+  }
+
+  public async fetchMetrics(publication: Publication, account: ConnectedAccount): Promise<PlatformMetrics> {
+    if (!publication.externalId) {
+      throw new Error(`Publication ${publication.id} has no YouTube video ID`);
+    }
+
+    const accessToken = await oauthService.getValidAccessToken(account);
+    const { data } = await axios.get(`${this.apiUrl}/videos`, {
+      params: { part: 'statistics', id: publication.externalId },
+      headers: { Authorization: `Bearer ${accessToken}` },
+      timeout: 15000
+    });
+
+    const statistics = data?.items?.[0]?.statistics;
+    if (!statistics) {
+      throw new Error(`YouTube video ${publication.externalId} not found`);
+    }
+
+    return {
+      views: Number(statistics.viewCount) || 0,
+      likes: Number(statistics.likeCount) || 0,
+      comments: Number(statistics.commentCount) || 0,
+      shares: 0
+    };
+  }
+}
+
+/**
+ * Offline adapter producing plausible, deterministic metrics for any platform.
+ * Counts grow with the time since publishing and never go down, so repeated
+ * collections behave like a real platform. Used in tests, or anywhere with
+ * ANALYTICS_ADAPTER=fake.
+ */
+export class FakeAnalyticsAdapter implements AnalyticsAdapter {
+  public readonly name = 'fake';
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  public supports(_platform: string): boolean {
+    return true;
+  }
+
+  public async fetchMetrics(publication: Publication): Promise<PlatformMetrics> {
+    const publishedAt = publication.publishedAt || publication.createdAt;
+    const hours = Math.max(0, (this.now().getTime() - publishedAt.getTime()) / (60 * 60 * 1000));
+
+    // Each publication gets its own popularity and engagement profile
+    const popularity = 40 + (publication.id * 37) % 160;
+    const likeRate = 0.03 + ((publication.id * 13) % 7) / 100;
+
+    const views = Math.floor(popularity * Math.log1p(hours) * (1 + hours / 48));
+    return {
+      views,
+      likes: Math.floor(views * likeRate),
+      comments: Math.floor(views * 0.006),
+      shares: Math.floor(views * 0.003)
+    };
+  }
+}
+
+/**
+ * Picks the adapter for each platform. Platforms without a real adapter are
+ * skipped, unless a fallback is given for them.
+ */
+export class AnalyticsAdapterRegistry {
+  private adapters: AnalyticsAdapter[] = [];
+
+  constructor(private fallback: AnalyticsAdapter | null) {}
+
+  public register(adapter: AnalyticsAdapter) {
+    this.adapters.push(adapter);
+  }
+
+  public forPlatform(platform: string): AnalyticsAdapter | null {
+    return this.adapters.find(adapter => adapter.supports(platform)) || this.fallback;
+  }
+}
+
+function createAnalyticsAdapterRegistry(): AnalyticsAdapterRegistry {
+  // Made-up metrics must never be stored as real ones, so the fake is opt-in
+  if (process.env.ANALYTICS_ADAPTER === 'fake' || process.env.NODE_ENV === 'test') {
+    return new AnalyticsAdapterRegistry(new FakeAnalyticsAdapter());
+  }
+
+  const registry = new AnalyticsAdapterRegistry(null);
+  registry.register(new YouTubeAnalyticsAdapter());
+  return registry;
+}
+
+// Export singleton instance
+export const analyticsAdapterRegistry = createAnalyticsAdapterRegistry();
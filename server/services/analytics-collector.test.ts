@@ -0,0 +1,124 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { ConnectedAccount, Publication } from "@shared/schema";
+import { storage } from "../storage";
+import { AnalyticsAdapterRegistry, FakeAnalyticsAdapter, analyticsAdapterRegistry } from "./analytics-adapter";
+import { AnalyticsCollector } from "./analytics-collector";
+
+const HOUR_MS = 60 * 60 * 1000;
+const publishedAt = new Date("2025-03-01T12:00:00Z");
+
+let now = new Date(publishedAt.getTime() + 24 * HOUR_MS);
+const collector = new AnalyticsCollector(new AnalyticsAdapterRegistry(new FakeAnalyticsAdapter(() => now)));
+
+let account: ConnectedAccount;
+let publication: Publication;
+
+async function publish(accountId: number, idempotencyKey: string, simulated = false): Promise<Publication> {
+  return storage.createPublication({
+    userId: account.userId,
+    videoId: 1,
+    accountId,
+    platform: "tiktok",
+    idempotencyKey,
+    status: "succeeded",
+    externalId: idempotencyKey,
+    simulated,
+    publishedAt
+  });
+}
+
+beforeAll(async () => {
+  account = await storage.createConnectedAccount({
+    userId: 1,
+    platform: "tiktok",
+    externalAccountId: "creator",
+    accessToken: "token",
+    status: "active"
+  });
+  publication = await publish(account.id, "first-upload");
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("AnalyticsCollector", () => {
+  it("stores a snapshot per publication and mirrors the totals", async () => {
+    await collector.collect();
+
+    const snapshot = await storage.getLatestAnalyticsSnapshot(publication.id);
+    expect(snapshot).toMatchObject({ publicationId: publication.id, platform: "tiktok" });
+    expect(snapshot!.views).toBeGreaterThan(0);
+    expect(snapshot!.viewsDelta).toBe(snapshot!.views);
+
+    const [totals] = await storage.getAnalyticsByVideoId(1);
+    expect(totals).toMatchObject({ platform: "tiktok", views: snapshot!.views, likes: snapshot!.likes });
+  });
+
+  it("records the gain since the previous snapshot", async () => {
+    const previous = (await storage.getLatestAnalyticsSnapshot(publication.id))!;
+
+    now = new Date(publishedAt.getTime() + 48 * HOUR_MS);
+    await collector.collect();
+
+    const latest = (await storage.getLatestAnalyticsSnapshot(publication.id))!;
+    expect(latest.views).toBeGreaterThan(previous.views);
+    expect(latest.viewsDelta).toBe(latest.views - previous.views);
+    expect(latest.likesDelta).toBe(latest.likes - previous.likes);
+  });
+
+  it("sums the totals over every account the video went out to", async () => {
+    const other = await storage.createConnectedAccount({
+      userId: 1,
+      platform: "tiktok",
+      externalAccountId: "second-creator",
+      accessToken: "token",
+      status: "active"
+    });
+    const second = await publish(other.id, "second-upload");
+
+    await collector.collect();
+
+    const first = (await storage.getLatestAnalyticsSnapshot(publication.id))!;
+    const latest = (await storage.getLatestAnalyticsSnapshot(second.id))!;
+    const [totals] = await storage.getAnalyticsByVideoId(1);
+    expect(totals.views).toBe(first.views + latest.views);
+  });
+
+  it("skips publications whose account is no longer active", async () => {
+    await storage.updateConnectedAccount(account.id, { status: "revoked" });
+    const before = (await storage.getLatestAnalyticsSnapshot(publication.id))!;
+
+    now = new Date(publishedAt.getTime() + 72 * HOUR_MS);
+    await collector.collect();
+
+    expect(await storage.getLatestAnalyticsSnapshot(publication.id)).toEqual(before);
+    await storage.updateConnectedAccount(account.id, { status: "active" });
+  });
+
+  it("leaves simulated uploads out, as their external IDs are not the user's posts", async () => {
+    const simulated = await publish(account.id, "simulated-upload", true);
+
+    await collector.collect();
+
+    expect(await storage.getLatestAnalyticsSnapshot(simulated.id)).toBeUndefined();
+  });
+
+  it("logs instead of rejecting when the publications cannot be loaded", async () => {
+    vi.spyOn(storage, "getPublicationsByStatus").mockRejectedValueOnce(new Error("Database is down"));
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(collector.collect()).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalledWith("Could not collect analytics:", expect.any(Error));
+
+    // The failed run does not block the next one
+    await collector.collect();
+    expect(consoleError).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("analyticsAdapterRegistry", () => {
+  it("uses the fake adapter in tests", () => {
+    expect(analyticsAdapterRegistry.forPlatform("instagram")).toBeInstanceOf(FakeAnalyticsAdapter);
+  });
+});
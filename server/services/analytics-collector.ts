@@ -0,0 +1,119 @@
+import { Publication } from "@shared/schema";
+import { storage } from "../storage";
+import { analyticsAdapterRegistry, type AnalyticsAdapterRegistry, type PlatformMetrics } from "./analytics-adapter";
+
+// How often metrics are pulled for every publication
+const COLLECT_INTERVAL_MS = Number(process.env.ANALYTICS_POLL_INTERVAL_MS) || 15 * 60 * 1000;
+
+/**
+ * Periodically pulls metrics for every successful publication and stores them
+ * as timestamped snapshots. Simulated uploads are skipped, as their external
+ * IDs belong to other people's posts. The latest totals are mirrored into the analytics
+ * table, which keeps one row per video and platform.
+ */
+export class AnalyticsCollector {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private adapters: AnalyticsAdapterRegistry = analyticsAdapterRegistry) {}
+
+  public start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.collect(), COLLECT_INTERVAL_MS);
+    this.timer.unref();
+
+    // Take a first snapshot right away
+    this.collect();
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Collect metrics for all publications once. Runs never overlap.
+   */
+  public async collect(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const publications = (await storage.getPublicationsByStatus('succeeded'))
+        .filter(publication => !publication.simulated);
+      for (const publication of publications) {
+        try {
+          await this.collectPublication(publication);
+        } catch (error) {
+          // One platform being down should not stop the rest
+          console.error(`Could not collect analytics for publication ${publication.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Could not collect analytics:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async collectPublication(publication: Publication): Promise<void> {
+    const adapter = this.adapters.forPlatform(publication.platform);
+    if (!adapter) return;
+
+    const account = await storage.getConnectedAccount(publication.accountId);
+    if (!account || account.status !== 'active') return;
+
+    const metrics = await adapter.fetchMetrics(publication, account);
+    const previous = await storage.getLatestAnalyticsSnapshot(publication.id);
+
+    // Platforms occasionally revise counts down; never record negative gains
+    const delta = (key: keyof PlatformMetrics) => Math.max(0, metrics[key] - (previous?.[key] ?? 0));
+
+    await storage.createAnalyticsSnapshot({
+      userId: publication.userId,
+      videoId: publication.videoId,
+      publicationId: publication.id,
+      platform: publication.platform,
+      ...metrics,
+      viewsDelta: delta('views'),
+      likesDelta: delta('likes'),
+      commentsDelta: delta('comments'),
+      sharesDelta: delta('shares'),
+      capturedAt: new Date()
+    });
+
+    await this.updateTotals(publication);
+  }
+
+  /**
+   * Keep the per-video/platform analytics row in step with the latest snapshots,
+   * summed over every account the video went out to on that platform
+   */
+  private async updateTotals(publication: Publication): Promise<void> {
+    const siblings = (await storage.getPublicationsByVideoId(publication.videoId))
+      .filter(p => p.platform === publication.platform && p.status === 'succeeded' && !p.simulated);
+
+    const totals: PlatformMetrics = { views: 0, likes: 0, comments: 0, shares: 0 };
+    for (const sibling of siblings) {
+      const latest = await storage.getLatestAnalyticsSnapshot(sibling.id);
+      if (!latest) continue;
+      totals.views += latest.views;
+      totals.likes += latest.likes;
+      totals.comments += latest.comments;
+      totals.shares += latest.shares;
+    }
+
+    const rows = await storage.getAnalyticsByVideoId(publication.videoId);
+    const existing = rows.find(row => row.platform === publication.platform);
+
+    if (existing) {
+      await storage.updateAnalytics(existing.id, totals);
+    } else {
+      await storage.createAnalytics({ videoId: publication.videoId, platform: publication.platform, ...totals });
+    }
+  }
+}
+
+// Export singleton instance
+export const analyticsCollector = new AnalyticsCollector();
@@ -0,0 +1,50 @@
+import { PassThrough, Writable } from "stream";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ContentPerformance } from "./analytics-query";
+import { analyticsExporter } from "./analytics-export";
+
+const row = (videoId: number, title: string): ContentPerformance => ({
+  videoId,
+  title,
+  thumbnailUrl: null,
+  platform: "youtube",
+  views: 100,
+  likes: 10,
+  comments: 2,
+  shares: 1,
+  engagementRate: 13,
+  totalViews: 250,
+  publishedAt: new Date("2025-03-01T12:00:00Z")
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("AnalyticsExporter", () => {
+  it("writes the selected columns as CSV", async () => {
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on("data", chunk => chunks.push(chunk));
+
+    await analyticsExporter.write(out, "csv", [row(1, "Sunrise, again"), row(2, "=SUM(A1)")], ["videoId", "title", "publishedAt"]);
+
+    expect(Buffer.concat(chunks).toString()).toBe(
+      "\uFEFFVideo ID,Title,Published At\r\n" +
+      "1,\"Sunrise, again\",2025-03-01T12:00:00.000Z\r\n" +
+      "2,'=SUM(A1),2025-03-01T12:00:00.000Z\r\n"
+    );
+  });
+
+  it("stops when the client disconnects while the stream is full", async () => {
+    // Never finishes a write, like a client that stopped reading
+    const out = new Writable({ highWaterMark: 1, write: () => {} });
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const done = analyticsExporter.write(out, "json", [row(1, "Sunrise"), row(2, "Sunset")], ["title"]);
+    out.destroy();
+
+    await expect(done).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalledWith("Analytics export failed:", expect.any(Error));
+  });
+});
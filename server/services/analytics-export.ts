@@ -0,0 +1,174 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import ExcelJS from "exceljs";
+import type { ContentPerformance } from "./analytics-query";
+
+export const EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export type ExportColumnKey =
+  | 'videoId'
+  | 'title'
+  | 'platform'
+  | 'views'
+  | 'likes'
+  | 'comments'
+  | 'shares'
+  | 'engagementRate'
+  | 'totalViews'
+  | 'publishedAt';
+
+export interface ExportColumn {
+  key: ExportColumnKey;
+  header: string;
+  // Column width in the XLSX sheet, in characters
+  width: number;
+}
+
+// Exportable columns in their default order
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'videoId', header: 'Video ID', width: 10 },
+  { key: 'title', header: 'Title', width: 40 },
+  { key: 'platform', header: 'Platform', width: 12 },
+  { key: 'views', header: 'Views', width: 12 },
+  { key: 'likes', header: 'Likes', width: 12 },
+  { key: 'comments', header: 'Comments', width: 12 },
+  { key: 'shares', header: 'Shares', width: 12 },
+  { key: 'engagementRate', header: 'Engagement Rate (%)', width: 20 },
+  { key: 'totalViews', header: 'Total Views', width: 14 },
+  { key: 'publishedAt', header: 'Published At', width: 24 }
+];
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+export function isExportColumn(key: string): key is ExportColumnKey {
+  return EXPORT_COLUMNS.some(column => column.key === key);
+}
+
+type CellValue = string | number | null;
+
+function cellValue(row: ContentPerformance, key: ExportColumnKey): CellValue {
+  if (key === 'publishedAt') {
+    return row.publishedAt ? row.publishedAt.toISOString() : null;
+  }
+  return row[key];
+}
+
+function csvCell(value: CellValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  // Titles are user input; keep spreadsheets from evaluating them as formulas
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes a chunk, waiting for the stream to drain when its buffer is full.
+ * Rejects when the stream closes first, as it does when the client disconnects.
+ */
+async function writeChunk(out: Writable, chunk: string): Promise<void> {
+  if (out.destroyed) {
+    throw new Error('The export stream was closed');
+  }
+  if (out.write(chunk)) return;
+
+  const waiting = new AbortController();
+  try {
+    await Promise.race([
+      once(out, 'drain', { signal: waiting.signal }),
+      once(out, 'close', { signal: waiting.signal }).then(() => {
+        throw new Error('The export stream was closed');
+      })
+    ]);
+  } finally {
+    // Stop listening for whichever event did not happen
+    waiting.abort();
+  }
+}
+
+/**
+ * Streams content performance rows as CSV, JSON or XLSX
+ */
+export class AnalyticsExporter {
+  /**
+   * Write rows with the given columns to the stream and end it. Once output
+   * has started an error cannot be reported in-band, so the stream is
+   * destroyed instead and the download fails visibly.
+   */
+  public async write(out: Writable, format: ExportFormat, rows: ContentPerformance[], columnKeys: ExportColumnKey[]): Promise<void> {
+    const columns = columnKeys.map(key => EXPORT_COLUMNS.find(column => column.key === key)!);
+
+    try {
+      switch (format) {
+        case 'csv':
+          await this.writeCsv(out, rows, columns);
+          break;
+        case 'json':
+          await this.writeJson(out, rows, columns);
+          break;
+        case 'xlsx':
+          await this.writeXlsx(out, rows, columns);
+          break;
+      }
+    } catch (error) {
+      console.error('Analytics export failed:', error);
+      out.destroy(error instanceof Error ? error : new Error('Export failed'));
+    }
+  }
+
+  private async writeCsv(out: Writable, rows: ContentPerformance[], columns: ExportColumn[]): Promise<void> {
+    // BOM so Excel opens the file as UTF-8
+    await writeChunk(out, '\uFEFF' + columns.map(column => csvCell(column.header)).join(',') + '\r\n');
+
+    for (const row of rows) {
+      await writeChunk(out, columns.map(column => csvCell(cellValue(row, column.key))).join(',') + '\r\n');
+    }
+
+    out.end();
+  }
+
+  private async writeJson(out: Writable, rows: ContentPerformance[], columns: ExportColumn[]): Promise<void> {
+    await writeChunk(out, '[');
+
+    for (let i = 0; i < rows.length; i++) {
+      const record = Object.fromEntries(columns.map(column => [column.key, cellValue(rows[i], column.key)]));
+      await writeChunk(out, (i > 0 ? ',' : '') + '\n  ' + JSON.stringify(record));
+    }
+
+    out.end(rows.length > 0 ? '\n]\n' : ']\n');
+  }
+
+  private async writeXlsx(out: Writable, rows: ContentPerformance[], columns: ExportColumn[]): Promise<void> {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: true });
+    const sheet = workbook.addWorksheet('Analytics');
+
+    sheet.columns = columns.map(column => ({ header: column.header, key: column.key, width: column.width }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.getRow(1).commit();
+
+    for (const row of rows) {
+      const values: Record<string, CellValue | Date> = {};
+      for (const column of columns) {
+        // Real dates so spreadsheets can sort and filter on them
+        values[column.key] = column.key === 'publishedAt' ? row.publishedAt : cellValue(row, column.key);
+      }
+      sheet.addRow(values).commit();
+    }
+
+    sheet.commit();
+    // Finalizing the workbook ends the stream
+    await workbook.commit();
+  }
+}
+
+// Export singleton instance
+export const analyticsExporter = new AnalyticsExporter();
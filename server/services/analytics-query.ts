@@ -0,0 +1,182 @@
+import { AnalyticsSnapshot } from "@shared/schema";
+import { storage } from "../storage";
+
+// Days covered by each time range; keys match TIME_RANGES on the client
+export const TIME_RANGE_DAYS: Record<string, number> = {
+  '7days': 7,
+  '30days': 30,
+  '90days': 90
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MetricTotals {
+  views: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  // (likes + comments + shares) / views, as a percentage
+  engagementRate: number;
+}
+
+export interface DailyMetrics extends MetricTotals {
+  date: string; // YYYY-MM-DD (UTC)
+}
+
+export interface AnalyticsOverview {
+  range: string;
+  totals: MetricTotals;
+  // Same-length period right before the range, for change indicators
+  previousTotals: MetricTotals;
+  daily: DailyMetrics[];
+}
+
+export interface PlatformBreakdown extends MetricTotals {
+  platform: string;
+  publications: number;
+}
+
+export interface ContentPerformance extends MetricTotals {
+  videoId: number;
+  title: string;
+  thumbnailUrl: string | null;
+  platform: string;
+  // Cumulative views across all time, not just the range
+  totalViews: number;
+  publishedAt: Date | null;
+}
+
+export interface ContentFilters {
+  platform?: string;
+}
+
+export function isTimeRange(range: string): boolean {
+  return range in TIME_RANGE_DAYS;
+}
+
+function summarize(snapshots: AnalyticsSnapshot[]): MetricTotals {
+  const totals = snapshots.reduce(
+    (sum, s) => ({
+      views: sum.views + s.viewsDelta,
+      likes: sum.likes + s.likesDelta,
+      comments: sum.comments + s.commentsDelta,
+      shares: sum.shares + s.sharesDelta
+    }),
+    { views: 0, likes: 0, comments: 0, shares: 0 }
+  );
+
+  const interactions = totals.likes + totals.comments + totals.shares;
+  return {
+    ...totals,
+    engagementRate: totals.views > 0 ? Math.round((interactions / totals.views) * 1000) / 10 : 0
+  };
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  }
+  return groups;
+}
+
+/**
+ * Aggregates analytics snapshots over the supported time ranges. Gains in a
+ * range are the sum of snapshot deltas captured within it.
+ */
+export class AnalyticsQueryService {
+  constructor(private now: () => Date = () => new Date()) {}
+
+  private rangeStart(range: string, periodsBack: number = 1): Date {
+    const days = TIME_RANGE_DAYS[range] ?? TIME_RANGE_DAYS['7days'];
+    return new Date(this.now().getTime() - days * periodsBack * DAY_MS);
+  }
+
+  private async snapshotsInRange(userId: number, range: string): Promise<AnalyticsSnapshot[]> {
+    return storage.getAnalyticsSnapshotsByUserId(userId, this.rangeStart(range));
+  }
+
+  /**
+   * Totals for the range and the period before it, plus a per-day series
+   */
+  public async getOverview(userId: number, range: string): Promise<AnalyticsOverview> {
+    const start = this.rangeStart(range);
+    const snapshots = await storage.getAnalyticsSnapshotsByUserId(userId, this.rangeStart(range, 2));
+
+    const current = snapshots.filter(s => s.capturedAt >= start);
+    const previous = snapshots.filter(s => s.capturedAt < start);
+
+    const byDay = groupBy(current, s => s.capturedAt.toISOString().slice(0, 10));
+    const days = TIME_RANGE_DAYS[range] ?? TIME_RANGE_DAYS['7days'];
+    const daily: DailyMetrics[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const date = new Date(this.now().getTime() - i * DAY_MS).toISOString().slice(0, 10);
+      daily.push({ date, ...summarize(byDay.get(date) || []) });
+    }
+
+    return {
+      range,
+      totals: summarize(current),
+      previousTotals: summarize(previous),
+      daily
+    };
+  }
+
+  /**
+   * Gains in the range per platform
+   */
+  public async getPlatformBreakdown(userId: number, range: string): Promise<PlatformBreakdown[]> {
+    const snapshots = await this.snapshotsInRange(userId, range);
+
+    return Array.from(groupBy(snapshots, s => s.platform).entries())
+      .map(([platform, group]) => ({
+        platform,
+        publications: new Set(group.map(s => s.publicationId)).size,
+        ...summarize(group)
+      }))
+      .sort((a, b) => b.views - a.views);
+  }
+
+  /**
+   * Gains in the range per video and platform, best performing first
+   */
+  public async getContentPerformance(userId: number, range: string, filters: ContentFilters = {}): Promise<ContentPerformance[]> {
+    const snapshots = (await this.snapshotsInRange(userId, range))
+      .filter(s => !filters.platform || s.platform === filters.platform);
+    const groups = groupBy(snapshots, s => `${s.videoId}:${s.platform}`);
+
+    const rows: ContentPerformance[] = [];
+    for (const group of Array.from(groups.values())) {
+      const { videoId, platform } = group[0];
+      const video = await storage.getVideo(videoId);
+      if (!video) continue;
+
+      // Latest cumulative views of each publication of this video on the platform
+      const latest = new Map<number, AnalyticsSnapshot>();
+      for (const s of group) latest.set(s.publicationId, s);
+
+      const publications = (await storage.getPublicationsByVideoId(videoId))
+        .filter(p => p.platform === platform && p.publishedAt);
+      const publishedAt = publications.length > 0
+        ? publications.reduce((earliest, p) => p.publishedAt! < earliest ? p.publishedAt! : earliest, publications[0].publishedAt!)
+        : null;
+
+      rows.push({
+        videoId,
+        title: video.title,
+        thumbnailUrl: video.thumbnailUrl,
+        platform,
+        totalViews: Array.from(latest.values()).reduce((sum, s) => sum + s.views, 0),
+        publishedAt,
+        ...summarize(group)
+      });
+    }
+
+    return rows.sort((a, b) => b.views - a.views);
+  }
+}
+
+// Export singleton instance
+export const analyticsQueryService = new AnalyticsQueryService();
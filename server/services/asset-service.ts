@@ -0,0 +1,182 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Asset } from "@shared/schema";
+import { storage } from "../storage";
+import { assetContentType, isValidAssetKey, type AssetStore } from "./asset-store";
+import { LocalAssetStore } from "./local-asset-store";
+import { S3AssetStore } from "./s3-asset-store";
+
+// Lifetime of the URLs handed to the browser to show videos and thumbnails
+const VIEW_URL_TTL_SECONDS = 60 * 60;
+
+// Lifetime of the URLs the download route redirects to
+const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+
+// Before the asset store, files were served publicly from public/generated
+const LEGACY_URL_PREFIX = '/generated/';
+const LEGACY_DIR = path.join(process.cwd(), 'public', 'generated');
+
+interface WithAssets {
+  videoUrl: string | null;
+  thumbnailUrl: string | null;
+  subtitlesSrtUrl?: string | null;
+  subtitlesVttUrl?: string | null;
+}
+
+/**
+ * Keeps generated assets in the configured store and hands out signed URLs
+ * for them. Videos and renders store asset keys in videoUrl and thumbnailUrl;
+ * responses replace them with URLs that expire. Every stored file is recorded
+ * in the asset registry under the user it was made for, which is what storage
+ * usage is counted from.
+ */
+export class AssetService {
+  public readonly store: AssetStore;
+
+  constructor() {
+    this.store = this.createStore();
+  }
+
+  /**
+   * Store a file for a user and record it in the registry
+   */
+  public async save(userId: number, key: string, body: Buffer): Promise<Asset> {
+    await this.store.put(key, body);
+    return this.register(userId, key, body.length);
+  }
+
+  /**
+   * Same as save, for a file on disk
+   */
+  public async saveFile(userId: number, key: string, filePath: string): Promise<Asset> {
+    const { size } = await fs.stat(filePath);
+    await this.store.putFile(key, filePath);
+    return this.register(userId, key, size);
+  }
+
+  /**
+   * Delete an asset from the store and the registry
+   */
+  public async remove(asset: Asset): Promise<void> {
+    await this.store.delete(asset.key);
+    await storage.deleteAsset(asset.id);
+  }
+
+  /**
+   * Short-lived URL for showing an asset, or the value itself when it is not
+   * an asset key (e.g. an external URL)
+   */
+  public async getViewUrl(key: string): Promise<string> {
+    if (!isValidAssetKey(key)) return key;
+    return this.store.getSignedUrl(key, { expiresIn: VIEW_URL_TTL_SECONDS });
+  }
+
+  /**
+   * URL that downloads an asset as a file with the given name
+   */
+  public async getDownloadUrl(key: string, fileName: string): Promise<string> {
+    if (!isValidAssetKey(key)) return key;
+    return this.store.getSignedUrl(key, { expiresIn: DOWNLOAD_URL_TTL_SECONDS, downloadName: fileName });
+  }
+
+  /**
+   * Copy of a video or render for a response, with its asset keys replaced by signed URLs
+   */
+  public async withSignedUrls<T extends WithAssets>(item: T): Promise<T> {
+    return {
+      ...item,
+      videoUrl: item.videoUrl && await this.getViewUrl(item.videoUrl),
+      thumbnailUrl: item.thumbnailUrl && await this.getViewUrl(item.thumbnailUrl),
+      subtitlesSrtUrl: item.subtitlesSrtUrl && await this.getViewUrl(item.subtitlesSrtUrl),
+      subtitlesVttUrl: item.subtitlesVttUrl && await this.getViewUrl(item.subtitlesVttUrl)
+    } as T;
+  }
+
+  /**
+   * Move files of videos and renders made before the asset store into it, and
+   * point their rows at the new keys. Rows already moved no longer match, so
+   * this is safe to run on every startup.
+   */
+  public async importLegacyFiles(): Promise<void> {
+    const videos = await storage.getVideosByAssetPrefix(LEGACY_URL_PREFIX);
+    const renders = await storage.getVideoRendersByAssetPrefix(LEGACY_URL_PREFIX);
+
+    for (const video of videos) {
+      const videoUrl = video.videoUrl && await this.importLegacyFile(video.userId, video.videoUrl);
+      const thumbnailUrl = video.thumbnailUrl && await this.importLegacyFile(video.userId, video.thumbnailUrl);
+      if (videoUrl !== video.videoUrl || thumbnailUrl !== video.thumbnailUrl) {
+        await storage.updateVideo(video.id, { videoUrl, thumbnailUrl });
+      }
+    }
+
+    for (const render of renders) {
+      const videoUrl = await this.importLegacyFile(render.userId, render.videoUrl);
+      const thumbnailUrl = await this.importLegacyFile(render.userId, render.thumbnailUrl);
+      if (videoUrl !== render.videoUrl || thumbnailUrl !== render.thumbnailUrl) {
+        await storage.updateVideoRender(render.id, { videoUrl, thumbnailUrl });
+      }
+    }
+  }
+
+  /**
+   * Key of a legacy file once it is in the store. Other values, and files that
+   * could not be moved, are returned as they are.
+   */
+  private async importLegacyFile(userId: number, url: string): Promise<string> {
+    if (!url.startsWith(LEGACY_URL_PREFIX)) return url;
+
+    const key = url.slice(LEGACY_URL_PREFIX.length);
+    if (!isValidAssetKey(key)) return url;
+
+    // A render and the video it was promoted to share their files
+    if (await storage.getAssetByKey(key)) return key;
+
+    try {
+      await this.saveFile(userId, key, path.join(LEGACY_DIR, key));
+      return key;
+    } catch (error) {
+      console.error(`Could not move ${url} into the asset store:`, error);
+      return url;
+    }
+  }
+
+  private async register(userId: number, key: string, sizeBytes: number): Promise<Asset> {
+    // Overwriting a key replaces the file, so it is counted once
+    const existing = await storage.getAssetByKey(key);
+    if (existing) await storage.deleteAsset(existing.id);
+
+    return storage.createAsset({ userId, key, contentType: assetContentType(key), sizeBytes });
+  }
+
+  /**
+   * Store selected by ASSET_STORE: "s3" for an S3-compatible service such as
+   * MinIO, otherwise files on local disk under ASSET_STORE_DIR
+   */
+  private createStore(): AssetStore {
+    if (process.env.ASSET_STORE === 's3') {
+      const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+      if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error('ASSET_STORE=s3 needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+      }
+
+      return new S3AssetStore({
+        endpoint: S3_ENDPOINT,
+        bucket: S3_BUCKET,
+        region: process.env.S3_REGION || 'us-east-1',
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        // MinIO and most self-hosted services only understand path-style requests
+        pathStyle: process.env.S3_PATH_STYLE !== 'false'
+      });
+    }
+
+    return new LocalAssetStore({
+      rootDir: process.env.ASSET_STORE_DIR || path.join(process.cwd(), 'storage', 'assets'),
+      baseUrl: `${process.env.BASE_URL || ''}/media`,
+      secret: process.env.ASSET_SIGNING_SECRET || process.env.SESSION_SECRET || 'vidiyome-secret-key'
+    });
+  }
+}
+
+// Export singleton instance
+export const assetService = new AssetService();
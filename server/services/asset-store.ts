@@ -0,0 +1,75 @@
+import path from "path";
+
+// Signed URLs expire after this unless asked otherwise
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 15 * 60;
+
+export interface SignedUrlOptions {
+  // Seconds the URL stays valid
+  expiresIn?: number;
+  // Serve the asset as an attachment with this file name
+  downloadName?: string;
+}
+
+/**
+ * Local copy of an asset. Call release() once done with it; stores that had
+ * to download the asset delete the copy then.
+ */
+export interface LocalAssetFile {
+  path: string;
+  release(): Promise<void>;
+}
+
+/**
+ * Error raised when an asset does not exist in the store
+ */
+export class AssetNotFoundError extends Error {
+  constructor(public readonly key: string) {
+    super(`Asset not found: ${key}`);
+    this.name = 'AssetNotFoundError';
+  }
+}
+
+/**
+ * Contract for where generated videos and thumbnails are kept. Assets are
+ * private: the only way to reach one from a browser is a signed URL that
+ * expires. Keys are relative paths such as "3f2c...e1.mp4".
+ */
+export interface AssetStore {
+  readonly name: string;
+
+  put(key: string, body: Buffer, contentType?: string): Promise<void>;
+  // Store a file from disk; the file itself is left in place
+  putFile(key: string, filePath: string, contentType?: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  // Throws AssetNotFoundError when the asset does not exist
+  getLocalFile(key: string): Promise<LocalAssetFile>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+const contentTypes: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.srt': 'application/x-subrip',
+  '.vtt': 'text/vtt'
+};
+
+/**
+ * Content type for an asset key, from its extension
+ */
+export function assetContentType(key: string): string {
+  return contentTypes[path.extname(key).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Checks a key is a plain relative path, so it cannot escape the store
+ */
+export function isValidAssetKey(key: string): boolean {
+  return /^[\w-]+(\/[\w-]+)*(\.[\w]+)?$/.test(key) && key.length <= 512;
+}
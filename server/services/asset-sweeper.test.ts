@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertVideoRender } from "@shared/schema";
+import { storage } from "../storage";
+import { assetService } from "./asset-service";
+import { AssetSweeper } from "./asset-sweeper";
+
+const HOUR_MS = 60 * 60 * 1000;
+const start = new Date("2025-03-01T12:00:00Z");
+
+const sweeper = new AssetSweeper();
+
+const at = (hours: number) => vi.setSystemTime(new Date(start.getTime() + hours * HOUR_MS));
+
+const asset = (key: string) =>
+  storage.createAsset({ userId: 1, key, contentType: "video/mp4", sizeBytes: 1000 });
+
+const render = (key: string, settings: Partial<InsertVideoRender> = {}) =>
+  storage.createVideoRender({
+    userId: 1,
+    prompt: "A sunrise over the mountains",
+    style: "cinematic",
+    duration: "30s",
+    aspectRatio: "16:9",
+    resolution: 720,
+    provider: "mock",
+    videoUrl: `${key}.mp4`,
+    thumbnailUrl: `${key}.png`,
+    ...settings
+  });
+
+let deleted: string[];
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  at(0);
+  deleted = [];
+  vi.spyOn(assetService.store, "delete").mockImplementation(async key => {
+    deleted.push(key);
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("AssetSweeper", () => {
+  it("expires previews nobody saved after a day", async () => {
+    const old = await render("previews/old");
+    const saved = await render("previews/saved", { videoId: 1, version: 1 });
+    at(20);
+    const recent = await render("previews/recent");
+
+    at(25);
+    await sweeper.sweep();
+
+    expect(await storage.getVideoRender(old.id)).toBeUndefined();
+    expect(await storage.getVideoRender(saved.id)).toBeDefined();
+    expect(await storage.getVideoRender(recent.id)).toBeDefined();
+  });
+
+  it("removes files nothing refers to once they are an hour old", async () => {
+    const orphan = await asset("sweep/orphan.mp4");
+    const inVideo = await asset("sweep/in-video.mp4");
+    const inRender = await asset("sweep/in-render.png");
+    await storage.createVideo({
+      userId: 1,
+      title: "Kept",
+      prompt: "A sunrise over the mountains",
+      style: "cinematic",
+      duration: "30s",
+      aspectRatio: "16:9",
+      platforms: ["youtube"],
+      videoUrl: inVideo.key
+    });
+    await render("sweep/saved", { videoId: 1, version: 2, thumbnailUrl: inRender.key });
+    at(0.5);
+    const fresh = await asset("sweep/fresh.mp4");
+
+    at(1.1);
+    await sweeper.sweep();
+
+    expect(deleted).toContain(orphan.key);
+    expect(deleted).not.toContain(inVideo.key);
+    expect(deleted).not.toContain(inRender.key);
+    expect(deleted).not.toContain(fresh.key);
+    expect(await storage.getAssetByKey(orphan.key)).toBeUndefined();
+    expect(await storage.getAssetByKey(fresh.key)).toBeDefined();
+  });
+
+  it("removes the files of an expired preview in the same sweep", async () => {
+    const video = await asset("expired/preview.mp4");
+    const thumbnail = await asset("expired/preview.png");
+    await render("expired/preview");
+
+    at(25);
+    await sweeper.sweep();
+
+    expect(deleted).toEqual(expect.arrayContaining([video.key, thumbnail.key]));
+    expect(await storage.getAssetByKey(video.key)).toBeUndefined();
+  });
+
+  it("keeps a file the store could not delete registered for the next sweep", async () => {
+    const stuck = await asset("failing/stuck.mp4");
+    const deleteFile = vi.mocked(assetService.store.delete).mockRejectedValue(new Error("Store unavailable"));
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    at(2);
+    await sweeper.sweep();
+
+    expect(consoleError).toHaveBeenCalledWith(`Could not remove asset ${stuck.key}:`, expect.any(Error));
+    expect(await storage.getAssetByKey(stuck.key)).toBeDefined();
+
+    deleteFile.mockResolvedValue(undefined);
+    await sweeper.sweep();
+    expect(await storage.getAssetByKey(stuck.key)).toBeUndefined();
+  });
+});
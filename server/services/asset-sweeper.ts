@@ -0,0 +1,69 @@
+import { storage } from "../storage";
+import { assetService } from "./asset-service";
+
+// How often the asset store is swept
+const SWEEP_INTERVAL_MS = Number(process.env.ASSET_SWEEP_INTERVAL_MS) || 15 * 60 * 1000;
+
+// Previews that were never saved as a video are removed after this long
+const PREVIEW_TTL_MS = Number(process.env.ASSET_PREVIEW_TTL_MS) || 24 * 60 * 60 * 1000;
+
+// Files are only considered orphaned this long after they were stored, so a
+// generation that has stored its files but not yet recorded its render keeps them
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Periodically frees storage: renders of previews nobody saved expire, and
+ * files no video or render refers to any more (e.g. after a video was deleted)
+ * are removed from the asset store and stop counting against the user's quota.
+ */
+export class AssetSweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  public start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.timer.unref();
+
+    // Clean up whatever was left behind while the server was down
+    this.sweep();
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Expire old previews, then remove unreferenced files. Runs never overlap.
+   */
+  public async sweep(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const now = Date.now();
+
+      for (const render of await storage.getUnsavedVideoRenders(new Date(now - PREVIEW_TTL_MS))) {
+        await storage.deleteVideoRender(render.id);
+      }
+
+      for (const asset of await storage.getUnreferencedAssets(new Date(now - ORPHAN_GRACE_MS))) {
+        try {
+          await assetService.remove(asset);
+        } catch (error) {
+          // Left in the registry, so the next sweep tries again
+          console.error(`Could not remove asset ${asset.key}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Could not sweep the asset store:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const assetSweeper = new AssetSweeper();
@@ -0,0 +1,141 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { PlanTier } from "@shared/plans";
+
+// Webhooks signed longer ago than this are rejected, so captured requests cannot be replayed later
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface CheckoutRequest {
+  userId: number;
+  tier: PlanTier;
+  // Monthly price in cents
+  price: number;
+  // Where the provider sends the user after paying or giving up
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  // Page where the user pays
+  url: string;
+}
+
+/**
+ * Subscription changes reported by a billing provider's webhook
+ *
+ *   checkout.completed       -> a new subscription was paid for
+ *   invoice.paid             -> a renewal was paid, extending the period
+ *   invoice.payment_failed   -> a renewal could not be charged
+ *   subscription.updated     -> the tier changed, e.g. after an upgrade
+ *   subscription.canceled    -> the subscription will not renew
+ *   subscription.ended       -> the subscription ended before its period did
+ */
+export type BillingEventType =
+  | 'checkout.completed'
+  | 'invoice.paid'
+  | 'invoice.payment_failed'
+  | 'subscription.updated'
+  | 'subscription.canceled'
+  | 'subscription.ended';
+
+export interface BillingEvent {
+  id: string;
+  type: BillingEventType;
+  externalSubscriptionId: string;
+  // Set on checkout.completed, which creates the subscription
+  userId?: number;
+  // Set when the tier or price is new or changed
+  tier?: PlanTier;
+  price?: number;
+  // End of the paid period, set whenever a payment extends it
+  periodEnd?: string;
+  paymentId?: string;
+  paymentMethod?: string;
+}
+
+/**
+ * Error raised for webhook requests that are not signed by the provider
+ */
+export class BillingSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillingSignatureError';
+  }
+}
+
+/**
+ * Contract for a payment service that bills subscriptions. Providers report
+ * every change through signed webhooks, which BillingService turns into
+ * subscription updates; the calls below only ask the provider to act.
+ */
+export interface BillingProvider {
+  readonly name: string;
+
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Move a subscription to another tier, charging the prorated amount (in cents) right away
+  changePlan(externalSubscriptionId: string, tier: PlanTier, price: number, proratedAmount: number): Promise<void>;
+  // Stop renewal at the end of the paid period
+  cancel(externalSubscriptionId: string): Promise<void>;
+  // Verify a webhook request and parse its event; throws BillingSignatureError
+  parseWebhook(rawBody: Buffer, signature: string | undefined): BillingEvent;
+}
+
+/**
+ * Signature header value for a webhook payload: "t=<unix seconds>,v1=<hex hmac>"
+ */
+export function signWebhookPayload(secret: string, payload: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const hmac = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${hmac}`;
+}
+
+/**
+ * Check a signature made by signWebhookPayload; throws BillingSignatureError
+ */
+export function verifyWebhookSignature(secret: string, payload: string, signature: string | undefined): void {
+  if (!signature) {
+    throw new BillingSignatureError('Missing webhook signature');
+  }
+
+  const parts = new Map(signature.split(',').map(part => part.trim().split('=', 2) as [string, string]));
+  const timestamp = Number(parts.get('t'));
+  const received = parts.get('v1');
+  if (!Number.isFinite(timestamp) || !received) {
+    throw new BillingSignatureError('Malformed webhook signature');
+  }
+
+  if (Math.abs(Date.now() - timestamp * 1000) > SIGNATURE_TOLERANCE_MS) {
+    throw new BillingSignatureError('Webhook signature has expired');
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, payload, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(received, 'hex');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new BillingSignatureError('Invalid webhook signature');
+  }
+}
+
+/**
+ * Registry of billing providers keyed by name
+ */
+export class BillingProviderRegistry {
+  private providers: Map<string, BillingProvider> = new Map();
+
+  public register(provider: BillingProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  public get(name: string): BillingProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  public has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  public list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+// Export singleton instance
+export const billingProviderRegistry = new BillingProviderRegistry();
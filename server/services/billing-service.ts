@@ -0,0 +1,295 @@
+import { Subscription, User, isEntitledSubscriptionStatus } from "@shared/schema";
+import { planPrices, type PlanTier } from "@shared/plans";
+import { storage } from "../storage";
+import { billingProviderRegistry, type BillingEvent, type BillingProvider, type CheckoutSession } from "./billing-provider";
+import { FakeBillingProvider } from "./fake-billing-provider";
+
+// How often subscriptions past their end date are expired
+const EXPIRY_INTERVAL_MS = Number(process.env.BILLING_EXPIRY_INTERVAL_MS) || 60 * 1000;
+
+// Subscriptions are billed monthly; upgrades are prorated over this period
+const BILLING_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Amount in cents charged for upgrading a subscription now: the price
+ * difference for what is left of the current period. Downgrades cost nothing
+ * and are not refunded.
+ */
+export function prorateUpgrade(subscription: Subscription, price: number, now: Date = new Date()): number {
+  if (!subscription.endDate || price <= subscription.price) return 0;
+
+  const remaining = Math.max(0, subscription.endDate.getTime() - now.getTime());
+  return Math.round((price - subscription.price) * Math.min(1, remaining / BILLING_PERIOD_MS));
+}
+
+/**
+ * Sells subscriptions through the configured billing provider and keeps the
+ * subscriptions table in step with the provider's webhooks. Subscriptions past
+ * their end date expire, and their users drop back to the free plan.
+ */
+export class BillingService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private providerName: string | undefined;
+
+  constructor() {
+    const isDev = process.env.NODE_ENV !== 'production';
+
+    // The fake provider grants any plan for free, so it only exists in development unless asked for
+    if (isDev || process.env.BILLING_PROVIDER === 'fake') {
+      billingProviderRegistry.register(new FakeBillingProvider({
+        webhookUrl: process.env.FAKE_BILLING_WEBHOOK_URL || 'http://localhost:5000/api/billing/webhook',
+        checkoutBaseUrl: '/fake-billing',
+        secret: process.env.BILLING_WEBHOOK_SECRET || 'vidiyome-billing-secret',
+        periodMs: Number(process.env.FAKE_BILLING_PERIOD_MS) || undefined
+      }));
+    }
+
+    this.providerName = process.env.BILLING_PROVIDER || (isDev ? 'fake' : undefined);
+  }
+
+  /**
+   * The configured provider, or undefined when billing is not set up
+   */
+  public get provider(): BillingProvider | undefined {
+    return this.providerName ? billingProviderRegistry.get(this.providerName) : undefined;
+  }
+
+  public start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.expireLapsed(), EXPIRY_INTERVAL_MS);
+    this.timer.unref();
+
+    // Catch up on subscriptions that ended while the server was down
+    this.expireLapsed();
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Start paying for a tier. The subscription is created once the provider
+   * reports the checkout as completed.
+   */
+  public async checkout(user: User, tier: PlanTier, urls: { successUrl: string; cancelUrl: string }): Promise<CheckoutSession> {
+    return this.requireProvider().createCheckoutSession({
+      userId: user.id,
+      tier,
+      price: planPrices[tier],
+      ...urls
+    });
+  }
+
+  /**
+   * Move a billed subscription to another tier. Returns the prorated amount
+   * charged; the tier changes when the provider confirms it.
+   */
+  public async changePlan(subscription: Subscription, tier: PlanTier): Promise<number> {
+    const provider = this.requireBillingProvider(subscription);
+    const proratedAmount = prorateUpgrade(subscription, planPrices[tier]);
+
+    await provider.changePlan(subscription.externalSubscriptionId!, tier, planPrices[tier], proratedAmount);
+    return proratedAmount;
+  }
+
+  /**
+   * Stop a subscription from renewing. It keeps its tier until its end date.
+   */
+  public async cancel(subscription: Subscription): Promise<void> {
+    await this.requireBillingProvider(subscription).cancel(subscription.externalSubscriptionId!);
+  }
+
+  /**
+   * Verify and apply a webhook request from the provider. Throws
+   * BillingSignatureError for requests the provider did not sign.
+   */
+  public async handleWebhook(rawBody: Buffer, signature: string | undefined): Promise<void> {
+    const provider = this.requireProvider();
+    const event = provider.parseWebhook(rawBody, signature);
+
+    // Providers may deliver the same event more than once; it is only recorded
+    // once applied, so an event that failed to apply is applied on redelivery
+    if (await storage.getProcessedBillingEvent(provider.name, event.id)) return;
+
+    await this.applyEvent(provider.name, event);
+    await storage.createProcessedBillingEvent({ billingProvider: provider.name, eventId: event.id, type: event.type });
+  }
+
+  /**
+   * Expire every subscription whose end date has passed. Runs never overlap.
+   */
+  public async expireLapsed(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const lapsed = await storage.getLapsedSubscriptions(new Date());
+      for (const subscription of lapsed) {
+        try {
+          await this.expire(subscription);
+        } catch (error) {
+          console.error(`Could not expire subscription ${subscription.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Could not expire lapsed subscriptions:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async applyEvent(providerName: string, event: BillingEvent): Promise<void> {
+    if (event.type === 'checkout.completed') {
+      return this.activate(providerName, event);
+    }
+
+    const subscription = await storage.getSubscriptionByExternalId(providerName, event.externalSubscriptionId);
+    if (!subscription) {
+      console.warn(`Billing event ${event.id} is for unknown subscription ${event.externalSubscriptionId}`);
+      return;
+    }
+
+    const payment = event.paymentId
+      ? { paymentId: event.paymentId, paymentMethod: event.paymentMethod ?? subscription.paymentMethod }
+      : {};
+
+    switch (event.type) {
+      case 'invoice.paid': {
+        // Only a payment for a new period renews; one arriving out of order for a
+        // period already covered must not bring back an ended subscription
+        const periodEnd = event.periodEnd ? new Date(event.periodEnd) : undefined;
+        if (!periodEnd || (subscription.endDate && periodEnd <= subscription.endDate)) return;
+
+        // A late renewal brings back a subscription that already expired
+        await storage.updateSubscription(subscription.id, {
+          status: 'active',
+          endDate: periodEnd,
+          ...payment
+        });
+        await this.syncUserTier(subscription.userId);
+        await this.record(subscription, 'subscription_renewed', `Renewed the ${subscription.tier} plan`);
+        break;
+      }
+
+      case 'invoice.payment_failed': {
+        if (subscription.status !== 'active') return;
+        // The tier stays until the end date; the provider retries and later ends the subscription
+        await storage.updateSubscription(subscription.id, { status: 'past_due' });
+        await this.record(subscription, 'subscription_payment_failed', `Payment for the ${subscription.tier} plan failed`);
+        break;
+      }
+
+      case 'subscription.updated': {
+        if (!event.tier) return;
+        await storage.updateSubscription(subscription.id, {
+          tier: event.tier,
+          price: event.price ?? planPrices[event.tier],
+          ...payment
+        });
+        await this.syncUserTier(subscription.userId);
+        await this.record(subscription, 'subscription_changed', `Changed from the ${subscription.tier} to the ${event.tier} plan`);
+        break;
+      }
+
+      case 'subscription.canceled': {
+        if (!isEntitledSubscriptionStatus(subscription.status)) return;
+        await storage.updateSubscription(subscription.id, { status: 'canceled' });
+        await this.record(subscription, 'subscription_canceled', `Canceled the ${subscription.tier} plan`);
+        break;
+      }
+
+      case 'subscription.ended': {
+        await this.expire(subscription);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Create the subscription for a completed checkout. It replaces whatever
+   * subscription the user had before.
+   */
+  private async activate(providerName: string, event: BillingEvent): Promise<void> {
+    // Providers may deliver the same event more than once
+    if (await storage.getSubscriptionByExternalId(providerName, event.externalSubscriptionId)) return;
+
+    const user = event.userId ? await storage.getUser(event.userId) : undefined;
+    if (!user || !event.tier) {
+      console.warn(`Billing event ${event.id} has no known user or tier`);
+      return;
+    }
+
+    const now = new Date();
+    for (const previous of await storage.getSubscriptionsByUserId(user.id)) {
+      if (isEntitledSubscriptionStatus(previous.status)) {
+        await storage.updateSubscription(previous.id, { status: 'expired', endDate: now });
+      }
+    }
+
+    const subscription = await storage.createSubscription({
+      userId: user.id,
+      tier: event.tier,
+      price: event.price ?? planPrices[event.tier],
+      status: 'active',
+      billingProvider: providerName,
+      externalSubscriptionId: event.externalSubscriptionId,
+      paymentId: event.paymentId ?? null,
+      paymentMethod: event.paymentMethod ?? null,
+      startDate: now,
+      endDate: event.periodEnd ? new Date(event.periodEnd) : null
+    });
+
+    await this.syncUserTier(user.id);
+    await this.record(subscription, 'subscription_created', `Subscribed to the ${subscription.tier} plan`);
+  }
+
+  private async expire(subscription: Subscription): Promise<void> {
+    const now = new Date();
+    await storage.updateSubscription(subscription.id, {
+      status: 'expired',
+      endDate: subscription.endDate && subscription.endDate < now ? subscription.endDate : now
+    });
+
+    await this.syncUserTier(subscription.userId);
+    await this.record(subscription, 'subscription_expired', `The ${subscription.tier} plan ended`);
+  }
+
+  /**
+   * Mirror the tier of the user's current subscription into users.subscriptionTier
+   */
+  private async syncUserTier(userId: number): Promise<void> {
+    const active = await storage.getActiveSubscriptionByUserId(userId);
+    await storage.updateUser(userId, { subscriptionTier: active?.tier ?? 'free' });
+  }
+
+  private async record(subscription: Subscription, action: string, message: string): Promise<void> {
+    await storage.createActivity({
+      userId: subscription.userId,
+      action,
+      details: { subscriptionId: subscription.id, tier: subscription.tier, message }
+    });
+  }
+
+  private requireProvider(): BillingProvider {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('Billing is not configured');
+    }
+    return provider;
+  }
+
+  // Provider that bills an existing subscription
+  private requireBillingProvider(subscription: Subscription): BillingProvider {
+    const provider = subscription.billingProvider ? billingProviderRegistry.get(subscription.billingProvider) : undefined;
+    if (!provider || !subscription.externalSubscriptionId) {
+      throw new Error(`Subscription ${subscription.id} is not billed through a known provider`);
+    }
+    return provider;
+  }
+}
+
+// Export singleton instance
+export const billingService = new BillingService();
@@ -0,0 +1,521 @@
+import type { CaptionFormValues } from "@shared/schema";
+import type { CaptionLanguage } from "@shared/caption-text";
+
+export type Mood = CaptionFormValues["mood"];
+export type CallToAction = Exclude<CaptionFormValues["callToAction"], "none" | "custom">;
+
+/**
+ * Everything the template provider writes in one language. {topic} is
+ * replaced with the request topic.
+ */
+export interface PhraseBank {
+  // Opening lines per mood
+  intros: Record<Mood, string[]>;
+  // Body sentences for medium and long captions; at least two per mood
+  details: Record<Mood, string[]>;
+  // Extra emphasis added at tone strength 4 and 5
+  emphasis: Record<Mood, string[]>;
+  // Placed between sentences of one paragraph; Japanese uses none
+  sentenceSeparator: string;
+  imagePrefix: string;
+  callsToAction: Record<CallToAction, string>;
+  baseHashtags: string[];
+}
+
+const ENGLISH: PhraseBank = {
+  intros: {
+    professional: [
+      "Today I'm sharing insights about {topic}.",
+      "Here is what you need to know about {topic}.",
+      "A closer look at {topic} and why it matters.",
+    ],
+    casual: [
+      "Hey guys! Check out this {topic} content!",
+      "Just had to share this {topic} moment with you.",
+      "Okay, let's talk about {topic} for a sec.",
+    ],
+    funny: [
+      "Who else struggles with {topic}? This is too real!",
+      "Me pretending I have {topic} all figured out.",
+      "{topic}: expectation vs. reality.",
+    ],
+    inspirational: [
+      "Never give up on your {topic} journey. Every day is a new opportunity.",
+      "Your {topic} goals are closer than you think.",
+      "Small steps in {topic} still move you forward.",
+    ],
+    serious: [
+      "We need to address {topic}. This is an important conversation.",
+      "{topic} deserves more attention than it gets.",
+      "Let's take an honest look at {topic}.",
+    ],
+  },
+  details: {
+    professional: [
+      "Consistent practice with {topic} makes a measurable difference.",
+      "The most effective approach to {topic} balances strategy and execution.",
+      "Teams that invest in {topic} early see the strongest results.",
+    ],
+    casual: [
+      "Honestly, {topic} has changed the way I spend my days.",
+      "I've been trying out new things with {topic} and loving it.",
+      "Still can't believe how much fun {topic} turned out to be.",
+    ],
+    funny: [
+      "I came for {topic} and stayed for the chaos.",
+      "My relationship with {topic} is complicated, to say the least.",
+      "Ten out of ten, would {topic} again. Probably.",
+    ],
+    inspirational: [
+      "Everyone starts somewhere, and {topic} is no exception.",
+      "Growth in {topic} comes from showing up, especially on the hard days.",
+      "Believe in the progress you're making with {topic}.",
+    ],
+    serious: [
+      "The facts about {topic} are often overlooked.",
+      "Understanding {topic} starts with asking the right questions.",
+      "What we decide about {topic} now will shape what comes next.",
+    ],
+  },
+  emphasis: {
+    professional: ["This is a priority worth your attention.", "Don't overlook this."],
+    casual: ["Seriously, you'll love it!", "Trust me on this one!"],
+    funny: ["I'm not crying, you're crying!", "Send help. Or snacks!"],
+    inspirational: ["You've got this!", "Keep going, no matter what!"],
+    serious: ["This cannot wait.", "We have to act now."],
+  },
+  sentenceSeparator: " ",
+  imagePrefix: "In this post:",
+  callsToAction: {
+    follow: "Follow for more {topic} content!",
+    like: "If you enjoyed this, hit that like button!",
+    comment: "What are your thoughts on {topic}? Share in the comments!",
+    share: "If you found this helpful, share it with a friend who needs to see it!",
+    visit: "Learn more at the link in bio!",
+  },
+  baseHashtags: ["content", "creator", "socialmedia", "digital"],
+};
+
+const SPANISH: PhraseBank = {
+  intros: {
+    professional: [
+      "Hoy comparto algunas claves sobre {topic}.",
+      "Esto es lo que necesitas saber sobre {topic}.",
+      "Un análisis de {topic} y por qué importa.",
+    ],
+    casual: [
+      "¡Hola a todos! ¡Mirad este contenido sobre {topic}!",
+      "Tenía que compartir este momento de {topic} con vosotros.",
+      "Vale, hablemos un momento de {topic}.",
+    ],
+    funny: [
+      "¿Quién más sufre con {topic}? ¡Demasiado real!",
+      "Yo fingiendo que lo sé todo sobre {topic}.",
+      "{topic}: expectativa vs. realidad.",
+    ],
+    inspirational: [
+      "Nunca abandones tu camino en {topic}. Cada día es una nueva oportunidad.",
+      "Tus metas de {topic} están más cerca de lo que crees.",
+      "Cada pequeño paso en {topic} te hace avanzar.",
+    ],
+    serious: [
+      "Tenemos que hablar de {topic}. Es una conversación importante.",
+      "{topic} merece más atención de la que recibe.",
+      "Miremos {topic} con honestidad.",
+    ],
+  },
+  details: {
+    professional: [
+      "La práctica constante con {topic} marca una diferencia real.",
+      "El mejor enfoque de {topic} equilibra estrategia y ejecución.",
+    ],
+    casual: [
+      "La verdad, {topic} ha cambiado mi día a día.",
+      "Estoy probando cosas nuevas con {topic} y me encanta.",
+    ],
+    funny: [
+      "Vine por {topic} y me quedé por el caos.",
+      "Mi relación con {topic} es, digamos, complicada.",
+    ],
+    inspirational: [
+      "Todos empezamos en algún lugar, y {topic} no es la excepción.",
+      "Crecer en {topic} consiste en aparecer, sobre todo en los días difíciles.",
+    ],
+    serious: [
+      "Los datos sobre {topic} se pasan por alto con frecuencia.",
+      "Entender {topic} empieza por hacer las preguntas correctas.",
+    ],
+  },
+  emphasis: {
+    professional: ["Es una prioridad que merece tu atención.", "No lo pases por alto."],
+    casual: ["¡En serio, te va a encantar!", "¡Hazme caso!"],
+    funny: ["¡No estoy llorando, tú estás llorando!", "¡Socorro! O snacks."],
+    inspirational: ["¡Tú puedes!", "¡Sigue adelante, pase lo que pase!"],
+    serious: ["Esto no puede esperar.", "Tenemos que actuar ya."],
+  },
+  sentenceSeparator: " ",
+  imagePrefix: "En esta publicación:",
+  callsToAction: {
+    follow: "¡Síguenos para más contenido sobre {topic}!",
+    like: "Si te ha gustado, ¡dale a me gusta!",
+    comment: "¿Qué opinas sobre {topic}? ¡Cuéntanoslo en los comentarios!",
+    share: "Si te ha sido útil, ¡compártelo con alguien que necesite verlo!",
+    visit: "¡Más información en el enlace de la bio!",
+  },
+  baseHashtags: ["contenido", "creador", "redessociales", "digital"],
+};
+
+const FRENCH: PhraseBank = {
+  intros: {
+    professional: [
+      "Aujourd'hui, je partage quelques clés sur {topic}.",
+      "Voici ce qu'il faut savoir sur {topic}.",
+      "Zoom sur {topic} et pourquoi c'est important.",
+    ],
+    casual: [
+      "Salut tout le monde ! Regardez ce contenu sur {topic} !",
+      "Je devais absolument partager ce moment {topic} avec vous.",
+      "Bon, parlons un peu de {topic}.",
+    ],
+    funny: [
+      "Qui d'autre galère avec {topic} ? C'est trop vrai !",
+      "Moi qui fais semblant de tout maîtriser sur {topic}.",
+      "{topic} : attentes vs réalité.",
+    ],
+    inspirational: [
+      "N'abandonne jamais ton parcours en {topic}. Chaque jour est une nouvelle chance.",
+      "Tes objectifs en {topic} sont plus proches que tu ne le penses.",
+      "Chaque petit pas en {topic} te fait avancer.",
+    ],
+    serious: [
+      "Il faut parler de {topic}. C'est une discussion importante.",
+      "{topic} mérite plus d'attention qu'on ne lui en accorde.",
+      "Regardons {topic} en toute honnêteté.",
+    ],
+  },
+  details: {
+    professional: [
+      "Une pratique régulière de {topic} fait une vraie différence.",
+      "La meilleure approche de {topic} allie stratégie et exécution.",
+    ],
+    casual: [
+      "Honnêtement, {topic} a changé mon quotidien.",
+      "J'essaie plein de nouvelles choses avec {topic} et j'adore.",
+    ],
+    funny: [
+      "Je suis venu pour {topic} et je suis resté pour le chaos.",
+      "Ma relation avec {topic} est compliquée, c'est le moins qu'on puisse dire.",
+    ],
+    inspirational: [
+      "Tout le monde commence quelque part, et {topic} ne fait pas exception.",
+      "Progresser en {topic}, c'est être là, surtout les jours difficiles.",
+    ],
+    serious: [
+      "Les faits sur {topic} sont trop souvent ignorés.",
+      "Comprendre {topic} commence par poser les bonnes questions.",
+    ],
+  },
+  emphasis: {
+    professional: ["C'est une priorité qui mérite votre attention.", "À ne pas négliger."],
+    casual: ["Sérieusement, tu vas adorer !", "Fais-moi confiance !"],
+    funny: ["Je ne pleure pas, c'est toi qui pleures !", "À l'aide ! Ou des snacks !"],
+    inspirational: ["Tu peux le faire !", "Continue, quoi qu'il arrive !"],
+    serious: ["Cela ne peut pas attendre.", "Nous devons agir maintenant."],
+  },
+  sentenceSeparator: " ",
+  imagePrefix: "Dans cette publication :",
+  callsToAction: {
+    follow: "Abonne-toi pour plus de contenu sur {topic} !",
+    like: "Si ça t'a plu, laisse un j'aime !",
+    comment: "Et toi, que penses-tu de {topic} ? Dis-le en commentaire !",
+    share: "Si c'est utile, partage-le avec quelqu'un qui doit le voir !",
+    visit: "Plus d'infos via le lien en bio !",
+  },
+  baseHashtags: ["contenu", "createur", "reseauxsociaux", "digital"],
+};
+
+const GERMAN: PhraseBank = {
+  intros: {
+    professional: [
+      "Heute teile ich Einblicke zum Thema {topic}.",
+      "Das solltest du über {topic} wissen.",
+      "Ein genauer Blick auf {topic} und warum es wichtig ist.",
+    ],
+    casual: [
+      "Hey Leute! Schaut euch diesen {topic}-Content an!",
+      "Diesen {topic}-Moment musste ich einfach mit euch teilen.",
+      "Okay, lasst uns kurz über {topic} reden.",
+    ],
+    funny: [
+      "Wer kämpft noch mit {topic}? Zu real!",
+      "Ich, wenn ich so tue, als hätte ich {topic} im Griff.",
+      "{topic}: Erwartung vs. Realität.",
+    ],
+    inspirational: [
+      "Gib deinen Weg mit {topic} niemals auf. Jeder Tag ist eine neue Chance.",
+      "Deine Ziele bei {topic} sind näher, als du denkst.",
+      "Auch kleine Schritte bei {topic} bringen dich weiter.",
+    ],
+    serious: [
+      "Wir müssen über {topic} sprechen. Das ist ein wichtiges Gespräch.",
+      "{topic} verdient mehr Aufmerksamkeit, als es bekommt.",
+      "Schauen wir ehrlich auf {topic}.",
+    ],
+  },
+  details: {
+    professional: [
+      "Regelmäßige Übung mit {topic} macht einen messbaren Unterschied.",
+      "Der beste Ansatz für {topic} verbindet Strategie und Umsetzung.",
+    ],
+    casual: [
+      "Ehrlich gesagt hat {topic} meinen Alltag verändert.",
+      "Ich probiere gerade viel Neues mit {topic} aus und liebe es.",
+    ],
+    funny: [
+      "Ich kam wegen {topic} und blieb wegen des Chaos.",
+      "Meine Beziehung zu {topic} ist, sagen wir, kompliziert.",
+    ],
+    inspirational: [
+      "Jeder fängt irgendwo an, auch bei {topic}.",
+      "Wachstum bei {topic} heißt dranbleiben, besonders an schweren Tagen.",
+    ],
+    serious: [
+      "Die Fakten zu {topic} werden oft übersehen.",
+      "{topic} zu verstehen beginnt mit den richtigen Fragen.",
+    ],
+  },
+  emphasis: {
+    professional: ["Das verdient deine volle Aufmerksamkeit.", "Nicht übersehen!"],
+    casual: ["Ernsthaft, du wirst es lieben!", "Vertrau mir!"],
+    funny: ["Ich weine nicht, du weinst!", "Hilfe! Oder Snacks!"],
+    inspirational: ["Du schaffst das!", "Mach weiter, egal was kommt!"],
+    serious: ["Das kann nicht warten.", "Wir müssen jetzt handeln."],
+  },
+  sentenceSeparator: " ",
+  imagePrefix: "In diesem Beitrag:",
+  callsToAction: {
+    follow: "Folge uns für mehr {topic}-Content!",
+    like: "Wenn es dir gefallen hat, lass ein Like da!",
+    comment: "Was denkst du über {topic}? Schreib es in die Kommentare!",
+    share: "Hilfreich? Teile es mit jemandem, der es sehen sollte!",
+    visit: "Mehr dazu über den Link in der Bio!",
+  },
+  baseHashtags: ["inhalt", "creator", "socialmedia", "digital"],
+};
+
+const PORTUGUESE: PhraseBank = {
+  intros: {
+    professional: [
+      "Hoje compartilho alguns insights sobre {topic}.",
+      "Veja o que você precisa saber sobre {topic}.",
+      "Um olhar atento sobre {topic} e por que isso importa.",
+    ],
+    casual: [
+      "Oi, pessoal! Confiram esse conteúdo sobre {topic}!",
+      "Precisava compartilhar esse momento de {topic} com vocês.",
+      "Bora falar um pouco sobre {topic}.",
+    ],
+    funny: [
+      "Quem mais sofre com {topic}? Real demais!",
+      "Eu fingindo que entendo tudo de {topic}.",
+      "{topic}: expectativa vs. realidade.",
+    ],
+    inspirational: [
+      "Nunca desista da sua jornada em {topic}. Cada dia é uma nova oportunidade.",
+      "Seus objetivos em {topic} estão mais perto do que você imagina.",
+      "Cada pequeno passo em {topic} te leva adiante.",
+    ],
+    serious: [
+      "Precisamos falar sobre {topic}. É uma conversa importante.",
+      "{topic} merece mais atenção do que recebe.",
+      "Vamos olhar para {topic} com honestidade.",
+    ],
+  },
+  details: {
+    professional: [
+      "A prática constante em {topic} faz uma diferença real.",
+      "A melhor abordagem para {topic} equilibra estratégia e execução.",
+    ],
+    casual: [
+      "Sinceramente, {topic} mudou meu dia a dia.",
+      "Estou testando coisas novas com {topic} e amando.",
+    ],
+    funny: [
+      "Vim por {topic} e fiquei pelo caos.",
+      "Minha relação com {topic} é, no mínimo, complicada.",
+    ],
+    inspirational: [
+      "Todo mundo começa de algum lugar, e com {topic} não é diferente.",
+      "Crescer em {topic} é aparecer, principalmente nos dias difíceis.",
+    ],
+    serious: [
+      "Os fatos sobre {topic} costumam ser ignorados.",
+      "Entender {topic} começa com as perguntas certas.",
+    ],
+  },
+  emphasis: {
+    professional: ["É uma prioridade que merece sua atenção.", "Não deixe passar."],
+    casual: ["Sério, você vai amar!", "Confia em mim!"],
+    funny: ["Não estou chorando, você que está!", "Socorro! Ou petiscos!"],
+    inspirational: ["Você consegue!", "Continue, aconteça o que acontecer!"],
+    serious: ["Isso não pode esperar.", "Precisamos agir agora."],
+  },
+  sentenceSeparator: " ",
+  imagePrefix: "Nesta publicação:",
+  callsToAction: {
+    follow: "Siga para mais conteúdo sobre {topic}!",
+    like: "Se você curtiu, deixa o like!",
+    comment: "O que você acha de {topic}? Conta nos comentários!",
+    share: "Se foi útil, compartilhe com alguém que precisa ver isso!",
+    visit: "Saiba mais no link da bio!",
+  },
+  baseHashtags: ["conteudo", "criador", "redessociais", "digital"],
+};
+
+const JAPANESE: PhraseBank = {
+  intros: {
+    professional: [
+      "今日は{topic}についてのポイントを共有します。",
+      "{topic}について知っておくべきこと。",
+      "{topic}を詳しく解説。なぜ重要なのか。",
+    ],
+    casual: [
+      "みんな、{topic}の動画を見てね！",
+      "この{topic}の瞬間をシェアしたくて。",
+      "ちょっと{topic}の話をしよう。",
+    ],
+    funny: [
+      "{topic}で苦労してるの私だけ？リアルすぎる！",
+      "{topic}を完璧に理解してるフリをする私。",
+      "{topic}：理想と現実。",
+    ],
+    inspirational: [
+      "{topic}の道をあきらめないで。毎日が新しいチャンス。",
+      "{topic}の目標は思っているより近い。",
+      "{topic}の小さな一歩も前進です。",
+    ],
+    serious: [
+      "{topic}について話す必要があります。大切な話です。",
+      "{topic}はもっと注目されるべきです。",
+      "{topic}に正直に向き合いましょう。",
+    ],
+  },
+  details: {
+    professional: [
+      "{topic}は継続的な実践で確かな差が生まれます。",
+      "{topic}の最善のアプローチは戦略と実行のバランスです。",
+    ],
+    casual: [
+      "正直、{topic}で毎日が変わりました。",
+      "{topic}で新しいことを試していて、すごく楽しい。",
+    ],
+    funny: [
+      "{topic}目当てで来たのに、カオスにハマった。",
+      "{topic}との関係は、控えめに言って複雑。",
+    ],
+    inspirational: [
+      "誰でも最初は初心者。{topic}も同じです。",
+      "{topic}の成長は続けること。つらい日こそ。",
+    ],
+    serious: [
+      "{topic}の事実は見過ごされがちです。",
+      "{topic}を理解するには、正しい問いから。",
+    ],
+  },
+  emphasis: {
+    professional: ["注目する価値があります。", "見逃さないでください。"],
+    casual: ["本当におすすめ！", "信じて！"],
+    funny: ["泣いてないし！", "助けて。もしくはおやつを！"],
+    inspirational: ["あなたならできる！", "何があっても続けよう！"],
+    serious: ["待ったなしです。", "今、行動するときです。"],
+  },
+  sentenceSeparator: "",
+  imagePrefix: "この投稿：",
+  callsToAction: {
+    follow: "{topic}の情報をもっと見るならフォローしてね！",
+    like: "気に入ったらいいねをお願いします！",
+    comment: "{topic}についてどう思う？コメントで教えてね！",
+    share: "役に立ったら、必要な人にシェアしてね！",
+    visit: "詳しくはプロフィールのリンクから！",
+  },
+  baseHashtags: ["コンテンツ", "クリエイター", "sns", "デジタル"],
+};
+
+const KOREAN: PhraseBank = {
+  intros: {
+    professional: [
+      "오늘은 {topic}에 대한 인사이트를 공유합니다.",
+      "{topic}에 대해 알아야 할 것들.",
+      "{topic}을 자세히 살펴보고 왜 중요한지 알아봅니다.",
+    ],
+    casual: [
+      "여러분! 이 {topic} 콘텐츠 좀 보세요!",
+      "이 {topic} 순간을 꼭 공유하고 싶었어요.",
+      "잠깐 {topic} 얘기 좀 해볼까요.",
+    ],
+    funny: [
+      "{topic} 때문에 힘든 사람 나만 있어? 너무 현실적!",
+      "{topic} 다 아는 척하는 나.",
+      "{topic}: 기대 vs 현실.",
+    ],
+    inspirational: [
+      "{topic}의 여정을 절대 포기하지 마세요. 매일이 새로운 기회입니다.",
+      "{topic}의 목표는 생각보다 가까이 있어요.",
+      "{topic}의 작은 한 걸음도 앞으로 나아가는 거예요.",
+    ],
+    serious: [
+      "{topic}에 대해 이야기해야 합니다. 중요한 대화예요.",
+      "{topic}은 더 많은 관심을 받아야 합니다.",
+      "{topic}을 솔직하게 바라봅시다.",
+    ],
+  },
+  details: {
+    professional: [
+      "{topic}은 꾸준한 연습으로 분명한 차이를 만듭니다.",
+      "{topic}의 가장 좋은 방법은 전략과 실행의 균형입니다.",
+    ],
+    casual: [
+      "솔직히 {topic} 덕분에 일상이 바뀌었어요.",
+      "요즘 {topic}으로 새로운 걸 시도하는데 너무 좋아요.",
+    ],
+    funny: [
+      "{topic} 보러 왔다가 혼돈에 빠졌어요.",
+      "{topic}과 나의 관계는 한마디로 복잡해요.",
+    ],
+    inspirational: [
+      "누구나 처음은 있어요. {topic}도 마찬가지예요.",
+      "{topic}의 성장은 꾸준함에서 와요. 힘든 날일수록요.",
+    ],
+    serious: [
+      "{topic}에 관한 사실은 자주 간과됩니다.",
+      "{topic}을 이해하려면 올바른 질문부터 시작해야 합니다.",
+    ],
+  },
+  emphasis: {
+    professional: ["주목할 가치가 있습니다.", "놓치지 마세요."],
+    casual: ["진짜 마음에 들 거예요!", "믿어 보세요!"],
+    funny: ["나 안 울어, 네가 울지!", "살려줘요. 아니면 간식이라도!"],
+    inspirational: ["당신은 할 수 있어요!", "무슨 일이 있어도 계속 가요!"],
+    serious: ["미룰 수 없습니다.", "지금 행동해야 합니다."],
+  },
+  sentenceSeparator: " ",
+  imagePrefix: "이번 게시물:",
+  callsToAction: {
+    follow: "{topic} 콘텐츠를 더 보려면 팔로우하세요!",
+    like: "마음에 드셨다면 좋아요를 눌러주세요!",
+    comment: "{topic}에 대해 어떻게 생각하세요? 댓글로 알려주세요!",
+    share: "도움이 되었다면 필요한 친구에게 공유해 주세요!",
+    visit: "자세한 내용은 프로필 링크에서!",
+  },
+  baseHashtags: ["콘텐츠", "크리에이터", "소셜미디어", "디지털"],
+};
+
+export const PHRASE_BANKS: Record<CaptionLanguage, PhraseBank> = {
+  english: ENGLISH,
+  spanish: SPANISH,
+  french: FRENCH,
+  german: GERMAN,
+  portuguese: PORTUGUESE,
+  japanese: JAPANESE,
+  korean: KOREAN,
+};
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { CaptionFormValues } from "@shared/schema";
+import { countCaptionCharacters } from "@shared/caption-text";
+import { storage } from "../storage";
+import { captionService } from "./caption-service";
+import { textProviderRegistry, type GeneratedCaption, type TextGenerationProvider } from "./text-provider";
+
+const values = (overrides: Partial<CaptionFormValues> = {}): CaptionFormValues => ({
+  topic: "Morning coffee rituals",
+  mood: "casual",
+  platform: "instagram",
+  includeHashtags: true,
+  includeEmojis: false,
+  toneStrength: 3,
+  callToAction: "none",
+  language: "english",
+  captionLength: "medium",
+  ...overrides,
+});
+
+// Provider that always writes the given caption, however long it is
+function useProvider(caption: GeneratedCaption) {
+  const provider: TextGenerationProvider = {
+    name: "fixed",
+    generateCaptions: async (_request, count) => Array.from({ length: count }, () => caption),
+  };
+  vi.spyOn(textProviderRegistry, "get").mockReturnValue(provider);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("CaptionService", () => {
+  it("saves reproducible variations for the user", async () => {
+    const captions = await captionService.generate(1, values(), { count: 3, seed: 42 });
+    const again = await captionService.generate(1, values(), { count: 3, seed: 42 });
+
+    expect(captions).toHaveLength(3);
+    expect(captions[0]).toMatchObject({ userId: 1, videoId: null, platform: "instagram", language: "english", provider: "template" });
+    expect(new Set(captions.map(caption => caption.text)).size).toBe(3);
+    expect(again.map(caption => caption.text)).toEqual(captions.map(caption => caption.text));
+  });
+
+  it("drops hashtags from the end, then shortens the text, to fit the platform", async () => {
+    useProvider({
+      text: "Slow mornings start with a pour-over and nowhere to be. ".repeat(5).trim(),
+      hashtags: ["coffee", "morning", "pourover", "slowliving", "ritual", "barista", "cafe", "beans"],
+    });
+
+    const [caption] = await captionService.generate(1, values({ platform: "tiktok" }), { count: 1, seed: 1 });
+
+    // TikTok allows five hashtags and 150 characters, at least half of them for the text
+    expect(caption.hashtags).toEqual(["coffee", "morning", "pourover", "slowliving", "ritual"]);
+    expect(countCaptionCharacters(caption.text)).toBeLessThanOrEqual(150);
+    expect(caption.text).toMatch(/^Slow mornings .*\S…\n\n#coffee #morning #pourover #slowliving #ritual$/s);
+  });
+
+  it("counts characters as readers see them when fitting", async () => {
+    // Japanese has no spaces to break at, and the emoji is two code points
+    const text = "朝のコーヒー☕️".repeat(30);
+    useProvider({ text, hashtags: [] });
+
+    const [caption] = await captionService.generate(1, values({ platform: "tiktok", language: "japanese" }), { count: 1, seed: 1 });
+
+    expect(countCaptionCharacters(caption.text)).toBe(150);
+    expect(text.startsWith(caption.text.slice(0, -1))).toBe(true);
+  });
+
+  it("attaches one caption per platform to a video for publishing", async () => {
+    const [first] = await captionService.generate(1, values(), { count: 1, seed: 1, videoId: 77 });
+    const [youtube] = await captionService.generate(1, values({ platform: "youtube" }), { count: 1, seed: 1, videoId: 77 });
+    const [second] = await captionService.generate(1, values(), { count: 1, seed: 2 });
+
+    await captionService.attach(second, 77);
+
+    expect(await storage.getCaption(first.id)).toMatchObject({ videoId: null });
+    expect(await captionService.getCaptionForPublishing(77, "instagram")).toBe(second.text);
+    expect(await captionService.getCaptionForPublishing(77, "youtube")).toBe(youtube.text);
+    expect(await captionService.getCaptionForPublishing(77, "tiktok")).toBeNull();
+  });
+});
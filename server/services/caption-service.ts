@@ -0,0 +1,123 @@
+import { Caption, CaptionFormValues, platformCaptionLimits } from "@shared/schema";
+import { countCaptionCharacters, splitCharacters } from "@shared/caption-text";
+import { storage } from "../storage";
+import { textProviderRegistry, type GeneratedCaption } from "./text-provider";
+import { TemplateCaptionProvider } from "./template-caption-provider";
+
+export interface GenerateCaptionOptions {
+  count: number;
+  seed: number;
+  // Attach the first caption to this video right away
+  videoId?: number;
+}
+
+/**
+ * Shorten text to at most maxLength characters, preferring a word boundary
+ */
+function truncate(text: string, maxLength: number): string {
+  const chars = splitCharacters(text);
+  if (chars.length <= maxLength) return text;
+
+  const cut = chars.slice(0, Math.max(0, maxLength - 1)).join('');
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > cut.length / 2 ? cut.slice(0, lastSpace) : cut).trimEnd() + '…';
+}
+
+/**
+ * Generates captions with the configured text provider, keeps them within
+ * platform limits and saves them for the user
+ */
+export class CaptionService {
+  private defaultProvider: string;
+
+  constructor() {
+    // Offline template provider, always available
+    textProviderRegistry.register(new TemplateCaptionProvider());
+
+    this.defaultProvider = process.env.CAPTION_PROVIDER || 'template';
+  }
+
+  /**
+   * Generate and save caption variations for a request
+   */
+  public async generate(userId: number, values: CaptionFormValues, options: GenerateCaptionOptions): Promise<Caption[]> {
+    const provider = textProviderRegistry.get(this.defaultProvider);
+    if (!provider) {
+      throw new Error(`Unknown caption provider: ${this.defaultProvider}`);
+    }
+
+    const generated = await provider.generateCaptions({ ...values, seed: options.seed }, options.count);
+
+    const saved: Caption[] = [];
+    for (const caption of generated) {
+      const { text, hashtags } = this.fitToPlatform(caption, values.platform);
+      saved.push(await storage.createCaption({
+        userId,
+        videoId: null,
+        platform: values.platform,
+        language: values.language,
+        text,
+        hashtags,
+        options: values,
+        provider: provider.name
+      }));
+    }
+
+    if (options.videoId && saved.length > 0) {
+      saved[0] = await this.attach(saved[0], options.videoId);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Use a caption for a video on the caption's platform, replacing any caption
+   * attached there before
+   */
+  public async attach(caption: Caption, videoId: number): Promise<Caption> {
+    const attached = await storage.getCaptionsByVideoId(videoId);
+    for (const other of attached) {
+      if (other.id !== caption.id && other.platform === caption.platform) {
+        await storage.updateCaption(other.id, { videoId: null });
+      }
+    }
+
+    return (await storage.updateCaption(caption.id, { videoId })) || caption;
+  }
+
+  public async detach(caption: Caption): Promise<Caption> {
+    return (await storage.updateCaption(caption.id, { videoId: null })) || caption;
+  }
+
+  /**
+   * Caption text to publish a video with on a platform, if one is attached
+   */
+  public async getCaptionForPublishing(videoId: number, platform: string): Promise<string | null> {
+    const attached = await storage.getCaptionsByVideoId(videoId);
+    return attached.find(caption => caption.platform === platform)?.text ?? null;
+  }
+
+  /**
+   * Trim a generated caption to the platform's hashtag and length limits.
+   * Hashtags are dropped from the end first, then the body is shortened.
+   */
+  private fitToPlatform(caption: GeneratedCaption, platform: CaptionFormValues["platform"]): { text: string; hashtags: string[] } {
+    const { hashtagLimit, maxLength } = platformCaptionLimits[platform];
+    const body = caption.text.trim();
+    let hashtags = caption.hashtags.slice(0, hashtagLimit);
+
+    const compose = (text: string, tags: string[]) =>
+      tags.length > 0 ? `${text}\n\n${tags.map(tag => `#${tag}`).join(' ')}` : text;
+
+    // Keep at least half the space for the caption itself
+    while (hashtags.length > 0 && countCaptionCharacters(compose('', hashtags)) > maxLength / 2) {
+      hashtags = hashtags.slice(0, -1);
+    }
+
+    const room = maxLength - countCaptionCharacters(compose('', hashtags));
+    return { text: compose(truncate(body, room), hashtags), hashtags };
+  }
+}
+
+// Export singleton instance
+export const captionService = new CaptionService();
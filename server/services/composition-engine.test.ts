@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { formatSectionName, getVideoDimensions, parseDurationSeconds, splitIntoScenes, splitIntoSections, type Scene } from "./composition-engine";
+
+// Time on screen once transitions overlap neighbouring scenes
+function runningTime(scenes: Scene[], transitionSeconds: number[]): number {
+  const overlap = transitionSeconds.slice(0, scenes.length - 1).reduce((total, seconds) => total + seconds, 0);
+  return scenes.reduce((total, scene) => total + scene.duration, 0) - overlap;
+}
+
+describe("splitIntoScenes", () => {
+  it("frames the prompt's sentences with a title card and an outro", () => {
+    const scenes = splitIntoScenes("Morning hike", "We start at dawn. The trail climbs fast. Coffee at the summit!", 30);
+
+    expect(scenes.map(scene => scene.kind)).toEqual(["title", "kinetic", "kinetic", "kinetic", "outro"]);
+    expect(scenes[0].heading).toBe("Morning hike");
+    expect(scenes[1].lines).toEqual(["We", "start", "at", "dawn."]);
+  });
+
+  it("lists the clauses of a long sentence as bullets", () => {
+    const [, scene] = splitIntoScenes(
+      "Packing list",
+      "Bring water for the whole day, a warm jacket for the summit, snacks that do not melt and a fully charged phone.",
+      30
+    );
+
+    expect(scene).toMatchObject({
+      kind: "bullets",
+      lines: ["Bring water for the whole day", "a warm jacket for the summit", "snacks that do not melt and a fully charged phone."]
+    });
+  });
+
+  it("merges sentences when the video is too short for a scene each", () => {
+    const scenes = splitIntoScenes("Tips", "One. Two. Three. Four. Five.", 12);
+
+    // 12 seconds leave room for two content scenes of at least three seconds
+    expect(scenes.map(scene => scene.kind)).toEqual(["title", "kinetic", "bullets", "outro"]);
+    expect(scenes[2].lines).toEqual(["Two.", "Three.", "Four.", "Five."]);
+  });
+
+  it("shows only a title card in very short videos", () => {
+    const scenes = splitIntoScenes("Quick", "First sentence. Second sentence.", 5);
+
+    expect(scenes).toEqual([{ kind: "title", heading: "Quick", lines: ["First sentence."], duration: 5 }]);
+  });
+
+  it("fills the requested length, with the transitions overlapping the scenes", () => {
+    const transitions = [0.5, 0.5, 0, 0.5];
+    const scenes = splitIntoScenes("Morning hike", "We start at dawn. The trail climbs fast over loose rocks and roots. Coffee!", 30, transitions);
+
+    expect(runningTime(scenes, transitions)).toBeCloseTo(30);
+    // Scenes with more text stay on screen longer
+    expect(scenes[2].duration).toBeGreaterThan(scenes[3].duration);
+  });
+});
+
+describe("splitIntoSections", () => {
+  const sections = ["intro", "main-point", "call_to_action"];
+
+  it("renders one scene per section, headed by its name", () => {
+    const scenes = splitIntoSections("Launch day", "Meet the new app. It plans your week. Download it today.", sections, 30);
+
+    expect(scenes).toMatchObject([
+      { kind: "title", heading: "Launch day", lines: ["Meet the new app."] },
+      { kind: "kinetic", heading: "Main Point", lines: ["It", "plans", "your", "week."] },
+      { kind: "outro", heading: "Download it today.", lines: ["Call To Action"] }
+    ]);
+  });
+
+  it("gives earlier sections the extra sentences", () => {
+    const scenes = splitIntoSections("Tips", "One. Two. Three. Four.", sections, 30);
+
+    expect(scenes.map(scene => scene.lines)).toEqual([["One. Two."], ["Three."], ["Call To Action"]]);
+    expect(scenes[2].heading).toBe("Four.");
+  });
+
+  it("keeps sections without sentences, showing their names", () => {
+    const scenes = splitIntoSections("Launch day", "Meet the new app.", sections, 30);
+
+    expect(scenes).toMatchObject([
+      { kind: "title", heading: "Launch day", lines: ["Meet the new app."] },
+      { kind: "kinetic", heading: "Main Point", lines: ["Main", "Point"] },
+      { kind: "outro", heading: "Launch day", lines: ["Call To Action"] }
+    ]);
+  });
+
+  it("fills the requested length, with the transitions overlapping the scenes", () => {
+    const transitions = [0.5, 0.5];
+    const scenes = splitIntoSections("Launch day", "Meet the new app. It plans your week. Download it today.", sections, 20, transitions);
+
+    expect(scenes).toHaveLength(3);
+    expect(runningTime(scenes, transitions)).toBeCloseTo(20);
+  });
+});
+
+describe("formatSectionName", () => {
+  it.each([
+    ["call-to-action", "Call To Action"],
+    ["main_point", "Main Point"],
+    [" hook  line ", "Hook Line"],
+  ])("turns %j into %j", (section, expected) => {
+    expect(formatSectionName(section)).toBe(expected);
+  });
+});
+
+describe("getVideoDimensions", () => {
+  it.each([
+    ["16:9", 1280, { width: 1280, height: 720 }],
+    ["9:16", 1280, { width: 720, height: 1280 }],
+    ["1:1", 1280, { width: 1280, height: 1280 }],
+    ["4:5", 1920, { width: 1536, height: 1920 }],
+    ["21:9", 1001, { width: 1002, height: 430 }],
+    ["wide", 1280, { width: 1280, height: 720 }],
+  ])("sizes %s with a longest edge of %i and even sides", (aspectRatio, maxEdge, expected) => {
+    expect(getVideoDimensions(aspectRatio, maxEdge)).toEqual(expected);
+  });
+});
+
+describe("parseDurationSeconds", () => {
+  it.each([
+    ["30 seconds", 30],
+    ["60s", 60],
+    [45, 45],
+    [undefined, 10],
+    ["a while", 10],
+    ["0s", 10],
+  ])("reads %j as %i seconds", (duration, expected) => {
+    expect(parseDurationSeconds(duration)).toBe(expected);
+  });
+});
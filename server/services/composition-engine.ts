@@ -0,0 +1,535 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createCanvas, type CanvasRenderingContext2D } from "canvas";
+import { runFfmpeg } from "./ffmpeg";
+
+// Frame rate of every composed video
+const FPS = 30;
+
+// Longest edge of the output video in pixels, unless the options say otherwise
+const MAX_EDGE = 1280;
+
+// Length of a crossfade-style transition between scenes, in seconds
+const TRANSITION_SECONDS = 0.5;
+
+// Shortest time a scene stays on screen, in seconds
+const MIN_SCENE_SECONDS = 3;
+
+export type SceneKind = 'title' | 'bullets' | 'kinetic' | 'outro';
+
+export interface Scene {
+  kind: SceneKind;
+  heading?: string;
+  lines: string[];
+  duration: number;
+}
+
+export interface StylePalette {
+  background: [string, string];
+  text: string;
+  accent: string;
+}
+
+export interface CompositionOptions {
+  title: string;
+  prompt: string;
+  style: string;
+  durationSeconds: number;
+  aspectRatio: string;
+  // Longest edge of the output in pixels
+  maxEdge?: number;
+  outputPath: string;
+  // Template sections; when given the video has exactly one scene per section
+  sections?: string[];
+  // Transition names as used in template settings (e.g. "fade", "slide")
+  transitions?: string[];
+  // Aborts rendering and kills ffmpeg
+  signal?: AbortSignal;
+  onProgress?: (stage: 'frame' | 'encode', fraction: number) => void;
+}
+
+// Maps template transition names onto ffmpeg xfade transitions; null is a hard cut
+const TRANSITION_MAP: Record<string, string | null> = {
+  'fade': 'fade',
+  'slide': 'slideleft',
+  'zoom': 'zoomin',
+  'fast-cut': null,
+  'simple-cut': null,
+  'film-dissolve': 'dissolve',
+  'parallax': 'slideup',
+  'motion-blur': 'hblur',
+  '3d-rotate': 'circleopen',
+  'smooth-pan': 'smoothleft',
+  'elegant-fade': 'fadeblack',
+  'glitch': 'pixelize',
+  'digital-warp': 'squeezeh',
+  'holographic': 'fadewhite'
+};
+
+// Transitions used when a video is not based on a template
+const DEFAULT_TRANSITIONS: Record<string, string[]> = {
+  cinematic: ['film-dissolve', 'fade'],
+  animated: ['slide', 'zoom'],
+  professional: ['fade', 'slide'],
+  energetic: ['fast-cut', 'zoom'],
+  minimalist: ['simple-cut', 'fade']
+};
+
+/**
+ * Parses durations such as "30 seconds" or "60s" into seconds
+ */
+export function parseDurationSeconds(duration: string | number | undefined, fallback: number = 10): number {
+  const seconds = typeof duration === 'number' ? duration : parseInt(duration || '', 10);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : fallback;
+}
+
+/**
+ * Colour scheme for a video style
+ */
+export function getStylePalette(style: string): StylePalette {
+  switch (style) {
+    case 'cinematic':
+      return { background: ['#1a2a6c', '#b21f1f'], text: '#ffffff', accent: '#fdbb2d' };
+    case 'animated':
+      return { background: ['#42275a', '#734b6d'], text: '#ffffff', accent: '#f7a8d8' };
+    case 'professional':
+      return { background: ['#2b5876', '#4e4376'], text: '#ffffff', accent: '#56ccf2' };
+    case 'energetic':
+      return { background: ['#f12711', '#f5af19'], text: '#ffffff', accent: '#ffffff' };
+    case 'minimalist':
+    case 'minimal':
+      return { background: ['#485563', '#29323c'], text: '#ffffff', accent: '#e0e0e0' };
+    case 'vibrant':
+      return { background: ['#ff0080', '#7928ca'], text: '#ffffff', accent: '#ffe600' };
+    case 'elegant':
+      return { background: ['#232526', '#414345'], text: '#f5f0e6', accent: '#c9a227' };
+    case 'futuristic':
+      return { background: ['#0f0c29', '#302b63'], text: '#e0f7ff', accent: '#00f0ff' };
+    default:
+      return { background: ['#6366F1', '#EC4899'], text: '#ffffff', accent: '#8B5CF6' };
+  }
+}
+
+/**
+ * Pixel dimensions for an aspect ratio such as "16:9", with even sides for yuv420p
+ */
+export function getVideoDimensions(aspectRatio: string, maxEdge: number = MAX_EDGE): { width: number, height: number } {
+  const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+  const w = ratioWidth > 0 ? ratioWidth : 16;
+  const h = ratioHeight > 0 ? ratioHeight : 9;
+  const even = (value: number) => Math.round(value / 2) * 2;
+
+  return w >= h
+    ? { width: even(maxEdge), height: even((h / w) * maxEdge) }
+    : { width: even((w / h) * maxEdge), height: even(maxEdge) };
+}
+
+/**
+ * Template section name as a heading, e.g. "call-to-action" -> "Call To Action"
+ */
+export function formatSectionName(section: string): string {
+  return section
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Sentences of a prompt, one scene line each
+ */
+export function splitSentences(prompt: string): string[] {
+  return prompt
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Spreads the durations over the scenes by how much text each shows. Transitions
+ * overlap neighbouring scenes, so the scenes must cover that time too.
+ */
+function assignDurations(scenes: Scene[], durationSeconds: number, transitionSeconds: number[]): void {
+  const overlap = scenes
+    .slice(1)
+    .reduce((total, _scene, index) => total + (transitionSeconds[index] ?? 0), 0);
+  const weights = scenes.map(scene =>
+    scene.kind === 'title' || scene.kind === 'outro' ? 1 : 1 + scene.lines.join(' ').split(/\s+/).length / 10
+  );
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  const available = durationSeconds + overlap;
+
+  scenes.forEach((scene, index) => {
+    scene.duration = (available * weights[index]) / totalWeight;
+  });
+}
+
+/**
+ * One scene per template section. The prompt's sentences are shared out over
+ * the sections in order; the first section is the title card, the last an
+ * outro, and the ones between are headed by their section name.
+ */
+export function splitIntoSections(title: string, prompt: string, sections: string[], durationSeconds: number, transitionSeconds: number[] = []): Scene[] {
+  const sentences = splitSentences(prompt);
+
+  // Earlier sections take the extra sentences when they do not divide evenly
+  const groups: string[][] = sections.map(() => []);
+  sentences.forEach((sentence, index) => {
+    groups[Math.floor((index * sections.length) / sentences.length)].push(sentence);
+  });
+
+  const scenes: Scene[] = sections.map((section, index) => {
+    const group = groups[index];
+    const heading = formatSectionName(section);
+
+    if (index === 0) {
+      return { kind: 'title', heading: title, lines: group.length > 0 ? [group.join(' ')] : [], duration: 0 };
+    }
+    if (index === sections.length - 1) {
+      return { kind: 'outro', heading: group.length > 0 ? group.join(' ') : title, lines: [heading], duration: 0 };
+    }
+    if (group.length === 0) {
+      return { kind: 'kinetic', heading, lines: heading.split(' '), duration: 0 };
+    }
+
+    const words = group.join(' ').split(/\s+/);
+    if (group.length === 1 && words.length <= 12) {
+      return { kind: 'kinetic', heading, lines: words, duration: 0 };
+    }
+    const bullets = group.length > 1 ? group : group[0].split(/[,;:]\s+/).filter(Boolean);
+    return { kind: 'bullets', heading, lines: bullets, duration: 0 };
+  });
+
+  assignDurations(scenes, durationSeconds, transitionSeconds);
+  return scenes;
+}
+
+/**
+ * Splits a prompt into a title card, content scenes and an outro, with
+ * durations that add up to the requested length once transitions overlap.
+ */
+export function splitIntoScenes(title: string, prompt: string, durationSeconds: number, transitionSeconds: number[] = []): Scene[] {
+  const sentences = splitSentences(prompt);
+
+  // Leave room for the title card and outro
+  const maxContentScenes = Math.max(1, Math.floor(durationSeconds / MIN_SCENE_SECONDS) - 2);
+
+  // Merge sentences into groups until they fit the scene budget
+  const groups: string[][] = sentences.map(sentence => [sentence]);
+  while (groups.length > maxContentScenes) {
+    const [first, second] = groups.splice(groups.length - 2, 2);
+    groups.push([...first, ...second]);
+  }
+
+  const content: Scene[] = groups.map(group => {
+    const words = group.join(' ').split(/\s+/);
+
+    // Short single sentences get word-by-word kinetic typography
+    if (group.length === 1 && words.length <= 12) {
+      return { kind: 'kinetic', lines: words, duration: 0 };
+    }
+
+    // Everything else becomes a bullet list of sentences or clauses
+    const bullets = group.length > 1
+      ? group
+      : group[0].split(/[,;:]\s+/).filter(Boolean);
+    return { kind: 'bullets', lines: bullets, duration: 0 };
+  });
+
+  const scenes: Scene[] = [];
+  if (durationSeconds >= MIN_SCENE_SECONDS * 3) {
+    scenes.push({ kind: 'title', heading: title, lines: [], duration: 0 });
+    scenes.push(...content);
+    scenes.push({ kind: 'outro', heading: title, lines: ['Generated by VIDIYOME'], duration: 0 });
+  } else {
+    // Very short videos only have room for a title card and one scene
+    scenes.push({ kind: 'title', heading: title, lines: sentences.slice(0, 1), duration: 0 });
+  }
+
+  assignDurations(scenes, durationSeconds, transitionSeconds);
+  return scenes;
+}
+
+/**
+ * Composes multi-scene MP4 videos from a prompt using canvas and ffmpeg.
+ * Everything runs locally on the CPU.
+ */
+export class CompositionEngine {
+  /**
+   * Renders every scene, then stitches them with transitions into options.outputPath
+   */
+  public async compose(options: CompositionOptions): Promise<void> {
+    const { width, height } = getVideoDimensions(options.aspectRatio, options.maxEdge);
+    const palette = getStylePalette(options.style);
+
+    const transitionNames = options.transitions?.length
+      ? options.transitions
+      : DEFAULT_TRANSITIONS[options.style] || ['fade'];
+
+    // Work out the transitions first because they change how long each scene must be
+    const sections = options.sections ?? [];
+    const maxJoins = sections.length > 0
+      ? sections.length - 1
+      : Math.max(0, Math.floor(options.durationSeconds / MIN_SCENE_SECONDS) - 1);
+    const joins = Array.from({ length: maxJoins }, (_value, index) =>
+      this.resolveTransition(transitionNames[index % transitionNames.length])
+    );
+    const transitionSeconds = joins.map(join => (join ? TRANSITION_SECONDS : 0));
+    const scenes = sections.length > 0
+      ? splitIntoSections(options.title, options.prompt, sections, options.durationSeconds, transitionSeconds)
+      : splitIntoScenes(options.title, options.prompt, options.durationSeconds, transitionSeconds);
+
+    const workDir = await fs.mkdtemp(path.join(path.dirname(options.outputPath), '.compose-'));
+
+    try {
+      // Render scene images; kinetic scenes get one frame per revealed word
+      const inputs: string[][] = [];
+      for (let i = 0; i < scenes.length; i++) {
+        options.signal?.throwIfAborted();
+        inputs.push(await this.renderScene(scenes[i], i, workDir, width, height, palette));
+        options.onProgress?.('frame', (i + 1) / scenes.length);
+      }
+
+      const { filter, output } = this.buildFilterGraph(scenes, joins, width, height);
+
+      await runFfmpeg(
+        [
+          '-y',
+          ...inputs.flat(),
+          '-filter_complex', filter,
+          '-map', output,
+          '-t', String(options.durationSeconds),
+          '-c:v', 'libx264',
+          '-preset', 'veryfast',
+          '-pix_fmt', 'yuv420p',
+          '-r', String(FPS),
+          '-movflags', '+faststart',
+          options.outputPath
+        ],
+        options.durationSeconds,
+        fraction => options.onProgress?.('encode', fraction),
+        options.signal
+      );
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true })
+        .catch(err => console.warn('Failed to clean up composition files:', err));
+    }
+  }
+
+  private resolveTransition(name: string | undefined): string | null {
+    if (!name) return 'fade';
+    return name in TRANSITION_MAP ? TRANSITION_MAP[name] : 'fade';
+  }
+
+  /**
+   * Renders a scene to disk and returns the ffmpeg input arguments for it
+   */
+  private async renderScene(
+    scene: Scene,
+    index: number,
+    workDir: string,
+    width: number,
+    height: number,
+    palette: StylePalette
+  ): Promise<string[]> {
+    if (scene.kind !== 'kinetic') {
+      const framePath = path.join(workDir, `scene-${index}.png`);
+      await fs.writeFile(framePath, this.drawScene(scene, width, height, palette, scene.lines.length));
+      return ['-loop', '1', '-framerate', String(FPS), '-t', scene.duration.toFixed(3), '-i', framePath];
+    }
+
+    // Reveal words one by one over the first 70% of the scene, then hold
+    const revealSeconds = (scene.duration * 0.7) / scene.lines.length;
+    const entries: string[] = [];
+    for (let words = 1; words <= scene.lines.length; words++) {
+      const framePath = path.join(workDir, `scene-${index}-${words}.png`);
+      await fs.writeFile(framePath, this.drawScene(scene, width, height, palette, words));
+
+      const isLast = words === scene.lines.length;
+      const hold = isLast ? scene.duration - revealSeconds * (scene.lines.length - 1) : revealSeconds;
+      entries.push(`file '${framePath}'`, `duration ${hold.toFixed(3)}`);
+
+      // The concat demuxer ignores the duration of the final entry unless it is repeated
+      if (isLast) entries.push(`file '${framePath}'`);
+    }
+
+    const listPath = path.join(workDir, `scene-${index}.txt`);
+    await fs.writeFile(listPath, entries.join('\n'));
+    return ['-f', 'concat', '-safe', '0', '-i', listPath];
+  }
+
+  /**
+   * Builds the filter graph that normalises every scene and joins them with transitions
+   */
+  private buildFilterGraph(
+    scenes: Scene[],
+    joins: (string | null)[],
+    width: number,
+    height: number
+  ): { filter: string, output: string } {
+    const filters: string[] = [];
+
+    scenes.forEach((scene, index) => {
+      let chain = `[${index}:v]scale=${width}:${height},setsar=1,fps=${FPS}`;
+
+      // Title cards and outros get a slow push-in
+      if (scene.kind === 'title' || scene.kind === 'outro') {
+        chain += `,zoompan=z='min(zoom+0.0006,1.06)':d=1:x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':s=${width}x${height}:fps=${FPS}`;
+      }
+
+      filters.push(`${chain},trim=duration=${scene.duration.toFixed(3)},settb=AVTB,format=yuv420p[v${index}]`);
+    });
+
+    let current = 'v0';
+    let elapsed = scenes[0].duration;
+
+    for (let i = 1; i < scenes.length; i++) {
+      const transition = joins[i - 1] ?? null;
+      const label = `x${i}`;
+
+      if (transition) {
+        const offset = Math.max(elapsed - TRANSITION_SECONDS, 0);
+        filters.push(`[${current}][v${i}]xfade=transition=${transition}:duration=${TRANSITION_SECONDS}:offset=${offset.toFixed(3)}[${label}]`);
+        elapsed += scenes[i].duration - TRANSITION_SECONDS;
+      } else {
+        filters.push(`[${current}][v${i}]concat=n=2:v=1:a=0[${label}]`);
+        elapsed += scenes[i].duration;
+      }
+
+      current = label;
+    }
+
+    return { filter: filters.join(';'), output: `[${current}]` };
+  }
+
+  /**
+   * Draws a single frame of a scene. For kinetic scenes only the first
+   * `visibleCount` words are shown; for bullets, the first `visibleCount` items.
+   */
+  private drawScene(scene: Scene, width: number, height: number, palette: StylePalette, visibleCount: number): Buffer {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    const unit = Math.min(width, height) / 720;
+
+    // Gradient background
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, palette.background[0]);
+    gradient.addColorStop(1, palette.background[1]);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = palette.text;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    switch (scene.kind) {
+      case 'title':
+      case 'outro': {
+        // Accent bar above the heading
+        ctx.fillStyle = palette.accent;
+        ctx.fillRect(width / 2 - 60 * unit, height * 0.38, 120 * unit, 6 * unit);
+
+        ctx.fillStyle = palette.text;
+        ctx.font = `bold ${Math.round(56 * unit)}px Arial, sans-serif`;
+        const headingLines = this.wrapText(ctx, scene.heading || '', width * 0.8);
+        headingLines.forEach((line, index) => {
+          ctx.fillText(line, width / 2, height * 0.48 + index * 64 * unit);
+        });
+
+        if (scene.lines.length > 0) {
+          ctx.globalAlpha = 0.8;
+          ctx.font = `${Math.round(28 * unit)}px Arial, sans-serif`;
+          const subLines = this.wrapText(ctx, scene.lines[0], width * 0.8);
+          subLines.forEach((line, index) => {
+            ctx.fillText(line, width / 2, height * 0.48 + (headingLines.length * 64 + 20 + index * 36) * unit);
+          });
+          ctx.globalAlpha = 1;
+        }
+        break;
+      }
+      case 'bullets': {
+        this.drawSectionHeading(ctx, scene, width, height, unit, palette);
+        ctx.textAlign = 'left';
+        ctx.font = `${Math.round(34 * unit)}px Arial, sans-serif`;
+        const left = width * 0.12;
+        const lineHeight = 44 * unit;
+
+        const wrapped = scene.lines
+          .slice(0, visibleCount)
+          .map(line => this.wrapText(ctx, line, width * 0.72));
+        const totalLines = wrapped.reduce((total, lines) => total + lines.length, 0) + wrapped.length - 1;
+        let y = height / 2 - (totalLines * lineHeight) / 2;
+
+        wrapped.forEach(lines => {
+          ctx.fillStyle = palette.accent;
+          ctx.beginPath();
+          ctx.arc(left - 24 * unit, y, 8 * unit, 0, Math.PI * 2);
+          ctx.fill();
+
+          ctx.fillStyle = palette.text;
+          lines.forEach(line => {
+            ctx.fillText(line, left, y);
+            y += lineHeight;
+          });
+          y += lineHeight;
+        });
+        break;
+      }
+      case 'kinetic': {
+        this.drawSectionHeading(ctx, scene, width, height, unit, palette);
+        ctx.textAlign = 'center';
+        ctx.font = `bold ${Math.round(52 * unit)}px Arial, sans-serif`;
+        const visible = scene.lines.slice(0, visibleCount);
+        const lines = this.wrapText(ctx, visible.join(' '), width * 0.8);
+        const lineHeight = 64 * unit;
+        const startY = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+
+        lines.forEach((line, index) => {
+          // Highlight the line holding the newest word
+          ctx.fillStyle = index === lines.length - 1 ? palette.accent : palette.text;
+          ctx.fillText(line, width / 2, startY + index * lineHeight);
+        });
+        break;
+      }
+    }
+
+    return canvas.toBuffer('image/png');
+  }
+
+  /**
+   * Small accent heading near the top, for content scenes of template sections
+   */
+  private drawSectionHeading(ctx: CanvasRenderingContext2D, scene: Scene, width: number, height: number, unit: number, palette: StylePalette) {
+    if (!scene.heading) return;
+
+    ctx.fillStyle = palette.accent;
+    ctx.textAlign = 'center';
+    ctx.font = `bold ${Math.round(26 * unit)}px Arial, sans-serif`;
+    ctx.fillText(scene.heading.toUpperCase(), width / 2, height * 0.14);
+    ctx.fillStyle = palette.text;
+  }
+
+  private wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+
+    const lines: string[] = [];
+    let currentLine = words[0];
+
+    for (let i = 1; i < words.length; i++) {
+      const testLine = `${currentLine} ${words[i]}`;
+      if (ctx.measureText(testLine).width > maxWidth) {
+        lines.push(currentLine);
+        currentLine = words[i];
+      } else {
+        currentLine = testLine;
+      }
+    }
+    lines.push(currentLine);
+
+    return lines;
+  }
+}
+
+// Export singleton instance
+export const compositionEngine = new CompositionEngine();
@@ -0,0 +1,80 @@
+import { spawn } from "child_process";
+import { promises as fs } from "fs";
+import type { SpeechRequest, TtsProvider } from "./tts-provider";
+
+// espeak's default rate in words per minute, used for speed 1
+const BASE_WORDS_PER_MINUTE = 175;
+
+// espeak voice variants for each voice
+const VOICE_VARIANTS: Record<SpeechRequest["voice"], string> = {
+  female: 'f3',
+  male: 'm3'
+};
+
+/**
+ * Offline provider that speaks with the local espeak-ng (or espeak) binary,
+ * named by ESPEAK_PATH. Robotic, but needs no network or account.
+ */
+export class EspeakTtsProvider implements TtsProvider {
+  public readonly name = 'espeak';
+
+  constructor(private command: string = process.env.ESPEAK_PATH || 'espeak-ng') {}
+
+  public async synthesize(request: SpeechRequest, outputPath: string, signal?: AbortSignal): Promise<number> {
+    await this.speak(request, outputPath, signal);
+    return wavDurationSeconds(await fs.readFile(outputPath));
+  }
+
+  private speak({ text, voice, speed, language }: SpeechRequest, outputPath: string, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const espeak = spawn(this.command, [
+        '-v', `${language}+${VOICE_VARIANTS[voice]}`,
+        '-s', String(Math.round(BASE_WORDS_PER_MINUTE * speed)),
+        '-w', outputPath,
+        '--stdin'
+      ], { signal });
+      let stderr = '';
+
+      espeak.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      espeak.on('error', reject);
+      espeak.on('close', code => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${this.command} exited with code ${code}: ${stderr.slice(-500)}`));
+        }
+      });
+
+      // The text goes through stdin so it is never parsed as options
+      espeak.stdin.on('error', () => {});
+      espeak.stdin.end(text);
+    });
+  }
+}
+
+/**
+ * Length of the audio in a WAV file, from its byte rate and the size of its data chunk
+ */
+function wavDurationSeconds(wav: Buffer): number {
+  let byteRate = 0;
+
+  // Chunks follow the 12 byte RIFF header, each an id, a size and the data padded to even length
+  for (let offset = 12; offset + 8 <= wav.length;) {
+    const id = wav.toString('ascii', offset, offset + 4);
+    const size = wav.readUInt32LE(offset + 4);
+
+    if (id === 'fmt ') {
+      byteRate = wav.readUInt32LE(offset + 16);
+    } else if (id === 'data' && byteRate > 0) {
+      // Streams written without seeking back leave the size unset
+      return Math.min(size, wav.length - offset - 8) / byteRate;
+    }
+
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new Error('Could not read the length of the speech');
+}
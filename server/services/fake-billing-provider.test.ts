@@ -0,0 +1,172 @@
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import request from "supertest";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Subscription, User } from "@shared/schema";
+import { registerRoutes } from "../routes";
+import { storage } from "../storage";
+import { billingProviderRegistry, signWebhookPayload } from "./billing-provider";
+import { FakeBillingProvider } from "./fake-billing-provider";
+
+const SECRET = "test-billing-secret";
+
+let server: Server;
+let agent: request.Agent;
+let user: User;
+let subscription: Subscription;
+
+beforeAll(async () => {
+  // Set up like index.ts, listening for real so the provider can deliver its webhooks
+  const app = express();
+  app.use("/api/billing/webhook", express.raw({ type: "application/json" }));
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  server = createServer(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  billingProviderRegistry.register(new FakeBillingProvider({
+    webhookUrl: `${baseUrl}/api/billing/webhook`,
+    checkoutBaseUrl: "/fake-billing",
+    secret: SECRET
+  }));
+  await registerRoutes(app);
+
+  agent = request.agent(server);
+  await agent.post("/api/register").send({ username: "subscriber", password: "correct horse battery" }).expect(201);
+  user = (await storage.getUserByUsername("subscriber"))!;
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function startCheckout(tier: string): Promise<string> {
+  const { body } = await agent.post("/api/billing/checkout").send({ tier }).expect(201);
+  expect(body.url).toMatch(/^\/fake-billing\/checkout\/cs_fake_/);
+  return body.url;
+}
+
+describe("billing against the fake provider", () => {
+  it("leaves the user on the free plan when the checkout is abandoned", async () => {
+    const url = await startCheckout("basic");
+
+    const { headers } = await agent.post(url).type("form").send({ cancel: "1" }).expect(302);
+
+    expect(headers.location).toMatch(/\/settings\?billing=canceled$/);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await agent.post(url).type("form").send({}).expect(400);
+    expect(await storage.getSubscriptionsByUserId(user.id)).toEqual([]);
+    expect(await storage.getUser(user.id)).toMatchObject({ subscriptionTier: "free" });
+  });
+
+  it("subscribes the user once the checkout is paid", async () => {
+    const url = await startCheckout("basic");
+    await agent.get(url).expect(200);
+
+    const { headers } = await agent.post(url).type("form").send({}).expect(302);
+    expect(headers.location).toMatch(/\/settings\?billing=success$/);
+
+    const { body } = await agent.get(`/api/users/${user.id}/subscription`).expect(200);
+    expect(body).toMatchObject({ tier: "basic", status: "active", billingProvider: "fake", paymentMethod: "fake_card" });
+    expect(await storage.getUser(user.id)).toMatchObject({ subscriptionTier: "basic" });
+
+    subscription = (await storage.getSubscription(body.id))!;
+    expect(subscription.endDate!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("rejects webhooks that were not signed with the secret", async () => {
+    const payload = JSON.stringify({
+      id: "evt_forged",
+      type: "subscription.updated",
+      externalSubscriptionId: subscription.externalSubscriptionId,
+      tier: "premium"
+    });
+
+    await agent.post("/api/billing/webhook").set("Content-Type", "application/json").send(payload).expect(400);
+    await agent.post("/api/billing/webhook")
+      .set("Content-Type", "application/json")
+      .set("Billing-Signature", signWebhookPayload("wrong-secret", payload))
+      .send(payload)
+      .expect(400);
+
+    expect(await storage.getSubscription(subscription.id)).toMatchObject({ tier: "basic" });
+  });
+
+  it("upgrades a running subscription in place", async () => {
+    const { body } = await agent.post("/api/billing/checkout").send({ tier: "premium" }).expect(200);
+
+    expect(body.proratedAmount).toBeGreaterThan(0);
+    expect(body.subscription).toMatchObject({ id: subscription.id, tier: "premium", status: "active" });
+    expect(await storage.getUser(user.id)).toMatchObject({ subscriptionTier: "premium" });
+  });
+
+  it("extends the subscription when it renews", async () => {
+    await agent.post(`/fake-billing/subscriptions/${subscription.externalSubscriptionId}/renew`).expect(204);
+
+    const renewed = (await storage.getSubscription(subscription.id))!;
+    expect(renewed.endDate!.getTime()).toBeGreaterThan(subscription.endDate!.getTime());
+    subscription = renewed;
+  });
+
+  it("keeps the tier of a canceled subscription until it ends", async () => {
+    const { body } = await agent.post(`/api/subscriptions/${subscription.id}/cancel`).expect(200);
+
+    expect(body).toMatchObject({ status: "canceled", tier: "premium" });
+    expect(await storage.getUser(user.id)).toMatchObject({ subscriptionTier: "premium" });
+    await agent.post(`/fake-billing/subscriptions/${subscription.externalSubscriptionId}/renew`).expect(400);
+  });
+
+  it("drops the user back to the free plan when the subscription ends", async () => {
+    await agent.post(`/fake-billing/subscriptions/${subscription.externalSubscriptionId}/end`).expect(204);
+
+    expect(await storage.getSubscription(subscription.id)).toMatchObject({ status: "expired" });
+    expect(await storage.getUser(user.id)).toMatchObject({ subscriptionTier: "free" });
+  });
+});
+
+describe("billing webhooks", () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const deliver = (event: Record<string, unknown>) => {
+    const payload = JSON.stringify({ externalSubscriptionId: subscription.externalSubscriptionId, ...event });
+    return agent.post("/api/billing/webhook")
+      .set("Content-Type", "application/json")
+      .set("Billing-Signature", signWebhookPayload(SECRET, payload))
+      .send(payload)
+      .expect(200);
+  };
+
+  it("does not bring back an ended subscription for a period already paid for", async () => {
+    const ended = (await storage.getSubscription(subscription.id))!;
+
+    await deliver({ id: "evt_stale_payment", type: "invoice.paid", periodEnd: new Date(ended.endDate!.getTime() - DAY_MS).toISOString() });
+
+    expect(await storage.getSubscription(subscription.id)).toEqual(ended);
+    expect(await storage.getUser(user.id)).toMatchObject({ subscriptionTier: "free" });
+  });
+
+  it("brings back an ended subscription when a later period is paid", async () => {
+    const periodEnd = new Date(Date.now() + 30 * DAY_MS);
+
+    await deliver({ id: "evt_late_renewal", type: "invoice.paid", periodEnd: periodEnd.toISOString() });
+
+    expect(await storage.getSubscription(subscription.id)).toMatchObject({ status: "active", endDate: periodEnd });
+    expect(await storage.getUser(user.id)).toMatchObject({ subscriptionTier: "premium" });
+  });
+
+  it("applies each event only once", async () => {
+    await deliver({ id: "evt_downgrade", type: "subscription.updated", tier: "basic" });
+    await deliver({ id: "evt_upgrade", type: "subscription.updated", tier: "premium" });
+
+    await deliver({ id: "evt_downgrade", type: "subscription.updated", tier: "basic" });
+
+    expect(await storage.getSubscription(subscription.id)).toMatchObject({ tier: "premium" });
+    expect(await storage.getUser(user.id)).toMatchObject({ subscriptionTier: "premium" });
+  });
+});
@@ -0,0 +1,244 @@
+import express, { type Request, type Response } from "express";
+import axios from "axios";
+import { randomBytes } from "crypto";
+import type { PlanTier } from "@shared/plans";
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  type BillingEvent,
+  type BillingProvider,
+  type CheckoutRequest,
+  type CheckoutSession
+} from "./billing-provider";
+
+export interface FakeBillingProviderOptions {
+  // Where events are delivered, normally this server's /api/billing/webhook
+  webhookUrl: string;
+  secret: string;
+  // Base URL the checkout pages are served from (see createFakeBillingRouter)
+  checkoutBaseUrl: string;
+  // Length of a billing period; shorten it to watch subscriptions lapse
+  periodMs?: number;
+}
+
+interface FakeSubscription {
+  userId: number;
+  tier: PlanTier;
+  price: number;
+  periodEnd: Date;
+  canceled: boolean;
+}
+
+const DEFAULT_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Local stand-in for a payment service. Checkout succeeds as soon as the user
+ * confirms, and every change is delivered as a signed webhook exactly like a
+ * real provider would, so the whole subscription lifecycle runs offline.
+ * Renewals and failed payments only happen when triggered through
+ * createFakeBillingRouter.
+ */
+export class FakeBillingProvider implements BillingProvider {
+  public readonly name = 'fake';
+
+  private sessions = new Map<string, CheckoutRequest>();
+  private subscriptions = new Map<string, FakeSubscription>();
+  private periodMs: number;
+
+  constructor(private options: FakeBillingProviderOptions) {
+    this.periodMs = options.periodMs ?? DEFAULT_PERIOD_MS;
+  }
+
+  public async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    const id = this.id('cs');
+    this.sessions.set(id, request);
+    return { id, url: `${this.options.checkoutBaseUrl}/checkout/${id}` };
+  }
+
+  public async changePlan(externalSubscriptionId: string, tier: PlanTier, price: number, proratedAmount: number): Promise<void> {
+    const subscription = this.getSubscription(externalSubscriptionId);
+    subscription.tier = tier;
+    subscription.price = price;
+
+    await this.deliver({
+      type: 'subscription.updated',
+      externalSubscriptionId,
+      tier,
+      price,
+      ...(proratedAmount > 0 ? { paymentId: this.id('pay'), paymentMethod: 'fake_card' } : {})
+    });
+  }
+
+  public async cancel(externalSubscriptionId: string): Promise<void> {
+    this.getSubscription(externalSubscriptionId).canceled = true;
+    await this.deliver({ type: 'subscription.canceled', externalSubscriptionId });
+  }
+
+  public parseWebhook(rawBody: Buffer, signature: string | undefined): BillingEvent {
+    const payload = rawBody.toString('utf8');
+    verifyWebhookSignature(this.options.secret, payload, signature);
+    return JSON.parse(payload);
+  }
+
+  /**
+   * Pay for a checkout session, creating the subscription. Returns where to send the user.
+   */
+  public async completeCheckout(sessionId: string): Promise<string> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown checkout session ${sessionId}`);
+    }
+    this.sessions.delete(sessionId);
+
+    const externalSubscriptionId = this.id('sub');
+    const subscription: FakeSubscription = {
+      userId: session.userId,
+      tier: session.tier,
+      price: session.price,
+      periodEnd: new Date(Date.now() + this.periodMs),
+      canceled: false
+    };
+    this.subscriptions.set(externalSubscriptionId, subscription);
+
+    await this.deliver({
+      type: 'checkout.completed',
+      externalSubscriptionId,
+      userId: session.userId,
+      tier: session.tier,
+      price: session.price,
+      periodEnd: subscription.periodEnd.toISOString(),
+      paymentId: this.id('pay'),
+      paymentMethod: 'fake_card'
+    });
+
+    return session.successUrl;
+  }
+
+  public abandonCheckout(sessionId: string): string | undefined {
+    const session = this.sessions.get(sessionId);
+    this.sessions.delete(sessionId);
+    return session?.cancelUrl;
+  }
+
+  /**
+   * Charge the next period
+   */
+  public async renew(externalSubscriptionId: string): Promise<void> {
+    const subscription = this.getSubscription(externalSubscriptionId);
+    if (subscription.canceled) {
+      throw new Error(`Subscription ${externalSubscriptionId} is canceled`);
+    }
+
+    subscription.periodEnd = new Date(Math.max(subscription.periodEnd.getTime(), Date.now()) + this.periodMs);
+    await this.deliver({
+      type: 'invoice.paid',
+      externalSubscriptionId,
+      periodEnd: subscription.periodEnd.toISOString(),
+      paymentId: this.id('pay'),
+      paymentMethod: 'fake_card'
+    });
+  }
+
+  public async failPayment(externalSubscriptionId: string): Promise<void> {
+    this.getSubscription(externalSubscriptionId);
+    await this.deliver({ type: 'invoice.payment_failed', externalSubscriptionId });
+  }
+
+  /**
+   * End the subscription right away, as providers do after payment keeps failing
+   */
+  public async end(externalSubscriptionId: string): Promise<void> {
+    this.getSubscription(externalSubscriptionId);
+    this.subscriptions.delete(externalSubscriptionId);
+    await this.deliver({ type: 'subscription.ended', externalSubscriptionId });
+  }
+
+  private getSubscription(externalSubscriptionId: string): FakeSubscription {
+    const subscription = this.subscriptions.get(externalSubscriptionId);
+    if (!subscription) {
+      throw new Error(`Unknown subscription ${externalSubscriptionId}`);
+    }
+    return subscription;
+  }
+
+  private async deliver(event: Omit<BillingEvent, 'id'>): Promise<void> {
+    const payload = JSON.stringify({ id: this.id('evt'), ...event });
+
+    await axios.post(this.options.webhookUrl, payload, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Billing-Signature': signWebhookPayload(this.options.secret, payload)
+      },
+      timeout: 10000
+    });
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_fake_${randomBytes(8).toString('hex')}`;
+  }
+}
+
+/**
+ * Pages and controls of the fake provider, mounted at checkoutBaseUrl. Only
+ * mount this in development; anyone can change subscriptions through it.
+ *
+ *   GET  /checkout/:sessionId                     -> confirmation page
+ *   POST /checkout/:sessionId                     -> pays (or with cancel=1 abandons) and redirects back
+ *   POST /subscriptions/:id/renew                 -> charges the next period
+ *   POST /subscriptions/:id/fail-payment          -> reports a failed renewal
+ *   POST /subscriptions/:id/end                   -> ends the subscription now
+ */
+export function createFakeBillingRouter(provider: FakeBillingProvider) {
+  const router = express.Router();
+
+  router.get('/checkout/:sessionId', (req: Request, res: Response) => {
+    const sessionId = encodeURIComponent(req.params.sessionId);
+    res.send(`
+      <html>
+        <head><title>Fake Checkout</title></head>
+        <body>
+          <h2>Fake Checkout</h2>
+          <p>No money is charged. Confirm to subscribe.</p>
+          <form method="post" action="${sessionId}">
+            <button type="submit">Pay</button>
+            <button type="submit" name="cancel" value="1">Cancel</button>
+          </form>
+        </body>
+      </html>
+    `);
+  });
+
+  router.post('/checkout/:sessionId', async (req: Request, res: Response) => {
+    if (req.body.cancel) {
+      const cancelUrl = provider.abandonCheckout(req.params.sessionId);
+      return cancelUrl ? res.redirect(cancelUrl) : res.status(404).send('Unknown checkout session');
+    }
+
+    try {
+      res.redirect(await provider.completeCheckout(req.params.sessionId));
+    } catch (error) {
+      console.error('Fake checkout failed:', error);
+      res.status(400).send('Checkout failed');
+    }
+  });
+
+  const actions: Record<string, (externalSubscriptionId: string) => Promise<void>> = {
+    'renew': id => provider.renew(id),
+    'fail-payment': id => provider.failPayment(id),
+    'end': id => provider.end(id)
+  };
+
+  router.post('/subscriptions/:id/:action', async (req: Request, res: Response) => {
+    const action = actions[req.params.action];
+    if (!action) return res.status(404).json({ error: 'Unknown action' });
+
+    try {
+      await action(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Action failed' });
+    }
+  });
+
+  return router;
+}
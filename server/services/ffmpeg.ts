@@ -0,0 +1,43 @@
+import { spawn } from "child_process";
+
+/**
+ * Runs ffmpeg with the given arguments.
+ * When totalSeconds and onProgress are provided, progress is reported as a
+ * fraction (0-1) of the expected output duration, parsed from -progress output.
+ * Aborting the signal kills the ffmpeg process.
+ */
+export function runFfmpeg(
+  args: string[],
+  totalSeconds?: number,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', ['-hide_banner', '-progress', 'pipe:1', '-nostats', ...args], { signal });
+    let stderr = '';
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => {
+      if (!onProgress || !totalSeconds) return;
+
+      // Progress output is a stream of key=value lines; out_time_us is in microseconds
+      const matches = Array.from(chunk.toString().matchAll(/out_time_us=(\d+)/g));
+      const latest = matches[matches.length - 1];
+      if (latest) {
+        onProgress(Math.min(Number(latest[1]) / 1_000_000 / totalSeconds, 1));
+      }
+    });
+
+    ffmpeg.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.slice(-500)}`));
+      }
+    });
+  });
+}
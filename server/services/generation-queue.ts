@@ -0,0 +1,136 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import { InsertVideo } from "@shared/schema";
+import { aiService, type GenerationOptions, type GenerationStage } from "./ai-service";
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface GenerationJob {
+  id: string;
+  userId: number;
+  status: GenerationJobStatus;
+  stage: GenerationStage | null;
+  progress: number;
+  videoData: InsertVideo;
+  // Saved video being regenerated, if any
+  videoId?: number;
+  // Template and resolution to render with
+  options: GenerationOptions;
+  videoUrl?: string;
+  thumbnailUrl?: string;
+  subtitlesSrtUrl?: string;
+  subtitlesVttUrl?: string;
+  provider?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// How long finished jobs stay queryable before they are dropped
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * In-process queue for video generation jobs
+ *
+ * Jobs are processed one at a time so ffmpeg never competes with itself for CPU.
+ * Emits 'progress', 'completed' and 'failed' events with the job as payload.
+ */
+export class GenerationQueue extends EventEmitter {
+  private jobs: Map<string, GenerationJob> = new Map();
+  private pending: string[] = [];
+  private processing = false;
+
+  /**
+   * Adds a generation job for the given user and starts the worker if idle.
+   * Pass the id of a saved video to regenerate it.
+   */
+  public enqueue(userId: number, videoData: InsertVideo, options: GenerationOptions = {}, videoId?: number): GenerationJob {
+    const now = new Date();
+    const job: GenerationJob = {
+      id: uuidv4(),
+      userId,
+      status: 'queued',
+      stage: null,
+      progress: 0,
+      videoData,
+      videoId,
+      options,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+
+    // Kick off processing on the next tick so the caller can respond first
+    setImmediate(() => this.processNext());
+
+    return job;
+  }
+
+  /**
+   * Get a job by id
+   */
+  public getJob(id: string): GenerationJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  private async processNext(): Promise<void> {
+    if (this.processing) return;
+
+    const jobId = this.pending.shift();
+    if (!jobId) return;
+
+    const job = this.jobs.get(jobId);
+    if (!job) return this.processNext();
+
+    this.processing = true;
+    this.update(job, { status: 'running' });
+
+    try {
+      const result = await aiService.generateVideo(job.videoData, (stage, progress) => {
+        // Avoid flooding clients with duplicate updates from ffmpeg
+        if (stage === job.stage && progress === job.progress) return;
+        this.update(job, { stage, progress });
+        this.emit('progress', job);
+      }, job.options);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Video generation failed');
+      }
+
+      this.update(job, {
+        status: 'completed',
+        progress: 100,
+        videoUrl: result.videoUrl,
+        thumbnailUrl: result.thumbnailUrl,
+        subtitlesSrtUrl: result.subtitlesSrtUrl,
+        subtitlesVttUrl: result.subtitlesVttUrl,
+        provider: result.provider
+      });
+      this.emit('completed', job);
+    } catch (error) {
+      console.error(`Generation job ${job.id} failed:`, error);
+      this.update(job, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Video generation failed'
+      });
+      this.emit('failed', job);
+    } finally {
+      this.processing = false;
+      this.scheduleCleanup(job.id);
+      this.processNext();
+    }
+  }
+
+  private update(job: GenerationJob, changes: Partial<GenerationJob>) {
+    Object.assign(job, changes, { updatedAt: new Date() });
+  }
+
+  private scheduleCleanup(jobId: string) {
+    setTimeout(() => this.jobs.delete(jobId), FINISHED_JOB_TTL_MS).unref();
+  }
+}
+
+// Export singleton instance
+export const generationQueue = new GenerationQueue();
@@ -0,0 +1,156 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { CaptionFormValues, Video } from "@shared/schema";
+import { storage } from "../storage";
+import { KeywordIndex, extractKeywords } from "./keyword-index";
+
+const captionOptions: CaptionFormValues = {
+  topic: "Coffee",
+  mood: "casual",
+  platform: "tiktok",
+  includeHashtags: true,
+  includeEmojis: false,
+  toneStrength: 3,
+  callToAction: "none",
+  language: "english",
+  captionLength: "short",
+};
+
+async function video(title: string): Promise<Video> {
+  return storage.createVideo({
+    userId: 1,
+    title,
+    prompt: title,
+    style: "cinematic",
+    duration: "30s",
+    aspectRatio: "9:16",
+    platforms: ["tiktok", "youtube"],
+  });
+}
+
+// Succeeded publication, with its latest metrics unless views is null
+async function publish(video: Video, platform: string, views: number | null, likes = 0) {
+  const publication = await storage.createPublication({
+    userId: 1,
+    videoId: video.id,
+    accountId: 1,
+    platform,
+    idempotencyKey: `${platform}-${video.id}`,
+    status: "succeeded",
+    externalId: `${platform}-${video.id}`,
+    publishedAt: new Date(),
+  });
+  if (views !== null) {
+    await storage.createAnalyticsSnapshot({ userId: 1, videoId: video.id, publicationId: publication.id, platform, views, likes });
+  }
+}
+
+async function caption(video: Video, text: string, hashtags: string[]) {
+  await storage.createCaption({
+    userId: 1,
+    videoId: video.id,
+    platform: "tiktok",
+    language: "english",
+    text,
+    hashtags,
+    options: captionOptions,
+    provider: "template",
+  });
+}
+
+beforeAll(async () => {
+  // Performs 2000 (1000 views and 100 likes), using its SEO metadata
+  const basics = await video("Espresso basics");
+  await storage.upsertVideoMetadata({
+    videoId: basics.id,
+    userId: 1,
+    platform: "tiktok",
+    title: "Espresso basics",
+    description: "Pulling espresso shots #coffee",
+    tags: ["Coffee", "Barista"],
+  });
+  await publish(basics, "tiktok", 1000, 100);
+
+  // Performs 200, using its caption
+  const mornings = await video("Espresso mornings");
+  await caption(mornings, "Espresso at sunrise #coffee", ["morning"]);
+  await publish(mornings, "tiktok", 200);
+  await publish(mornings, "youtube", 500);
+
+  // Performs 600
+  const latte = await video("Espresso latte art");
+  await caption(latte, "Art in a cup #coffee", ["latteart", "barista"]);
+  await publish(latte, "tiktok", 600);
+
+  // No metrics collected yet
+  const pending = await video("Barista secrets");
+  await caption(pending, "Secrets #barista", []);
+  await publish(pending, "tiktok", null);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("extractKeywords", () => {
+  it("keeps significant words once, in order", () => {
+    expect(extractKeywords("The best coffee: Coffee with milk, from Brazil!")).toEqual(["best", "coffee", "milk", "brazil"]);
+  });
+
+  it("keeps to the limit", () => {
+    expect(extractKeywords("Brewing espresso coffee at home", 2)).toEqual(["brewing", "espresso"]);
+  });
+});
+
+describe("KeywordIndex", () => {
+  it("ranks hashtags by how their posts performed against the platform average", async () => {
+    const index = new KeywordIndex();
+
+    const hashtags = await index.query({ platform: "tiktok", kind: "hashtag" });
+
+    // #barista's posts did better than average, #coffee was on every post; neither
+    // counts the post without metrics, and terms on a single video are left out
+    expect(hashtags).toEqual([
+      { term: "barista", kind: "hashtag", platform: "tiktok", videos: 2, posts: 2, views: 1600, engagement: 100, score: 1.16 },
+      { term: "coffee", kind: "hashtag", platform: "tiktok", videos: 3, posts: 3, views: 1800, engagement: 100, score: 1 },
+    ]);
+  });
+
+  it("indexes keywords per platform and filters by search text", async () => {
+    const index = new KeywordIndex();
+
+    expect((await index.query({ platform: "tiktok", kind: "keyword" })).map(stats => stats.term)).toEqual(["espresso"]);
+    expect(await index.query({ platform: "youtube" })).toEqual([]);
+    expect((await index.query({ search: "BAR" })).map(stats => stats.term)).toEqual(["barista"]);
+  });
+
+  it("suggests hashtags used alongside the keywords first, then strong ones", async () => {
+    const index = new KeywordIndex();
+
+    expect(await index.suggestHashtags(["sunrise"], "tiktok", 5)).toEqual(["coffee", "barista"]);
+    expect(await index.suggestHashtags(["sunrise"], "tiktok", 1)).toEqual(["coffee"]);
+    // Without related hashtags only the ones beating the average are suggested
+    expect(await index.suggestHashtags(["decaf"], "tiktok", 5)).toEqual(["barista"]);
+  });
+
+  it("shares one build between concurrent rebuilds", async () => {
+    const index = new KeywordIndex();
+    const getPublications = vi.spyOn(storage, "getPublicationsByStatus");
+
+    await Promise.all([index.rebuild(), index.rebuild(), index.query()]);
+
+    expect(getPublications).toHaveBeenCalledTimes(1);
+    expect(index.lastBuiltAt).toBeInstanceOf(Date);
+  });
+
+  it("logs a failed build and keeps the previous index", async () => {
+    const index = new KeywordIndex();
+    await index.rebuild();
+    vi.spyOn(storage, "getPublicationsByStatus").mockRejectedValue(new Error("database unavailable"));
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await index.rebuild();
+
+    expect(consoleError).toHaveBeenCalledWith("Could not build keyword index:", expect.any(Error));
+    expect(await index.query({ kind: "hashtag", platform: "tiktok" })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,291 @@
+import { Publication } from "@shared/schema";
+import { storage } from "../storage";
+
+// How often the index is rebuilt from published content and analytics
+const REBUILD_INTERVAL_MS = Number(process.env.KEYWORD_INDEX_INTERVAL_MS) || 60 * 60 * 1000;
+
+// A like, comment or share counts as much as this many views
+const ENGAGEMENT_WEIGHT = 10;
+
+// Posts of average performance every keyword starts with, so a keyword seen
+// on one lucky post does not outrank one that does well consistently
+const PRIOR_POSTS = 3;
+
+// Keywords must appear on at least this many different videos to be listed,
+// which also keeps one user's unique terms out of everyone's suggestions
+const MIN_VIDEOS = 2;
+
+const STOP_WORDS = new Set(["the", "and", "or", "of", "to", "a", "in", "for", "with", "on", "at", "by", "from", "an"]);
+
+export type KeywordKind = 'keyword' | 'hashtag';
+
+export interface KeywordStats {
+  term: string;
+  kind: KeywordKind;
+  platform: string;
+  // Distinct videos and publications using the term
+  videos: number;
+  posts: number;
+  views: number;
+  engagement: number;
+  // Performance relative to the platform's average post; above 1 beats the average
+  score: number;
+}
+
+export interface KeywordQuery {
+  platform?: string;
+  kind?: KeywordKind;
+  // Only terms containing this text
+  search?: string;
+  limit?: number;
+}
+
+interface TermAccumulator {
+  term: string;
+  kind: KeywordKind;
+  platform: string;
+  videoIds: Set<number>;
+  posts: number;
+  views: number;
+  engagement: number;
+  // Sum of each post's performance relative to the platform average
+  relativePerformance: number;
+  // Other terms used on the same posts, with how often
+  related: Map<string, number>;
+}
+
+interface IndexedPost {
+  videoId: number;
+  platform: string;
+  keywords: string[];
+  hashtags: string[];
+  views: number;
+  engagement: number;
+}
+
+/**
+ * Significant words of a text, for when no keywords were given
+ */
+export function extractKeywords(text: string, limit?: number): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 3 && !STOP_WORDS.has(word));
+
+  const unique = Array.from(new Set(words));
+  return limit ? unique.slice(0, limit) : unique;
+}
+
+function extractHashtags(text: string): string[] {
+  return Array.from(text.matchAll(/#([\p{L}\p{N}_]+)/gu), match => match[1].toLowerCase());
+}
+
+/**
+ * Ranks the keywords and hashtags of published videos by how well the posts
+ * using them performed on each platform. Built entirely from stored
+ * publications, metadata, captions and analytics snapshots.
+ */
+export class KeywordIndex {
+  private timer: NodeJS.Timeout | null = null;
+  private building: Promise<void> | null = null;
+  private entries = new Map<string, TermAccumulator>();
+  private builtAt: Date | null = null;
+
+  public start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.rebuild(), REBUILD_INTERVAL_MS);
+    this.timer.unref();
+
+    this.rebuild();
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  public get lastBuiltAt(): Date | null {
+    return this.builtAt;
+  }
+
+  /**
+   * Rebuild the index from storage. Concurrent calls share one build.
+   */
+  public rebuild(): Promise<void> {
+    if (!this.building) {
+      this.building = this.build()
+        .catch(error => console.error('Could not build keyword index:', error))
+        .finally(() => { this.building = null; });
+    }
+    return this.building;
+  }
+
+  /**
+   * Ranked keywords and hashtags, best performing first
+   */
+  public async query(query: KeywordQuery = {}): Promise<KeywordStats[]> {
+    await this.ensureBuilt();
+
+    const search = query.search?.toLowerCase();
+    const matches = Array.from(this.entries.values()).filter(entry =>
+      entry.videoIds.size >= MIN_VIDEOS &&
+      (!query.platform || entry.platform === query.platform) &&
+      (!query.kind || entry.kind === query.kind) &&
+      (!search || entry.term.includes(search))
+    );
+
+    return matches
+      .map(entry => this.toStats(entry))
+      .sort((a, b) => b.score - a.score || b.views - a.views)
+      .slice(0, query.limit ?? 50);
+  }
+
+  /**
+   * Best performing hashtags for a platform, preferring ones used alongside
+   * the given keywords
+   */
+  public async suggestHashtags(keywords: string[], platform: string, limit: number): Promise<string[]> {
+    const ranked = await this.query({ platform, kind: 'hashtag', limit: Number.MAX_SAFE_INTEGER });
+
+    const relevance = (stats: KeywordStats) => {
+      const entry = this.entries.get(this.key(stats.platform, stats.kind, stats.term));
+      return keywords.reduce((sum, keyword) =>
+        sum + (entry?.related.get(keyword) ?? 0) + (stats.term.includes(keyword) ? 1 : 0), 0);
+    };
+
+    // Related tags first, then the platform's generally strong ones
+    const related = ranked.filter(stats => relevance(stats) > 0);
+    const popular = ranked.filter(stats => stats.score > 1 && relevance(stats) === 0);
+
+    return [...related, ...popular].slice(0, limit).map(stats => stats.term);
+  }
+
+  private async ensureBuilt(): Promise<void> {
+    if (!this.builtAt) {
+      await this.rebuild();
+    }
+  }
+
+  private async build(): Promise<void> {
+    const publications = await storage.getPublicationsByStatus('succeeded');
+
+    const posts: IndexedPost[] = [];
+    for (const publication of publications) {
+      const post = await this.indexPost(publication);
+      if (post) posts.push(post);
+    }
+
+    // Average performance per platform, so platforms of different sizes compare fairly
+    const totals = new Map<string, { performance: number; posts: number }>();
+    for (const post of posts) {
+      const total = totals.get(post.platform) ?? { performance: 0, posts: 0 };
+      total.performance += this.performance(post);
+      total.posts += 1;
+      totals.set(post.platform, total);
+    }
+
+    const entries = new Map<string, TermAccumulator>();
+    for (const post of posts) {
+      const total = totals.get(post.platform)!;
+      const average = total.performance / total.posts;
+      const relative = average > 0 ? this.performance(post) / average : 1;
+      const terms = [
+        ...post.keywords.map(term => ({ term, kind: 'keyword' as const })),
+        ...post.hashtags.map(term => ({ term, kind: 'hashtag' as const }))
+      ];
+
+      for (const { term, kind } of terms) {
+        const key = this.key(post.platform, kind, term);
+        const entry = entries.get(key) ?? {
+          term,
+          kind,
+          platform: post.platform,
+          videoIds: new Set<number>(),
+          posts: 0,
+          views: 0,
+          engagement: 0,
+          relativePerformance: 0,
+          related: new Map<string, number>()
+        };
+
+        entry.videoIds.add(post.videoId);
+        entry.posts += 1;
+        entry.views += post.views;
+        entry.engagement += post.engagement;
+        entry.relativePerformance += relative;
+        for (const other of terms) {
+          if (other.term !== term) {
+            entry.related.set(other.term, (entry.related.get(other.term) ?? 0) + 1);
+          }
+        }
+
+        entries.set(key, entry);
+      }
+    }
+
+    this.entries = entries;
+    this.builtAt = new Date();
+  }
+
+  /**
+   * Terms and latest metrics of one publication, or null before any metrics were collected
+   */
+  private async indexPost(publication: Publication): Promise<IndexedPost | null> {
+    const snapshot = await storage.getLatestAnalyticsSnapshot(publication.id);
+    if (!snapshot) return null;
+
+    const video = await storage.getVideo(publication.videoId);
+    if (!video) return null;
+
+    // Same title, description and tags the video was published with
+    const metadata = await storage.getVideoMetadataForPlatform(video.id, publication.platform);
+    let text: string;
+    let hashtags: string[];
+    if (metadata) {
+      text = `${metadata.title} ${metadata.description}`;
+      hashtags = [...metadata.tags.map(tag => tag.toLowerCase()), ...extractHashtags(metadata.description)];
+    } else {
+      const caption = (await storage.getCaptionsByVideoId(video.id))
+        .find(caption => caption.platform === publication.platform);
+      text = `${video.title} ${caption?.text ?? ''}`;
+      hashtags = [...(caption?.hashtags ?? []), ...extractHashtags(text)];
+    }
+
+    return {
+      videoId: video.id,
+      platform: publication.platform,
+      // Hashtag text is indexed as hashtags only
+      keywords: extractKeywords(text.replace(/#[\p{L}\p{N}_]+/gu, ' ')),
+      hashtags: Array.from(new Set(hashtags)),
+      views: snapshot.views,
+      engagement: snapshot.likes + snapshot.comments + snapshot.shares
+    };
+  }
+
+  private performance(post: { views: number; engagement: number }): number {
+    return post.views + post.engagement * ENGAGEMENT_WEIGHT;
+  }
+
+  private toStats(entry: TermAccumulator): KeywordStats {
+    const score = (entry.relativePerformance + PRIOR_POSTS) / (entry.posts + PRIOR_POSTS);
+
+    return {
+      term: entry.term,
+      kind: entry.kind,
+      platform: entry.platform,
+      videos: entry.videoIds.size,
+      posts: entry.posts,
+      views: entry.views,
+      engagement: entry.engagement,
+      score: Math.round(score * 100) / 100
+    };
+  }
+
+  private key(platform: string, kind: KeywordKind, term: string): string {
+    return `${platform}:${kind}:${term}`;
+  }
+}
+
+// Export singleton instance
+export const keywordIndex = new KeywordIndex();
@@ -0,0 +1,107 @@
+import express from "express";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import request from "supertest";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { AssetNotFoundError } from "./asset-store";
+import { LocalAssetStore, createLocalAssetRouter } from "./local-asset-store";
+
+let rootDir: string;
+let store: LocalAssetStore;
+let app: express.Express;
+
+beforeAll(async () => {
+  rootDir = await fs.mkdtemp(path.join(tmpdir(), "vidiyome-local-store-"));
+  store = new LocalAssetStore({ rootDir, baseUrl: "/media", secret: "test-secret" });
+
+  app = express();
+  app.use("/media", createLocalAssetRouter(store));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(async () => {
+  await fs.rm(rootDir, { recursive: true, force: true });
+});
+
+describe("LocalAssetStore", () => {
+  it("serves a stored file through its signed URL", async () => {
+    await store.put("videos/sunrise.mp4", Buffer.from("video bytes"));
+
+    const url = await store.getSignedUrl("videos/sunrise.mp4");
+    expect(url).toMatch(/^\/media\/videos\/sunrise\.mp4\?expires=\d+&signature=[0-9a-f]{64}$/);
+
+    const response = await request(app).get(url).expect(200);
+    expect(response.headers["content-type"]).toMatch(/^video\/mp4/);
+    expect(response.headers["cache-control"]).toBe("private, max-age=300");
+    expect(response.body.toString()).toBe("video bytes");
+  });
+
+  it("names downloads as signed", async () => {
+    await store.put("videos/download.mp4", Buffer.from("video bytes"));
+    const url = await store.getSignedUrl("videos/download.mp4", { downloadName: "My video.mp4" });
+
+    const response = await request(app).get(url).expect(200);
+    expect(response.headers["content-disposition"]).toMatch(/attachment; filename="My video\.mp4"/);
+
+    // The name is part of the signature
+    await request(app).get(url.replace("My+video", "Other")).expect(404);
+  });
+
+  it("stops serving a URL once it has expired", async () => {
+    await store.put("videos/expiring.mp4", Buffer.from("video bytes"));
+    const url = await store.getSignedUrl("videos/expiring.mp4", { expiresIn: 60 });
+    await request(app).get(url).expect(200);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 61 * 1000);
+
+    await request(app).get(url).expect(404);
+  });
+
+  it("rejects URLs that were tampered with", async () => {
+    await store.put("videos/private.mp4", Buffer.from("video bytes"));
+    await store.put("videos/other.mp4", Buffer.from("other bytes"));
+    const url = await store.getSignedUrl("videos/private.mp4");
+    const { searchParams } = new URL(url, "http://localhost");
+
+    // Another file, a later expiry, a changed or missing signature
+    await request(app).get(url.replace("private.mp4", "other.mp4")).expect(404);
+    await request(app).get(url.replace(/expires=\d+/, `expires=${Number(searchParams.get("expires")) + 3600}`)).expect(404);
+    await request(app).get(url.replace(/signature=[0-9a-f]/, "signature=x")).expect(404);
+    await request(app).get("/media/videos/private.mp4").expect(404);
+  });
+
+  it("answers 404 for a signed URL of a deleted file", async () => {
+    await store.put("videos/deleted.mp4", Buffer.from("video bytes"));
+    const url = await store.getSignedUrl("videos/deleted.mp4");
+
+    await store.delete("videos/deleted.mp4");
+
+    expect(await store.exists("videos/deleted.mp4")).toBe(false);
+    await request(app).get(url).expect(404);
+    await expect(store.getLocalFile("videos/deleted.mp4")).rejects.toBeInstanceOf(AssetNotFoundError);
+  });
+
+  it("keeps keys inside its directory", async () => {
+    await expect(store.put("../escape.mp4", Buffer.from("bytes"))).rejects.toThrow("Invalid asset key");
+    await expect(store.getSignedUrl("videos/../../escape.mp4")).rejects.toThrow("Invalid asset key");
+    expect(store.verifySignedRequest("../escape.mp4", { expires: "9999999999", signature: "00" })).toBeNull();
+  });
+
+  it("copies files in and hands them out in place", async () => {
+    const source = path.join(rootDir, "render.mp4");
+    await fs.writeFile(source, "rendered");
+
+    await store.putFile("videos/render.mp4", source);
+    const file = await store.getLocalFile("videos/render.mp4");
+
+    expect(file.path).toBe(path.join(rootDir, "videos", "render.mp4"));
+    expect(await fs.readFile(file.path, "utf8")).toBe("rendered");
+    await file.release();
+    expect(await fs.readFile(source, "utf8")).toBe("rendered");
+  });
+});
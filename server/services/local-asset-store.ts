@@ -0,0 +1,136 @@
+import express, { type Request, type Response } from "express";
+import { promises as fs } from "fs";
+import path from "path";
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  AssetNotFoundError,
+  DEFAULT_SIGNED_URL_TTL_SECONDS,
+  assetContentType,
+  isValidAssetKey,
+  type AssetStore,
+  type LocalAssetFile,
+  type SignedUrlOptions
+} from "./asset-store";
+
+export interface LocalAssetStoreOptions {
+  // Directory the assets are kept in; it must not be served statically
+  rootDir: string;
+  // URL createLocalAssetRouter is mounted at, e.g. "/media"
+  baseUrl: string;
+  // Key for signing URLs
+  secret: string;
+}
+
+/**
+ * Assets kept as files on this server's disk. Signed URLs point at
+ * createLocalAssetRouter, which checks the signature before serving the file.
+ */
+export class LocalAssetStore implements AssetStore {
+  public readonly name = 'local';
+
+  constructor(private options: LocalAssetStoreOptions) {}
+
+  public async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  public async putFile(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.copyFile(filePath, target);
+  }
+
+  public async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  public async getLocalFile(key: string): Promise<LocalAssetFile> {
+    if (!(await this.exists(key))) {
+      throw new AssetNotFoundError(key);
+    }
+
+    // The stored file is used in place; there is nothing to clean up
+    return { path: this.resolve(key), release: async () => {} };
+  }
+
+  public async getSignedUrl(key: string, { expiresIn = DEFAULT_SIGNED_URL_TTL_SECONDS, downloadName }: SignedUrlOptions = {}): Promise<string> {
+    // Rejects keys that could not be stored
+    this.resolve(key);
+
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const params = new URLSearchParams({ expires: String(expires) });
+    if (downloadName) params.set('download', downloadName);
+    params.set('signature', this.sign(key, params));
+
+    return `${this.options.baseUrl}/${key}?${params}`;
+  }
+
+  /**
+   * Path of the file for a signed request, or null when the signature is
+   * missing, wrong or expired
+   */
+  public verifySignedRequest(key: string, query: Record<string, unknown>): string | null {
+    if (!isValidAssetKey(key)) return null;
+
+    const expires = Number(query.expires);
+    const signature = typeof query.signature === 'string' ? query.signature : '';
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now() || !signature) return null;
+
+    const params = new URLSearchParams({ expires: String(query.expires) });
+    if (typeof query.download === 'string') params.set('download', query.download);
+
+    const expected = Buffer.from(this.sign(key, params), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    return this.resolve(key);
+  }
+
+  private sign(key: string, params: URLSearchParams): string {
+    return createHmac('sha256', this.options.secret).update(`${key}?${params}`).digest('hex');
+  }
+
+  private resolve(key: string): string {
+    if (!isValidAssetKey(key)) {
+      throw new Error(`Invalid asset key: ${key}`);
+    }
+    return path.join(this.options.rootDir, key);
+  }
+}
+
+/**
+ * Serves the files behind a local store's signed URLs, mounted at its baseUrl.
+ * Anything without a valid signature is answered with 404.
+ */
+export function createLocalAssetRouter(store: LocalAssetStore) {
+  const router = express.Router();
+
+  router.get('/*', async (req: Request, res: Response) => {
+    const key = req.path.replace(/^\//, '');
+    const filePath = store.verifySignedRequest(key, req.query);
+    if (!filePath || !(await store.exists(key))) {
+      return res.status(404).json({ message: "Asset not found" });
+    }
+
+    if (typeof req.query.download === 'string') {
+      res.attachment(req.query.download);
+    }
+
+    // Signed URLs are personal; keep them out of shared caches
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.type(assetContentType(key)).sendFile(filePath);
+  });
+
+  return router;
+}
@@ -0,0 +1,124 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { ConnectedAccount, User } from "@shared/schema";
+import { storage } from "../storage";
+import { createMockOAuthApp } from "./mock-oauth-server";
+import { OAuthTokenError, oauthService } from "./oauth-service";
+import { decryptToken } from "./token-crypto";
+
+const REDIRECT_URI = "http://localhost:5000/api/oauth/youtube/callback";
+
+let server: Server;
+let mock: ReturnType<typeof createMockOAuthApp>;
+let user: User;
+let account: ConnectedAccount;
+
+beforeAll(async () => {
+  mock = createMockOAuthApp({
+    clientId: "client-id",
+    clientSecret: "client-secret",
+    channelId: "UC_creator",
+    channelTitle: "Creator Channel"
+  });
+  server = createServer(mock.app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  vi.stubEnv("YOUTUBE_CLIENT_ID", "client-id");
+  vi.stubEnv("YOUTUBE_CLIENT_SECRET", "client-secret");
+  vi.stubEnv("YOUTUBE_OAUTH_AUTHORIZE_URL", `${baseUrl}/authorize`);
+  vi.stubEnv("YOUTUBE_OAUTH_TOKEN_URL", `${baseUrl}/token`);
+  vi.stubEnv("YOUTUBE_API_URL", `${baseUrl}/youtube/v3`);
+
+  user = await storage.createUser({ username: "oauth-creator", password: "hashed" });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise(resolve => server.close(resolve));
+});
+
+/**
+ * Follow the consent URL the way a browser would and return the code and
+ * state the provider sends back to the callback
+ */
+async function authorize(state: string): Promise<{ code: string; state: string | null }> {
+  const url = oauthService.getAuthorizationUrl("youtube", REDIRECT_URI, state);
+  const response = await fetch(url!, { redirect: "manual" });
+  expect(response.status).toBe(302);
+
+  const callback = new URL(response.headers.get("location")!);
+  expect(`${callback.origin}${callback.pathname}`).toBe(REDIRECT_URI);
+  return { code: callback.searchParams.get("code")!, state: callback.searchParams.get("state") };
+}
+
+describe("OAuthService against the mock OAuth server", () => {
+  it("connects the channel the user authorized", async () => {
+    const state = oauthService.createState();
+    const callback = await authorize(state);
+    expect(oauthService.verifyState(state, callback.state)).toBe(true);
+
+    account = await oauthService.exchangeCode(user.id, "youtube", callback.code, REDIRECT_URI);
+
+    expect(account).toMatchObject({
+      userId: user.id,
+      platform: "youtube",
+      externalAccountId: "UC_creator",
+      displayName: "Creator Channel",
+      status: "active"
+    });
+    expect(mock.accessTokens.has(decryptToken(account.accessToken))).toBe(true);
+    expect(mock.refreshTokens.has(decryptToken(account.refreshToken!))).toBe(true);
+    expect(account.tokenExpiry!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("does not accept a code twice", async () => {
+    const { code } = await authorize(oauthService.createState());
+    await oauthService.exchangeCode(user.id, "youtube", code, REDIRECT_URI);
+
+    await expect(oauthService.exchangeCode(user.id, "youtube", code, REDIRECT_URI))
+      .rejects.toMatchObject({ response: { status: 400 } });
+  });
+
+  it("updates the account when the same channel is connected again", async () => {
+    const accounts = await storage.getConnectedAccountsByUserId(user.id);
+
+    expect(accounts).toHaveLength(1);
+    expect(accounts[0].id).toBe(account.id);
+  });
+
+  it("hands out the stored access token while it is valid", async () => {
+    account = (await storage.getConnectedAccount(account.id))!;
+
+    expect(await oauthService.getValidAccessToken(account)).toBe(decryptToken(account.accessToken));
+  });
+
+  it("refreshes an expired access token and keeps the refresh token", async () => {
+    account = (await storage.updateConnectedAccount(account.id, { tokenExpiry: new Date(Date.now() - 1000) }))!;
+
+    const accessToken = await oauthService.getValidAccessToken(account);
+
+    expect(accessToken).not.toBe(decryptToken(account.accessToken));
+    expect(mock.accessTokens.has(accessToken)).toBe(true);
+
+    const refreshed = (await storage.getConnectedAccount(account.id))!;
+    expect(decryptToken(refreshed.accessToken)).toBe(accessToken);
+    expect(decryptToken(refreshed.refreshToken!)).toBe(decryptToken(account.refreshToken!));
+    expect(refreshed.tokenExpiry!.getTime()).toBeGreaterThan(Date.now());
+    account = refreshed;
+  });
+
+  it("marks the account expired when the refresh token was revoked", async () => {
+    mock.refreshTokens.clear();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    account = (await storage.updateConnectedAccount(account.id, { tokenExpiry: new Date(Date.now() - 1000) }))!;
+
+    await expect(oauthService.getValidAccessToken(account)).rejects.toBeInstanceOf(OAuthTokenError);
+    expect(await storage.getConnectedAccount(account.id)).toMatchObject({ status: "expired" });
+  });
+});
@@ -0,0 +1,133 @@
+import express, { type Request, type Response } from "express";
+import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
+
+export interface MockOAuthServerOptions {
+  clientId?: string;
+  clientSecret?: string;
+  // Channel returned for every authorized token
+  channelId?: string;
+  channelTitle?: string;
+  // Lifetime of issued access tokens in seconds
+  expiresIn?: number;
+}
+
+interface IssuedCode {
+  redirectUri: string;
+  scope: string;
+}
+
+/**
+ * Local stand-in for an OAuth 2.0 provider (authorization code + refresh token grants).
+ * Point YOUTUBE_OAUTH_AUTHORIZE_URL, YOUTUBE_OAUTH_TOKEN_URL and YOUTUBE_API_URL
+ * (at /youtube/v3) at it to exercise the whole connect flow offline.
+ *
+ *   GET  /authorize            -> redirects straight back to redirect_uri with a code and the state
+ *   POST /token                -> exchanges a code or refresh token for an access token
+ *   GET  /youtube/v3/channels  -> the channel owning the bearer token
+ */
+export function createMockOAuthApp(options: MockOAuthServerOptions = {}) {
+  const app = express();
+  const codes = new Map<string, IssuedCode>();
+  const refreshTokens = new Set<string>();
+  const accessTokens = new Set<string>();
+  const expiresIn = options.expiresIn ?? 3600;
+
+  app.use(express.urlencoded({ extended: false }));
+
+  const token = (prefix: string) => `${prefix}_${randomBytes(16).toString('hex')}`;
+
+  // Consent is granted immediately
+  app.get('/authorize', (req: Request, res: Response) => {
+    const { client_id, redirect_uri, state, scope } = req.query as Record<string, string | undefined>;
+
+    if (!redirect_uri || (options.clientId && client_id !== options.clientId)) {
+      return res.status(400).json({ error: 'invalid_request' });
+    }
+
+    const code = token('code');
+    codes.set(code, { redirectUri: redirect_uri, scope: scope || '' });
+
+    const redirect = new URL(redirect_uri);
+    redirect.searchParams.set('code', code);
+    if (state) redirect.searchParams.set('state', state);
+    res.redirect(redirect.toString());
+  });
+
+  app.post('/token', (req: Request, res: Response) => {
+    const { grant_type, client_id, client_secret } = req.body;
+
+    if ((options.clientId && client_id !== options.clientId) ||
+        (options.clientSecret && client_secret !== options.clientSecret)) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+
+    if (grant_type === 'authorization_code') {
+      const issued = codes.get(req.body.code);
+      // Codes are single-use and bound to the redirect URI they were issued for
+      codes.delete(req.body.code);
+      if (!issued || issued.redirectUri !== req.body.redirect_uri) {
+        return res.status(400).json({ error: 'invalid_grant' });
+      }
+
+      const accessToken = token('access');
+      const refreshToken = token('refresh');
+      accessTokens.add(accessToken);
+      refreshTokens.add(refreshToken);
+
+      return res.json({
+        access_token: accessToken,
+        refresh_token: refreshToken,
+        expires_in: expiresIn,
+        scope: issued.scope,
+        token_type: 'Bearer'
+      });
+    }
+
+    if (grant_type === 'refresh_token') {
+      if (!refreshTokens.has(req.body.refresh_token)) {
+        return res.status(400).json({ error: 'invalid_grant' });
+      }
+
+      const accessToken = token('access');
+      accessTokens.add(accessToken);
+
+      // Like Google, refreshes do not rotate the refresh token
+      return res.json({
+        access_token: accessToken,
+        expires_in: expiresIn,
+        token_type: 'Bearer'
+      });
+    }
+
+    res.status(400).json({ error: 'unsupported_grant_type' });
+  });
+
+  app.get('/youtube/v3/channels', (req: Request, res: Response) => {
+    const bearer = req.get('authorization')?.replace(/^Bearer\s+/i, '');
+    if (!bearer || !accessTokens.has(bearer)) {
+      return res.status(401).json({ error: { code: 401, message: 'Invalid Credentials' } });
+    }
+
+    res.json({
+      items: [{
+        id: options.channelId || 'UC_mock_channel',
+        snippet: { title: options.channelTitle || 'Mock Channel' }
+      }]
+    });
+  });
+
+  return { app, codes, accessTokens, refreshTokens };
+}
+
+/**
+ * Starts the mock OAuth server on the given port (0 picks a free one)
+ */
+export function startMockOAuthServer(port: number = 0, options: MockOAuthServerOptions = {}): Promise<Server> {
+  const { app } = createMockOAuthApp(options);
+  const server = createServer(app);
+
+  return new Promise(resolve => {
+    server.listen(port, () => resolve(server));
+  });
+}
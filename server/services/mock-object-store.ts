@@ -0,0 +1,158 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { createServer, type Server } from "http";
+
+interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface MockObjectStoreOptions {
+  // Access key id requests must be signed with; any key is accepted when omitted
+  accessKeyId?: string;
+  // Secret the signatures are checked with; they are not checked when omitted
+  secretAccessKey?: string;
+}
+
+/**
+ * Local stand-in for an S3-compatible object store such as MinIO, answering
+ * the path-style object requests S3AssetStore makes:
+ *
+ *   PUT    /:bucket/:key  -> stores the body
+ *   GET    /:bucket/:key  -> the object, also through presigned URLs
+ *   HEAD   /:bucket/:key
+ *   DELETE /:bucket/:key
+ *
+ * Requests must carry a SigV4 Authorization header or presigned query, and
+ * presigned URLs expire. Signatures are only checked when the secret key is
+ * given, and the payload hash is taken as sent rather than recomputed. Meant
+ * for tests and offline development.
+ */
+export function createMockObjectStoreApp(options: MockObjectStoreOptions = {}) {
+  const app = express();
+  const objects = new Map<string, StoredObject>();
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const credential = req.get('authorization')?.match(/Credential=([^/]+)\//)?.[1]
+      ?? String(req.query['X-Amz-Credential'] ?? '').split('/')[0];
+
+    if (!credential || (options.accessKeyId && credential !== options.accessKeyId)) {
+      return res.status(403).type('application/xml').send('<Error><Code>AccessDenied</Code></Error>');
+    }
+
+    // Presigned URLs are valid for X-Amz-Expires seconds after X-Amz-Date
+    const signedAt = String(req.query['X-Amz-Date'] ?? '');
+    if (signedAt) {
+      const iso = signedAt.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z');
+      const expiresAt = Date.parse(iso) + Number(req.query['X-Amz-Expires']) * 1000;
+      if (!(expiresAt > Date.now())) {
+        return res.status(403).type('application/xml').send('<Error><Code>AccessDenied</Code><Message>Request has expired</Message></Error>');
+      }
+    }
+
+    if (options.secretAccessKey && !hasValidSignature(req, options.secretAccessKey)) {
+      return res.status(403).type('application/xml').send('<Error><Code>SignatureDoesNotMatch</Code></Error>');
+    }
+
+    next();
+  });
+
+  app.put('/:bucket/*', express.raw({ type: () => true, limit: '500mb' }), (req: Request, res: Response) => {
+    objects.set(req.path, {
+      body: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+      contentType: req.get('content-type') || 'application/octet-stream'
+    });
+    res.status(200).send();
+  });
+
+  // Express answers HEAD requests with this handler, without the body
+  app.get('/:bucket/*', (req: Request, res: Response) => {
+    const object = objects.get(req.path);
+    if (!object) {
+      return res.status(404).type('application/xml').send('<Error><Code>NoSuchKey</Code></Error>');
+    }
+
+    const disposition = req.query['response-content-disposition'];
+    if (typeof disposition === 'string') {
+      res.setHeader('Content-Disposition', disposition);
+    }
+    res.type(object.contentType).send(object.body);
+  });
+
+  app.delete('/:bucket/*', (req: Request, res: Response) => {
+    objects.delete(req.path);
+    res.status(204).send();
+  });
+
+  return { app, objects };
+}
+
+/**
+ * Recompute the SigV4 signature of a request, from its Authorization header or
+ * presigned query, and compare it with the one sent
+ */
+function hasValidSignature(req: Request, secretAccessKey: string): boolean {
+  const authorization = req.get('authorization');
+  const query = Object.fromEntries(
+    Object.entries(req.query).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+
+  let credential: string;
+  let signedHeaders: string;
+  let signature: string;
+  let date: string;
+  let payloadHash: string;
+  if (authorization) {
+    const fields = Object.fromEntries(
+      authorization.replace(/^AWS4-HMAC-SHA256 /, '').split(/,\s*/).map(field => field.split('=') as [string, string])
+    );
+    ({ Credential: credential, SignedHeaders: signedHeaders, Signature: signature } = fields);
+    date = req.get('x-amz-date') ?? '';
+    payloadHash = req.get('x-amz-content-sha256') ?? '';
+  } else {
+    ({ 'X-Amz-Credential': credential, 'X-Amz-SignedHeaders': signedHeaders, 'X-Amz-Signature': signature, 'X-Amz-Date': date } = query);
+    delete query['X-Amz-Signature'];
+    payloadHash = 'UNSIGNED-PAYLOAD';
+  }
+  if (!credential || !signedHeaders || !signature || !date) return false;
+
+  const scope = credential.split('/').slice(1);
+  const headerNames = signedHeaders.split(';');
+  const canonicalRequest = [
+    req.method,
+    req.originalUrl.split('?')[0],
+    Object.keys(query).sort().map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`).join('&'),
+    headerNames.map(name => `${name}:${(req.get(name) ?? '').trim()}\n`).join(''),
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', date, scope.join('/'), sha256(canonicalRequest)].join('\n');
+
+  let signingKey: Buffer = Buffer.from(`AWS4${secretAccessKey}`);
+  for (const part of scope) {
+    signingKey = createHmac('sha256', signingKey).update(part).digest();
+  }
+
+  const expected = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  return signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Starts the mock object store on the given port (0 picks a free one)
+ */
+export function startMockObjectStore(port: number = 0, options: MockObjectStoreOptions = {}): Promise<Server> {
+  const { app } = createMockObjectStoreApp(options);
+  const server = createServer(app);
+
+  return new Promise(resolve => {
+    server.listen(port, () => resolve(server));
+  });
+}
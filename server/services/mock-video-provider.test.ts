@@ -0,0 +1,123 @@
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { promises as fs } from "fs";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { InsertVideo } from "@shared/schema";
+import { storage } from "../storage";
+import { aiService } from "./ai-service";
+import { assetService } from "./asset-service";
+import { createMockVideoProviderApp, startMockVideoProvider } from "./mock-video-provider";
+import { RemoteVideoProvider } from "./remote-video-provider";
+import { videoProviderRegistry } from "./video-provider";
+
+// Generated files go to a scratch asset store rather than the one under the working directory
+const assetDir = await vi.hoisted(async () => {
+  const { mkdtemp } = await import("fs/promises");
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  const dir = await mkdtemp(join(tmpdir(), "vidiyome-assets-"));
+  process.env.ASSET_STORE_DIR = dir;
+  return dir;
+});
+
+const API_KEY = "mock-key";
+
+const video: InsertVideo = {
+  userId: 1,
+  title: "Sunrise",
+  prompt: "A sunrise over the mountains",
+  style: "cinematic",
+  duration: "30s",
+  aspectRatio: "16:9",
+  platforms: ["youtube"],
+  provider: "mock"
+};
+
+let server: Server;
+let baseUrl: string;
+let provider: RemoteVideoProvider;
+
+beforeAll(async () => {
+  server = await startMockVideoProvider(0, { apiKey: API_KEY, pollsToComplete: 2, failOnPrompt: "explode" });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  provider = new RemoteVideoProvider("mock", baseUrl, API_KEY, 10);
+  videoProviderRegistry.register(provider);
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await fs.rm(assetDir, { recursive: true, force: true });
+});
+
+describe("RemoteVideoProvider against the mock provider", () => {
+  it("runs a job from submission to its files", async () => {
+    const jobId = await provider.submit(video);
+
+    expect(await provider.getStatus(jobId)).toEqual({ status: "processing", stage: "frame", progress: 50, error: undefined });
+    expect(await provider.getStatus(jobId)).toMatchObject({ status: "completed", progress: 100 });
+
+    const result = await provider.fetchResult(jobId);
+    expect(result).toEqual({
+      videoUrl: `${baseUrl}/files/${jobId}.mp4`,
+      thumbnailUrl: `${baseUrl}/files/${jobId}-thumbnail.png`
+    });
+
+    const response = await fetch(result.videoUrl);
+    expect(response.headers.get("content-type")).toMatch(/^video\/mp4/);
+    expect(await response.text()).toBe("mock-asset");
+  });
+
+  it("reports jobs that fail", async () => {
+    const jobId = await provider.submit({ ...video, prompt: "Make it explode" });
+    await provider.getStatus(jobId);
+
+    expect(await provider.getStatus(jobId)).toMatchObject({ status: "failed", error: "Mock provider failure" });
+    await expect(provider.fetchResult(jobId)).rejects.toThrow();
+  });
+
+  it("cancels jobs", async () => {
+    const jobId = await provider.submit(video);
+    await provider.cancel(jobId);
+
+    expect(await provider.getStatus(jobId)).toMatchObject({ status: "canceled" });
+  });
+
+  it("is turned away with the wrong API key", async () => {
+    const intruder = new RemoteVideoProvider("intruder", baseUrl, "wrong-key");
+
+    await expect(intruder.submit(video)).rejects.toMatchObject({ response: { status: 401 } });
+  });
+});
+
+describe("mock provider files", () => {
+  it("answers 404 when the configured video file is missing", async () => {
+    const { app } = createMockVideoProviderApp({ videoFile: "/nonexistent/video.mp4" });
+
+    await request(app).get("/files/job.mp4").expect(404);
+    await request(app).get("/files/job-thumbnail.png").expect(200);
+  });
+});
+
+describe("AIService with the mock provider", () => {
+  it("stores the generated video, thumbnail and subtitles", async () => {
+    const onProgress = vi.fn();
+    const result = await aiService.generateVideo(video, onProgress);
+
+    expect(result).toMatchObject({ success: true, provider: "mock" });
+    expect(onProgress).toHaveBeenCalledWith("frame", 50);
+
+    const keys = [result.videoUrl, result.thumbnailUrl, result.subtitlesSrtUrl, result.subtitlesVttUrl];
+    for (const key of keys) {
+      expect(await assetService.store.exists(key!)).toBe(true);
+      expect(await storage.getAssetByKey(key!)).toMatchObject({ userId: video.userId });
+    }
+    expect(await fs.readFile(`${assetDir}/${result.videoUrl}`, "utf8")).toBe("mock-asset");
+  });
+
+  it("passes on the provider's error when the job fails", async () => {
+    const result = await aiService.generateVideo({ ...video, prompt: "Make it explode" });
+
+    expect(result).toEqual({ success: false, provider: "mock", error: "Mock provider failure" });
+  });
+});
@@ -0,0 +1,123 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import { createServer, type Server } from "http";
+import { promises as fs } from "fs";
+import { v4 as uuidv4 } from "uuid";
+
+interface MockJob {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'canceled';
+  polls: number;
+  prompt: string;
+}
+
+export interface MockVideoProviderOptions {
+  // Bearer token the server expects; any token is accepted when omitted
+  apiKey?: string;
+  // Number of status polls before a job completes
+  pollsToComplete?: number;
+  // Jobs whose prompt contains this text fail instead of completing
+  failOnPrompt?: string;
+  // File served as the generated video; a few placeholder bytes otherwise
+  videoFile?: string;
+}
+
+/**
+ * Local stand-in for an external AI video service, speaking the job API used by
+ * RemoteVideoProvider. Meant for tests and offline development.
+ */
+export function createMockVideoProviderApp(options: MockVideoProviderOptions = {}) {
+  const app = express();
+  const jobs = new Map<string, MockJob>();
+  const pollsToComplete = options.pollsToComplete ?? 3;
+
+  app.use(express.json());
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (req.path.startsWith('/files/')) return next();
+
+    const token = req.get('authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token || (options.apiKey && token !== options.apiKey)) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+    next();
+  });
+
+  app.post('/jobs', (req: Request, res: Response) => {
+    if (!req.body?.prompt) {
+      return res.status(400).json({ error: 'prompt is required' });
+    }
+
+    const job: MockJob = { id: uuidv4(), status: 'pending', polls: 0, prompt: req.body.prompt };
+    jobs.set(job.id, job);
+    res.status(201).json({ id: job.id });
+  });
+
+  app.get('/jobs/:id', (req: Request, res: Response) => {
+    const job = jobs.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+
+    // Each poll advances the job until it completes
+    if (job.status === 'pending' || job.status === 'processing') {
+      job.polls++;
+      job.status = job.polls >= pollsToComplete ? 'completed' : 'processing';
+
+      if (job.status === 'completed' && options.failOnPrompt && job.prompt.includes(options.failOnPrompt)) {
+        job.status = 'failed';
+      }
+    }
+
+    res.json({
+      status: job.status,
+      progress: job.status === 'completed' ? 100 : Math.round((job.polls / pollsToComplete) * 100),
+      error: job.status === 'failed' ? 'Mock provider failure' : undefined
+    });
+  });
+
+  app.get('/jobs/:id/result', (req: Request, res: Response) => {
+    const job = jobs.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    if (job.status !== 'completed') {
+      return res.status(409).json({ error: `Job is ${job.status}` });
+    }
+
+    const base = `${req.protocol}://${req.get('host')}`;
+    res.json({
+      videoUrl: `${base}/files/${job.id}.mp4`,
+      thumbnailUrl: `${base}/files/${job.id}-thumbnail.png`
+    });
+  });
+
+  app.delete('/jobs/:id', (req: Request, res: Response) => {
+    const job = jobs.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+
+    job.status = 'canceled';
+    res.status(204).send();
+  });
+
+  app.get('/files/:name', async (req: Request, res: Response) => {
+    if (req.params.name.endsWith('.mp4') && options.videoFile) {
+      try {
+        return res.type('video/mp4').send(await fs.readFile(options.videoFile));
+      } catch (error) {
+        const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+        return res.status(missing ? 404 : 500).json({ error: missing ? 'File not found' : 'Could not read file' });
+      }
+    }
+    res.type(req.params.name.endsWith('.png') ? 'image/png' : 'video/mp4').send(Buffer.from('mock-asset'));
+  });
+
+  return { app, jobs };
+}
+
+/**
+ * Starts the mock provider on the given port (0 picks a free one)
+ */
+export function startMockVideoProvider(port: number = 0, options: MockVideoProviderOptions = {}): Promise<Server> {
+  const { app } = createMockVideoProviderApp(options);
+  const server = createServer(app);
+
+  return new Promise(resolve => {
+    server.listen(port, () => resolve(server));
+  });
+}
@@ -0,0 +1,145 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertMusicTrack } from "@shared/schema";
+import { storage } from "../storage";
+import { runFfmpeg } from "./ffmpeg";
+import { MusicService } from "./music-service";
+
+vi.mock("./ffmpeg", () => ({ runFfmpeg: vi.fn() }));
+
+const calm: InsertMusicTrack = {
+  fileName: "calm.mp3",
+  title: "Calm",
+  artist: "Library",
+  mood: "calm",
+  bpm: 70,
+  durationSeconds: 95,
+  styles: ["cinematic", "documentary"],
+  license: "CC0 1.0",
+};
+
+const upbeat: InsertMusicTrack = {
+  ...calm,
+  fileName: "upbeat.mp3",
+  title: "Upbeat",
+  mood: "energetic",
+  bpm: 128,
+  styles: ["anime"],
+};
+
+let libraryDir: string;
+
+// Writes the manifest and a file for each track
+async function library(manifest: unknown, files: string[] = []) {
+  await fs.writeFile(path.join(libraryDir, "library.json"), JSON.stringify(manifest));
+  for (const file of files) {
+    await fs.writeFile(path.join(libraryDir, file), "audio");
+  }
+}
+
+async function loadedService(): Promise<MusicService> {
+  const service = new MusicService();
+  await service.loadLibrary();
+  return service;
+}
+
+beforeEach(async () => {
+  libraryDir = await fs.mkdtemp(path.join(tmpdir(), "vidiyome-music-"));
+  vi.stubEnv("MUSIC_LIBRARY_DIR", libraryDir);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.mocked(runFfmpeg).mockReset();
+  await fs.rm(libraryDir, { recursive: true, force: true });
+});
+
+describe("MusicService library", () => {
+  it("lists the manifest's tracks, filtered by video style", async () => {
+    await library([calm, upbeat], ["calm.mp3", "upbeat.mp3"]);
+    const service = await loadedService();
+
+    expect((await service.getTracks()).map(track => track.title)).toEqual(["Calm", "Upbeat"]);
+    expect((await service.getTracks("documentary")).map(track => track.title)).toEqual(["Calm"]);
+    expect(await service.getTracks("retro")).toEqual([]);
+  });
+
+  it("records each track once however often the library is loaded", async () => {
+    await library([calm], ["calm.mp3"]);
+    const service = await loadedService();
+    await service.loadLibrary();
+
+    expect((await storage.getMusicTracks()).filter(track => track.fileName === "calm.mp3")).toHaveLength(1);
+  });
+
+  it("leaves out tracks whose file is missing or outside the library", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await library([calm, upbeat, { ...calm, fileName: "../calm.mp3", title: "Escaped" }], ["calm.mp3"]);
+    const service = await loadedService();
+
+    expect((await service.getTracks()).map(track => track.title)).toEqual(["Calm"]);
+    expect(warn).toHaveBeenCalledWith('Music track "Upbeat" is missing its file upbeat.mp3');
+    expect(warn).toHaveBeenCalledWith('Music track "Escaped" is missing its file ../calm.mp3');
+  });
+
+  it("stops offering tracks that leave the library", async () => {
+    await library([calm, upbeat], ["calm.mp3", "upbeat.mp3"]);
+    const service = await loadedService();
+    const upbeatId = (await storage.getMusicTrackByFileName("upbeat.mp3"))!.id;
+    expect(await service.getAvailableTrack(upbeatId)).toMatchObject({ title: "Upbeat" });
+
+    await library([calm]);
+    await service.loadLibrary();
+
+    expect(await service.getAvailableTrack(upbeatId)).toBeUndefined();
+    expect(await service.getAvailableTrack(999999)).toBeUndefined();
+  });
+
+  it("keeps the loaded tracks when the manifest is invalid", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    await library([calm], ["calm.mp3"]);
+    const service = await loadedService();
+
+    await library([{ title: "No file" }]);
+    await service.loadLibrary();
+
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("Invalid music library manifest"), expect.any(String));
+    expect((await service.getTracks()).map(track => track.title)).toEqual(["Calm"]);
+  });
+
+  it("has no tracks without a manifest", async () => {
+    const service = await loadedService();
+
+    expect(await service.getTracks()).toEqual([]);
+  });
+});
+
+describe("MusicService.addMusic", () => {
+  const track = { ...calm, id: 1, licenseUrl: null, attribution: null, createdAt: new Date() };
+
+  // Arguments given to ffmpeg, and the value following one of them
+  async function mix(hasVoiceover: boolean) {
+    await new MusicService().addMusic("/videos/in.mp4", track, 30, hasVoiceover, "/videos/out.mp4");
+    const args = vi.mocked(runFfmpeg).mock.calls[0][0];
+    return (flag: string) => args[args.indexOf(flag) + 1];
+  }
+
+  it("loops or cuts the track to the video and fades it out", async () => {
+    const arg = await mix(false);
+
+    expect(arg("-stream_loop")).toBe("-1");
+    expect(arg("-t")).toBe("30");
+    expect(arg("-filter_complex")).toBe("[1:a]volume=0.35,afade=t=out:st=28:d=2[audio]");
+    expect(vi.mocked(runFfmpeg).mock.calls[0][0]).toContain(path.join(libraryDir, "calm.mp3"));
+  });
+
+  it("ducks the music under the voiceover and keeps the voice", async () => {
+    const arg = await mix(true);
+
+    expect(arg("-filter_complex")).toMatch(/\[0:a\]asplit=2\[voice\]\[key\];\[music\]\[key\]sidechaincompress=.*\[ducked\];\[ducked\]\[voice\]amix=inputs=2/);
+    expect(arg("-c:v")).toBe("copy");
+  });
+});
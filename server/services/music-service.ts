@@ -0,0 +1,148 @@
+import { MusicTrack, insertMusicTrackSchema } from "@shared/schema";
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import { storage } from "../storage";
+import { runFfmpeg } from "./ffmpeg";
+
+// Level of the music under the video; voiceover plays at full volume
+const MUSIC_VOLUME = 0.35;
+
+// The music fades out over the last seconds of the video
+const FADE_OUT_SECONDS = 2;
+
+// How the music is pushed down while the voiceover speaks
+const DUCKING = 'threshold=0.02:ratio=8:attack=20:release=400';
+
+/**
+ * Royalty-free background music from the local library: a directory
+ * (MUSIC_LIBRARY_DIR) of audio files with a library.json manifest describing
+ * each track. Tracks are looped or cut to the video's length and mixed under
+ * its audio, ducking under the voiceover when there is one.
+ */
+export class MusicService {
+  private libraryDir: string;
+  // Files listed in the manifest when it was last loaded; only these can be picked
+  private available = new Set<string>();
+
+  constructor() {
+    this.libraryDir = path.resolve(process.env.MUSIC_LIBRARY_DIR || path.join(process.cwd(), 'storage', 'music'));
+  }
+
+  /**
+   * Read the manifest and record the tracks that are new in it. Tracks are
+   * matched by file name, so this is safe to run on every startup.
+   */
+  public async loadLibrary(): Promise<void> {
+    const manifestPath = path.join(this.libraryDir, 'library.json');
+
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(await fs.readFile(manifestPath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Could not read the music library manifest ${manifestPath}:`, error);
+      }
+      return;
+    }
+
+    const parsed = z.array(insertMusicTrackSchema).safeParse(manifest);
+    if (!parsed.success) {
+      console.error(`Invalid music library manifest ${manifestPath}:`, parsed.error.message);
+      return;
+    }
+
+    const available = new Set<string>();
+    for (const entry of parsed.data) {
+      if (!(await this.fileExists(entry.fileName))) {
+        console.warn(`Music track "${entry.title}" is missing its file ${entry.fileName}`);
+        continue;
+      }
+
+      if (!(await storage.getMusicTrackByFileName(entry.fileName))) {
+        await storage.createMusicTrack(entry);
+      }
+      available.add(entry.fileName);
+    }
+
+    this.available = available;
+  }
+
+  /**
+   * Tracks that can be picked, optionally only those suiting a video style
+   */
+  public async getTracks(style?: string): Promise<MusicTrack[]> {
+    const tracks = await storage.getMusicTracks();
+    return tracks.filter(track =>
+      this.available.has(track.fileName) && (!style || track.styles.includes(style))
+    );
+  }
+
+  /**
+   * A track that can be mixed into videos, or undefined when it is unknown or
+   * has left the library
+   */
+  public async getAvailableTrack(id: number): Promise<MusicTrack | undefined> {
+    const track = await storage.getMusicTrack(id);
+    return track && this.available.has(track.fileName) ? track : undefined;
+  }
+
+  /**
+   * Write the video with the track mixed into its audio to outputPath. The
+   * track is looped or cut to durationSeconds and fades out at the end; with
+   * a voiceover, the music drops whenever the voice speaks.
+   */
+  public async addMusic(
+    videoPath: string,
+    track: MusicTrack,
+    durationSeconds: number,
+    hasVoiceover: boolean,
+    outputPath: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const fadeStart = Math.max(durationSeconds - FADE_OUT_SECONDS, 0);
+    const music = `[1:a]volume=${MUSIC_VOLUME},afade=t=out:st=${fadeStart}:d=${FADE_OUT_SECONDS}`;
+
+    // The voice is split so it both drives the ducking and is heard over the music
+    const filter = hasVoiceover
+      ? `${music}[music];[0:a]asplit=2[voice][key];[music][key]sidechaincompress=${DUCKING}[ducked];` +
+        `[ducked][voice]amix=inputs=2:duration=longest:normalize=0[audio]`
+      : `${music}[audio]`;
+
+    await runFfmpeg([
+      '-y',
+      '-i', videoPath,
+      '-stream_loop', '-1',
+      '-i', this.resolve(track.fileName),
+      '-filter_complex', filter,
+      '-map', '0:v',
+      '-map', '[audio]',
+      '-c:v', 'copy',
+      '-c:a', 'aac',
+      '-b:a', '192k',
+      '-t', String(durationSeconds),
+      '-movflags', '+faststart',
+      outputPath
+    ], undefined, undefined, signal);
+  }
+
+  private async fileExists(fileName: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(fileName));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private resolve(fileName: string): string {
+    const filePath = path.resolve(this.libraryDir, fileName);
+    if (!filePath.startsWith(this.libraryDir + path.sep)) {
+      throw new Error(`Music file is outside the library: ${fileName}`);
+    }
+    return filePath;
+  }
+}
+
+// Export singleton instance
+export const musicService = new MusicService();
@@ -0,0 +1,258 @@
+import axios from 'axios';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { ConnectedAccount } from '@shared/schema';
+import { storage } from '../storage';
+import { encryptToken, decryptToken } from './token-crypto';
+import { planLimits } from './plan-limits';
+
+interface OAuthProviderConfig {
+  authorizeUrl: string;
+  tokenUrl: string;
+  // Base URL of the platform API, used to look up the connected account
+  apiUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+}
+
+interface AccountIdentity {
+  externalAccountId: string;
+  displayName: string | null;
+}
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+// Refresh tokens this long before they actually expire
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Error raised when an account has no usable credentials for a platform
+ */
+export class OAuthTokenError extends Error {
+  constructor(public platform: string, message: string) {
+    super(message);
+    this.name = 'OAuthTokenError';
+  }
+}
+
+/**
+ * Service handling the OAuth authorization code flow and connected account tokens
+ */
+export class OAuthService {
+  /**
+   * Load OAuth endpoints and credentials for a platform from environment variables.
+   * Endpoints can be overridden to point at a local stand-in server.
+   */
+  private getProviderConfig(platform: string): OAuthProviderConfig | null {
+    switch (platform.toLowerCase()) {
+      case 'youtube':
+        if (!process.env.YOUTUBE_CLIENT_ID || !process.env.YOUTUBE_CLIENT_SECRET) return null;
+        return {
+          authorizeUrl: process.env.YOUTUBE_OAUTH_AUTHORIZE_URL || 'https://accounts.google.com/o/oauth2/auth',
+          tokenUrl: process.env.YOUTUBE_OAUTH_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+          apiUrl: process.env.YOUTUBE_API_URL || 'https://www.googleapis.com/youtube/v3',
+          clientId: process.env.YOUTUBE_CLIENT_ID,
+          clientSecret: process.env.YOUTUBE_CLIENT_SECRET,
+          // Manage account, upload videos, and read data
+          scopes: [
+            'https://www.googleapis.com/auth/youtube',
+            'https://www.googleapis.com/auth/youtube.upload',
+            'https://www.googleapis.com/auth/youtube.readonly'
+          ]
+        };
+      default:
+        return null;
+    }
+  }
+
+  public isSupported(platform: string): boolean {
+    return this.getProviderConfig(platform) !== null;
+  }
+
+  /**
+   * Generates an unguessable value for the OAuth state parameter
+   */
+  public createState(): string {
+    return randomBytes(24).toString('hex');
+  }
+
+  /**
+   * Constant-time comparison of the state returned by the provider with the one we issued
+   */
+  public verifyState(expected: string | undefined, received: unknown): boolean {
+    if (!expected || typeof received !== 'string') return false;
+
+    const expectedBuf = Buffer.from(expected);
+    const receivedBuf = Buffer.from(received);
+    return expectedBuf.length === receivedBuf.length && timingSafeEqual(expectedBuf, receivedBuf);
+  }
+
+  /**
+   * Build the provider's consent URL
+   */
+  public getAuthorizationUrl(platform: string, redirectUri: string, state: string): string | null {
+    const config = this.getProviderConfig(platform);
+    if (!config) return null;
+
+    const params = new URLSearchParams({
+      client_id: config.clientId,
+      redirect_uri: redirectUri,
+      scope: config.scopes.join(' '),
+      response_type: 'code',
+      // access_type=offline makes Google return a refresh token
+      access_type: 'offline',
+      prompt: 'consent',
+      include_granted_scopes: 'true',
+      state
+    });
+
+    return `${config.authorizeUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange an authorization code for tokens and connect the authorized
+   * platform account to the user. Reconnecting an account updates its tokens.
+   * Throws PlanLimitError when a new account would exceed the user's plan.
+   */
+  public async exchangeCode(userId: number, platform: string, code: string, redirectUri: string): Promise<ConnectedAccount> {
+    const config = this.getProviderConfig(platform);
+    if (!config) {
+      throw new OAuthTokenError(platform, `Platform ${platform} is not configured`);
+    }
+
+    const tokens = await this.requestTokens(config, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri
+    });
+
+    const identity = await this.fetchAccountIdentity(platform, config, tokens.access_token);
+    const existing = await storage.getConnectedAccountByExternalId(userId, platform, identity.externalAccountId);
+    const tokenFields = this.toTokenFields(tokens, existing);
+
+    if (existing) {
+      const updated = await storage.updateConnectedAccount(existing.id, {
+        ...tokenFields,
+        displayName: identity.displayName,
+        status: 'active'
+      });
+      return updated!;
+    }
+
+    await planLimits.assertQuota(userId, 'connectedAccounts');
+
+    return storage.createConnectedAccount({
+      userId,
+      platform,
+      externalAccountId: identity.externalAccountId,
+      displayName: identity.displayName,
+      ...tokenFields,
+      status: 'active'
+    });
+  }
+
+  /**
+   * Returns a usable access token for the account, refreshing it first if it has expired
+   */
+  public async getValidAccessToken(account: ConnectedAccount): Promise<string> {
+    const { platform } = account;
+
+    if (account.status !== 'active') {
+      throw new OAuthTokenError(platform, `${platform} account "${account.displayName || account.externalAccountId}" needs to be reconnected`);
+    }
+
+    const expiresSoon = account.tokenExpiry && account.tokenExpiry.getTime() - EXPIRY_MARGIN_MS <= Date.now();
+    if (!expiresSoon) {
+      return decryptToken(account.accessToken);
+    }
+
+    if (!account.refreshToken) {
+      await storage.updateConnectedAccount(account.id, { status: 'expired' });
+      throw new OAuthTokenError(platform, `${platform} authorization expired. Please reconnect your account.`);
+    }
+
+    const config = this.getProviderConfig(platform);
+    if (!config) {
+      throw new OAuthTokenError(platform, `Platform ${platform} is not configured`);
+    }
+
+    try {
+      const tokens = await this.requestTokens(config, {
+        grant_type: 'refresh_token',
+        refresh_token: decryptToken(account.refreshToken)
+      });
+      await storage.updateConnectedAccount(account.id, this.toTokenFields(tokens, account));
+      return tokens.access_token;
+    } catch (error) {
+      console.error(`[OAuth] Failed to refresh ${platform} token for account ${account.id}:`, error);
+      await storage.updateConnectedAccount(account.id, { status: 'expired' });
+      throw new OAuthTokenError(platform, `${platform} authorization expired. Please reconnect your account.`);
+    }
+  }
+
+  /**
+   * Look up which platform account the tokens belong to
+   */
+  private async fetchAccountIdentity(platform: string, config: OAuthProviderConfig, accessToken: string): Promise<AccountIdentity> {
+    switch (platform.toLowerCase()) {
+      case 'youtube': {
+        const { data } = await axios.get(`${config.apiUrl}/channels`, {
+          params: { part: 'snippet', mine: 'true' },
+          headers: { Authorization: `Bearer ${accessToken}` },
+          timeout: 15000
+        });
+
+        const channel = data?.items?.[0];
+        if (!channel?.id) {
+          throw new OAuthTokenError(platform, 'No YouTube channel found for this Google account');
+        }
+
+        return { externalAccountId: channel.id, displayName: channel.snippet?.title || null };
+      }
+      default:
+        throw new OAuthTokenError(platform, `Platform ${platform} is not supported`);
+    }
+  }
+
+  /**
+   * Encrypted token columns for a token response. Keeps the previous refresh
+   * token when the provider does not send a new one.
+   */
+  private toTokenFields(tokens: TokenResponse, existing?: ConnectedAccount) {
+    return {
+      accessToken: encryptToken(tokens.access_token),
+      refreshToken: tokens.refresh_token
+        ? encryptToken(tokens.refresh_token)
+        : existing?.refreshToken || null,
+      tokenExpiry: tokens.expires_in ? new Date(Date.now() + tokens.expires_in * 1000) : null,
+      scopes: tokens.scope ? tokens.scope.split(' ') : existing?.scopes || null
+    };
+  }
+
+  private async requestTokens(config: OAuthProviderConfig, params: Record<string, string>): Promise<TokenResponse> {
+    const body = new URLSearchParams({
+      ...params,
+      client_id: config.clientId,
+      client_secret: config.clientSecret
+    });
+
+    const { data } = await axios.post<TokenResponse>(config.tokenUrl, body.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 15000
+    });
+
+    if (!data?.access_token) {
+      throw new Error('Token endpoint did not return an access token');
+    }
+
+    return data;
+  }
+}
+
+// Export singleton instance
+export const oauthService = new OAuthService();
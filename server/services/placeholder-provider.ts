@@ -0,0 +1,319 @@
+import { InsertVideo } from "@shared/schema";
+import { DEFAULT_RESOLUTION, resolutionMaxEdge } from "@shared/plans";
+import { promises as fs } from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { createCanvas } from "canvas";
+import { compositionEngine, getStylePalette, parseDurationSeconds } from "./composition-engine";
+import type {
+  GenerationOptions,
+  GenerationStage,
+  ProviderResult,
+  ProviderStatus,
+  VideoGenerationProvider
+} from "./video-provider";
+
+// Share of the overall progress bar covered by each stage
+const STAGE_RANGES: Record<GenerationStage, [number, number]> = {
+  thumbnail: [0, 5],
+  frame: [5, 35],
+  encode: [35, 100]
+};
+
+interface PlaceholderJob {
+  status: ProviderStatus;
+  result?: ProviderResult;
+  controller: AbortController;
+}
+
+/**
+ * Built-in provider that renders videos locally with canvas and ffmpeg.
+ * Used when no external AI video service is configured.
+ */
+export class PlaceholderVideoProvider implements VideoGenerationProvider {
+  public readonly name = 'placeholder';
+  public readonly pollIntervalMs = 500;
+  
+  private jobs: Map<string, PlaceholderJob> = new Map();
+  
+  // Files are rendered into workDir; AIService moves them to the asset store
+  constructor(private workDir: string) {}
+  
+  public async submit(videoData: InsertVideo, options: GenerationOptions = {}): Promise<string> {
+    const id = uuidv4();
+    const job: PlaceholderJob = {
+      status: { status: 'pending', progress: 0 },
+      controller: new AbortController()
+    };
+    this.jobs.set(id, job);
+    
+    // Render in the background; callers follow along through getStatus
+    this.generateAssets(id, videoData, job, options)
+      .then(result => {
+        job.result = result;
+        job.status = { status: 'completed', stage: 'encode', progress: 100 };
+      })
+      .catch(error => {
+        if (job.status.status === 'canceled') return;
+        console.error('Error generating video assets:', error);
+        job.status = { ...job.status, status: 'failed', error: 'Failed to render video' };
+      });
+    
+    return id;
+  }
+  
+  public async getStatus(jobId: string): Promise<ProviderStatus> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return { status: 'failed', progress: 0, error: 'Unknown job' };
+    }
+    
+    // Failures are reported once, like results are handed over once
+    if (job.status.status === 'failed') {
+      this.jobs.delete(jobId);
+    }
+    return job.status;
+  }
+  
+  public async fetchResult(jobId: string): Promise<ProviderResult> {
+    const job = this.jobs.get(jobId);
+    if (!job?.result) {
+      throw new Error(`Placeholder job ${jobId} has no result`);
+    }
+    
+    // Results are handed over once, so forget the job
+    this.jobs.delete(jobId);
+    return job.result;
+  }
+  
+  public async cancel(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+    
+    job.status = { ...job.status, status: 'canceled' };
+    job.controller.abort();
+    this.jobs.delete(jobId);
+  }
+  
+  /**
+   * Generates placeholder video and thumbnail assets
+   */
+  private async generateAssets(id: string, videoData: InsertVideo, job: PlaceholderJob, { template, resolution }: GenerationOptions): Promise<ProviderResult> {
+    // Map a stage-local fraction onto the overall progress range
+    const report = (stage: GenerationStage, fraction: number) => {
+      const [start, end] = STAGE_RANGES[stage];
+      const progress = Math.round(start + (end - start) * Math.min(Math.max(fraction, 0), 1));
+      job.status = { status: 'processing', stage, progress };
+    };
+    
+    // Set up file paths
+    const videoPath = path.join(this.workDir, `${id}.mp4`);
+    const thumbnailPath = path.join(this.workDir, `${id}-thumbnail.png`);
+    
+    // Extract aspect ratio dimensions
+    const aspectRatio = videoData.aspectRatio || '16:9';
+    const [width, height] = aspectRatio.split(':').map(Number);
+    
+    // Create canvas image for thumbnail
+    report('thumbnail', 0);
+    await this.createCanvasImage(
+      thumbnailPath,
+      videoData.title || 'Untitled Video',
+      videoData.prompt || 'No description',
+      width,
+      height,
+      videoData.style || 'cinematic',
+      true // is a thumbnail
+    );
+    report('thumbnail', 1);
+    
+    // Compose the multi-scene video from the prompt
+    await compositionEngine.compose({
+      title: videoData.title || 'Untitled Video',
+      prompt: videoData.prompt || 'No description',
+      style: videoData.style || 'cinematic',
+      durationSeconds: parseDurationSeconds(videoData.duration),
+      aspectRatio,
+      maxEdge: resolutionMaxEdge(resolution ?? DEFAULT_RESOLUTION),
+      sections: template?.sections,
+      transitions: template?.transitions,
+      outputPath: videoPath,
+      signal: job.controller.signal,
+      onProgress: report
+    });
+    
+    // Paths of the rendered files
+    return {
+      videoUrl: videoPath,
+      thumbnailUrl: thumbnailPath
+    };
+  }
+  
+  /**
+   * Creates an image using canvas
+   */
+  private async createCanvasImage(
+    outputPath: string, 
+    title: string, 
+    description: string, 
+    width: number, 
+    height: number, 
+    style: string, 
+    isThumbnail: boolean = false
+  ): Promise<void> {
+    // Set dimensions
+    const canvasWidth = isThumbnail ? 640 : 1280;
+    const canvasHeight = Math.round((height / width) * canvasWidth);
+    
+    // Create canvas
+    const canvas = createCanvas(canvasWidth, canvasHeight);
+    const ctx = canvas.getContext('2d');
+    
+    // Choose color scheme based on style
+    const palette = getStylePalette(style);
+    const [bgColor1, bgColor2] = palette.background;
+    const textColor = palette.text;
+    const accentColor = palette.accent;
+    
+    // Create gradient background
+    const gradient = ctx.createLinearGradient(0, 0, canvasWidth, canvasHeight);
+    gradient.addColorStop(0, bgColor1);
+    gradient.addColorStop(1, bgColor2);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    
+    // Add pattern overlay
+    ctx.strokeStyle = accentColor;
+    ctx.globalAlpha = 0.1;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.lineTo(canvasWidth, canvasHeight);
+    ctx.stroke();
+    
+    ctx.beginPath();
+    ctx.moveTo(0, canvasHeight);
+    ctx.lineTo(canvasWidth, 0);
+    ctx.stroke();
+    ctx.globalAlpha = 1;
+    
+    // Add style badge (only for video)
+    if (!isThumbnail) {
+      const badgeWidth = 120;
+      const badgeHeight = 30;
+      const badgeX = 20;
+      const badgeY = 20;
+      
+      ctx.fillStyle = accentColor;
+      ctx.globalAlpha = 0.8;
+      
+      // Rounded rectangle for badge
+      ctx.beginPath();
+      ctx.moveTo(badgeX + badgeHeight/2, badgeY);
+      ctx.lineTo(badgeX + badgeWidth - badgeHeight/2, badgeY);
+      ctx.arc(badgeX + badgeWidth - badgeHeight/2, badgeY + badgeHeight/2, badgeHeight/2, -Math.PI/2, Math.PI/2);
+      ctx.lineTo(badgeX + badgeHeight/2, badgeY + badgeHeight);
+      ctx.arc(badgeX + badgeHeight/2, badgeY + badgeHeight/2, badgeHeight/2, Math.PI/2, -Math.PI/2);
+      ctx.fill();
+      
+      // Style text
+      ctx.fillStyle = textColor;
+      ctx.font = '16px Arial, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(style, badgeX + badgeWidth/2, badgeY + badgeHeight/2);
+      ctx.globalAlpha = 1;
+    }
+    
+    // Add title text
+    ctx.fillStyle = textColor;
+    ctx.font = `bold ${isThumbnail ? 24 : 36}px Arial, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    
+    // Truncate title if needed
+    const maxTitleLength = isThumbnail ? 30 : 40;
+    let displayTitle = title;
+    if (title.length > maxTitleLength) {
+      displayTitle = title.substring(0, maxTitleLength) + '...';
+    }
+    
+    ctx.fillText(displayTitle, canvasWidth / 2, canvasHeight * 0.3);
+    
+    // Add description (only for video frames, not thumbnail)
+    if (!isThumbnail) {
+      ctx.fillStyle = textColor;
+      ctx.globalAlpha = 0.8;
+      ctx.font = '24px Arial, sans-serif';
+      
+      // Multiline description with wrapping
+      const maxDescLength = 100;
+      let displayDesc = description;
+      if (description.length > maxDescLength) {
+        displayDesc = description.substring(0, maxDescLength) + '...';
+      }
+      
+      // Split description into lines
+      const maxLineWidth = canvasWidth * 0.8;
+      const words = displayDesc.split(' ');
+      const lines = [];
+      let currentLine = words[0];
+      
+      for (let i = 1; i < words.length; i++) {
+        const testLine = currentLine + ' ' + words[i];
+        const metrics = ctx.measureText(testLine);
+        
+        if (metrics.width > maxLineWidth) {
+          lines.push(currentLine);
+          currentLine = words[i];
+        } else {
+          currentLine = testLine;
+        }
+      }
+      lines.push(currentLine);
+      
+      // Draw each line
+      const lineHeight = 30;
+      const startY = canvasHeight * 0.5;
+      
+      lines.forEach((line, index) => {
+        ctx.fillText(line, canvasWidth / 2, startY + index * lineHeight);
+      });
+      
+      ctx.globalAlpha = 1;
+    }
+    
+    // Add play button
+    const centerX = canvasWidth / 2;
+    const centerY = canvasHeight / 2;
+    const playButtonRadius = isThumbnail ? 40 : 60;
+    
+    // Play button background
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, playButtonRadius, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Play triangle
+    ctx.fillStyle = 'white';
+    ctx.beginPath();
+    const triangleSize = isThumbnail ? 15 : 25;
+    ctx.moveTo(centerX - triangleSize/2, centerY - triangleSize);
+    ctx.lineTo(centerX - triangleSize/2, centerY + triangleSize);
+    ctx.lineTo(centerX + triangleSize, centerY);
+    ctx.closePath();
+    ctx.fill();
+    
+    // Add watermark
+    ctx.fillStyle = textColor;
+    ctx.globalAlpha = 0.6;
+    ctx.font = `${isThumbnail ? 14 : 16}px Arial, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillText('Generated by VIDIYOME', canvasWidth / 2, canvasHeight * 0.9);
+    ctx.globalAlpha = 1;
+    
+    // Write to file
+    const buffer = canvas.toBuffer('image/png');
+    await fs.writeFile(outputPath, buffer);
+  }
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PlanTier } from "@shared/plans";
+import { storage } from "../storage";
+import { PlanLimitError, planLimits } from "./plan-limits";
+
+let userCount = 0;
+
+// A user on the given tier, billed through an active subscription for paid tiers
+async function userOn(tier: PlanTier, status = "active"): Promise<number> {
+  const user = await storage.createUser({ username: `user-${++userCount}`, password: "hashed" });
+  if (tier !== "free") {
+    await storage.createSubscription({ userId: user.id, tier, price: 900, status, endDate: new Date(Date.now() + 24 * 60 * 60 * 1000) });
+  }
+  return user.id;
+}
+
+async function startGenerations(userId: number, count: number) {
+  for (let i = 0; i < count; i++) {
+    await storage.createActivity({ userId, action: "video_generation_started", details: {} });
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("PlanLimitService", () => {
+  it("allows each plan its monthly generations", async () => {
+    const free = await userOn("free");
+    const basic = await userOn("basic");
+    const premium = await userOn("premium");
+    await startGenerations(free, 4);
+    await startGenerations(basic, 5);
+    await startGenerations(premium, 40);
+
+    expect(await planLimits.checkQuota(free, "monthlyGenerations")).toBeNull();
+    expect(await planLimits.checkQuota(basic, "monthlyGenerations")).toBeNull();
+    expect(await planLimits.checkQuota(premium, "monthlyGenerations")).toBeNull();
+
+    await startGenerations(free, 1);
+    expect(await planLimits.checkQuota(free, "monthlyGenerations")).toEqual({
+      status: 402,
+      code: "monthlyGenerations",
+      message: "Your free plan includes 5 video generations this month and you have used 5. Upgrade your plan for more.",
+      tier: "free",
+      limit: 5,
+      used: 5,
+      requested: 1
+    });
+  });
+
+  it("starts counting generations again each month", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-31T23:00:00Z"));
+    const userId = await userOn("free");
+    await startGenerations(userId, 5);
+    expect(await planLimits.checkQuota(userId, "monthlyGenerations")).not.toBeNull();
+
+    vi.setSystemTime(new Date("2025-02-01T00:00:00Z"));
+    expect(await planLimits.checkQuota(userId, "monthlyGenerations")).toBeNull();
+  });
+
+  it("counts only active accounts and posts still waiting to go out", async () => {
+    const userId = await userOn("free");
+    const account = (status: string, externalAccountId: string) =>
+      storage.createConnectedAccount({ userId, platform: "youtube", externalAccountId, accessToken: "token", status });
+    await account("revoked", "UC-old");
+    const { id: accountId } = await account("active", "UC-current");
+    for (const status of ["published", "canceled", "scheduled"]) {
+      await storage.createScheduledPost({ userId, videoId: 1, accountId, platform: "youtube", scheduledAt: new Date(), status });
+    }
+
+    expect(await planLimits.getUsage(userId)).toMatchObject({ connectedAccounts: 1, scheduledPosts: 1 });
+    expect(await planLimits.checkQuota(userId, "connectedAccounts")).toMatchObject({ code: "connectedAccounts", limit: 1, used: 1 });
+    // Two more posts fit into the free plan's three, three more do not
+    expect(await planLimits.checkQuota(userId, "scheduledPosts", 2)).toBeNull();
+    expect(await planLimits.checkQuota(userId, "scheduledPosts", 3)).toMatchObject({ limit: 3, used: 1, requested: 3 });
+  });
+
+  it("limits the storage kept per plan", async () => {
+    const free = await userOn("free");
+    await storage.createAsset({ userId: free, key: `videos/${free}.mp4`, contentType: "video/mp4", sizeBytes: 1024 ** 3 });
+
+    expect(await planLimits.checkQuota(free, "storageBytes", 1)).toMatchObject({
+      message: "Your free plan includes 1 GB of storage and you have used 1 GB. Upgrade your plan for more."
+    });
+    expect(await planLimits.checkQuota(await userOn("basic"), "storageBytes", 1024 ** 3)).toBeNull();
+  });
+
+  it("drops users whose subscription has ended to the free plan", async () => {
+    const userId = await userOn("premium", "expired");
+    await startGenerations(userId, 5);
+
+    expect(await planLimits.getTier(userId)).toBe("free");
+    await expect(planLimits.assertQuota(userId, "monthlyGenerations")).rejects.toBeInstanceOf(PlanLimitError);
+  });
+
+  it("keeps videos within the plan's duration and resolution", async () => {
+    const free = await userOn("free");
+    const basic = await userOn("basic");
+
+    expect(await planLimits.checkVideo(free, { durationSeconds: 30, resolution: 720 })).toBeNull();
+    expect(await planLimits.checkVideo(free, { durationSeconds: 60, resolution: 720 }))
+      .toMatchObject({ status: 403, code: "maxDurationSeconds", limit: 30, requested: 60 });
+    expect(await planLimits.checkVideo(free, { durationSeconds: 30, resolution: 1080 }))
+      .toMatchObject({ status: 403, code: "maxResolution", limit: 720, requested: 1080 });
+    expect(await planLimits.checkVideo(basic, { durationSeconds: 90, resolution: 1080 })).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import type { RequestHandler, Response } from "express";
+import { formatBytes, getPlanLimits, isPlanTier, type PlanLimits, type PlanTier } from "@shared/plans";
+import { storage } from "../storage";
+
+// Limits that are used up, answered with 402 Payment Required
+export type PlanQuota = 'monthlyGenerations' | 'connectedAccounts' | 'scheduledPosts' | 'storageBytes';
+
+// Limits on what a plan can do at all, answered with 403 Forbidden
+export type PlanFeature = 'maxDurationSeconds' | 'maxResolution' | 'premiumTemplates';
+
+export type PlanUsage = Record<PlanQuota, number>;
+
+export interface PlanSummary {
+  tier: PlanTier;
+  limits: PlanLimits;
+  usage: PlanUsage;
+  // Month the generation quota applies to, in UTC
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/**
+ * Why a request exceeds the caller's plan, as sent to the client
+ */
+export interface PlanViolation {
+  status: 402 | 403;
+  code: PlanQuota | PlanFeature;
+  message: string;
+  tier: PlanTier;
+  limit: number | boolean | null;
+  used?: number;
+  requested?: number;
+}
+
+/**
+ * Error raised outside request handlers when an action exceeds the user's plan
+ */
+export class PlanLimitError extends Error {
+  constructor(public violation: PlanViolation) {
+    super(violation.message);
+    this.name = 'PlanLimitError';
+  }
+}
+
+const QUOTA_LABELS: Record<PlanQuota, string> = {
+  monthlyGenerations: 'video generations this month',
+  connectedAccounts: 'connected accounts',
+  scheduledPosts: 'scheduled posts',
+  storageBytes: 'of storage'
+};
+
+// How an amount of a quota is written in messages
+function formatQuota(quota: PlanQuota, amount: number): string {
+  return quota === 'storageBytes' ? formatBytes(amount) : String(amount);
+}
+
+/**
+ * Respond with a plan violation as a structured 402/403 error
+ */
+export function sendPlanViolation(res: Response, { status, ...violation }: PlanViolation) {
+  return res.status(status).json(violation);
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Works out a user's plan from their active subscription and checks requests
+ * against its quotas and features
+ */
+export class PlanLimitService {
+  public async getTier(userId: number): Promise<PlanTier> {
+    const subscription = await storage.getActiveSubscriptionByUserId(userId);
+    return subscription && isPlanTier(subscription.tier) ? subscription.tier : 'free';
+  }
+
+  public async getLimits(userId: number): Promise<PlanLimits> {
+    return getPlanLimits(await this.getTier(userId));
+  }
+
+  public async getUsage(userId: number): Promise<PlanUsage> {
+    const now = new Date();
+    const [monthlyGenerations, accounts, posts, storageBytes] = await Promise.all([
+      storage.countActivitiesSince(userId, 'video_generation_started', startOfMonth(now)),
+      storage.getConnectedAccountsByUserId(userId),
+      storage.getScheduledPostsByUserId(userId),
+      storage.getAssetUsageByUserId(userId)
+    ]);
+
+    return {
+      monthlyGenerations,
+      connectedAccounts: accounts.filter(account => account.status === 'active').length,
+      scheduledPosts: posts.filter(post => post.status === 'scheduled').length,
+      storageBytes
+    };
+  }
+
+  public async getSummary(userId: number): Promise<PlanSummary> {
+    const tier = await this.getTier(userId);
+    const periodStart = startOfMonth(new Date());
+
+    return {
+      tier,
+      limits: getPlanLimits(tier),
+      usage: await this.getUsage(userId),
+      periodStart,
+      periodEnd: new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, 1))
+    };
+  }
+
+  /**
+   * Violation if adding this many more would go over the quota, otherwise null
+   */
+  public async checkQuota(userId: number, quota: PlanQuota, adding: number = 1): Promise<PlanViolation | null> {
+    const tier = await this.getTier(userId);
+    const limit = getPlanLimits(tier)[quota];
+    if (limit === null) return null;
+
+    const used = (await this.getUsage(userId))[quota];
+    if (used + adding <= limit) return null;
+
+    return {
+      status: 402,
+      code: quota,
+      message: `Your ${tier} plan includes ${formatQuota(quota, limit)} ${QUOTA_LABELS[quota]} and you have used ${formatQuota(quota, used)}. Upgrade your plan for more.`,
+      tier,
+      limit,
+      used,
+      requested: adding
+    };
+  }
+
+  /**
+   * Throws PlanLimitError instead of returning the violation
+   */
+  public async assertQuota(userId: number, quota: PlanQuota, adding: number = 1): Promise<void> {
+    const violation = await this.checkQuota(userId, quota, adding);
+    if (violation) throw new PlanLimitError(violation);
+  }
+
+  /**
+   * Violation if the plan cannot render a video this long or at this resolution
+   */
+  public async checkVideo(userId: number, video: { durationSeconds: number; resolution: number }): Promise<PlanViolation | null> {
+    const tier = await this.getTier(userId);
+    const limits = getPlanLimits(tier);
+
+    if (video.durationSeconds > limits.maxDurationSeconds) {
+      return {
+        status: 403,
+        code: 'maxDurationSeconds',
+        message: `Your ${tier} plan allows videos of up to ${limits.maxDurationSeconds} seconds`,
+        tier,
+        limit: limits.maxDurationSeconds,
+        requested: video.durationSeconds
+      };
+    }
+
+    if (video.resolution > limits.maxResolution) {
+      return {
+        status: 403,
+        code: 'maxResolution',
+        message: `Your ${tier} plan renders videos at up to ${limits.maxResolution}p`,
+        tier,
+        limit: limits.maxResolution,
+        requested: video.resolution
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Violation for using a premium template on a plan without them
+   */
+  public async checkPremiumTemplates(userId: number): Promise<PlanViolation | null> {
+    const tier = await this.getTier(userId);
+    if (getPlanLimits(tier).premiumTemplates) return null;
+
+    return {
+      status: 403,
+      code: 'premiumTemplates',
+      message: "This premium template requires a premium subscription",
+      tier,
+      limit: false
+    };
+  }
+
+  /**
+   * Middleware rejecting the request with 402 once the quota is used up
+   */
+  public requireQuota(quota: PlanQuota): RequestHandler {
+    return (req, res, next) => {
+      this.checkQuota(req.user!.id, quota)
+        .then(violation => violation ? sendPlanViolation(res, violation) : next())
+        .catch(next);
+    };
+  }
+}
+
+// Export singleton instance
+export const planLimits = new PlanLimitService();
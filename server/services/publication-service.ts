@@ -0,0 +1,239 @@
+import { EventEmitter } from "events";
+import { ConnectedAccount, Publication, Video } from "@shared/schema";
+import { storage } from "../storage";
+import { socialMediaService } from "./social-media-service";
+
+// Attempts per publication before giving up, including the first
+const MAX_ATTEMPTS = 5;
+// Delay before the first retry; doubles on every further attempt
+const BASE_RETRY_DELAY_MS = Number(process.env.PUBLISH_RETRY_DELAY_MS) || 30 * 1000;
+// How often due retries are picked up
+const POLL_INTERVAL_MS = 15 * 1000;
+
+export interface PublishOptions {
+  // Requests repeating a key never upload to the same account twice
+  idempotencyKey: string;
+  scheduledPostId?: number;
+}
+
+const isSettled = (publication: Publication) =>
+  publication.status === 'succeeded' || publication.status === 'failed';
+
+/**
+ * Publishes videos to connected accounts and keeps a record of every attempt
+ *
+ * Each (idempotency key, account) pair gets one publication row. Failures the
+ * platform reports as retryable are retried with exponential backoff from a
+ * polling loop, so retries also survive restarts.
+ * Emits 'settled' with the publication once it has succeeded or finally failed.
+ */
+export class PublicationService extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  // Batches being published right now, so concurrent duplicates wait instead of uploading
+  private inFlight: Map<string, Promise<Publication[]>> = new Map();
+
+  /**
+   * Starts the retry loop. Uploads cut off by a restart are marked failed
+   * rather than retried, since they may already have gone out.
+   */
+  public async start(): Promise<void> {
+    if (this.timer) return;
+
+    const interrupted = await storage.getPublicationsByStatus('publishing');
+    for (const publication of interrupted) {
+      const updated = await storage.updatePublication(publication.id, {
+        status: 'failed',
+        error: 'Publishing was interrupted by a server restart'
+      });
+      if (updated) await this.settle(updated, true);
+    }
+
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Publish a video to the given accounts. Accounts that already have a
+   * publication under this idempotency key return it without publishing again.
+   */
+  public async publish(video: Video, accounts: ConnectedAccount[], options: PublishOptions): Promise<Publication[]> {
+    const batchKey = `${video.userId}:${options.idempotencyKey}`;
+
+    // A duplicate request arriving mid-publish waits for the first, then sees its records
+    const running = this.inFlight.get(batchKey);
+    if (running) {
+      await running.catch(() => undefined);
+      return this.publish(video, accounts, options);
+    }
+
+    const batch = this.publishBatch(video, accounts, options);
+    this.inFlight.set(batchKey, batch);
+
+    try {
+      return await batch;
+    } finally {
+      this.inFlight.delete(batchKey);
+    }
+  }
+
+  /**
+   * Publication records of a video for an idempotency key that already cover
+   * every account
+   */
+  public async findExisting(userId: number, videoId: number, idempotencyKey: string, accountIds: number[]): Promise<Publication[] | null> {
+    const existing = (await storage.getPublicationsByIdempotencyKey(userId, idempotencyKey))
+      .filter(p => p.videoId === videoId);
+    const found = accountIds.map(id => existing.find(p => p.accountId === id));
+    return found.every(Boolean) ? found as Publication[] : null;
+  }
+
+  /**
+   * Whether another video was published under the idempotency key. Keys are
+   * unique per account, so such a key cannot be used for this video.
+   */
+  public async isKeyUsedByOtherVideo(userId: number, videoId: number, idempotencyKey: string): Promise<boolean> {
+    const existing = await storage.getPublicationsByIdempotencyKey(userId, idempotencyKey);
+    return existing.some(p => p.videoId !== videoId);
+  }
+
+  /**
+   * Retry every publication whose backoff has elapsed. Ticks never overlap.
+   */
+  public async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const due = await storage.getDuePublicationRetries(new Date());
+      for (const publication of due) {
+        const video = await storage.getVideo(publication.videoId);
+        const account = await storage.getConnectedAccount(publication.accountId);
+
+        if (!video || !account) {
+          const updated = await storage.updatePublication(publication.id, {
+            status: 'failed',
+            nextAttemptAt: null,
+            error: !video ? 'Video no longer exists' : 'Connected account no longer exists'
+          });
+          if (updated) await this.settle(updated, true);
+          continue;
+        }
+
+        await this.attempt(publication, video, account, true);
+      }
+    } catch (error) {
+      console.error('Publication retry tick failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async publishBatch(video: Video, accounts: ConnectedAccount[], options: PublishOptions): Promise<Publication[]> {
+    const existing = await storage.getPublicationsByIdempotencyKey(video.userId, options.idempotencyKey);
+    const results: Publication[] = [];
+
+    for (const account of accounts) {
+      const prior = existing.find(p => p.videoId === video.id && p.accountId === account.id);
+      if (prior) {
+        results.push(prior);
+        continue;
+      }
+
+      const publication = await storage.createPublication({
+        userId: video.userId,
+        videoId: video.id,
+        accountId: account.id,
+        platform: account.platform,
+        idempotencyKey: options.idempotencyKey,
+        scheduledPostId: options.scheduledPostId ?? null,
+        status: 'pending',
+        attempts: 0
+      });
+
+      results.push(await this.attempt(publication, video, account, false));
+    }
+
+    return results;
+  }
+
+  private async attempt(publication: Publication, video: Video, account: ConnectedAccount, isRetry: boolean): Promise<Publication> {
+    const attempts = publication.attempts + 1;
+    await storage.updatePublication(publication.id, { status: 'publishing', attempts });
+
+    const result = await socialMediaService.publishToAccount(video, account);
+    let updated: Publication | undefined;
+
+    if (result.success) {
+      updated = await storage.updatePublication(publication.id, {
+        status: 'succeeded',
+        externalId: result.externalId || null,
+        externalUrl: result.url || null,
+        simulated: result.simulated ?? false,
+        error: null,
+        nextAttemptAt: null,
+        publishedAt: new Date()
+      });
+    } else if (result.retryable && attempts < MAX_ATTEMPTS) {
+      const delay = BASE_RETRY_DELAY_MS * 2 ** (attempts - 1);
+      updated = await storage.updatePublication(publication.id, {
+        status: 'retrying',
+        error: result.error || 'Publishing failed',
+        nextAttemptAt: new Date(Date.now() + delay)
+      });
+    } else {
+      updated = await storage.updatePublication(publication.id, {
+        status: 'failed',
+        error: result.error || 'Publishing failed',
+        nextAttemptAt: null
+      });
+    }
+
+    if (updated && isSettled(updated)) {
+      await this.settle(updated, isRetry);
+    }
+
+    return updated || publication;
+  }
+
+  /**
+   * Mark the video published once every publication in its batch succeeded.
+   * Outcomes reached in the background are recorded as activities here, since
+   * no request is around to do it.
+   */
+  private async settle(publication: Publication, inBackground: boolean): Promise<void> {
+    const batch = await storage.getPublicationsByIdempotencyKey(publication.userId, publication.idempotencyKey);
+    if (batch.every(p => p.status === 'succeeded')) {
+      await storage.updateVideo(publication.videoId, { status: 'published' });
+    }
+
+    if (inBackground && !publication.scheduledPostId) {
+      const video = await storage.getVideo(publication.videoId);
+      const title = video?.title || `video ${publication.videoId}`;
+      const succeeded = publication.status === 'succeeded';
+
+      await storage.createActivity({
+        userId: publication.userId,
+        action: succeeded ? 'video_published' : 'video_publish_failed',
+        details: {
+          videoId: publication.videoId,
+          publicationId: publication.id,
+          platform: publication.platform,
+          message: succeeded
+            ? `Published "${title}" to ${publication.platform} after ${publication.attempts} attempts`
+            : `Gave up publishing "${title}" to ${publication.platform}: ${publication.error}`
+        }
+      }).catch(error => console.error('Error recording publication activity:', error));
+    }
+
+    this.emit('settled', publication);
+  }
+}
+
+// Export singleton instance
+export const publicationService = new PublicationService();
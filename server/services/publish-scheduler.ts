@@ -0,0 +1,164 @@
+import { EventEmitter } from "events";
+import { Publication, ScheduledPost } from "@shared/schema";
+import { storage } from "../storage";
+import { publicationService } from "./publication-service";
+
+// How often the scheduler looks for posts that are due
+const POLL_INTERVAL_MS = Number(process.env.SCHEDULER_POLL_INTERVAL_MS) || 30 * 1000;
+
+// Idempotency key for a scheduled post's publication, so it is never uploaded twice
+const publicationKey = (post: ScheduledPost) => `scheduled-post-${post.id}`;
+
+/**
+ * Publishes scheduled posts when they fall due
+ *
+ * Schedules live in storage rather than in timers, so nothing is lost on
+ * restart: the scheduler polls for due posts and picks up where it left off.
+ * Uploads go through the publication service, so a post stays 'publishing'
+ * while its upload is being retried.
+ * Emits 'published' and 'failed' events with the scheduled post as payload.
+ */
+export class PublishScheduler extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor() {
+    super();
+
+    publicationService.on('settled', (publication: Publication) => {
+      if (!publication.scheduledPostId) return;
+      this.complete(publication.scheduledPostId, publication)
+        .catch(error => console.error(`Error completing scheduled post ${publication.scheduledPostId}:`, error));
+    });
+  }
+
+  /**
+   * Starts polling. Posts left mid-publish by a previous process pick up the
+   * outcome of their publication, or are marked failed when it never started.
+   */
+  public async start(): Promise<void> {
+    if (this.timer) return;
+
+    const interrupted = await storage.getScheduledPostsByStatus('publishing');
+    for (const post of interrupted) {
+      const [publication] = await storage.getPublicationsByIdempotencyKey(post.userId, publicationKey(post));
+
+      if (!publication) {
+        await this.fail(post, 'Publishing was interrupted by a server restart');
+      } else if (publication.status === 'succeeded' || publication.status === 'failed') {
+        await this.complete(post.id, publication);
+      }
+      // Otherwise the publication service is still retrying it
+    }
+
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    this.timer.unref();
+
+    // Catch up on anything that fell due while the server was down
+    this.tick();
+  }
+
+  public stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Publish every post that is due. Ticks never overlap.
+   */
+  public async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const due = await storage.getDueScheduledPosts(new Date());
+      for (const post of due) {
+        await this.publish(post);
+      }
+    } catch (error) {
+      console.error('Scheduler tick failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async publish(post: ScheduledPost): Promise<void> {
+    // Claim the post first so it is not picked up again while publishing
+    await storage.updateScheduledPost(post.id, { status: 'publishing' });
+
+    try {
+      const video = await storage.getVideo(post.videoId);
+      const account = await storage.getConnectedAccount(post.accountId);
+
+      if (!video || video.userId !== post.userId) {
+        throw new Error('Video no longer exists');
+      }
+      if (!account || account.userId !== post.userId) {
+        throw new Error('Connected account no longer exists');
+      }
+      if (account.status !== 'active') {
+        throw new Error(`${account.platform} account needs to be reconnected`);
+      }
+
+      // The outcome arrives through the 'settled' event, possibly after retries
+      await publicationService.publish(video, [account], {
+        idempotencyKey: publicationKey(post),
+        scheduledPostId: post.id
+      });
+    } catch (error) {
+      console.error(`Scheduled post ${post.id} failed:`, error);
+      await this.fail(post, error instanceof Error ? error.message : 'Publishing failed');
+    }
+  }
+
+  /**
+   * Copy a settled publication's outcome onto its scheduled post
+   */
+  private async complete(postId: number, publication: Publication): Promise<void> {
+    const post = await storage.getScheduledPost(postId);
+    if (!post || post.status !== 'publishing') return;
+
+    const succeeded = publication.status === 'succeeded';
+    const updated = await storage.updateScheduledPost(post.id, {
+      status: succeeded ? 'published' : 'failed',
+      result: {
+        publicationId: publication.id,
+        externalId: publication.externalId,
+        url: publication.externalUrl
+      },
+      error: succeeded ? null : publication.error,
+      publishedAt: succeeded ? publication.publishedAt : null
+    });
+
+    if (updated) await this.recordOutcome(updated);
+  }
+
+  private async fail(post: ScheduledPost, error: string): Promise<void> {
+    const updated = await storage.updateScheduledPost(post.id, { status: 'failed', error });
+    if (updated) await this.recordOutcome(updated);
+  }
+
+  private async recordOutcome(post: ScheduledPost): Promise<void> {
+    const video = await storage.getVideo(post.videoId);
+    const title = video?.title || `video ${post.videoId}`;
+    const published = post.status === 'published';
+
+    await storage.createActivity({
+      userId: post.userId,
+      action: published ? 'scheduled_post_published' : 'scheduled_post_failed',
+      details: {
+        videoId: post.videoId,
+        scheduledPostId: post.id,
+        platform: post.platform,
+        message: published
+          ? `Published scheduled post "${title}" to ${post.platform}`
+          : `Scheduled post "${title}" to ${post.platform} failed: ${post.error}`
+      }
+    });
+
+    this.emit(published ? 'published' : 'failed', post);
+  }
+}
+
+// Export singleton instance
+export const publishScheduler = new PublishScheduler();
@@ -0,0 +1,73 @@
+import axios, { type AxiosInstance } from "axios";
+import { InsertVideo } from "@shared/schema";
+import { DEFAULT_RESOLUTION } from "@shared/plans";
+import type {
+  GenerationOptions,
+  ProviderResult,
+  ProviderStatus,
+  VideoGenerationProvider
+} from "./video-provider";
+
+/**
+ * Provider for external video generation services exposing a simple job API:
+ *
+ *   POST   /jobs             -> { id }
+ *   GET    /jobs/:id         -> { status, progress, error? }
+ *   GET    /jobs/:id/result  -> { videoUrl, thumbnailUrl }
+ *   DELETE /jobs/:id
+ *
+ * The mock server in mock-video-provider.ts implements the same API for tests.
+ */
+export class RemoteVideoProvider implements VideoGenerationProvider {
+  public readonly pollIntervalMs: number;
+  private client: AxiosInstance;
+
+  constructor(
+    public readonly name: string,
+    baseUrl: string,
+    apiKey: string,
+    pollIntervalMs: number = 2000
+  ) {
+    this.pollIntervalMs = pollIntervalMs;
+    this.client = axios.create({
+      baseURL: baseUrl,
+      timeout: 30000,
+      headers: { Authorization: `Bearer ${apiKey}` }
+    });
+  }
+
+  public async submit(videoData: InsertVideo, { template, resolution }: GenerationOptions = {}): Promise<string> {
+    const { data } = await this.client.post('/jobs', {
+      title: videoData.title,
+      prompt: videoData.prompt,
+      style: videoData.style,
+      duration: videoData.duration,
+      aspectRatio: videoData.aspectRatio,
+      resolution: resolution ?? DEFAULT_RESOLUTION,
+      ...(template?.sections.length ? { sections: template.sections, transitions: template.transitions } : {})
+    });
+    return String(data.id);
+  }
+
+  public async getStatus(jobId: string): Promise<ProviderStatus> {
+    const { data } = await this.client.get(`/jobs/${encodeURIComponent(jobId)}`);
+    return {
+      status: data.status,
+      stage: data.status === 'processing' ? 'frame' : undefined,
+      progress: Number(data.progress) || 0,
+      error: data.error
+    };
+  }
+
+  public async fetchResult(jobId: string): Promise<ProviderResult> {
+    const { data } = await this.client.get(`/jobs/${encodeURIComponent(jobId)}/result`);
+    return {
+      videoUrl: data.videoUrl,
+      thumbnailUrl: data.thumbnailUrl
+    };
+  }
+
+  public async cancel(jobId: string): Promise<void> {
+    await this.client.delete(`/jobs/${encodeURIComponent(jobId)}`);
+  }
+}
@@ -0,0 +1,119 @@
+import { promises as fs } from "fs";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { AssetNotFoundError } from "./asset-store";
+import { startMockObjectStore } from "./mock-object-store";
+import { S3AssetStore, type S3AssetStoreOptions } from "./s3-asset-store";
+
+let server: Server;
+let options: S3AssetStoreOptions;
+let store: S3AssetStore;
+
+beforeAll(async () => {
+  server = await startMockObjectStore(0, { accessKeyId: "test-key", secretAccessKey: "test-secret" });
+  options = {
+    endpoint: `http://localhost:${(server.address() as AddressInfo).port}`,
+    bucket: "vidiyome",
+    region: "us-east-1",
+    accessKeyId: "test-key",
+    secretAccessKey: "test-secret",
+    pathStyle: true
+  };
+  store = new S3AssetStore(options);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("S3AssetStore", () => {
+  it("serves a stored file through its presigned URL", async () => {
+    await store.put("videos/sunrise.mp4", Buffer.from("video bytes"));
+
+    const url = await store.getSignedUrl("videos/sunrise.mp4");
+    expect(url).toMatch(new RegExp(`^${options.endpoint}/vidiyome/videos/sunrise\\.mp4\\?X-Amz-Algorithm=AWS4-HMAC-SHA256&`));
+
+    const response = await fetch(url);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toMatch(/^video\/mp4/);
+    expect(await response.text()).toBe("video bytes");
+  });
+
+  it("names downloads as signed", async () => {
+    await store.put("videos/download.mp4", Buffer.from("video bytes"));
+    const url = await store.getSignedUrl("videos/download.mp4", { downloadName: "My video.mp4" });
+
+    const response = await fetch(url);
+    expect(response.headers.get("content-disposition")).toBe('attachment; filename="My video.mp4"');
+
+    // The name is part of the signature
+    expect((await fetch(url.replace("My%20video", "Other"))).status).toBe(403);
+  });
+
+  it("stops serving a URL once it has expired", async () => {
+    await store.put("videos/expiring.mp4", Buffer.from("video bytes"));
+    const url = await store.getSignedUrl("videos/expiring.mp4", { expiresIn: 60 });
+    expect((await fetch(url)).status).toBe(200);
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 61 * 1000);
+
+    expect((await fetch(url)).status).toBe(403);
+  });
+
+  it("rejects URLs that were tampered with", async () => {
+    await store.put("videos/private.mp4", Buffer.from("video bytes"));
+    await store.put("videos/other.mp4", Buffer.from("other bytes"));
+    const url = await store.getSignedUrl("videos/private.mp4", { expiresIn: 60 });
+
+    // Another file, a later expiry, a changed or missing signature
+    for (const tampered of [
+      url.replace("private.mp4", "other.mp4"),
+      url.replace("X-Amz-Expires=60", "X-Amz-Expires=3600"),
+      url.replace(/X-Amz-Signature=[0-9a-f]/, "X-Amz-Signature=x"),
+      url.replace(/&X-Amz-Signature=[0-9a-f]+/, "")
+    ]) {
+      expect((await fetch(tampered)).status).toBe(403);
+    }
+  });
+
+  it("rejects requests signed with another secret", async () => {
+    const impostor = new S3AssetStore({ ...options, secretAccessKey: "guessed-secret" });
+
+    await expect(impostor.put("videos/forged.mp4", Buffer.from("bytes"))).rejects.toThrow("403");
+    expect((await fetch(await impostor.getSignedUrl("videos/sunrise.mp4"))).status).toBe(403);
+    expect(await store.exists("videos/forged.mp4")).toBe(false);
+  });
+
+  it("deletes files", async () => {
+    await store.put("videos/deleted.mp4", Buffer.from("video bytes"));
+    const url = await store.getSignedUrl("videos/deleted.mp4");
+    expect(await store.exists("videos/deleted.mp4")).toBe(true);
+
+    await store.delete("videos/deleted.mp4");
+
+    expect(await store.exists("videos/deleted.mp4")).toBe(false);
+    expect((await fetch(url)).status).toBe(404);
+    await expect(store.getLocalFile("videos/deleted.mp4")).rejects.toBeInstanceOf(AssetNotFoundError);
+  });
+
+  it("downloads files to a temporary copy", async () => {
+    await store.put("videos/render.mp4", Buffer.from("rendered"));
+
+    const file = await store.getLocalFile("videos/render.mp4");
+    expect(await fs.readFile(file.path, "utf8")).toBe("rendered");
+
+    await file.release();
+    await expect(fs.access(file.path)).rejects.toThrow();
+  });
+
+  it("keeps keys inside the bucket", async () => {
+    await expect(store.put("../escape.mp4", Buffer.from("bytes"))).rejects.toThrow("Invalid asset key");
+    await expect(store.getSignedUrl("videos/../../escape.mp4")).rejects.toThrow("Invalid asset key");
+  });
+});
@@ -0,0 +1,221 @@
+import axios, { type AxiosResponse } from "axios";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { createHash, createHmac, randomUUID } from "crypto";
+import {
+  AssetNotFoundError,
+  DEFAULT_SIGNED_URL_TTL_SECONDS,
+  assetContentType,
+  isValidAssetKey,
+  type AssetStore,
+  type LocalAssetFile,
+  type SignedUrlOptions
+} from "./asset-store";
+
+export interface S3AssetStoreOptions {
+  // Service URL, e.g. "http://localhost:9000" for MinIO
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Address the bucket in the path (endpoint/bucket/key) instead of the host name
+  pathStyle: boolean;
+}
+
+// Longest lifetime S3 accepts for a presigned URL
+const MAX_PRESIGN_SECONDS = 7 * 24 * 60 * 60;
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+/**
+ * Assets kept in a bucket of an S3-compatible object store (AWS S3, MinIO,
+ * R2, ...). Requests are signed with AWS Signature Version 4, and signed URLs
+ * are presigned GET requests straight to the store. The bucket must not allow
+ * public reads.
+ */
+export class S3AssetStore implements AssetStore {
+  public readonly name = 's3';
+
+  private endpoint: URL;
+
+  constructor(private options: S3AssetStoreOptions) {
+    this.endpoint = new URL(options.endpoint);
+  }
+
+  /**
+   * Origin the signed URLs point at, which pages must be allowed to load media from
+   */
+  public get origin(): string {
+    const url = new URL(this.endpoint.toString());
+    if (!this.options.pathStyle) {
+      url.hostname = `${this.options.bucket}.${url.hostname}`;
+    }
+    return url.origin;
+  }
+
+  public async put(key: string, body: Buffer, contentType: string = assetContentType(key)): Promise<void> {
+    await this.request('PUT', key, body, { 'content-type': contentType });
+  }
+
+  public async putFile(key: string, filePath: string, contentType?: string): Promise<void> {
+    await this.put(key, await fs.readFile(filePath), contentType);
+  }
+
+  public async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    return response.status === 200;
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  public async getLocalFile(key: string): Promise<LocalAssetFile> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      throw new AssetNotFoundError(key);
+    }
+
+    // Publishers read from disk, so download to a temporary file
+    const filePath = path.join(os.tmpdir(), `vidiyome-asset-${randomUUID()}${path.extname(key)}`);
+    await fs.writeFile(filePath, Buffer.from(response.data));
+
+    return { path: filePath, release: () => fs.rm(filePath, { force: true }) };
+  }
+
+  public async getSignedUrl(key: string, { expiresIn = DEFAULT_SIGNED_URL_TTL_SECONDS, downloadName }: SignedUrlOptions = {}): Promise<string> {
+    const url = this.objectUrl(key);
+    const now = new Date();
+    const scope = this.scope(now);
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.options.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate(now),
+      'X-Amz-Expires': String(Math.min(expiresIn, MAX_PRESIGN_SECONDS)),
+      'X-Amz-SignedHeaders': 'host'
+    };
+    if (downloadName) {
+      query['response-content-disposition'] = `attachment; filename="${downloadName.replace(/"/g, '')}"`;
+    }
+
+    const signature = this.signature(now, 'GET', url, query, { host: url.host }, UNSIGNED_PAYLOAD);
+    return `${url.origin}${url.pathname}?${canonicalQuery({ ...query, 'X-Amz-Signature': signature })}`;
+  }
+
+  /**
+   * Send a signed request for an object. 404 is returned, not thrown, so
+   * callers can tell a missing object from a failure.
+   */
+  private async request(method: string, key: string, body?: Buffer, headers: Record<string, string> = {}): Promise<AxiosResponse> {
+    const url = this.objectUrl(key);
+    const now = new Date();
+    const payloadHash = sha256(body ?? '');
+
+    const signedHeaders: Record<string, string> = {
+      ...headers,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate(now)
+    };
+    const signature = this.signature(now, method, url, {}, signedHeaders, payloadHash);
+
+    return axios.request({
+      method,
+      url: url.toString(),
+      data: body,
+      headers: {
+        ...signedHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${this.scope(now)}, ` +
+          `SignedHeaders=${Object.keys(signedHeaders).sort().join(';')}, Signature=${signature}`
+      },
+      responseType: 'arraybuffer',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      timeout: 120000,
+      validateStatus: status => status < 300 || status === 404
+    });
+  }
+
+  private objectUrl(key: string): URL {
+    if (!isValidAssetKey(key)) {
+      throw new Error(`Invalid asset key: ${key}`);
+    }
+
+    const url = new URL(this.endpoint.toString());
+    const basePath = url.pathname.replace(/\/$/, '');
+    if (this.options.pathStyle) {
+      url.pathname = `${basePath}/${this.options.bucket}/${key}`;
+    } else {
+      url.hostname = `${this.options.bucket}.${url.hostname}`;
+      url.pathname = `${basePath}/${key}`;
+    }
+    return url;
+  }
+
+  private scope(now: Date): string {
+    return `${amzDate(now).slice(0, 8)}/${this.options.region}/s3/aws4_request`;
+  }
+
+  private signature(
+    now: Date,
+    method: string,
+    url: URL,
+    query: Record<string, string>,
+    headers: Record<string, string>,
+    payloadHash: string
+  ): string {
+    const headerNames = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+    const canonicalRequest = [
+      method,
+      url.pathname.split('/').map(segment => encodeRfc3986(decodeURIComponent(segment))).join('/'),
+      canonicalQuery(query),
+      headerNames.map(name => `${name}:${lowerCased[name].trim()}\n`).join(''),
+      headerNames.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate(now),
+      this.scope(now),
+      sha256(canonicalRequest)
+    ].join('\n');
+
+    let signingKey: Buffer = Buffer.from(`AWS4${this.options.secretAccessKey}`);
+    for (const part of [amzDate(now).slice(0, 8), this.options.region, 's3', 'aws4_request']) {
+      signingKey = hmac(signingKey, part);
+    }
+
+    return hmac(signingKey, stringToSign).toString('hex');
+  }
+}
+
+// 20250131T143000Z
+function amzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// encodeURIComponent leaves !'()* alone, which SigV4 requires encoded
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+  return Object.keys(query)
+    .sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+}
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SeoFormValues } from "@shared/schema";
+import { storage } from "../storage";
+import { keywordIndex } from "./keyword-index";
+import { generateTagSuggestions, parseKeywords, scoreDescription, scoreKeywords, scoreTitle, seoService } from "./seo-service";
+
+const values = (overrides: Partial<SeoFormValues> = {}): SeoFormValues => ({
+  title: "Brewing coffee at home",
+  description: "How to brew better coffee at home: grind fresh beans, weigh the water and time the pour!",
+  keywords: "coffee, brewing",
+  platform: "youtube",
+  contentType: "video",
+  ...overrides,
+});
+
+beforeEach(() => {
+  // Indexed hashtags named after the platform they were asked for
+  vi.spyOn(keywordIndex, "suggestHashtags").mockImplementation(async (_keywords, platform) => [`${platform}pick`]);
+  vi.spyOn(keywordIndex, "query").mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("SEO scoring", () => {
+  it("parses comma separated keywords", () => {
+    expect(parseKeywords(" Coffee, , Latte Art ,brewing")).toEqual(["coffee", "latte art", "brewing"]);
+  });
+
+  it.each([
+    { _case: "an empty title", title: "", expected: 0 },
+    { _case: "a title too short to count", title: "Hi", expected: 0 },
+    { _case: "a title of good length only", title: "Morning routine", expected: 30 },
+    { _case: "a title with everything", title: "10 coffee hacks you need!", expected: 100 },
+  ])("scores $_case", ({ title, expected }) => {
+    expect(scoreTitle(title, ["coffee"])).toBe(expected);
+  });
+
+  it.each([
+    { _case: "an empty description", description: "", expected: 0 },
+    { _case: "a short description with a keyword", description: "Coffee.", expected: 15 },
+    {
+      _case: "a description with everything",
+      description: "How to brew better coffee at home: grind fresh beans, weigh the water and time the pour!",
+      expected: 100,
+    },
+  ])("scores $_case", ({ description, expected }) => {
+    expect(scoreDescription(description, ["coffee", "beans", "water", "pour"])).toBe(expected);
+  });
+
+  it.each([
+    { _case: "no keywords", keywords: [], expected: 0 },
+    { _case: "a short and a long keyword", keywords: ["tea", "coffee"], expected: 40 },
+    { _case: "many keywords with a place", keywords: ["tea", "coffee", "latte", "beans", "roast", "city"], expected: 85 },
+  ])("scores $_case", ({ keywords, expected }) => {
+    expect(scoreKeywords(keywords)).toBe(expected);
+  });
+});
+
+describe("generateTagSuggestions", () => {
+  it("puts keyword tags first, then indexed ones, without duplicates", () => {
+    const tags = generateTagSuggestions(["coffee"], "youtube", ["coffee", "pourover"]);
+
+    expect(tags.slice(0, 6)).toEqual(["coffee", "coffeetips", "coffeehacks", "coffeeideas", "bestcoffee", "pourover"]);
+    expect(new Set(tags).size).toBe(tags.length);
+  });
+
+  it("skips keywords too short to be a tag", () => {
+    expect(generateTagSuggestions(["ai", "latte art"], "youtube")[0]).toBe("latteart");
+  });
+
+  it.each([
+    { _case: "TikTok's hashtag limit", platform: "tiktok" as const, expected: 5 },
+    { _case: "15 tags on YouTube", platform: "youtube" as const, expected: 15 },
+    { _case: "15 tags on Instagram", platform: "instagram" as const, expected: 15 },
+    { _case: "15 tags for all platforms", platform: "all" as const, expected: 15 },
+  ])("keeps to $_case", ({ platform, expected }) => {
+    expect(generateTagSuggestions(["coffee", "brewing", "espresso"], platform, ["pourover"])).toHaveLength(expected);
+  });
+});
+
+describe("SeoService", () => {
+  it("takes keywords from the title when none were given", async () => {
+    const analysis = await seoService.analyze(values({ keywords: "" }));
+
+    expect(analysis.keywords).toEqual(["brewing", "coffee", "home"]);
+    expect(keywordIndex.suggestHashtags).toHaveBeenCalledWith(["brewing", "coffee", "home"], "youtube", 15);
+  });
+
+  it("averages the scores and optimizes the title and text", async () => {
+    vi.mocked(keywordIndex.query).mockResolvedValue([
+      { term: "espresso", kind: "keyword", platform: "youtube", videos: 2, posts: 2, views: 100, engagement: 5, score: 1.4 },
+    ]);
+
+    const analysis = await seoService.analyze(values());
+    const { title, description, keywords } = analysis.scores;
+
+    expect(analysis.scores.overall).toBe(Math.round((title + description + keywords) / 3));
+    expect(analysis.tips).toContain("Keywords performing well on youtube: espresso");
+    expect(analysis.optimized.title).toMatch(/^The \w+ Brewing coffee at home$/);
+    expect(analysis.optimized.text).toContain(analysis.tags.map(tag => `#${tag}`).join(" "));
+  });
+
+  it("stores metadata for each platform of the video when applied to all", async () => {
+    const video = await storage.createVideo({
+      userId: 1,
+      title: "Brewing coffee at home",
+      prompt: "Coffee brewing at home",
+      style: "cinematic",
+      duration: "30s",
+      aspectRatio: "9:16",
+      platforms: ["youtube", "tiktok"],
+    });
+    const analysis = await seoService.analyze(values({ platform: "all" }));
+
+    const saved = await seoService.applyToVideo(video, values({ platform: "all" }), analysis);
+
+    expect(saved.map(metadata => metadata.platform)).toEqual(["youtube", "tiktok"]);
+    for (const metadata of saved) {
+      expect(metadata).toMatchObject({
+        videoId: video.id,
+        userId: 1,
+        title: analysis.optimized.title,
+        description: analysis.optimized.description,
+        seoScore: analysis.scores.overall,
+      });
+    }
+    // Tags are suggested per platform, so each keeps to its own limit and indexed tags
+    const tiktok = saved.find(metadata => metadata.platform === "tiktok")!;
+    expect(tiktok.tags).toHaveLength(5);
+    expect(saved.find(metadata => metadata.platform === "youtube")!.tags).toContain("youtubepick");
+    expect(await storage.getVideoMetadataForPlatform(video.id, "instagram")).toBeUndefined();
+  });
+
+  it("replaces the metadata when applied again", async () => {
+    const video = await storage.createVideo({
+      userId: 1,
+      title: "Brewing coffee at home",
+      prompt: "Coffee brewing at home",
+      style: "cinematic",
+      duration: "30s",
+      aspectRatio: "16:9",
+      platforms: ["youtube"],
+    });
+
+    await seoService.applyToVideo(video, values(), await seoService.analyze(values()));
+    const retitled = values({ title: "The ultimate espresso guide" });
+    await seoService.applyToVideo(video, retitled, await seoService.analyze(retitled));
+
+    const metadata = await storage.getVideoMetadata(video.id);
+    expect(metadata).toHaveLength(1);
+    expect(metadata[0].title).toBe("The ultimate espresso guide");
+  });
+});
@@ -0,0 +1,287 @@
+import { SeoFormValues, Video, VideoMetadata, platformCaptionLimits } from "@shared/schema";
+import { storage } from "../storage";
+import { extractKeywords, keywordIndex } from "./keyword-index";
+
+type Platform = Exclude<SeoFormValues["platform"], "all">;
+
+const PLATFORMS: Platform[] = ["youtube", "tiktok", "instagram"];
+
+export interface SeoScores {
+  title: number;
+  description: number;
+  keywords: number;
+  overall: number;
+}
+
+export interface SeoAnalysis {
+  scores: SeoScores;
+  // Keywords the analysis used; taken from the title or description when none were given
+  keywords: string[];
+  tags: string[];
+  tips: string[];
+  optimized: {
+    title: string;
+    description: string;
+    // Title, description, sign-off and hashtags ready to paste
+    text: string;
+  };
+}
+
+// Platform best practices shown next to the scores
+const OPTIMIZATION_TIPS: Record<"title" | "description" | "keywords", Record<Platform, string[]>> = {
+  title: {
+    youtube: [
+      "Use emotional triggers in your title",
+      "Include numbers (e.g., '5 Ways to...')",
+      "Keep between 40-60 characters for optimal display",
+      "Include primary keyword near the beginning"
+    ],
+    tiktok: [
+      "Keep titles short and catchy",
+      "Use emojis strategically",
+      "Include trending hashtags",
+      "Create curiosity or FOMO"
+    ],
+    instagram: [
+      "Use relevant emojis",
+      "Keep it conversational",
+      "Ask a question to engage viewers",
+      "Include a call to action"
+    ]
+  },
+  description: {
+    youtube: [
+      "First 2-3 lines are crucial (visible before 'Show more')",
+      "Include primary and secondary keywords naturally",
+      "Add timestamps for longer videos",
+      "Include relevant links and calls to action"
+    ],
+    tiktok: [
+      "Use relevant hashtags (3-5 is optimal)",
+      "Keep it casual and conversational",
+      "Create excitement or curiosity",
+      "Include a call to action"
+    ],
+    instagram: [
+      "Use a mix of niche and broad hashtags",
+      "Break text into readable paragraphs",
+      "Include a question to encourage comments",
+      "Mention other accounts when relevant"
+    ]
+  },
+  keywords: {
+    youtube: [
+      "Include primary keyword in title, description and tags",
+      "Use a mix of broad and specific niche keywords",
+      "Research trending keywords in your niche",
+      "Include some long-tail keywords"
+    ],
+    tiktok: [
+      "Research trending hashtags",
+      "Use a mix of broad, niche, and trending tags",
+      "Don't exceed 4-5 hashtags",
+      "Include location-based tags if relevant"
+    ],
+    instagram: [
+      "Use up to 30 hashtags maximum",
+      "Mix popular, niche and branded hashtags",
+      "Research competitor hashtags",
+      "Create a branded hashtag for your content"
+    ]
+  }
+};
+
+const COMMON_TAGS = [
+  "trending", "viral", "trending2025", "fyp", "foryoupage",
+  "content", "socialmedia", "digitalmarketing", "creator"
+];
+
+const PLATFORM_TAGS: Record<Platform, string[]> = {
+  youtube: ["youtube", "youtuber", "youtubechannel", "youtubevideos", "subscribe"],
+  tiktok: ["tiktok", "tiktokviral", "tiktoktrending", "tiktoker", "tiktokmarketing"],
+  instagram: ["instagram", "instagramreels", "instagrammarketing", "igdaily", "instagrammers"]
+};
+
+const EMOTIONAL_WORDS = ["amazing", "incredible", "essential", "powerful", "ultimate"];
+
+const SIGN_OFFS: Record<SeoFormValues["platform"], string> = {
+  youtube: "▶️ Don't forget to like, subscribe, and hit the notification bell!",
+  tiktok: "📱 Follow for more content like this! #fyp #foryoupage",
+  instagram: "📷 Double tap if you found this helpful! ✨",
+  all: "👍 Follow for more content like this!"
+};
+
+// Tag suggestions returned at most
+const MAX_TAGS = 15;
+
+export function parseKeywords(input: string): string[] {
+  return input
+    .split(',')
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Hashtag suggestions (without '#') for keywords on a platform, or on every
+ * platform for 'all'. Keyword-based tags come first, then tags that performed
+ * well in the keyword index, then generic ones.
+ */
+export function generateTagSuggestions(keywords: string[], platform: SeoFormValues["platform"], indexedTags: string[] = []): string[] {
+  const keywordTags = keywords.flatMap(keyword => {
+    const tag = keyword.replace(/[^\p{L}\p{N}]/gu, '');
+    if (tag.length < 3) return [];
+    return [tag, `${tag}tips`, `${tag}hacks`, `${tag}ideas`, `best${tag}`];
+  });
+
+  const platformTags = platform === 'all'
+    ? PLATFORMS.flatMap(p => PLATFORM_TAGS[p])
+    : PLATFORM_TAGS[platform];
+
+  const limit = platform === 'all' ? MAX_TAGS : Math.min(MAX_TAGS, platformCaptionLimits[platform].hashtagLimit);
+  return Array.from(new Set([...keywordTags, ...indexedTags, ...COMMON_TAGS, ...platformTags])).slice(0, limit);
+}
+
+export function scoreTitle(title: string, keywords: string[]): number {
+  if (title.length === 0) return 0;
+
+  let score = 0;
+  if (title.length >= 5 && title.length <= 60) score += 30;
+  if (title.length >= 20 && title.length <= 50) score += 10;
+  if (title.includes("?") || title.includes("!")) score += 10;
+  if (/\d/.test(title)) score += 10; // Contains numbers
+  if (keywords.some(keyword => title.toLowerCase().includes(keyword))) score += 40;
+  return score;
+}
+
+export function scoreDescription(description: string, keywords: string[]): number {
+  if (description.length === 0) return 0;
+
+  const text = description.toLowerCase();
+  let score = 0;
+  if (description.length >= 50 && description.length <= 160) score += 30;
+  if (description.length >= 80 && description.length <= 140) score += 10;
+  if (description.includes("?") || description.includes("!")) score += 5;
+  if (/\b(how|why|what)\b/.test(text)) score += 10;
+
+  // Up to 45 points for keywords found in the description
+  const found = keywords.filter(keyword => keyword.length > 2 && text.includes(keyword)).length;
+  score += Math.min(found * 15, 45);
+  return score;
+}
+
+export function scoreKeywords(keywords: string[]): number {
+  if (keywords.length === 0) return 0;
+
+  // Up to 50 points for the number of keywords
+  let score = Math.min(keywords.length * 10, 50);
+
+  // A mix of short and long keywords
+  const hasShort = keywords.some(keyword => keyword.length >= 2 && keyword.length <= 5);
+  const hasLong = keywords.some(keyword => keyword.length > 5);
+  if (hasShort && hasLong) score += 20;
+
+  if (keywords.some(keyword => /city|town|state|country/.test(keyword))) score += 15;
+
+  return Math.min(score, 100);
+}
+
+/**
+ * Scores content for search and discoverability and suggests improvements
+ */
+export class SeoService {
+  public async analyze(values: SeoFormValues): Promise<SeoAnalysis> {
+    let keywords = parseKeywords(values.keywords);
+    if (keywords.length === 0) {
+      keywords = values.title ? extractKeywords(values.title) : extractKeywords(values.description, 5);
+    }
+
+    const scores = {
+      title: scoreTitle(values.title, keywords),
+      description: scoreDescription(values.description, keywords),
+      keywords: scoreKeywords(keywords)
+    };
+
+    const tipsPlatform: Platform = values.platform === 'all' ? 'youtube' : values.platform;
+    const tags = generateTagSuggestions(keywords, values.platform, await this.indexedTags(keywords, values.platform));
+    const topKeywords = await keywordIndex.query({ platform: tipsPlatform, kind: 'keyword', limit: 5 });
+
+    return {
+      scores: {
+        ...scores,
+        overall: Math.round((scores.title + scores.description + scores.keywords) / 3)
+      },
+      keywords,
+      tags,
+      tips: [
+        ...OPTIMIZATION_TIPS.title[tipsPlatform],
+        ...OPTIMIZATION_TIPS.description[tipsPlatform],
+        ...OPTIMIZATION_TIPS.keywords[tipsPlatform],
+        ...(topKeywords.length > 0
+          ? [`Keywords performing well on ${tipsPlatform}: ${topKeywords.map(stats => stats.term).join(', ')}`]
+          : [])
+      ],
+      optimized: this.optimize(values, tags)
+    };
+  }
+
+  /**
+   * Store the optimized title, description and per-platform tags for a video,
+   * so publishing uses them. 'all' applies to every platform the video targets.
+   */
+  public async applyToVideo(video: Video, values: SeoFormValues, analysis: SeoAnalysis): Promise<VideoMetadata[]> {
+    const platforms = values.platform === 'all'
+      ? PLATFORMS.filter(platform => !video.platforms?.length || video.platforms.includes(platform))
+      : [values.platform];
+
+    const saved: VideoMetadata[] = [];
+    for (const platform of platforms) {
+      saved.push(await storage.upsertVideoMetadata({
+        videoId: video.id,
+        userId: video.userId,
+        platform,
+        title: analysis.optimized.title,
+        description: analysis.optimized.description,
+        tags: generateTagSuggestions(analysis.keywords, platform, await this.indexedTags(analysis.keywords, platform)),
+        seoScore: analysis.scores.overall
+      }));
+    }
+
+    return saved;
+  }
+
+  /**
+   * Indexed hashtags for the keywords, from every platform for 'all'
+   */
+  private async indexedTags(keywords: string[], platform: SeoFormValues["platform"]): Promise<string[]> {
+    const platforms = platform === 'all' ? PLATFORMS : [platform];
+    const tags: string[] = [];
+    for (const p of platforms) {
+      tags.push(...await keywordIndex.suggestHashtags(keywords, p, MAX_TAGS));
+    }
+    return tags;
+  }
+
+  private optimize(values: SeoFormValues, tags: string[]): SeoAnalysis["optimized"] {
+    let title = values.title;
+
+    // Lead with an emotional word if there is none and room for one
+    const hasEmotionalWord = EMOTIONAL_WORDS.some(word => title.toLowerCase().includes(word));
+    if (!hasEmotionalWord && title.length < 45) {
+      const word = EMOTIONAL_WORDS[title.length % EMOTIONAL_WORDS.length];
+      title = `The ${word} ${title}`;
+    }
+
+    let description = values.description;
+    if (!description.includes("!") && !description.includes("?")) {
+      description += " Discover how this can transform your results!";
+    }
+
+    const hashtags = tags.map(tag => `#${tag}`).join(" ");
+    const text = [title, description, SIGN_OFFS[values.platform], hashtags].filter(Boolean).join("\n\n");
+
+    return { title, description, text };
+  }
+}
+
+// Export singleton instance
+export const seoService = new SeoService();
@@ -0,0 +1,491 @@
+import axios from 'axios';
+import { Video, ConnectedAccount } from '@shared/schema';
+import { oauthService, OAuthTokenError } from './oauth-service';
+import { decryptToken } from './token-crypto';
+import { captionService } from './caption-service';
+import { storage } from '../storage';
+import { assetService } from './asset-service';
+import { AssetNotFoundError, type LocalAssetFile } from './asset-store';
+
+interface SocialMediaAuthConfig {
+  youtube?: {
+    clientId: string;
+    clientSecret: string;
+  };
+  tiktok?: {
+    clientKey: string;
+    clientSecret: string;
+    accessToken?: string;
+  };
+  instagram?: {
+    accessToken?: string;
+  };
+}
+
+export interface PublishResult {
+  success: boolean;
+  platform: string;
+  accountId?: number;
+  accountName?: string;
+  // Post/video ID on the platform
+  externalId?: string;
+  url?: string;
+  message?: string;
+  error?: string;
+  // Whether trying again later could succeed (network/platform hiccups, not auth problems)
+  retryable?: boolean;
+  // The upload was only simulated, so externalId and url point at no post of the user's
+  simulated?: boolean;
+}
+
+// Platforms whose upload API takes a subtitle file next to the video
+const SIDECAR_SUBTITLE_PLATFORMS = ['youtube'];
+
+// What a video is published with on one platform
+export interface PublishMetadata {
+  title: string;
+  description: string;
+  tags: string[];
+}
+
+/**
+ * Service to handle social media platform integration and uploads
+ */
+export class SocialMediaService {
+  private config: SocialMediaAuthConfig = {};
+  
+  constructor() {
+    // Load configuration from environment variables
+    this.loadConfig();
+  }
+  
+  /**
+   * Load configuration from environment variables
+   */
+  private loadConfig() {
+    // YouTube configuration
+    if (process.env.YOUTUBE_CLIENT_ID && process.env.YOUTUBE_CLIENT_SECRET) {
+      this.config.youtube = {
+        clientId: process.env.YOUTUBE_CLIENT_ID,
+        clientSecret: process.env.YOUTUBE_CLIENT_SECRET
+      };
+    }
+    
+    // TikTok configuration
+    if (process.env.TIKTOK_CLIENT_KEY && process.env.TIKTOK_CLIENT_SECRET) {
+      this.config.tiktok = {
+        clientKey: process.env.TIKTOK_CLIENT_KEY,
+        clientSecret: process.env.TIKTOK_CLIENT_SECRET,
+        accessToken: process.env.TIKTOK_ACCESS_TOKEN
+      };
+    }
+    
+    // Instagram configuration
+    if (process.env.INSTAGRAM_ACCESS_TOKEN) {
+      this.config.instagram = {
+        accessToken: process.env.INSTAGRAM_ACCESS_TOKEN
+      };
+    }
+  }
+  
+  /**
+   * Public method to reload configuration from environment variables
+   * This ensures we always have the latest credentials
+   */
+  public reloadConfig() {
+    this.loadConfig();
+  }
+  
+  /**
+   * Check if a platform is configured
+   */
+  public isPlatformConfigured(platform: string): boolean {
+    switch (platform.toLowerCase()) {
+      case 'youtube':
+        return !!this.config.youtube?.clientId && !!this.config.youtube?.clientSecret;
+      case 'tiktok':
+        return !!this.config.tiktok?.clientKey && !!this.config.tiktok?.clientSecret;
+      case 'instagram':
+        return !!this.config.instagram?.accessToken;
+      default:
+        return false;
+    }
+  }
+  
+  /**
+   * Get list of configured platforms
+   */
+  public getConfiguredPlatforms(): string[] {
+    const platforms: string[] = [];
+    
+    if (this.isPlatformConfigured('youtube')) platforms.push('youtube');
+    if (this.isPlatformConfigured('tiktok')) platforms.push('tiktok');
+    if (this.isPlatformConfigured('instagram')) platforms.push('instagram');
+    
+    return platforms;
+  }
+  
+  /**
+   * Set the app-wide fallback access token for a platform
+   * Tokens for individual accounts are stored on connected accounts instead
+   */
+  public setAccessToken(platform: string, token: string) {
+    switch (platform.toLowerCase()) {
+      case 'tiktok':
+        if (this.config.tiktok) {
+          this.config.tiktok.accessToken = token;
+          console.log(`Updated access token for TikTok`);
+          return true;
+        }
+        break;
+      case 'instagram':
+        if (!this.config.instagram) this.config.instagram = {};
+        this.config.instagram.accessToken = token;
+        console.log(`Updated access token for Instagram`);
+        return true;
+    }
+    
+    console.log(`Failed to update token for platform: ${platform}`);
+    return false;
+  }
+  
+  /**
+   * Build the OAuth callback URL for a platform
+   * @param platform The platform the callback is for
+   * @param baseUrl Optional host to use for the redirect
+   */
+  public getRedirectUri(platform: string, baseUrl?: string): string {
+    // Use provided baseUrl or fallback to the most likely current host
+    const thisHost = baseUrl || 'localhost:5000';
+    const protocol = thisHost.includes('localhost') ? 'http' : 'https';
+    
+    return `${protocol}://${thisHost}/api/auth/${platform.toLowerCase()}/callback`;
+  }
+  
+  /**
+   * Get authorization URL for a platform
+   * @param platform The platform to get auth URL for
+   * @param baseUrl Optional base URL to use for redirect
+   * @param state Value echoed back to the callback to prevent CSRF (required for YouTube)
+   */
+  public getAuthorizationUrl(platform: string, baseUrl?: string, state?: string): string | null {
+    switch (platform.toLowerCase()) {
+      case 'youtube':
+        if (!this.config.youtube?.clientId || !state) return null;
+        
+        const youtubeRedirectUri = this.getRedirectUri('youtube', baseUrl);
+        console.log(`[OAuth] Using YouTube redirect URI: ${youtubeRedirectUri}`);
+        
+        return oauthService.getAuthorizationUrl('youtube', youtubeRedirectUri, state);
+        
+      case 'tiktok':
+        if (!this.config.tiktok?.clientKey) return null;
+        
+        // Use provided baseUrl or fallback to the most likely current host
+        const thisHostTikTok = baseUrl || 'localhost:5000';
+        const protocolTikTok = thisHostTikTok.includes('localhost') ? 'http' : 'https';
+        
+        // Build redirect URI 
+        const redirectUriTikTok = `${protocolTikTok}://${thisHostTikTok}/api/auth/tiktok/callback`;
+        console.log(`[OAuth] Using TikTok redirect URI: ${redirectUriTikTok}`);
+        const tiktokRedirectUri = encodeURIComponent(redirectUriTikTok);
+        
+        // TikTok scopes for video uploads and user info
+        return `https://www.tiktok.com/auth/authorize/?client_key=${this.config.tiktok.clientKey}&scope=user.info.basic,video.upload&response_type=code&redirect_uri=${tiktokRedirectUri}`;
+        
+      case 'instagram':
+        // For Instagram Business accounts through Facebook Graph API
+        if (!process.env.FACEBOOK_APP_ID) return null;
+        
+        // Use provided baseUrl or fallback to the most likely current host
+        const thisHostInsta = baseUrl || 'localhost:5000';
+        const protocolInsta = thisHostInsta.includes('localhost') ? 'http' : 'https';
+        
+        // Build redirect URI 
+        const redirectUriInsta = `${protocolInsta}://${thisHostInsta}/api/auth/instagram/callback`;
+        console.log(`[OAuth] Using Instagram redirect URI: ${redirectUriInsta}`);
+        const instagramRedirectUri = encodeURIComponent(redirectUriInsta);
+        
+        // Instagram scopes for content publishing and page access
+        const instagramScope = encodeURIComponent('instagram_content_publish,pages_read_engagement');
+        
+        return `https://www.facebook.com/v16.0/dialog/oauth?client_id=${process.env.FACEBOOK_APP_ID}&redirect_uri=${instagramRedirectUri}&scope=${instagramScope}`;
+        
+      default:
+        return null;
+    }
+  }
+  
+  /**
+   * Resolve the access token for a TikTok or Instagram account, falling back to
+   * the app-wide token from the environment when the account has none stored
+   */
+  private getAccountToken(account: ConnectedAccount, fallback?: string): string | null {
+    if (account.status !== 'active') return null;
+    if (account.accessToken) {
+      try {
+        return decryptToken(account.accessToken);
+      } catch (error) {
+        console.error(`Could not decrypt token for account ${account.id}:`, error);
+        return null;
+      }
+    }
+    return fallback || null;
+  }
+  
+  /**
+   * Publish video to YouTube
+   */
+  private async publishToYoutube(
+    video: Video,
+    videoFilePath: string,
+    account: ConnectedAccount,
+    metadata: PublishMetadata,
+    subtitleFilePath?: string
+  ): Promise<PublishResult> {
+    try {
+      // Uses the account's token, refreshing it first if it has expired
+      let accessToken: string;
+      try {
+        accessToken = await oauthService.getValidAccessToken(account);
+      } catch (error) {
+        return {
+          success: false,
+          platform: 'youtube',
+          error: error instanceof OAuthTokenError
+            ? error.message
+            : 'YouTube not authorized. Please connect your YouTube account.'
+        };
+      }
+      
+      // In a real implementation, this would use the YouTube API to upload the video
+      console.log(`[YouTube] Publishing video: ${metadata.title} to ${account.displayName || account.externalAccountId}`);
+      console.log(`[YouTube] Using video file: ${videoFilePath}`);
+      if (metadata.description) console.log(`[YouTube] Description: ${metadata.description}`);
+      if (metadata.tags.length > 0) console.log(`[YouTube] Tags: ${metadata.tags.join(', ')}`);
+      // Simulated like the video upload: the real one sends the file with
+      // captions.insert after the video, so viewers can turn the subtitles on
+      if (subtitleFilePath) console.log(`[YouTube] Simulating caption upload of subtitle file: ${subtitleFilePath}`);
+      
+      // Simulate successful upload for demo purposes
+      // In production, this would make API calls to the YouTube Data API v3
+      
+      return {
+        success: true,
+        platform: 'youtube',
+        externalId: 'dQw4w9WgXcQ',
+        url: `https://youtube.com/watch?v=dQw4w9WgXcQ`,
+        message: 'Video successfully published to YouTube',
+        simulated: true
+      };
+    } catch (error) {
+      console.error('Error publishing to YouTube:', error);
+      return {
+        success: false,
+        platform: 'youtube',
+        error: 'Failed to publish to YouTube. Please try again later.',
+        retryable: true
+      };
+    }
+  }
+  
+  /**
+   * Publish video to TikTok
+   */
+  private async publishToTikTok(video: Video, videoFilePath: string, account: ConnectedAccount, metadata: PublishMetadata): Promise<PublishResult> {
+    try {
+      const accessToken = this.getAccountToken(account, this.config.tiktok?.accessToken);
+      if (!accessToken) {
+        return {
+          success: false,
+          platform: 'tiktok',
+          error: 'TikTok not authorized. Please connect your TikTok account.'
+        };
+      }
+      
+      // In a real implementation, this would use the TikTok API to upload the video
+      console.log(`[TikTok] Publishing video: ${metadata.title} to ${account.displayName || account.externalAccountId}`);
+      console.log(`[TikTok] Using video file: ${videoFilePath}`);
+      if (metadata.description) console.log(`[TikTok] Description: ${metadata.description}`);
+      if (metadata.tags.length > 0) console.log(`[TikTok] Tags: ${metadata.tags.join(', ')}`);
+      
+      // Simulate successful upload for demo purposes
+      // In production, this would make API calls to the TikTok Developer API
+      
+      return {
+        success: true,
+        platform: 'tiktok',
+        externalId: '1234567890',
+        url: 'https://tiktok.com/@username/video/1234567890',
+        message: 'Video successfully published to TikTok',
+        simulated: true
+      };
+    } catch (error) {
+      console.error('Error publishing to TikTok:', error);
+      return {
+        success: false,
+        platform: 'tiktok',
+        error: 'Failed to publish to TikTok. Please try again later.',
+        retryable: true
+      };
+    }
+  }
+  
+  /**
+   * Publish video to Instagram
+   */
+  private async publishToInstagram(video: Video, videoFilePath: string, account: ConnectedAccount, metadata: PublishMetadata): Promise<PublishResult> {
+    try {
+      const accessToken = this.getAccountToken(account, this.config.instagram?.accessToken);
+      if (!accessToken) {
+        return {
+          success: false,
+          platform: 'instagram',
+          error: 'Instagram not authorized. Please connect your Instagram account.'
+        };
+      }
+      
+      // In a real implementation, this would use the Instagram Graph API to upload the video
+      console.log(`[Instagram] Publishing video: ${metadata.title} to ${account.displayName || account.externalAccountId}`);
+      console.log(`[Instagram] Using video file: ${videoFilePath}`);
+      if (metadata.description) console.log(`[Instagram] Description: ${metadata.description}`);
+      if (metadata.tags.length > 0) console.log(`[Instagram] Tags: ${metadata.tags.join(', ')}`);
+      
+      // Simulate successful upload for demo purposes
+      // In production, this would make API calls to the Instagram Graph API
+      
+      return {
+        success: true,
+        platform: 'instagram',
+        externalId: 'AbCdEfGh123',
+        url: 'https://instagram.com/p/AbCdEfGh123',
+        message: 'Video successfully published to Instagram',
+        simulated: true
+      };
+    } catch (error) {
+      console.error('Error publishing to Instagram:', error);
+      return {
+        success: false,
+        platform: 'instagram',
+        error: 'Failed to publish to Instagram. Please try again later.',
+        retryable: true
+      };
+    }
+  }
+  
+  /**
+   * Local copy of a generated file from the asset store, or null when it is missing
+   */
+  private async resolveAssetFile(key: string | null): Promise<LocalAssetFile | null> {
+    if (!key) return null;
+    
+    try {
+      return await assetService.store.getLocalFile(key);
+    } catch (error) {
+      if (error instanceof AssetNotFoundError) return null;
+      throw error;
+    }
+  }
+  
+  /**
+   * Title, description and tags for a platform: the video's stored SEO metadata
+   * when there is some, otherwise its title and the caption attached for the platform
+   */
+  private async resolveMetadata(video: Video, platform: string): Promise<PublishMetadata> {
+    const stored = await storage.getVideoMetadataForPlatform(video.id, platform);
+    if (stored) {
+      return { title: stored.title, description: stored.description, tags: stored.tags };
+    }
+    
+    const caption = await captionService.getCaptionForPublishing(video.id, platform);
+    return { title: video.title, description: caption ?? '', tags: [] };
+  }
+  
+  /**
+   * Publish video to a single connected account
+   */
+  public async publishToAccount(video: Video, account: ConnectedAccount): Promise<PublishResult> {
+    const accountInfo = {
+      accountId: account.id,
+      accountName: account.displayName || account.externalAccountId
+    };
+    
+    let videoFile: LocalAssetFile | null;
+    try {
+      videoFile = await this.resolveAssetFile(video.videoUrl);
+    } catch (error) {
+      console.error('Error fetching video file from the asset store:', error);
+      return {
+        success: false,
+        platform: account.platform,
+        ...accountInfo,
+        error: 'Could not read the video file',
+        retryable: true
+      };
+    }
+    
+    if (!videoFile) {
+      return {
+        success: false,
+        platform: account.platform,
+        ...accountInfo,
+        error: video.videoUrl ? 'Video file not found' : 'No video URL available'
+      };
+    }
+    
+    // Subtitles are optional; the video is published without them if they cannot be read
+    let subtitleFile: LocalAssetFile | null = null;
+    if (SIDECAR_SUBTITLE_PLATFORMS.includes(account.platform.toLowerCase())) {
+      subtitleFile = await this.resolveAssetFile(video.subtitlesSrtUrl).catch(error => {
+        console.error('Error fetching subtitle file from the asset store:', error);
+        return null;
+      });
+    }
+    
+    try {
+      const metadata = await this.resolveMetadata(video, account.platform.toLowerCase());
+      
+      let result: PublishResult;
+      
+      switch (account.platform.toLowerCase()) {
+        case 'youtube':
+          result = await this.publishToYoutube(video, videoFile.path, account, metadata, subtitleFile?.path);
+          break;
+        case 'tiktok':
+          result = await this.publishToTikTok(video, videoFile.path, account, metadata);
+          break;
+        case 'instagram':
+          result = await this.publishToInstagram(video, videoFile.path, account, metadata);
+          break;
+        default:
+          result = {
+            success: false,
+            platform: account.platform,
+            error: `Unsupported platform: ${account.platform}`
+          };
+      }
+      
+      return { ...result, ...accountInfo };
+    } finally {
+      await videoFile.release();
+      await subtitleFile?.release();
+    }
+  }
+  
+  /**
+   * Publish video to the selected connected accounts, one after another.
+   * Nothing is recorded here; use the publication service for tracked publishing.
+   */
+  public async publishVideo(video: Video, accounts: ConnectedAccount[]): Promise<PublishResult[]> {
+    const results: PublishResult[] = [];
+    
+    for (const account of accounts) {
+      results.push(await this.publishToAccount(video, account));
+    }
+    
+    return results;
+  }
+}
+
+// Export singleton instance
+export const socialMediaService = new SocialMediaService();
\ No newline at end of file
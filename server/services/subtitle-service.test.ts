@@ -0,0 +1,48 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { subtitleService } from "./subtitle-service";
+
+describe("SubtitleService", () => {
+  it("keeps apostrophes and slashes in the cues as written", () => {
+    const cues = subtitleService.buildCues("Don't stop. Left/right, it's 50/50.", 10);
+
+    expect(cues.map(cue => cue.text)).toEqual(["Don't stop.", "Left/right, it's 50/50."]);
+  });
+
+  it("splits the time by the length of each cue", () => {
+    const cues = subtitleService.buildCues("Go on. Wait for me.", 9);
+
+    expect(cues).toEqual([
+      { start: 0, end: 3, text: "Go on." },
+      { start: 3, end: 9, text: "Wait for me." }
+    ]);
+  });
+
+  it("wraps long sentences into cues of up to two lines", () => {
+    const sentence = "The sun rises over the mountains while the valley below is still asleep in the fog of the early morning.";
+    const [first, second] = subtitleService.buildCues(sentence, 10);
+
+    expect(first.text).toBe("The sun rises over the mountains while the\nvalley below is still asleep in the fog of");
+    expect(second.text).toBe("the early morning.");
+  });
+
+  it("writes SRT and WebVTT files with the text unescaped", async () => {
+    const dir = await fs.mkdtemp(path.join(tmpdir(), "vidiyome-subtitles-"));
+    try {
+      const cues = subtitleService.buildCues("Don't stop/go.", 2.5);
+      const { srtPath, vttPath } = await subtitleService.writeFiles(cues, path.join(dir, "video"));
+
+      expect(await fs.readFile(srtPath, "utf8")).toBe("1\n00:00:00,000 --> 00:00:02,500\nDon't stop/go.\n");
+      expect(await fs.readFile(vttPath, "utf8")).toBe("WEBVTT\n\n00:00:00.000 --> 00:00:02.500\nDon't stop/go.\n");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("has no cues for an empty script or video", () => {
+    expect(subtitleService.buildCues("", 10)).toEqual([]);
+    expect(subtitleService.buildCues("Hello.", 0)).toEqual([]);
+  });
+});
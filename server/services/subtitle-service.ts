@@ -0,0 +1,156 @@
+import { promises as fs } from "fs";
+import { runFfmpeg } from "./ffmpeg";
+import { getStylePalette, getVideoDimensions, splitSentences } from "./composition-engine";
+
+// One timed subtitle, in seconds from the start of the video
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  // Up to MAX_CUE_LINES lines separated by "\n"
+  text: string;
+}
+
+// Longest subtitle line, and lines shown at once, as broadcasters recommend
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_LINES = 2;
+
+// Burned-in fonts per video style, close to the look of the rendered frames
+const SUBTITLE_FONTS: Record<string, { name: string; bold: boolean }> = {
+  cinematic: { name: 'Georgia', bold: false },
+  elegant: { name: 'Georgia', bold: false },
+  futuristic: { name: 'Courier New', bold: true },
+  animated: { name: 'Arial', bold: true },
+  energetic: { name: 'Arial', bold: true },
+  vibrant: { name: 'Arial', bold: true },
+};
+const DEFAULT_FONT = { name: 'Arial', bold: false };
+
+/**
+ * Turns a narration script into timed subtitles, writes them as SRT and
+ * WebVTT files and draws them into videos for viewers who watch muted
+ */
+export class SubtitleService {
+  /**
+   * Break a script into cues spread over the given number of seconds. Each
+   * cue is shown for a share of the time matching its share of the text, the
+   * way speech takes longer for longer sentences.
+   */
+  public buildCues(script: string, totalSeconds: number): SubtitleCue[] {
+    const texts = splitSentences(script).flatMap(sentence => this.wrap(sentence));
+    const totalChars = texts.reduce((total, text) => total + text.length, 0);
+    if (totalChars === 0 || totalSeconds <= 0) return [];
+
+    let start = 0;
+    return texts.map(text => {
+      const end = start + (totalSeconds * text.length) / totalChars;
+      const cue = { start, end, text };
+      start = end;
+      return cue;
+    });
+  }
+
+  public toSrt(cues: SubtitleCue[]): string {
+    return cues
+      .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+      .join('\n');
+  }
+
+  public toVtt(cues: SubtitleCue[]): string {
+    return ['WEBVTT\n', ...cues.map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)]
+      .join('\n');
+  }
+
+  /**
+   * Write the cues as <basePath>.srt and <basePath>.vtt and return both paths
+   */
+  public async writeFiles(cues: SubtitleCue[], basePath: string): Promise<{ srtPath: string; vttPath: string }> {
+    const srtPath = `${basePath}.srt`;
+    const vttPath = `${basePath}.vtt`;
+    await fs.writeFile(srtPath, this.toSrt(cues));
+    await fs.writeFile(vttPath, this.toVtt(cues));
+    return { srtPath, vttPath };
+  }
+
+  /**
+   * Write the video with the subtitles of an SRT file drawn into the picture,
+   * in the font and colours of the video's style. The audio is copied as is.
+   */
+  public async burnIn(
+    videoPath: string,
+    srtPath: string,
+    style: string,
+    aspectRatio: string,
+    outputPath: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const palette = getStylePalette(style);
+    const font = SUBTITLE_FONTS[style] ?? DEFAULT_FONT;
+    const { width, height } = getVideoDimensions(aspectRatio);
+
+    // Sizes are relative to a 288 pixel high frame, so portrait text is kept narrower
+    const forceStyle = [
+      `FontName=${font.name}`,
+      `Bold=${font.bold ? 1 : 0}`,
+      `FontSize=${height > width ? 11 : 16}`,
+      `PrimaryColour=${assColour(palette.text)}`,
+      `OutlineColour=${assColour(palette.background[0])}`,
+      'BorderStyle=1',
+      'Outline=2',
+      'Shadow=0',
+      'MarginV=20'
+    ].join(',');
+
+    await runFfmpeg([
+      '-y',
+      '-i', videoPath,
+      // Scratch paths are made of UUIDs, so need no escaping inside the quotes
+      '-vf', `subtitles='${srtPath}':force_style='${forceStyle}'`,
+      '-c:v', 'libx264',
+      '-preset', 'veryfast',
+      '-pix_fmt', 'yuv420p',
+      '-c:a', 'copy',
+      '-movflags', '+faststart',
+      outputPath
+    ], undefined, undefined, signal);
+  }
+
+  /**
+   * Lines of at most MAX_LINE_CHARS, grouped into cue texts of up to MAX_CUE_LINES lines
+   */
+  private wrap(sentence: string): string[] {
+    const lines: string[] = [];
+    for (const word of sentence.split(/\s+/).filter(Boolean)) {
+      const last = lines[lines.length - 1];
+      if (last !== undefined && last.length + 1 + word.length <= MAX_LINE_CHARS) {
+        lines[lines.length - 1] = `${last} ${word}`;
+      } else {
+        lines.push(word);
+      }
+    }
+
+    const texts: string[] = [];
+    for (let i = 0; i < lines.length; i += MAX_CUE_LINES) {
+      texts.push(lines.slice(i, i + MAX_CUE_LINES).join('\n'));
+    }
+    return texts;
+  }
+}
+
+// 00:01:02,500 for SRT, 00:01:02.500 for WebVTT
+function formatTimestamp(seconds: number, separator: string): string {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor(totalMs / 60_000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+// "#rrggbb" as an ASS colour, &H00BBGGRR
+function assColour(hex: string): string {
+  const [, r, g, b] = hex.match(/^#(..)(..)(..)$/) ?? ['', 'ff', 'ff', 'ff'];
+  return `&H00${b}${g}${r}`.toUpperCase();
+}
+
+// Export singleton instance
+export const subtitleService = new SubtitleService();
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import type { CaptionLanguage } from "@shared/caption-text";
+import { PHRASE_BANKS } from "./caption-phrases";
+import type { CaptionRequest } from "./text-provider";
+import { TemplateCaptionProvider } from "./template-caption-provider";
+
+// A topic written in each language, so topic hashtags follow its conventions
+const TOPICS: Record<CaptionLanguage, string> = {
+  english: "Morning coffee rituals",
+  spanish: "Café de la mañana",
+  french: "Café du matin",
+  german: "Kaffee in der Küche",
+  portuguese: "Café da manhã",
+  japanese: "朝のコーヒー ｶﾌｪ",
+  korean: "아침 커피",
+};
+
+const provider = new TemplateCaptionProvider();
+
+function request(language: CaptionLanguage, overrides: Partial<CaptionRequest> = {}): CaptionRequest {
+  return {
+    topic: TOPICS[language],
+    mood: "inspirational",
+    platform: "instagram",
+    includeHashtags: true,
+    includeEmojis: true,
+    toneStrength: 4,
+    imageDescription: "Steam rising from a cup",
+    callToAction: "follow",
+    language,
+    captionLength: "long",
+    seed: 42,
+    ...overrides,
+  };
+}
+
+describe("TemplateCaptionProvider", () => {
+  it.each(Object.keys(PHRASE_BANKS) as CaptionLanguage[])("writes the same %s captions for a fixed seed", async (language) => {
+    const captions = await provider.generateCaptions(request(language), 2);
+
+    expect(captions).toMatchSnapshot();
+    expect(await provider.generateCaptions(request(language), 2)).toEqual(captions);
+  });
+
+  it("words variants and seeds differently", async () => {
+    const [first, second] = await provider.generateCaptions(request("english"), 2);
+    const [reseeded] = await provider.generateCaptions(request("english", { seed: 7 }), 1);
+
+    expect(second.text).not.toBe(first.text);
+    expect(reseeded.text).not.toBe(first.text);
+  });
+
+  it("leaves out emojis and hashtags when asked", async () => {
+    const [caption] = await provider.generateCaptions(
+      request("korean", { includeEmojis: false, includeHashtags: false }),
+      1
+    );
+
+    expect(caption.text).not.toMatch(/\p{Extended_Pictographic}/u);
+    expect(caption.hashtags).toEqual([]);
+  });
+});
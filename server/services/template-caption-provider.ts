@@ -0,0 +1,145 @@
+import { CaptionFormValues, platformCaptionLimits } from "@shared/schema";
+import { countCaptionCharacters, toHashtag } from "@shared/caption-text";
+import type { CaptionRequest, GeneratedCaption, TextGenerationProvider } from "./text-provider";
+import { PHRASE_BANKS, type CallToAction, type Mood, type PhraseBank } from "./caption-phrases";
+
+const MOOD_EMOJIS: Record<Mood, string[]> = {
+  professional: ["💼", "📊", "📈", "🔍", "📱", "💻", "🤝", "📝"],
+  casual: ["😊", "👋", "✌️", "🙌", "👍", "💕", "✨", "🎉"],
+  funny: ["😂", "🤣", "😜", "🤪", "😆", "😅", "👻", "🙃"],
+  inspirational: ["✨", "💫", "🌟", "🔥", "💪", "🙏", "❤️", "🌈"],
+  serious: ["📢", "❗", "⚠️", "🔴", "📌", "🧐", "🤔", "💭"],
+};
+
+const CTA_EMOJIS: Record<CallToAction | "custom", string> = {
+  follow: "👉",
+  like: "❤️",
+  comment: "💬",
+  share: "🔄",
+  visit: "🔗",
+  custom: "✨",
+};
+
+const PLATFORM_HASHTAGS: Record<CaptionFormValues["platform"], string[]> = {
+  instagram: ["instagram", "instagramreels", "instagramstories", "igdaily"],
+  tiktok: ["tiktok", "tiktokviral", "fyp", "foryoupage"],
+  youtube: ["youtube", "youtuber", "youtubechannel", "video"],
+};
+
+/**
+ * Small seeded PRNG (mulberry32) so the same request always reads the same
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Offline provider that assembles captions from phrase templates. Output is
+ * fully determined by the request and its seed, which keeps it testable.
+ */
+export class TemplateCaptionProvider implements TextGenerationProvider {
+  public readonly name = 'template';
+
+  public async generateCaptions(request: CaptionRequest, count: number): Promise<GeneratedCaption[]> {
+    const captions: GeneratedCaption[] = [];
+
+    for (let variant = 0; variant < count; variant++) {
+      const { seed, ...options } = request;
+      const random = createRandom(hashString(JSON.stringify(options)) ^ Math.imul(seed + variant + 1, 0x9e3779b1));
+      captions.push(this.compose(request, random));
+    }
+
+    return captions;
+  }
+
+  private compose(request: CaptionRequest, random: () => number): GeneratedCaption {
+    const bank = PHRASE_BANKS[request.language];
+    const fill = (phrase: string) => phrase.replace(/\{topic\}/g, request.topic);
+    const emojis = (count: number) => request.includeEmojis
+      ? ' ' + Array.from({ length: count }, () => pick(MOOD_EMOJIS[request.mood], random)).join('')
+      : '';
+
+    // Stronger tone means more emojis and extra emphasis
+    const emojiCount = Math.ceil(request.toneStrength / 2);
+    let opening = fill(pick(bank.intros[request.mood], random));
+    if (request.toneStrength >= 4) {
+      opening += bank.sentenceSeparator + pick(bank.emphasis[request.mood], random);
+    }
+
+    const paragraphs = [opening + emojis(emojiCount)];
+
+    const detailCount = { short: 0, medium: 1, long: 2 }[request.captionLength];
+    const details = shuffle(bank.details[request.mood], random).slice(0, detailCount).map(fill);
+    if (details.length > 0) {
+      paragraphs.push(details.join(bank.sentenceSeparator));
+    }
+
+    if (request.imageDescription?.trim() && request.captionLength !== 'short') {
+      paragraphs.push(`${request.includeEmojis ? '📷' : bank.imagePrefix} ${request.imageDescription.trim()}`);
+    }
+
+    const cta = this.callToAction(request, bank);
+    if (cta) {
+      paragraphs.push(cta);
+    }
+
+    return {
+      text: paragraphs.join('\n\n'),
+      hashtags: request.includeHashtags ? this.hashtags(request, bank, random) : []
+    };
+  }
+
+  private callToAction(request: CaptionRequest, bank: PhraseBank): string | null {
+    if (request.callToAction === 'none') return null;
+
+    const text = request.callToAction === 'custom'
+      ? request.customCta?.trim()
+      : bank.callsToAction[request.callToAction].replace(/\{topic\}/g, request.topic);
+    if (!text) return null;
+
+    return request.includeEmojis ? `${text} ${CTA_EMOJIS[request.callToAction]}` : text;
+  }
+
+  private hashtags(request: CaptionRequest, bank: PhraseBank, random: () => number): string[] {
+    // One CJK character carries a word's worth of meaning, so shorter tags are fine there
+    const minLength = request.language === 'japanese' || request.language === 'korean' ? 2 : 3;
+    const topicTags = request.topic
+      .split(/\s+/)
+      .map(word => toHashtag(word, request.language))
+      .filter(tag => countCaptionCharacters(tag) >= minLength);
+
+    // Topic tags always lead; the generic ones fill the remaining slots
+    const generic = shuffle([...bank.baseHashtags, ...PLATFORM_HASHTAGS[request.platform]], random);
+    const unique = Array.from(new Set([...topicTags, ...generic]));
+
+    return unique.slice(0, platformCaptionLimits[request.platform].hashtagLimit);
+  }
+}
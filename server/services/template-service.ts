@@ -0,0 +1,176 @@
+import {
+  InsertTemplate,
+  Template,
+  TemplateVersion,
+  TemplateVisibility,
+  User,
+  Video,
+  parseTemplateSettings
+} from "@shared/schema";
+import { storage } from "../storage";
+import { planLimits } from "./plan-limits";
+
+/**
+ * A template as one user sees it. Other users see the latest published version,
+ * while the owner works on the draft in the templates table.
+ */
+export type TemplateView = Template & {
+  // Published version shown, or null for the owner's draft and catalog templates
+  version: number | null;
+  // Premium template the user's subscription does not include
+  locked: boolean;
+};
+
+export interface SaveFromVideoOptions {
+  title: string;
+  description: string;
+  category: string;
+  visibility: TemplateVisibility;
+}
+
+/**
+ * Ownership, sharing, versioning and premium access for templates.
+ * Templates without an owner form the built-in catalog and are read-only.
+ */
+export class TemplateService {
+  /**
+   * Every template the user can see
+   */
+  public async listForUser(user: User): Promise<TemplateView[]> {
+    const templates = await storage.getAllTemplates();
+    const canUsePremium = await this.canUsePremium(user.id);
+
+    const views: TemplateView[] = [];
+    for (const template of templates) {
+      const view = await this.toView(template, user, canUsePremium);
+      if (view) views.push(view);
+    }
+    return views;
+  }
+
+  /**
+   * A template as the user sees it, or undefined if it is not visible to them
+   */
+  public async getForUser(id: number, user: User): Promise<TemplateView | undefined> {
+    const template = await storage.getTemplate(id);
+    if (!template) return undefined;
+
+    return this.toView(template, user, await this.canUsePremium(user.id));
+  }
+
+  public canEdit(template: Template, user: User): boolean {
+    return template.ownerId !== null && template.ownerId === user.id;
+  }
+
+  /**
+   * Whether the user's plan includes premium templates
+   */
+  public async canUsePremium(userId: number): Promise<boolean> {
+    return (await planLimits.getLimits(userId)).premiumTemplates;
+  }
+
+  /**
+   * Create an unpublished template owned by the user. Only the catalog has
+   * premium or popular templates.
+   */
+  public async create(user: User, data: InsertTemplate): Promise<Template> {
+    return storage.createTemplate({
+      ...data,
+      ownerId: user.id,
+      teamId: user.teamId,
+      visibility: data.visibility || 'private',
+      premium: false,
+      popular: false,
+      currentVersion: 0
+    });
+  }
+
+  /**
+   * Publish the owner's draft as the next version
+   */
+  public async publish(template: Template, user: User, changelog: string): Promise<TemplateVersion> {
+    const version = await storage.createTemplateVersion({
+      templateId: template.id,
+      version: template.currentVersion + 1,
+      title: template.title,
+      description: template.description,
+      category: template.category,
+      style: template.style,
+      duration: template.duration,
+      thumbUrl: template.thumbUrl,
+      previewUrl: template.previewUrl,
+      premium: template.premium ?? false,
+      settings: template.settings,
+      changelog,
+      publishedBy: user.id
+    });
+
+    await storage.updateTemplate(template.id, { currentVersion: version.version });
+    return version;
+  }
+
+  /**
+   * New draft template with a video's style, duration, aspect ratio and prompt.
+   * Scenes and transitions carry over when the video was itself made from a template.
+   */
+  public async saveFromVideo(user: User, video: Video, options: SaveFromVideoOptions): Promise<Template> {
+    let sections: string[] = [];
+    let transitions: string[] = [];
+    if (video.templateId) {
+      const source = await this.getForUser(video.templateId, user);
+      if (source) {
+        ({ sections, transitions } = parseTemplateSettings(source));
+      }
+    }
+
+    return this.create(user, {
+      title: options.title,
+      description: options.description,
+      category: options.category,
+      visibility: options.visibility,
+      style: video.style,
+      duration: video.duration,
+      thumbUrl: video.thumbnailUrl,
+      settings: {
+        sections,
+        transitions,
+        aspectRatio: video.aspectRatio,
+        prompt: video.prompt
+      }
+    });
+  }
+
+  private async toView(template: Template, user: User, canUsePremium: boolean): Promise<TemplateView | undefined> {
+    const locked = !!template.premium && !canUsePremium;
+
+    // Catalog templates and the owner's own drafts are shown as they are
+    if (template.ownerId === null || template.ownerId === user.id) {
+      return { ...template, version: null, locked };
+    }
+
+    const shared = template.visibility === 'public' ||
+      (template.visibility === 'team' && template.teamId !== null && template.teamId === user.teamId);
+    if (!shared || template.currentVersion === 0) return undefined;
+
+    const published = await storage.getTemplateVersion(template.id, template.currentVersion);
+    if (!published) return undefined;
+
+    return {
+      ...template,
+      title: published.title,
+      description: published.description,
+      category: published.category,
+      style: published.style,
+      duration: published.duration,
+      thumbUrl: published.thumbUrl,
+      previewUrl: published.previewUrl,
+      premium: published.premium,
+      settings: published.settings,
+      version: published.version,
+      locked: published.premium && !canUsePremium
+    };
+  }
+}
+
+// Export singleton instance
+export const templateService = new TemplateService();
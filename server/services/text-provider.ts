@@ -0,0 +1,50 @@
+import { CaptionFormValues } from "@shared/schema";
+
+export interface CaptionRequest extends CaptionFormValues {
+  // Variations of the same request get different wording; the same seed gives the same captions
+  seed: number;
+}
+
+export interface GeneratedCaption {
+  // Caption body without hashtags
+  text: string;
+  // Hashtags without the leading '#'
+  hashtags: string[];
+}
+
+/**
+ * Contract for anything that can write captions. Providers should respect the
+ * request options as best they can; CaptionService still enforces platform
+ * limits on whatever comes back.
+ */
+export interface TextGenerationProvider {
+  readonly name: string;
+
+  generateCaptions(request: CaptionRequest, count: number): Promise<GeneratedCaption[]>;
+}
+
+/**
+ * Registry of text generation providers keyed by name
+ */
+export class TextProviderRegistry {
+  private providers: Map<string, TextGenerationProvider> = new Map();
+
+  public register(provider: TextGenerationProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  public get(name: string): TextGenerationProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  public has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  public list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+// Export singleton instance
+export const textProviderRegistry = new TextProviderRegistry();
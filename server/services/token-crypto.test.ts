@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { decryptToken, encryptToken } from "./token-crypto";
+
+// Flips one bit of the base64 field at the given index of an encrypted token
+function tamper(encrypted: string, field: number): string {
+  const parts = encrypted.split(":");
+  const bytes = Buffer.from(parts[field], "base64");
+  bytes[0] ^= 1;
+  parts[field] = bytes.toString("base64");
+  return parts.join(":");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe("token encryption", () => {
+  it("decrypts what it encrypted", () => {
+    for (const token of ["ya29.a0AfH6SMB-token", "", "tøkén with ünicode 🎬"]) {
+      expect(decryptToken(encryptToken(token))).toBe(token);
+    }
+  });
+
+  it("never stores a token in the clear or the same way twice", () => {
+    const first = encryptToken("ya29.secret");
+    const second = encryptToken("ya29.secret");
+
+    expect(first).toMatch(/^v1:/);
+    expect(first).not.toContain("ya29.secret");
+    expect(first).not.toBe(second);
+  });
+
+  it("rejects tokens whose ciphertext, tag or IV was changed", () => {
+    const encrypted = encryptToken("ya29.secret");
+
+    // Fields are version, IV, authentication tag and ciphertext
+    for (const field of [1, 2, 3]) {
+      expect(() => decryptToken(tamper(encrypted, field))).toThrow();
+    }
+  });
+
+  it("rejects values in an unknown format", () => {
+    const [, iv, tag, ciphertext] = encryptToken("ya29.secret").split(":");
+
+    expect(() => decryptToken("ya29.plaintext")).toThrow("Unrecognized token format");
+    expect(() => decryptToken(["v2", iv, tag, ciphertext].join(":"))).toThrow("Unrecognized token format");
+  });
+
+  it("cannot decrypt tokens encrypted under another key", async () => {
+    const encrypted = encryptToken("ya29.secret");
+
+    vi.stubEnv("TOKEN_ENCRYPTION_KEY", "11".repeat(32));
+    vi.resetModules();
+    const rotated = await import("./token-crypto");
+
+    expect(() => rotated.decryptToken(encrypted)).toThrow();
+    expect(rotated.decryptToken(rotated.encryptToken("ya29.secret"))).toBe("ya29.secret");
+  });
+
+  it("refuses a configured key that is not 32 bytes", async () => {
+    vi.stubEnv("TOKEN_ENCRYPTION_KEY", Buffer.alloc(16).toString("base64"));
+    vi.resetModules();
+    const misconfigured = await import("./token-crypto");
+
+    expect(() => misconfigured.encryptToken("ya29.secret")).toThrow("TOKEN_ENCRYPTION_KEY must be 32 bytes");
+  });
+});
@@ -0,0 +1,60 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+// Prefix identifying the encryption scheme, so it can be rotated later
+const VERSION = 'v1';
+
+let cachedKey: Buffer | null = null;
+
+/**
+ * 32-byte key for AES-256-GCM. Uses TOKEN_ENCRYPTION_KEY (hex or base64) when set,
+ * otherwise derives one from the session secret.
+ */
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const configured = process.env.TOKEN_ENCRYPTION_KEY;
+  if (configured) {
+    const key = /^[0-9a-f]{64}$/i.test(configured)
+      ? Buffer.from(configured, 'hex')
+      : Buffer.from(configured, 'base64');
+    if (key.length !== 32) {
+      throw new Error('TOKEN_ENCRYPTION_KEY must be 32 bytes (hex or base64 encoded)');
+    }
+    cachedKey = key;
+  } else {
+    const secret = process.env.SESSION_SECRET || 'vidiyome-secret-key';
+    cachedKey = scryptSync(secret, 'vidiyome-token-encryption', 32);
+  }
+
+  return cachedKey;
+}
+
+/**
+ * Encrypts a platform token for storage
+ */
+export function encryptToken(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypts a token produced by encryptToken
+ */
+export function decryptToken(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized token format');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+}
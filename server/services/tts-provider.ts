@@ -0,0 +1,47 @@
+import type { VoiceoverSettings } from "@shared/schema";
+
+export interface SpeechRequest {
+  // Plain text to speak
+  text: string;
+  voice: VoiceoverSettings["voice"];
+  // Relative speaking rate, 1 being normal speech
+  speed: number;
+  language: VoiceoverSettings["language"];
+}
+
+/**
+ * Contract for anything that can turn text into speech. Providers write the
+ * audio to the given path in any format ffmpeg reads (WAV is the safe choice)
+ * and resolve with its length in seconds, which subtitles are timed against.
+ */
+export interface TtsProvider {
+  readonly name: string;
+
+  synthesize(request: SpeechRequest, outputPath: string, signal?: AbortSignal): Promise<number>;
+}
+
+/**
+ * Registry of text-to-speech providers keyed by name
+ */
+export class TtsProviderRegistry {
+  private providers: Map<string, TtsProvider> = new Map();
+
+  public register(provider: TtsProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  public get(name: string): TtsProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  public has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  public list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+// Export singleton instance
+export const ttsProviderRegistry = new TtsProviderRegistry();
@@ -0,0 +1,73 @@
+import { InsertVideo, TemplateSettings } from "@shared/schema";
+import type { VideoResolution } from "@shared/plans";
+
+// Pipeline stages reported while a video is being generated
+export type GenerationStage = 'frame' | 'thumbnail' | 'encode';
+
+export type ProviderJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'canceled';
+
+export interface ProviderStatus {
+  status: ProviderJobStatus;
+  stage?: GenerationStage;
+  // Overall progress of the provider job (0-100)
+  progress: number;
+  error?: string;
+}
+
+/**
+ * How a video should be rendered beyond its own settings
+ */
+export interface GenerationOptions {
+  // Settings of the template the video is based on; the video has one scene per section
+  template?: TemplateSettings;
+  // Short edge of the output in pixels, e.g. 1080
+  resolution?: VideoResolution;
+}
+
+// URLs of the rendered files, or local paths for providers rendering on this server
+export interface ProviderResult {
+  videoUrl: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * Contract for anything that can turn video settings into a rendered video.
+ * Providers are asynchronous: a job is submitted, polled until it finishes,
+ * and its result fetched afterwards.
+ */
+export interface VideoGenerationProvider {
+  readonly name: string;
+  // How often AIService should poll getStatus while a job runs
+  readonly pollIntervalMs: number;
+
+  submit(videoData: InsertVideo, options?: GenerationOptions): Promise<string>;
+  getStatus(jobId: string): Promise<ProviderStatus>;
+  fetchResult(jobId: string): Promise<ProviderResult>;
+  cancel(jobId: string): Promise<void>;
+}
+
+/**
+ * Registry of video generation providers keyed by name
+ */
+export class VideoProviderRegistry {
+  private providers: Map<string, VideoGenerationProvider> = new Map();
+
+  public register(provider: VideoGenerationProvider) {
+    this.providers.set(provider.name, provider);
+  }
+
+  public get(name: string): VideoGenerationProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  public has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  public list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+// Export singleton instance
+export const videoProviderRegistry = new VideoProviderRegistry();
@@ -0,0 +1,104 @@
+import { Video, VideoRender, videoRenderSettings } from "@shared/schema";
+import { DEFAULT_RESOLUTION } from "@shared/plans";
+import { storage } from "../storage";
+import type { GenerationJob } from "./generation-queue";
+
+export type VideoRenderSetting = typeof videoRenderSettings[number];
+
+export interface RenderDifference {
+  setting: VideoRenderSetting;
+  a: VideoRender[VideoRenderSetting];
+  b: VideoRender[VideoRenderSetting];
+}
+
+export interface RenderComparison {
+  a: VideoRender;
+  b: VideoRender;
+  // Settings the two renders were made with differently
+  differences: RenderDifference[];
+}
+
+/**
+ * Keeps every render of a video, so regenerating never loses an earlier
+ * version and any of them can be made current again
+ */
+export class VideoRenderService {
+  /**
+   * Store the output of a completed generation job. Regenerations of a saved
+   * video are attached to it and become its current render.
+   */
+  public async record(job: GenerationJob): Promise<VideoRender> {
+    const render = await storage.createVideoRender({
+      userId: job.userId,
+      prompt: job.videoData.prompt,
+      style: job.videoData.style,
+      duration: job.videoData.duration,
+      aspectRatio: job.videoData.aspectRatio,
+      resolution: job.options.resolution ?? DEFAULT_RESOLUTION,
+      provider: job.provider!,
+      templateId: job.videoData.templateId ?? null,
+      templateVersion: job.videoData.templateVersion ?? null,
+      voiceover: job.videoData.voiceover ?? null,
+      burnSubtitles: job.videoData.burnSubtitles ?? false,
+      musicTrackId: job.videoData.musicTrackId ?? null,
+      videoUrl: job.videoUrl!,
+      thumbnailUrl: job.thumbnailUrl!,
+      subtitlesSrtUrl: job.subtitlesSrtUrl ?? null,
+      subtitlesVttUrl: job.subtitlesVttUrl ?? null
+    });
+
+    if (!job.videoId) return render;
+
+    const video = await storage.getVideo(job.videoId);
+    if (!video) return render;
+
+    const attached = await this.attach(render, video);
+    await this.promote(video, attached);
+    return attached;
+  }
+
+  /**
+   * Make a render of an unsaved video the next version of a video
+   */
+  public async attach(render: VideoRender, video: Video): Promise<VideoRender> {
+    const [latest] = await storage.getVideoRendersByVideoId(video.id);
+    const version = (latest?.version ?? 0) + 1;
+    return (await storage.updateVideoRender(render.id, { videoId: video.id, version })) || render;
+  }
+
+  /**
+   * Point the video at a render's assets and settings
+   */
+  public async promote(video: Video, render: VideoRender): Promise<Video> {
+    const updated = await storage.updateVideo(video.id, {
+      prompt: render.prompt,
+      style: render.style,
+      duration: render.duration,
+      aspectRatio: render.aspectRatio,
+      provider: render.provider,
+      templateId: render.templateId,
+      templateVersion: render.templateVersion,
+      voiceover: render.voiceover,
+      burnSubtitles: render.burnSubtitles,
+      musicTrackId: render.musicTrackId,
+      videoUrl: render.videoUrl,
+      thumbnailUrl: render.thumbnailUrl,
+      subtitlesSrtUrl: render.subtitlesSrtUrl,
+      subtitlesVttUrl: render.subtitlesVttUrl,
+      currentRenderId: render.id
+    });
+    return updated || video;
+  }
+
+  public compare(a: VideoRender, b: VideoRender): RenderComparison {
+    // Voiceover settings are objects, so settings are compared by value
+    const differences = videoRenderSettings
+      .filter(setting => JSON.stringify(a[setting]) !== JSON.stringify(b[setting]))
+      .map(setting => ({ setting, a: a[setting], b: b[setting] }));
+
+    return { a, b, differences };
+  }
+}
+
+// Export singleton instance
+export const videoRenderService = new VideoRenderService();
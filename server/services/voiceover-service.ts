@@ -0,0 +1,106 @@
+import { InsertVideo, VoiceoverSettings } from "@shared/schema";
+import { promises as fs } from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { runFfmpeg } from "./ffmpeg";
+import { parseDurationSeconds, splitSentences } from "./composition-engine";
+import { ttsProviderRegistry } from "./tts-provider";
+import { EspeakTtsProvider } from "./espeak-tts-provider";
+
+// Words a voice speaks per second at speed 1
+const WORDS_PER_SECOND = 2.5;
+
+/**
+ * Narrates generated videos: writes a script when the user did not, speaks it
+ * with the configured text-to-speech provider and mixes the speech into the
+ * video's MP4 as its audio track
+ */
+export class VoiceoverService {
+  private defaultProvider: string;
+
+  constructor() {
+    // Offline espeak engine, always registered
+    ttsProviderRegistry.register(new EspeakTtsProvider());
+
+    this.defaultProvider = process.env.TTS_PROVIDER || 'espeak';
+  }
+
+  /**
+   * Text to speak over a video: the user's script, or the title followed by
+   * as many prompt sentences as fit in the video at the chosen speed
+   */
+  public getScript(videoData: InsertVideo, settings: Pick<VoiceoverSettings, 'script' | 'speed'>): string {
+    if (settings.script) return settings.script;
+
+    const wordBudget = Math.max(1, Math.floor(parseDurationSeconds(videoData.duration) * WORDS_PER_SECOND * settings.speed));
+    // End the title with a full stop so the voice pauses before the prompt
+    const title = /[.!?]$/.test(videoData.title) ? videoData.title : `${videoData.title}.`;
+    const lines = [title];
+    let words = countWords(title);
+
+    for (const sentence of splitSentences(videoData.prompt)) {
+      const sentenceWords = countWords(sentence);
+      if (words + sentenceWords > wordBudget) break;
+      lines.push(sentence);
+      words += sentenceWords;
+    }
+
+    return lines.join(' ');
+  }
+
+  /**
+   * Speak a script and write the video with that audio track to outputPath.
+   * Speech longer than the video is cut off; shorter speech is followed by
+   * silence. Resolves with the length of the speech in seconds.
+   */
+  public async addVoiceover(
+    videoPath: string,
+    script: string,
+    settings: VoiceoverSettings,
+    outputPath: string,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const provider = ttsProviderRegistry.get(this.defaultProvider);
+    if (!provider) {
+      throw new Error(`Unknown TTS provider: ${this.defaultProvider}`);
+    }
+
+    const audioPath = path.join(path.dirname(outputPath), `${uuidv4()}-voiceover.wav`);
+
+    try {
+      const speechSeconds = await provider.synthesize({
+        text: script,
+        voice: settings.voice,
+        speed: settings.speed,
+        language: settings.language
+      }, audioPath, signal);
+
+      // The picture is copied as is; only the audio is encoded
+      await runFfmpeg([
+        '-y',
+        '-i', videoPath,
+        '-i', audioPath,
+        '-filter_complex', '[1:a]apad[voice]',
+        '-map', '0:v',
+        '-map', '[voice]',
+        '-c:v', 'copy',
+        '-c:a', 'aac',
+        '-b:a', '128k',
+        '-shortest',
+        '-movflags', '+faststart',
+        outputPath
+      ], undefined, undefined, signal);
+
+      return speechSeconds;
+    } finally {
+      await fs.rm(audioPath, { force: true });
+    }
+  }
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Export singleton instance
+export const voiceoverService = new VoiceoverService();
@@ -0,0 +1,218 @@
+import { createRequire } from "module";
+import { beforeEach, describe, expect, it } from "vitest";
+import { newDb } from "pg-mem";
+import { drizzle } from "drizzle-orm/pg-proxy";
+import * as schema from "@shared/schema";
+import type { InsertVideo, User } from "@shared/schema";
+import { DatabaseStorage, MemStorage, type Database, type IStorage } from "./storage";
+
+// drizzle-kit only ships its schema differ as a CommonJS bundle
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * DatabaseStorage on a fresh in-memory Postgres, with the tables created from
+ * the schema the way drizzle-kit push would
+ */
+async function createPgMemStorage(): Promise<DatabaseStorage> {
+  const mem = newDb();
+  const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    mem.public.none(statement);
+  }
+
+  const { Pool } = mem.adapters.createPg();
+  const pool = new Pool();
+
+  // pg-mem has no array row mode, so rows are turned into arrays here; columns come back in select order
+  const db = drizzle(async (sql, params, method) => {
+    const result = await pool.query(sql, params);
+    return { rows: method === "all" ? result.rows.map((row: Record<string, unknown>) => Object.values(row)) : result.rows };
+  }, { schema });
+
+  return new DatabaseStorage(db as unknown as Database);
+}
+
+const implementations: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", createPgMemStorage],
+];
+
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let user: User;
+
+  const video = (overrides: Partial<InsertVideo> = {}): InsertVideo => ({
+    userId: user.id,
+    title: "Sunrise",
+    prompt: "A sunrise over the mountains",
+    style: "cinematic",
+    duration: "30s",
+    aspectRatio: "16:9",
+    platforms: ["youtube"],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    storage = await createStorage();
+    user = await storage.createUser({ username: "creator", password: "hashed" });
+  });
+
+  describe("users", () => {
+    it("finds users by id and username", async () => {
+      expect(await storage.getUser(user.id)).toMatchObject({ username: "creator", subscriptionTier: "free" });
+      expect(await storage.getUserByUsername("creator")).toMatchObject({ id: user.id });
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+  });
+
+  describe("videos", () => {
+    it("creates, lists and updates a user's videos", async () => {
+      const created = await storage.createVideo(video());
+      expect(created).toMatchObject({ status: "draft", videoUrl: null, burnSubtitles: false, voiceover: null });
+
+      const updated = await storage.updateVideo(created.id, { title: "Sunset" });
+      expect(updated).toMatchObject({ id: created.id, title: "Sunset", prompt: created.prompt });
+      expect(await storage.getVideosByUserId(user.id)).toEqual([updated]);
+      expect(await storage.updateVideo(created.id + 100, { title: "Missing" })).toBeUndefined();
+    });
+
+    it("deletes a video together with its renders", async () => {
+      const kept = await storage.createVideo(video({ title: "Kept" }));
+      const deleted = await storage.createVideo(video({ title: "Deleted" }));
+
+      const render = (videoId: number, version: number) => storage.createVideoRender({
+        videoId,
+        userId: user.id,
+        version,
+        prompt: "A sunrise over the mountains",
+        style: "cinematic",
+        duration: "30s",
+        aspectRatio: "16:9",
+        resolution: 1080,
+        provider: "placeholder",
+        videoUrl: `video-${videoId}-${version}.mp4`,
+        thumbnailUrl: `video-${videoId}-${version}.png`,
+      });
+      await render(deleted.id, 1);
+      await render(deleted.id, 2);
+      const keptRender = await render(kept.id, 1);
+
+      expect(await storage.getVideoRendersByVideoId(deleted.id)).toHaveLength(2);
+      expect(await storage.deleteVideo(deleted.id)).toBe(true);
+
+      expect(await storage.getVideo(deleted.id)).toBeUndefined();
+      expect(await storage.getVideoRendersByVideoId(deleted.id)).toEqual([]);
+      expect(await storage.getVideoRendersByVideoId(kept.id)).toEqual([keptRender]);
+      expect(await storage.deleteVideo(deleted.id)).toBe(false);
+    });
+
+    it("finds videos still pointing at old asset paths", async () => {
+      const legacy = await storage.createVideo(video({ thumbnailUrl: "/generated/sunrise-thumbnail.png" }));
+      await storage.createVideo(video({ videoUrl: "sunrise.mp4" }));
+
+      expect(await storage.getVideosByAssetPrefix("/generated/")).toEqual([legacy]);
+    });
+  });
+
+  describe("subscriptions", () => {
+    it("picks the newest subscription that still grants its tier", async () => {
+      await storage.createSubscription({ userId: user.id, tier: "premium", price: 1999, status: "expired" });
+      await storage.createSubscription({
+        userId: user.id,
+        tier: "premium",
+        price: 1999,
+        status: "active",
+        endDate: new Date(Date.now() - DAY_MS),
+      });
+      const current = await storage.createSubscription({
+        userId: user.id,
+        tier: "basic",
+        price: 999,
+        status: "canceled",
+        endDate: new Date(Date.now() + DAY_MS),
+      });
+
+      expect(await storage.getActiveSubscriptionByUserId(user.id)).toEqual(current);
+    });
+
+    it("lists subscriptions whose paid period is over", async () => {
+      const now = new Date();
+      const lapsed = await storage.createSubscription({
+        userId: user.id,
+        tier: "basic",
+        price: 999,
+        status: "past_due",
+        endDate: new Date(now.getTime() - DAY_MS),
+      });
+      await storage.createSubscription({ userId: user.id, tier: "basic", price: 999, status: "active" });
+      await storage.createSubscription({
+        userId: user.id,
+        tier: "basic",
+        price: 999,
+        status: "expired",
+        endDate: new Date(now.getTime() - DAY_MS),
+      });
+
+      expect(await storage.getLapsedSubscriptions(now)).toEqual([lapsed]);
+    });
+  });
+
+  describe("scheduled posts", () => {
+    it("returns due posts that are still scheduled, earliest first", async () => {
+      const now = new Date();
+      const { id: videoId } = await storage.createVideo(video());
+      const post = (scheduledAt: Date, status = "scheduled") => storage.createScheduledPost({
+        userId: user.id,
+        videoId,
+        accountId: 1,
+        platform: "youtube",
+        scheduledAt,
+        status,
+      });
+
+      const later = await post(new Date(now.getTime() - 60 * 1000));
+      const earlier = await post(new Date(now.getTime() - DAY_MS));
+      await post(new Date(now.getTime() + DAY_MS));
+      await post(new Date(now.getTime() - DAY_MS), "canceled");
+
+      expect(await storage.getDueScheduledPosts(now)).toEqual([earlier, later]);
+    });
+  });
+
+  describe("assets", () => {
+    const asset = (key: string, sizeBytes: number) =>
+      storage.createAsset({ userId: user.id, key, contentType: "video/mp4", sizeBytes });
+
+    it("counts a user's usage", async () => {
+      await asset("sunrise.mp4", 1000);
+      await asset("sunrise.png", 500);
+
+      expect(await storage.getAssetUsageByUserId(user.id)).toBe(1500);
+      expect(await storage.getAssetUsageByUserId(user.id + 1)).toBe(0);
+    });
+
+    it("finds files nothing refers to", async () => {
+      await asset("in-use.mp4", 1000);
+      await asset("render.png", 100);
+      const orphan = await asset("orphan.mp4", 500);
+      await storage.createVideo(video({ videoUrl: "in-use.mp4" }));
+      await storage.createVideoRender({
+        userId: user.id,
+        prompt: "A sunrise over the mountains",
+        style: "cinematic",
+        duration: "30s",
+        aspectRatio: "16:9",
+        resolution: 1080,
+        provider: "mock",
+        videoUrl: "in-use.mp4",
+        thumbnailUrl: "render.png",
+      });
+
+      expect(await storage.getUnreferencedAssets(new Date(Date.now() + 1000))).toEqual([orphan]);
+      // Files newer than the cutoff may still be about to be referenced
+      expect(await storage.getUnreferencedAssets(new Date(orphan.createdAt.getTime() - 1000))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,1713 @@
+import { 
+  users, type User, type InsertUser, 
+  videos, type Video, type InsertVideo,
+  videoRenders, type VideoRender, type InsertVideoRender,
+  assets, type Asset, type InsertAsset,
+  musicTracks, type MusicTrack, type InsertMusicTrack,
+  analytics, type Analytics, type InsertAnalytics,
+  analyticsSnapshots, type AnalyticsSnapshot, type InsertAnalyticsSnapshot,
+  activities, type Activity, type InsertActivity,
+  templates, type Template, type InsertTemplate,
+  templateVersions, type TemplateVersion, type InsertTemplateVersion,
+  subscriptions, type Subscription, type InsertSubscription, entitledSubscriptionStatuses, isEntitledSubscriptionStatus,
+  processedBillingEvents, type ProcessedBillingEvent, type InsertProcessedBillingEvent,
+  connectedAccounts, type ConnectedAccount, type InsertConnectedAccount,
+  scheduledPosts, type ScheduledPost, type InsertScheduledPost,
+  publications, type Publication, type InsertPublication,
+  captions, type Caption, type InsertCaption,
+  videoMetadata, type VideoMetadata, type InsertVideoMetadata
+} from "@shared/schema";
+
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, count, desc, eq, getTableColumns, gt, gte, inArray, isNull, like, lte, or, sum } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import type { Pool } from "@neondatabase/serverless";
+import * as schema from "@shared/schema";
+import { createDatabase } from "./db";
+
+export interface IStorage {
+  // Session store for authentication
+  sessionStore: session.Store;
+  
+  // User operations
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByProviderId(provider: string, providerId: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  
+  // Video operations
+  getVideo(id: number): Promise<Video | undefined>;
+  getVideosByUserId(userId: number): Promise<Video[]>;
+  createVideo(video: InsertVideo): Promise<Video>;
+  updateVideo(id: number, video: Partial<InsertVideo>): Promise<Video | undefined>;
+  deleteVideo(id: number): Promise<boolean>;
+  // Videos whose video or thumbnail URL starts with the prefix
+  getVideosByAssetPrefix(prefix: string): Promise<Video[]>;
+  
+  // Video render operations
+  getVideoRender(id: number): Promise<VideoRender | undefined>;
+  // Newest version first
+  getVideoRendersByVideoId(videoId: number): Promise<VideoRender[]>;
+  createVideoRender(render: InsertVideoRender): Promise<VideoRender>;
+  updateVideoRender(id: number, render: Partial<InsertVideoRender>): Promise<VideoRender | undefined>;
+  deleteVideoRender(id: number): Promise<boolean>;
+  // Renders of previews that were never saved as a video, created before the given time
+  getUnsavedVideoRenders(createdBefore: Date): Promise<VideoRender[]>;
+  // Same as getVideosByAssetPrefix, for renders
+  getVideoRendersByAssetPrefix(prefix: string): Promise<VideoRender[]>;
+  
+  // Asset registry operations
+  getAssetByKey(key: string): Promise<Asset | undefined>;
+  createAsset(asset: InsertAsset): Promise<Asset>;
+  deleteAsset(id: number): Promise<boolean>;
+  // Total size in bytes of the user's assets
+  getAssetUsageByUserId(userId: number): Promise<number>;
+  // Assets created before the given time that no video or render refers to
+  getUnreferencedAssets(createdBefore: Date): Promise<Asset[]>;
+  
+  // Music library operations
+  getMusicTracks(): Promise<MusicTrack[]>;
+  getMusicTrack(id: number): Promise<MusicTrack | undefined>;
+  getMusicTrackByFileName(fileName: string): Promise<MusicTrack | undefined>;
+  createMusicTrack(track: InsertMusicTrack): Promise<MusicTrack>;
+  
+  // Analytics operations
+  getAnalyticsByVideoId(videoId: number): Promise<Analytics[]>;
+  createAnalytics(analytics: InsertAnalytics): Promise<Analytics>;
+  updateAnalytics(id: number, analytics: Partial<InsertAnalytics>): Promise<Analytics | undefined>;
+  
+  // Analytics snapshot operations
+  getLatestAnalyticsSnapshot(publicationId: number): Promise<AnalyticsSnapshot | undefined>;
+  getAnalyticsSnapshotsByUserId(userId: number, since: Date): Promise<AnalyticsSnapshot[]>;
+  createAnalyticsSnapshot(snapshot: InsertAnalyticsSnapshot): Promise<AnalyticsSnapshot>;
+  
+  // Activity operations
+  getActivitiesByUserId(userId: number, limit?: number): Promise<Activity[]>;
+  countActivitiesSince(userId: number, action: string, since: Date): Promise<number>;
+  createActivity(activity: InsertActivity): Promise<Activity>;
+  
+  // Template operations
+  getTemplate(id: number): Promise<Template | undefined>;
+  getAllTemplates(): Promise<Template[]>;
+  getTemplatesByCategory(category: string): Promise<Template[]>;
+  createTemplate(template: InsertTemplate): Promise<Template>;
+  updateTemplate(id: number, template: Partial<InsertTemplate>): Promise<Template | undefined>;
+  deleteTemplate(id: number): Promise<boolean>;
+  
+  // Template version operations (versions are never updated or deleted)
+  getTemplateVersions(templateId: number): Promise<TemplateVersion[]>;
+  getTemplateVersion(templateId: number, version: number): Promise<TemplateVersion | undefined>;
+  createTemplateVersion(version: InsertTemplateVersion): Promise<TemplateVersion>;
+  
+  // Subscription operations
+  getSubscription(id: number): Promise<Subscription | undefined>;
+  getSubscriptionsByUserId(userId: number): Promise<Subscription[]>;
+  // Subscription whose tier the user currently has, see entitledSubscriptionStatuses
+  getActiveSubscriptionByUserId(userId: number): Promise<Subscription | undefined>;
+  getSubscriptionByExternalId(billingProvider: string, externalSubscriptionId: string): Promise<Subscription | undefined>;
+  // Subscriptions still granting a tier although their end date has passed
+  getLapsedSubscriptions(now: Date): Promise<Subscription[]>;
+  createSubscription(subscription: InsertSubscription): Promise<Subscription>;
+  updateSubscription(id: number, subscription: Partial<InsertSubscription>): Promise<Subscription | undefined>;
+  
+  // Processed billing event operations
+  getProcessedBillingEvent(billingProvider: string, eventId: string): Promise<ProcessedBillingEvent | undefined>;
+  createProcessedBillingEvent(event: InsertProcessedBillingEvent): Promise<ProcessedBillingEvent>;
+  
+  // Connected account operations
+  getConnectedAccount(id: number): Promise<ConnectedAccount | undefined>;
+  getConnectedAccountsByUserId(userId: number): Promise<ConnectedAccount[]>;
+  getConnectedAccountByExternalId(userId: number, platform: string, externalAccountId: string): Promise<ConnectedAccount | undefined>;
+  createConnectedAccount(account: InsertConnectedAccount): Promise<ConnectedAccount>;
+  updateConnectedAccount(id: number, account: Partial<InsertConnectedAccount>): Promise<ConnectedAccount | undefined>;
+  deleteConnectedAccount(id: number): Promise<boolean>;
+  
+  // Scheduled post operations
+  getScheduledPost(id: number): Promise<ScheduledPost | undefined>;
+  getScheduledPostsByUserId(userId: number): Promise<ScheduledPost[]>;
+  getScheduledPostsByVideoId(videoId: number): Promise<ScheduledPost[]>;
+  getScheduledPostsByStatus(status: string): Promise<ScheduledPost[]>;
+  getDueScheduledPosts(now: Date): Promise<ScheduledPost[]>;
+  createScheduledPost(post: InsertScheduledPost): Promise<ScheduledPost>;
+  updateScheduledPost(id: number, post: Partial<InsertScheduledPost>): Promise<ScheduledPost | undefined>;
+  
+  // Publication operations
+  getPublication(id: number): Promise<Publication | undefined>;
+  getPublicationsByVideoId(videoId: number): Promise<Publication[]>;
+  getPublicationsByIdempotencyKey(userId: number, idempotencyKey: string): Promise<Publication[]>;
+  getPublicationsByStatus(status: string): Promise<Publication[]>;
+  getDuePublicationRetries(now: Date): Promise<Publication[]>;
+  createPublication(publication: InsertPublication): Promise<Publication>;
+  updatePublication(id: number, publication: Partial<InsertPublication>): Promise<Publication | undefined>;
+  
+  // Caption operations
+  getCaption(id: number): Promise<Caption | undefined>;
+  getCaptionsByUserId(userId: number): Promise<Caption[]>;
+  getCaptionsByVideoId(videoId: number): Promise<Caption[]>;
+  createCaption(caption: InsertCaption): Promise<Caption>;
+  updateCaption(id: number, caption: Partial<InsertCaption>): Promise<Caption | undefined>;
+  deleteCaption(id: number): Promise<boolean>;
+  
+  // Video metadata operations
+  getVideoMetadata(videoId: number): Promise<VideoMetadata[]>;
+  getVideoMetadataForPlatform(videoId: number, platform: string): Promise<VideoMetadata | undefined>;
+  // Creates or replaces the metadata for the video and platform
+  upsertVideoMetadata(metadata: InsertVideoMetadata): Promise<VideoMetadata>;
+}
+
+export class MemStorage implements IStorage {
+  private users: Map<number, User>;
+  private videos: Map<number, Video>;
+  private videoRenders: Map<number, VideoRender>;
+  private assets: Map<number, Asset>;
+  private musicTracks: Map<number, MusicTrack>;
+  private analytics: Map<number, Analytics>;
+  private analyticsSnapshots: Map<number, AnalyticsSnapshot>;
+  private activities: Map<number, Activity>;
+  private templates: Map<number, Template>;
+  private templateVersions: Map<number, TemplateVersion>;
+  private subscriptions: Map<number, Subscription>;
+  private processedBillingEvents: Map<number, ProcessedBillingEvent>;
+  private connectedAccounts: Map<number, ConnectedAccount>;
+  private scheduledPosts: Map<number, ScheduledPost>;
+  private publications: Map<number, Publication>;
+  private captions: Map<number, Caption>;
+  private videoMetadata: Map<number, VideoMetadata>;
+  
+  private userIdCounter: number;
+  private videoIdCounter: number;
+  private videoRenderIdCounter: number;
+  private assetIdCounter: number;
+  private musicTrackIdCounter: number;
+  private analyticsIdCounter: number;
+  private analyticsSnapshotIdCounter: number;
+  private activityIdCounter: number;
+  private templateIdCounter: number;
+  private templateVersionIdCounter: number;
+  private subscriptionIdCounter: number;
+  private processedBillingEventIdCounter: number;
+  private connectedAccountIdCounter: number;
+  private scheduledPostIdCounter: number;
+  private publicationIdCounter: number;
+  private captionIdCounter: number;
+  private videoMetadataIdCounter: number;
+  
+  public sessionStore: session.Store;
+
+  constructor() {
+    // Initialize session store
+    const MemoryStore = createMemoryStore(session);
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // Prune expired sessions every day
+    });
+    this.users = new Map();
+    this.videos = new Map();
+    this.videoRenders = new Map();
+    this.assets = new Map();
+    this.musicTracks = new Map();
+    this.analytics = new Map();
+    this.analyticsSnapshots = new Map();
+    this.activities = new Map();
+    this.templates = new Map();
+    this.templateVersions = new Map();
+    this.subscriptions = new Map();
+    this.processedBillingEvents = new Map();
+    this.connectedAccounts = new Map();
+    this.scheduledPosts = new Map();
+    this.publications = new Map();
+    this.captions = new Map();
+    this.videoMetadata = new Map();
+    
+    this.userIdCounter = 1;
+    this.videoIdCounter = 1;
+    this.videoRenderIdCounter = 1;
+    this.assetIdCounter = 1;
+    this.musicTrackIdCounter = 1;
+    this.analyticsIdCounter = 1;
+    this.analyticsSnapshotIdCounter = 1;
+    this.activityIdCounter = 1;
+    this.templateIdCounter = 1;
+    this.templateVersionIdCounter = 1;
+    this.subscriptionIdCounter = 1;
+    this.processedBillingEventIdCounter = 1;
+    this.connectedAccountIdCounter = 1;
+    this.scheduledPostIdCounter = 1;
+    this.publicationIdCounter = 1;
+    this.captionIdCounter = 1;
+    this.videoMetadataIdCounter = 1;
+    
+    // Create a default user
+    this.createUser({
+      username: "demo",
+      password: "password"
+    }).then(user => {
+      // Create a free subscription for the user
+      this.createSubscription({
+        userId: user.id,
+        tier: "free",
+        price: 0,
+        status: "active",
+        startDate: new Date()
+      });
+    });
+  }
+  
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async getUserByProviderId(provider: string, providerId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.provider === provider && user.providerId === providerId
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.userIdCounter++;
+    const now = new Date();
+    const user: User = { 
+      ...insertUser, 
+      id,
+      createdAt: now,
+      // Default values for nullable fields
+      email: insertUser.email || null,
+      displayName: insertUser.displayName || null,
+      bio: insertUser.bio || null,
+      profilePicture: insertUser.profilePicture || null,
+      provider: insertUser.provider || null,
+      providerId: insertUser.providerId || null,
+      accessToken: insertUser.accessToken || null,
+      refreshToken: insertUser.refreshToken || null,
+      tokenExpiry: insertUser.tokenExpiry || null,
+      subscriptionTier: insertUser.subscriptionTier || "free",
+      teamId: null
+    };
+    this.users.set(id, user);
+    return user;
+  }
+  
+  async updateUser(id: number, updateData: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, ...updateData };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  // Video operations
+  async getVideo(id: number): Promise<Video | undefined> {
+    return this.videos.get(id);
+  }
+
+  async getVideosByUserId(userId: number): Promise<Video[]> {
+    return Array.from(this.videos.values()).filter(
+      (video) => video.userId === userId
+    );
+  }
+
+  async createVideo(insertVideo: InsertVideo): Promise<Video> {
+    const id = this.videoIdCounter++;
+    const now = new Date();
+    const video: Video = { 
+      ...insertVideo, 
+      id, 
+      createdAt: now,
+      // Ensure required fields are set with defaults if not provided
+      status: insertVideo.status || "draft",
+      thumbnailUrl: insertVideo.thumbnailUrl || null,
+      videoUrl: insertVideo.videoUrl || null,
+      provider: insertVideo.provider || null,
+      templateId: insertVideo.templateId ?? null,
+      templateVersion: insertVideo.templateVersion ?? null,
+      currentRenderId: insertVideo.currentRenderId ?? null,
+      voiceover: insertVideo.voiceover ?? null,
+      burnSubtitles: insertVideo.burnSubtitles ?? false,
+      subtitlesSrtUrl: insertVideo.subtitlesSrtUrl ?? null,
+      subtitlesVttUrl: insertVideo.subtitlesVttUrl ?? null,
+      musicTrackId: insertVideo.musicTrackId ?? null,
+      platforms: insertVideo.platforms || []
+    };
+    this.videos.set(id, video);
+    
+    // Create an activity for this video creation
+    await this.createActivity({
+      videoId: id,
+      userId: insertVideo.userId,
+      action: "create_video",
+      details: { title: insertVideo.title }
+    });
+    
+    return video;
+  }
+
+  async updateVideo(id: number, updateData: Partial<InsertVideo>): Promise<Video | undefined> {
+    const video = this.videos.get(id);
+    if (!video) return undefined;
+    
+    const updatedVideo: Video = { ...video, ...updateData };
+    this.videos.set(id, updatedVideo);
+    
+    // Create an activity for this video update
+    await this.createActivity({
+      videoId: id,
+      userId: video.userId,
+      action: "update_video",
+      details: { title: video.title }
+    });
+    
+    return updatedVideo;
+  }
+
+  async deleteVideo(id: number): Promise<boolean> {
+    const video = this.videos.get(id);
+    if (!video) return false;
+    
+    const deleted = this.videos.delete(id);
+    
+    if (deleted) {
+      // Its renders go with it; the asset sweeper then removes their files
+      for (const render of Array.from(this.videoRenders.values())) {
+        if (render.videoId === id) this.videoRenders.delete(render.id);
+      }
+      
+      // Create an activity for this video deletion
+      await this.createActivity({
+        videoId: id,
+        userId: video.userId,
+        action: "delete_video",
+        details: { title: video.title }
+      });
+    }
+    
+    return deleted;
+  }
+
+  async getVideosByAssetPrefix(prefix: string): Promise<Video[]> {
+    return Array.from(this.videos.values()).filter(
+      (video) => !!video.videoUrl?.startsWith(prefix) || !!video.thumbnailUrl?.startsWith(prefix)
+    );
+  }
+
+  // Video render operations
+  async getVideoRender(id: number): Promise<VideoRender | undefined> {
+    return this.videoRenders.get(id);
+  }
+
+  async getVideoRendersByVideoId(videoId: number): Promise<VideoRender[]> {
+    return Array.from(this.videoRenders.values())
+      .filter((render) => render.videoId === videoId)
+      .sort((a, b) => (b.version ?? 0) - (a.version ?? 0));
+  }
+
+  async createVideoRender(insertRender: InsertVideoRender): Promise<VideoRender> {
+    const id = this.videoRenderIdCounter++;
+    const render: VideoRender = {
+      ...insertRender,
+      id,
+      createdAt: new Date(),
+      videoId: insertRender.videoId ?? null,
+      version: insertRender.version ?? null,
+      templateId: insertRender.templateId ?? null,
+      templateVersion: insertRender.templateVersion ?? null,
+      voiceover: insertRender.voiceover ?? null,
+      burnSubtitles: insertRender.burnSubtitles ?? false,
+      musicTrackId: insertRender.musicTrackId ?? null,
+      subtitlesSrtUrl: insertRender.subtitlesSrtUrl ?? null,
+      subtitlesVttUrl: insertRender.subtitlesVttUrl ?? null
+    };
+    this.videoRenders.set(id, render);
+    return render;
+  }
+
+  async updateVideoRender(id: number, updateData: Partial<InsertVideoRender>): Promise<VideoRender | undefined> {
+    const render = this.videoRenders.get(id);
+    if (!render) return undefined;
+
+    const updatedRender: VideoRender = { ...render, ...updateData };
+    this.videoRenders.set(id, updatedRender);
+    return updatedRender;
+  }
+
+  async deleteVideoRender(id: number): Promise<boolean> {
+    return this.videoRenders.delete(id);
+  }
+
+  async getUnsavedVideoRenders(createdBefore: Date): Promise<VideoRender[]> {
+    return Array.from(this.videoRenders.values())
+      .filter((render) => render.videoId === null && render.createdAt <= createdBefore);
+  }
+
+  async getVideoRendersByAssetPrefix(prefix: string): Promise<VideoRender[]> {
+    return Array.from(this.videoRenders.values()).filter(
+      (render) => render.videoUrl.startsWith(prefix) || render.thumbnailUrl.startsWith(prefix)
+    );
+  }
+
+  // Asset registry operations
+  async getAssetByKey(key: string): Promise<Asset | undefined> {
+    return Array.from(this.assets.values()).find((asset) => asset.key === key);
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const id = this.assetIdCounter++;
+    const asset: Asset = { ...insertAsset, id, createdAt: new Date() };
+    this.assets.set(id, asset);
+    return asset;
+  }
+
+  async deleteAsset(id: number): Promise<boolean> {
+    return this.assets.delete(id);
+  }
+
+  async getAssetUsageByUserId(userId: number): Promise<number> {
+    return Array.from(this.assets.values())
+      .filter((asset) => asset.userId === userId)
+      .reduce((total, asset) => total + asset.sizeBytes, 0);
+  }
+
+  async getUnreferencedAssets(createdBefore: Date): Promise<Asset[]> {
+    const referenced = new Set<string | null>();
+    for (const item of [...Array.from(this.videos.values()), ...Array.from(this.videoRenders.values())]) {
+      referenced.add(item.videoUrl);
+      referenced.add(item.thumbnailUrl);
+      referenced.add(item.subtitlesSrtUrl);
+      referenced.add(item.subtitlesVttUrl);
+    }
+
+    return Array.from(this.assets.values())
+      .filter((asset) => asset.createdAt <= createdBefore && !referenced.has(asset.key));
+  }
+
+  // Music library operations
+  async getMusicTracks(): Promise<MusicTrack[]> {
+    return Array.from(this.musicTracks.values());
+  }
+
+  async getMusicTrack(id: number): Promise<MusicTrack | undefined> {
+    return this.musicTracks.get(id);
+  }
+
+  async getMusicTrackByFileName(fileName: string): Promise<MusicTrack | undefined> {
+    return Array.from(this.musicTracks.values()).find((track) => track.fileName === fileName);
+  }
+
+  async createMusicTrack(insertTrack: InsertMusicTrack): Promise<MusicTrack> {
+    const id = this.musicTrackIdCounter++;
+    const track: MusicTrack = {
+      ...insertTrack,
+      id,
+      createdAt: new Date(),
+      licenseUrl: insertTrack.licenseUrl ?? null,
+      attribution: insertTrack.attribution ?? null
+    };
+    this.musicTracks.set(id, track);
+    return track;
+  }
+
+  // Analytics operations
+  async getAnalyticsByVideoId(videoId: number): Promise<Analytics[]> {
+    return Array.from(this.analytics.values()).filter(
+      (analytics) => analytics.videoId === videoId
+    );
+  }
+
+  async createAnalytics(insertAnalytics: InsertAnalytics): Promise<Analytics> {
+    const id = this.analyticsIdCounter++;
+    const now = new Date();
+    const analytics: Analytics = { 
+      ...insertAnalytics, 
+      id, 
+      updatedAt: now,
+      // Ensure required fields are set with defaults
+      views: insertAnalytics.views ?? 0,
+      likes: insertAnalytics.likes ?? 0,
+      comments: insertAnalytics.comments ?? 0,
+      shares: insertAnalytics.shares ?? 0
+    };
+    this.analytics.set(id, analytics);
+    return analytics;
+  }
+
+  async updateAnalytics(id: number, updateData: Partial<InsertAnalytics>): Promise<Analytics | undefined> {
+    const analytics = this.analytics.get(id);
+    if (!analytics) return undefined;
+    
+    const now = new Date();
+    const updatedAnalytics: Analytics = { 
+      ...analytics, 
+      ...updateData, 
+      updatedAt: now 
+    };
+    this.analytics.set(id, updatedAnalytics);
+    return updatedAnalytics;
+  }
+  
+  // Analytics snapshot operations
+  async getLatestAnalyticsSnapshot(publicationId: number): Promise<AnalyticsSnapshot | undefined> {
+    return Array.from(this.analyticsSnapshots.values())
+      .filter((snapshot) => snapshot.publicationId === publicationId)
+      .sort((a, b) => b.capturedAt.getTime() - a.capturedAt.getTime())[0];
+  }
+  
+  async getAnalyticsSnapshotsByUserId(userId: number, since: Date): Promise<AnalyticsSnapshot[]> {
+    return Array.from(this.analyticsSnapshots.values())
+      .filter((snapshot) => snapshot.userId === userId && snapshot.capturedAt.getTime() >= since.getTime())
+      .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+  }
+  
+  async createAnalyticsSnapshot(insertSnapshot: InsertAnalyticsSnapshot): Promise<AnalyticsSnapshot> {
+    const id = this.analyticsSnapshotIdCounter++;
+    const snapshot: AnalyticsSnapshot = {
+      ...insertSnapshot,
+      id,
+      views: insertSnapshot.views || 0,
+      likes: insertSnapshot.likes || 0,
+      comments: insertSnapshot.comments || 0,
+      shares: insertSnapshot.shares || 0,
+      viewsDelta: insertSnapshot.viewsDelta || 0,
+      likesDelta: insertSnapshot.likesDelta || 0,
+      commentsDelta: insertSnapshot.commentsDelta || 0,
+      sharesDelta: insertSnapshot.sharesDelta || 0,
+      capturedAt: insertSnapshot.capturedAt || new Date()
+    };
+    this.analyticsSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  // Activity operations
+  async getActivitiesByUserId(userId: number, limit?: number): Promise<Activity[]> {
+    const activities = Array.from(this.activities.values())
+      .filter((activity) => activity.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    
+    return limit ? activities.slice(0, limit) : activities;
+  }
+
+  async countActivitiesSince(userId: number, action: string, since: Date): Promise<number> {
+    return Array.from(this.activities.values())
+      .filter((activity) => activity.userId === userId && activity.action === action && activity.createdAt >= since)
+      .length;
+  }
+
+  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+    const id = this.activityIdCounter++;
+    const now = new Date();
+    const activity: Activity = { 
+      ...insertActivity, 
+      id, 
+      createdAt: now,
+      // Ensure required fields are set with defaults
+      videoId: insertActivity.videoId || null,
+      details: insertActivity.details || null
+    };
+    this.activities.set(id, activity);
+    return activity;
+  }
+  
+  // Template operations
+  async getTemplate(id: number): Promise<Template | undefined> {
+    return this.templates.get(id);
+  }
+  
+  async getAllTemplates(): Promise<Template[]> {
+    return Array.from(this.templates.values());
+  }
+  
+  async getTemplatesByCategory(category: string): Promise<Template[]> {
+    return Array.from(this.templates.values()).filter(
+      (template) => template.category === category
+    );
+  }
+  
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    const id = this.templateIdCounter++;
+    const now = new Date();
+    const template: Template = {
+      ...insertTemplate,
+      id,
+      createdAt: now,
+      thumbUrl: insertTemplate.thumbUrl || null,
+      previewUrl: insertTemplate.previewUrl || null,
+      popular: insertTemplate.popular || false,
+      premium: insertTemplate.premium || false,
+      settings: insertTemplate.settings || null,
+      ownerId: insertTemplate.ownerId ?? null,
+      teamId: insertTemplate.teamId ?? null,
+      visibility: insertTemplate.visibility || "public",
+      currentVersion: insertTemplate.currentVersion ?? 0
+    };
+    this.templates.set(id, template);
+    return template;
+  }
+  
+  async updateTemplate(id: number, updateData: Partial<InsertTemplate>): Promise<Template | undefined> {
+    const template = this.templates.get(id);
+    if (!template) return undefined;
+    
+    const updatedTemplate: Template = { ...template, ...updateData };
+    this.templates.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+  
+  async deleteTemplate(id: number): Promise<boolean> {
+    return this.templates.delete(id);
+  }
+  
+  // Template version operations
+  async getTemplateVersions(templateId: number): Promise<TemplateVersion[]> {
+    return Array.from(this.templateVersions.values())
+      .filter((version) => version.templateId === templateId)
+      .sort((a, b) => b.version - a.version);
+  }
+  
+  async getTemplateVersion(templateId: number, version: number): Promise<TemplateVersion | undefined> {
+    return Array.from(this.templateVersions.values()).find(
+      (templateVersion) => templateVersion.templateId === templateId && templateVersion.version === version
+    );
+  }
+  
+  async createTemplateVersion(insertVersion: InsertTemplateVersion): Promise<TemplateVersion> {
+    if (await this.getTemplateVersion(insertVersion.templateId, insertVersion.version)) {
+      throw new Error(`Template ${insertVersion.templateId} already has version ${insertVersion.version}`);
+    }
+    
+    const id = this.templateVersionIdCounter++;
+    const templateVersion: TemplateVersion = {
+      ...insertVersion,
+      id,
+      createdAt: new Date(),
+      thumbUrl: insertVersion.thumbUrl || null,
+      previewUrl: insertVersion.previewUrl || null,
+      premium: insertVersion.premium || false,
+      settings: insertVersion.settings || null
+    };
+    this.templateVersions.set(id, templateVersion);
+    return templateVersion;
+  }
+  
+  // Subscription operations
+  async getSubscription(id: number): Promise<Subscription | undefined> {
+    return this.subscriptions.get(id);
+  }
+  
+  async getSubscriptionsByUserId(userId: number): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values()).filter(
+      (subscription) => subscription.userId === userId
+    );
+  }
+  
+  async getActiveSubscriptionByUserId(userId: number): Promise<Subscription | undefined> {
+    const now = new Date();
+    return Array.from(this.subscriptions.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .find(
+        (subscription) => 
+          subscription.userId === userId && 
+          isEntitledSubscriptionStatus(subscription.status) &&
+          (!subscription.endDate || subscription.endDate > now)
+      );
+  }
+  
+  async getSubscriptionByExternalId(billingProvider: string, externalSubscriptionId: string): Promise<Subscription | undefined> {
+    return Array.from(this.subscriptions.values()).find(
+      (subscription) => 
+        subscription.billingProvider === billingProvider && 
+        subscription.externalSubscriptionId === externalSubscriptionId
+    );
+  }
+  
+  async getLapsedSubscriptions(now: Date): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values()).filter(
+      (subscription) => 
+        isEntitledSubscriptionStatus(subscription.status) &&
+        subscription.endDate !== null &&
+        subscription.endDate <= now
+    );
+  }
+  
+  async createSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    const id = this.subscriptionIdCounter++;
+    const now = new Date();
+    const subscription: Subscription = {
+      ...insertSubscription,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      status: insertSubscription.status || 'active',
+      startDate: insertSubscription.startDate || now,
+      paymentMethod: insertSubscription.paymentMethod || null,
+      paymentId: insertSubscription.paymentId || null,
+      billingProvider: insertSubscription.billingProvider || null,
+      externalSubscriptionId: insertSubscription.externalSubscriptionId || null,
+      endDate: insertSubscription.endDate || null
+    };
+    this.subscriptions.set(id, subscription);
+    return subscription;
+  }
+  
+  async updateSubscription(id: number, updateData: Partial<InsertSubscription>): Promise<Subscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return undefined;
+    
+    const now = new Date();
+    const updatedSubscription: Subscription = { 
+      ...subscription, 
+      ...updateData,
+      updatedAt: now
+    };
+    this.subscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+  
+  // Processed billing event operations
+  async getProcessedBillingEvent(billingProvider: string, eventId: string): Promise<ProcessedBillingEvent | undefined> {
+    return Array.from(this.processedBillingEvents.values()).find(
+      (event) => event.billingProvider === billingProvider && event.eventId === eventId
+    );
+  }
+  
+  async createProcessedBillingEvent(insertEvent: InsertProcessedBillingEvent): Promise<ProcessedBillingEvent> {
+    const id = this.processedBillingEventIdCounter++;
+    const event: ProcessedBillingEvent = { ...insertEvent, id, createdAt: new Date() };
+    this.processedBillingEvents.set(id, event);
+    return event;
+  }
+  
+  // Connected account operations
+  async getConnectedAccount(id: number): Promise<ConnectedAccount | undefined> {
+    return this.connectedAccounts.get(id);
+  }
+  
+  async getConnectedAccountsByUserId(userId: number): Promise<ConnectedAccount[]> {
+    return Array.from(this.connectedAccounts.values()).filter(
+      (account) => account.userId === userId
+    );
+  }
+  
+  async getConnectedAccountByExternalId(userId: number, platform: string, externalAccountId: string): Promise<ConnectedAccount | undefined> {
+    return Array.from(this.connectedAccounts.values()).find(
+      (account) => 
+        account.userId === userId && 
+        account.platform === platform && 
+        account.externalAccountId === externalAccountId
+    );
+  }
+  
+  async createConnectedAccount(insertAccount: InsertConnectedAccount): Promise<ConnectedAccount> {
+    const id = this.connectedAccountIdCounter++;
+    const now = new Date();
+    const account: ConnectedAccount = {
+      ...insertAccount,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      displayName: insertAccount.displayName || null,
+      refreshToken: insertAccount.refreshToken || null,
+      tokenExpiry: insertAccount.tokenExpiry || null,
+      scopes: insertAccount.scopes || null,
+      status: insertAccount.status || "active"
+    };
+    this.connectedAccounts.set(id, account);
+    return account;
+  }
+  
+  async updateConnectedAccount(id: number, updateData: Partial<InsertConnectedAccount>): Promise<ConnectedAccount | undefined> {
+    const account = this.connectedAccounts.get(id);
+    if (!account) return undefined;
+    
+    const updatedAccount: ConnectedAccount = { 
+      ...account, 
+      ...updateData, 
+      updatedAt: new Date() 
+    };
+    this.connectedAccounts.set(id, updatedAccount);
+    return updatedAccount;
+  }
+  
+  async deleteConnectedAccount(id: number): Promise<boolean> {
+    return this.connectedAccounts.delete(id);
+  }
+  
+  // Scheduled post operations
+  async getScheduledPost(id: number): Promise<ScheduledPost | undefined> {
+    return this.scheduledPosts.get(id);
+  }
+  
+  async getScheduledPostsByUserId(userId: number): Promise<ScheduledPost[]> {
+    return Array.from(this.scheduledPosts.values())
+      .filter((post) => post.userId === userId)
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+  }
+  
+  async getScheduledPostsByVideoId(videoId: number): Promise<ScheduledPost[]> {
+    return Array.from(this.scheduledPosts.values())
+      .filter((post) => post.videoId === videoId)
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+  }
+  
+  async getScheduledPostsByStatus(status: string): Promise<ScheduledPost[]> {
+    return Array.from(this.scheduledPosts.values()).filter(
+      (post) => post.status === status
+    );
+  }
+  
+  async getDueScheduledPosts(now: Date): Promise<ScheduledPost[]> {
+    return Array.from(this.scheduledPosts.values())
+      .filter((post) => post.status === "scheduled" && post.scheduledAt.getTime() <= now.getTime())
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+  }
+  
+  async createScheduledPost(insertPost: InsertScheduledPost): Promise<ScheduledPost> {
+    const id = this.scheduledPostIdCounter++;
+    const now = new Date();
+    const post: ScheduledPost = {
+      ...insertPost,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      timezone: insertPost.timezone || "UTC",
+      status: insertPost.status || "scheduled",
+      result: insertPost.result || null,
+      error: insertPost.error || null,
+      publishedAt: insertPost.publishedAt || null
+    };
+    this.scheduledPosts.set(id, post);
+    return post;
+  }
+  
+  async updateScheduledPost(id: number, updateData: Partial<InsertScheduledPost>): Promise<ScheduledPost | undefined> {
+    const post = this.scheduledPosts.get(id);
+    if (!post) return undefined;
+    
+    const updatedPost: ScheduledPost = { 
+      ...post, 
+      ...updateData, 
+      updatedAt: new Date() 
+    };
+    this.scheduledPosts.set(id, updatedPost);
+    return updatedPost;
+  }
+  
+  // Publication operations
+  async getPublication(id: number): Promise<Publication | undefined> {
+    return this.publications.get(id);
+  }
+  
+  async getPublicationsByVideoId(videoId: number): Promise<Publication[]> {
+    return Array.from(this.publications.values())
+      .filter((publication) => publication.videoId === videoId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getPublicationsByIdempotencyKey(userId: number, idempotencyKey: string): Promise<Publication[]> {
+    return Array.from(this.publications.values()).filter(
+      (publication) => publication.userId === userId && publication.idempotencyKey === idempotencyKey
+    );
+  }
+  
+  async getPublicationsByStatus(status: string): Promise<Publication[]> {
+    return Array.from(this.publications.values()).filter(
+      (publication) => publication.status === status
+    );
+  }
+  
+  async getDuePublicationRetries(now: Date): Promise<Publication[]> {
+    return Array.from(this.publications.values())
+      .filter((publication) => 
+        publication.status === "retrying" && 
+        (!publication.nextAttemptAt || publication.nextAttemptAt.getTime() <= now.getTime())
+      )
+      .sort((a, b) => (a.nextAttemptAt?.getTime() ?? 0) - (b.nextAttemptAt?.getTime() ?? 0));
+  }
+  
+  async createPublication(insertPublication: InsertPublication): Promise<Publication> {
+    const id = this.publicationIdCounter++;
+    const now = new Date();
+    const publication: Publication = {
+      ...insertPublication,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      scheduledPostId: insertPublication.scheduledPostId || null,
+      status: insertPublication.status || "pending",
+      attempts: insertPublication.attempts || 0,
+      nextAttemptAt: insertPublication.nextAttemptAt || null,
+      externalId: insertPublication.externalId || null,
+      externalUrl: insertPublication.externalUrl || null,
+      simulated: insertPublication.simulated ?? false,
+      error: insertPublication.error || null,
+      publishedAt: insertPublication.publishedAt || null
+    };
+    this.publications.set(id, publication);
+    return publication;
+  }
+  
+  async updatePublication(id: number, updateData: Partial<InsertPublication>): Promise<Publication | undefined> {
+    const publication = this.publications.get(id);
+    if (!publication) return undefined;
+    
+    const updatedPublication: Publication = { 
+      ...publication, 
+      ...updateData, 
+      updatedAt: new Date() 
+    };
+    this.publications.set(id, updatedPublication);
+    return updatedPublication;
+  }
+  
+  // Caption operations
+  async getCaption(id: number): Promise<Caption | undefined> {
+    return this.captions.get(id);
+  }
+  
+  async getCaptionsByUserId(userId: number): Promise<Caption[]> {
+    return Array.from(this.captions.values())
+      .filter((caption) => caption.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getCaptionsByVideoId(videoId: number): Promise<Caption[]> {
+    return Array.from(this.captions.values())
+      .filter((caption) => caption.videoId === videoId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async createCaption(insertCaption: InsertCaption): Promise<Caption> {
+    const id = this.captionIdCounter++;
+    const caption: Caption = {
+      ...insertCaption,
+      id,
+      createdAt: new Date(),
+      videoId: insertCaption.videoId || null,
+      hashtags: insertCaption.hashtags || null
+    };
+    this.captions.set(id, caption);
+    return caption;
+  }
+  
+  async updateCaption(id: number, updateData: Partial<InsertCaption>): Promise<Caption | undefined> {
+    const caption = this.captions.get(id);
+    if (!caption) return undefined;
+    
+    const updatedCaption: Caption = { ...caption, ...updateData };
+    this.captions.set(id, updatedCaption);
+    return updatedCaption;
+  }
+  
+  async deleteCaption(id: number): Promise<boolean> {
+    return this.captions.delete(id);
+  }
+  
+  // Video metadata operations
+  async getVideoMetadata(videoId: number): Promise<VideoMetadata[]> {
+    return Array.from(this.videoMetadata.values()).filter(
+      (metadata) => metadata.videoId === videoId
+    );
+  }
+  
+  async getVideoMetadataForPlatform(videoId: number, platform: string): Promise<VideoMetadata | undefined> {
+    return Array.from(this.videoMetadata.values()).find(
+      (metadata) => metadata.videoId === videoId && metadata.platform === platform
+    );
+  }
+  
+  async upsertVideoMetadata(insertMetadata: InsertVideoMetadata): Promise<VideoMetadata> {
+    const existing = await this.getVideoMetadataForPlatform(insertMetadata.videoId, insertMetadata.platform);
+    const now = new Date();
+    const metadata: VideoMetadata = {
+      ...insertMetadata,
+      id: existing?.id ?? this.videoMetadataIdCounter++,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      seoScore: insertMetadata.seoScore ?? null
+    };
+    this.videoMetadata.set(metadata.id, metadata);
+    return metadata;
+  }
+
+}
+
+
+/**
+ * Drizzle database handle accepted by DatabaseStorage. Any Postgres driver
+ * works (Neon in production, node-postgres or pg-mem in tests).
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export class DatabaseStorage implements IStorage {
+  public sessionStore: session.Store;
+
+  constructor(private db: Database, pool?: Pool) {
+    if (pool) {
+      // Persist sessions alongside the rest of the data
+      const PostgresSessionStore = connectPg(session);
+      this.sessionStore = new PostgresSessionStore({
+        pool,
+        createTableIfMissing: true
+      });
+    } else {
+      const MemoryStore = createMemoryStore(session);
+      this.sessionStore = new MemoryStore({
+        checkPeriod: 86400000 // Prune expired sessions every day
+      });
+    }
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByProviderId(provider: string, providerId: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(and(eq(users.provider, provider), eq(users.providerId, providerId)));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, updateData: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set(updateData)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Video operations
+  async getVideo(id: number): Promise<Video | undefined> {
+    const [video] = await this.db.select().from(videos).where(eq(videos.id, id));
+    return video;
+  }
+
+  async getVideosByUserId(userId: number): Promise<Video[]> {
+    return this.db.select().from(videos).where(eq(videos.userId, userId));
+  }
+
+  async createVideo(insertVideo: InsertVideo): Promise<Video> {
+    const [video] = await this.db.insert(videos).values(insertVideo).returning();
+
+    // Create an activity for this video creation
+    await this.createActivity({
+      videoId: video.id,
+      userId: video.userId,
+      action: "create_video",
+      details: { title: video.title }
+    });
+
+    return video;
+  }
+
+  async updateVideo(id: number, updateData: Partial<InsertVideo>): Promise<Video | undefined> {
+    const [video] = await this.db
+      .update(videos)
+      .set(updateData)
+      .where(eq(videos.id, id))
+      .returning();
+    if (!video) return undefined;
+
+    // Create an activity for this video update
+    await this.createActivity({
+      videoId: id,
+      userId: video.userId,
+      action: "update_video",
+      details: { title: video.title }
+    });
+
+    return video;
+  }
+
+  async deleteVideo(id: number): Promise<boolean> {
+    const [video] = await this.db.delete(videos).where(eq(videos.id, id)).returning();
+    if (!video) return false;
+
+    // Its renders go with it; the asset sweeper then removes their files
+    await this.db.delete(videoRenders).where(eq(videoRenders.videoId, id));
+
+    // Create an activity for this video deletion
+    await this.createActivity({
+      videoId: id,
+      userId: video.userId,
+      action: "delete_video",
+      details: { title: video.title }
+    });
+
+    return true;
+  }
+
+  async getVideosByAssetPrefix(prefix: string): Promise<Video[]> {
+    return this.db
+      .select()
+      .from(videos)
+      .where(or(like(videos.videoUrl, `${prefix}%`), like(videos.thumbnailUrl, `${prefix}%`)));
+  }
+
+  // Video render operations
+  async getVideoRender(id: number): Promise<VideoRender | undefined> {
+    const [render] = await this.db.select().from(videoRenders).where(eq(videoRenders.id, id));
+    return render;
+  }
+
+  async getVideoRendersByVideoId(videoId: number): Promise<VideoRender[]> {
+    return this.db
+      .select()
+      .from(videoRenders)
+      .where(eq(videoRenders.videoId, videoId))
+      .orderBy(desc(videoRenders.version));
+  }
+
+  async createVideoRender(insertRender: InsertVideoRender): Promise<VideoRender> {
+    const [render] = await this.db.insert(videoRenders).values(insertRender).returning();
+    return render;
+  }
+
+  async updateVideoRender(id: number, updateData: Partial<InsertVideoRender>): Promise<VideoRender | undefined> {
+    const [render] = await this.db
+      .update(videoRenders)
+      .set(updateData)
+      .where(eq(videoRenders.id, id))
+      .returning();
+    return render;
+  }
+
+  async deleteVideoRender(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(videoRenders).where(eq(videoRenders.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getUnsavedVideoRenders(createdBefore: Date): Promise<VideoRender[]> {
+    return this.db
+      .select()
+      .from(videoRenders)
+      .where(and(isNull(videoRenders.videoId), lte(videoRenders.createdAt, createdBefore)));
+  }
+
+  async getVideoRendersByAssetPrefix(prefix: string): Promise<VideoRender[]> {
+    return this.db
+      .select()
+      .from(videoRenders)
+      .where(or(like(videoRenders.videoUrl, `${prefix}%`), like(videoRenders.thumbnailUrl, `${prefix}%`)));
+  }
+
+  // Asset registry operations
+  async getAssetByKey(key: string): Promise<Asset | undefined> {
+    const [asset] = await this.db.select().from(assets).where(eq(assets.key, key));
+    return asset;
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const [asset] = await this.db.insert(assets).values(insertAsset).returning();
+    return asset;
+  }
+
+  async deleteAsset(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(assets).where(eq(assets.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getAssetUsageByUserId(userId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ total: sum(assets.sizeBytes) })
+      .from(assets)
+      .where(eq(assets.userId, userId));
+    return Number(row?.total ?? 0);
+  }
+
+  async getUnreferencedAssets(createdBefore: Date): Promise<Asset[]> {
+    // Assets that join to no video and no render, without correlated
+    // subqueries so pg-mem can run it in the tests
+    return this.db
+      .select(getTableColumns(assets))
+      .from(assets)
+      .leftJoin(videos, or(
+        eq(videos.videoUrl, assets.key),
+        eq(videos.thumbnailUrl, assets.key),
+        eq(videos.subtitlesSrtUrl, assets.key),
+        eq(videos.subtitlesVttUrl, assets.key)
+      ))
+      .leftJoin(videoRenders, or(
+        eq(videoRenders.videoUrl, assets.key),
+        eq(videoRenders.thumbnailUrl, assets.key),
+        eq(videoRenders.subtitlesSrtUrl, assets.key),
+        eq(videoRenders.subtitlesVttUrl, assets.key)
+      ))
+      .where(and(
+        lte(assets.createdAt, createdBefore),
+        isNull(videos.id),
+        isNull(videoRenders.id)
+      ));
+  }
+
+  // Music library operations
+  async getMusicTracks(): Promise<MusicTrack[]> {
+    return this.db.select().from(musicTracks).orderBy(asc(musicTracks.id));
+  }
+
+  async getMusicTrack(id: number): Promise<MusicTrack | undefined> {
+    const [track] = await this.db.select().from(musicTracks).where(eq(musicTracks.id, id));
+    return track;
+  }
+
+  async getMusicTrackByFileName(fileName: string): Promise<MusicTrack | undefined> {
+    const [track] = await this.db.select().from(musicTracks).where(eq(musicTracks.fileName, fileName));
+    return track;
+  }
+
+  async createMusicTrack(insertTrack: InsertMusicTrack): Promise<MusicTrack> {
+    const [track] = await this.db.insert(musicTracks).values(insertTrack).returning();
+    return track;
+  }
+
+  // Analytics operations
+  async getAnalyticsByVideoId(videoId: number): Promise<Analytics[]> {
+    return this.db.select().from(analytics).where(eq(analytics.videoId, videoId));
+  }
+
+  async createAnalytics(insertAnalytics: InsertAnalytics): Promise<Analytics> {
+    const [created] = await this.db.insert(analytics).values(insertAnalytics).returning();
+    return created;
+  }
+
+  async updateAnalytics(id: number, updateData: Partial<InsertAnalytics>): Promise<Analytics | undefined> {
+    const [updated] = await this.db
+      .update(analytics)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(analytics.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Analytics snapshot operations
+  async getLatestAnalyticsSnapshot(publicationId: number): Promise<AnalyticsSnapshot | undefined> {
+    const [snapshot] = await this.db
+      .select()
+      .from(analyticsSnapshots)
+      .where(eq(analyticsSnapshots.publicationId, publicationId))
+      .orderBy(desc(analyticsSnapshots.capturedAt))
+      .limit(1);
+    return snapshot;
+  }
+
+  async getAnalyticsSnapshotsByUserId(userId: number, since: Date): Promise<AnalyticsSnapshot[]> {
+    return this.db
+      .select()
+      .from(analyticsSnapshots)
+      .where(and(eq(analyticsSnapshots.userId, userId), gte(analyticsSnapshots.capturedAt, since)))
+      .orderBy(asc(analyticsSnapshots.capturedAt));
+  }
+
+  async createAnalyticsSnapshot(insertSnapshot: InsertAnalyticsSnapshot): Promise<AnalyticsSnapshot> {
+    const [snapshot] = await this.db.insert(analyticsSnapshots).values(insertSnapshot).returning();
+    return snapshot;
+  }
+
+  // Activity operations
+  async getActivitiesByUserId(userId: number, limit?: number): Promise<Activity[]> {
+    const query = this.db
+      .select()
+      .from(activities)
+      .where(eq(activities.userId, userId))
+      .orderBy(desc(activities.createdAt));
+
+    return limit ? query.limit(limit) : query;
+  }
+
+  async countActivitiesSince(userId: number, action: string, since: Date): Promise<number> {
+    const [result] = await this.db
+      .select({ value: count() })
+      .from(activities)
+      .where(and(
+        eq(activities.userId, userId),
+        eq(activities.action, action),
+        gte(activities.createdAt, since)
+      ));
+
+    return result.value;
+  }
+
+  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+    const [activity] = await this.db.insert(activities).values(insertActivity).returning();
+    return activity;
+  }
+
+  // Template operations
+  async getTemplate(id: number): Promise<Template | undefined> {
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
+    return template;
+  }
+
+  async getAllTemplates(): Promise<Template[]> {
+    return this.db.select().from(templates).orderBy(templates.id);
+  }
+
+  async getTemplatesByCategory(category: string): Promise<Template[]> {
+    return this.db
+      .select()
+      .from(templates)
+      .where(eq(templates.category, category))
+      .orderBy(templates.id);
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    const [template] = await this.db.insert(templates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateTemplate(id: number, updateData: Partial<InsertTemplate>): Promise<Template | undefined> {
+    const [template] = await this.db
+      .update(templates)
+      .set(updateData)
+      .where(eq(templates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(templates).where(eq(templates.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Template version operations
+  async getTemplateVersions(templateId: number): Promise<TemplateVersion[]> {
+    return this.db
+      .select()
+      .from(templateVersions)
+      .where(eq(templateVersions.templateId, templateId))
+      .orderBy(desc(templateVersions.version));
+  }
+
+  async getTemplateVersion(templateId: number, version: number): Promise<TemplateVersion | undefined> {
+    const [templateVersion] = await this.db
+      .select()
+      .from(templateVersions)
+      .where(and(eq(templateVersions.templateId, templateId), eq(templateVersions.version, version)));
+    return templateVersion;
+  }
+
+  async createTemplateVersion(insertVersion: InsertTemplateVersion): Promise<TemplateVersion> {
+    // The unique index rejects a second row for the same version
+    const [templateVersion] = await this.db.insert(templateVersions).values(insertVersion).returning();
+    return templateVersion;
+  }
+
+  // Subscription operations
+  async getSubscription(id: number): Promise<Subscription | undefined> {
+    const [subscription] = await this.db.select().from(subscriptions).where(eq(subscriptions.id, id));
+    return subscription;
+  }
+
+  async getSubscriptionsByUserId(userId: number): Promise<Subscription[]> {
+    return this.db.select().from(subscriptions).where(eq(subscriptions.userId, userId));
+  }
+
+  async getActiveSubscriptionByUserId(userId: number): Promise<Subscription | undefined> {
+    const [subscription] = await this.db
+      .select()
+      .from(subscriptions)
+      .where(and(
+        eq(subscriptions.userId, userId),
+        inArray(subscriptions.status, [...entitledSubscriptionStatuses]),
+        or(isNull(subscriptions.endDate), gt(subscriptions.endDate, new Date()))
+      ))
+      .orderBy(desc(subscriptions.createdAt))
+      .limit(1);
+    return subscription;
+  }
+
+  async getSubscriptionByExternalId(billingProvider: string, externalSubscriptionId: string): Promise<Subscription | undefined> {
+    const [subscription] = await this.db
+      .select()
+      .from(subscriptions)
+      .where(and(
+        eq(subscriptions.billingProvider, billingProvider),
+        eq(subscriptions.externalSubscriptionId, externalSubscriptionId)
+      ));
+    return subscription;
+  }
+
+  async getLapsedSubscriptions(now: Date): Promise<Subscription[]> {
+    return this.db
+      .select()
+      .from(subscriptions)
+      .where(and(
+        inArray(subscriptions.status, [...entitledSubscriptionStatuses]),
+        lte(subscriptions.endDate, now)
+      ));
+  }
+
+  async createSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    const [subscription] = await this.db.insert(subscriptions).values(insertSubscription).returning();
+    return subscription;
+  }
+
+  async updateSubscription(id: number, updateData: Partial<InsertSubscription>): Promise<Subscription | undefined> {
+    const [subscription] = await this.db
+      .update(subscriptions)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(subscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+
+  // Processed billing event operations
+  async getProcessedBillingEvent(billingProvider: string, eventId: string): Promise<ProcessedBillingEvent | undefined> {
+    const [event] = await this.db
+      .select()
+      .from(processedBillingEvents)
+      .where(and(eq(processedBillingEvents.billingProvider, billingProvider), eq(processedBillingEvents.eventId, eventId)));
+    return event;
+  }
+
+  async createProcessedBillingEvent(insertEvent: InsertProcessedBillingEvent): Promise<ProcessedBillingEvent> {
+    const [event] = await this.db.insert(processedBillingEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  // Connected account operations
+  async getConnectedAccount(id: number): Promise<ConnectedAccount | undefined> {
+    const [account] = await this.db.select().from(connectedAccounts).where(eq(connectedAccounts.id, id));
+    return account;
+  }
+
+  async getConnectedAccountsByUserId(userId: number): Promise<ConnectedAccount[]> {
+    return this.db
+      .select()
+      .from(connectedAccounts)
+      .where(eq(connectedAccounts.userId, userId))
+      .orderBy(connectedAccounts.platform, connectedAccounts.id);
+  }
+
+  async getConnectedAccountByExternalId(userId: number, platform: string, externalAccountId: string): Promise<ConnectedAccount | undefined> {
+    const [account] = await this.db
+      .select()
+      .from(connectedAccounts)
+      .where(and(
+        eq(connectedAccounts.userId, userId),
+        eq(connectedAccounts.platform, platform),
+        eq(connectedAccounts.externalAccountId, externalAccountId)
+      ));
+    return account;
+  }
+
+  async createConnectedAccount(insertAccount: InsertConnectedAccount): Promise<ConnectedAccount> {
+    const [account] = await this.db.insert(connectedAccounts).values(insertAccount).returning();
+    return account;
+  }
+
+  async updateConnectedAccount(id: number, updateData: Partial<InsertConnectedAccount>): Promise<ConnectedAccount | undefined> {
+    const [account] = await this.db
+      .update(connectedAccounts)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(connectedAccounts.id, id))
+      .returning();
+    return account;
+  }
+
+  async deleteConnectedAccount(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(connectedAccounts).where(eq(connectedAccounts.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Scheduled post operations
+  async getScheduledPost(id: number): Promise<ScheduledPost | undefined> {
+    const [post] = await this.db.select().from(scheduledPosts).where(eq(scheduledPosts.id, id));
+    return post;
+  }
+
+  async getScheduledPostsByUserId(userId: number): Promise<ScheduledPost[]> {
+    return this.db
+      .select()
+      .from(scheduledPosts)
+      .where(eq(scheduledPosts.userId, userId))
+      .orderBy(asc(scheduledPosts.scheduledAt));
+  }
+
+  async getScheduledPostsByVideoId(videoId: number): Promise<ScheduledPost[]> {
+    return this.db
+      .select()
+      .from(scheduledPosts)
+      .where(eq(scheduledPosts.videoId, videoId))
+      .orderBy(asc(scheduledPosts.scheduledAt));
+  }
+
+  async getScheduledPostsByStatus(status: string): Promise<ScheduledPost[]> {
+    return this.db.select().from(scheduledPosts).where(eq(scheduledPosts.status, status));
+  }
+
+  async getDueScheduledPosts(now: Date): Promise<ScheduledPost[]> {
+    return this.db
+      .select()
+      .from(scheduledPosts)
+      .where(and(eq(scheduledPosts.status, "scheduled"), lte(scheduledPosts.scheduledAt, now)))
+      .orderBy(asc(scheduledPosts.scheduledAt));
+  }
+
+  async createScheduledPost(insertPost: InsertScheduledPost): Promise<ScheduledPost> {
+    const [post] = await this.db.insert(scheduledPosts).values(insertPost).returning();
+    return post;
+  }
+
+  async updateScheduledPost(id: number, updateData: Partial<InsertScheduledPost>): Promise<ScheduledPost | undefined> {
+    const [post] = await this.db
+      .update(scheduledPosts)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(scheduledPosts.id, id))
+      .returning();
+    return post;
+  }
+
+  // Publication operations
+  async getPublication(id: number): Promise<Publication | undefined> {
+    const [publication] = await this.db.select().from(publications).where(eq(publications.id, id));
+    return publication;
+  }
+
+  async getPublicationsByVideoId(videoId: number): Promise<Publication[]> {
+    return this.db
+      .select()
+      .from(publications)
+      .where(eq(publications.videoId, videoId))
+      .orderBy(desc(publications.createdAt));
+  }
+
+  async getPublicationsByIdempotencyKey(userId: number, idempotencyKey: string): Promise<Publication[]> {
+    return this.db
+      .select()
+      .from(publications)
+      .where(and(eq(publications.userId, userId), eq(publications.idempotencyKey, idempotencyKey)));
+  }
+
+  async getPublicationsByStatus(status: string): Promise<Publication[]> {
+    return this.db.select().from(publications).where(eq(publications.status, status));
+  }
+
+  async getDuePublicationRetries(now: Date): Promise<Publication[]> {
+    return this.db
+      .select()
+      .from(publications)
+      .where(and(
+        eq(publications.status, "retrying"),
+        or(isNull(publications.nextAttemptAt), lte(publications.nextAttemptAt, now))
+      ))
+      .orderBy(asc(publications.nextAttemptAt));
+  }
+
+  async createPublication(insertPublication: InsertPublication): Promise<Publication> {
+    const [publication] = await this.db.insert(publications).values(insertPublication).returning();
+    return publication;
+  }
+
+  async updatePublication(id: number, updateData: Partial<InsertPublication>): Promise<Publication | undefined> {
+    const [publication] = await this.db
+      .update(publications)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(publications.id, id))
+      .returning();
+    return publication;
+  }
+
+  // Caption operations
+  async getCaption(id: number): Promise<Caption | undefined> {
+    const [caption] = await this.db.select().from(captions).where(eq(captions.id, id));
+    return caption;
+  }
+
+  async getCaptionsByUserId(userId: number): Promise<Caption[]> {
+    return this.db
+      .select()
+      .from(captions)
+      .where(eq(captions.userId, userId))
+      .orderBy(desc(captions.createdAt));
+  }
+
+  async getCaptionsByVideoId(videoId: number): Promise<Caption[]> {
+    return this.db
+      .select()
+      .from(captions)
+      .where(eq(captions.videoId, videoId))
+      .orderBy(desc(captions.createdAt));
+  }
+
+  async createCaption(insertCaption: InsertCaption): Promise<Caption> {
+    const [caption] = await this.db.insert(captions).values(insertCaption).returning();
+    return caption;
+  }
+
+  async updateCaption(id: number, updateData: Partial<InsertCaption>): Promise<Caption | undefined> {
+    const [caption] = await this.db
+      .update(captions)
+      .set(updateData)
+      .where(eq(captions.id, id))
+      .returning();
+    return caption;
+  }
+
+  async deleteCaption(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(captions).where(eq(captions.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Video metadata operations
+  async getVideoMetadata(videoId: number): Promise<VideoMetadata[]> {
+    return this.db.select().from(videoMetadata).where(eq(videoMetadata.videoId, videoId));
+  }
+
+  async getVideoMetadataForPlatform(videoId: number, platform: string): Promise<VideoMetadata | undefined> {
+    const [metadata] = await this.db
+      .select()
+      .from(videoMetadata)
+      .where(and(eq(videoMetadata.videoId, videoId), eq(videoMetadata.platform, platform)));
+    return metadata;
+  }
+
+  async upsertVideoMetadata(insertMetadata: InsertVideoMetadata): Promise<VideoMetadata> {
+    const [metadata] = await this.db
+      .insert(videoMetadata)
+      .values(insertMetadata)
+      .onConflictDoUpdate({
+        target: [videoMetadata.videoId, videoMetadata.platform],
+        set: { ...insertMetadata, updatedAt: new Date() }
+      })
+      .returning();
+    return metadata;
+  }
+
+}
+
+/**
+ * Use Postgres when DATABASE_URL is provisioned, otherwise fall back to the
+ * in-memory store (data is lost on restart)
+ */
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    const { db, pool } = createDatabase(process.env.DATABASE_URL);
+    return new DatabaseStorage(db, pool);
+  }
+
+  return new MemStorage();
+}
+
+export const storage = createStorage();
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { countCaptionCharacters, splitCharacters, toHashtag } from "./caption-text";
+
+describe("countCaptionCharacters", () => {
+  it.each([
+    ["plain Latin text", "Good morning", 12],
+    ["Japanese", "おはようございます", 9],
+    ["Korean", "안녕하세요", 5],
+    ["Chinese characters", "朝の珈琲", 4],
+    ["Hangul written as separate jamo", "\u1112\u1161\u11ab\u1100\u1173\u11af", 2],
+    ["an emoji with a variation selector", "❤️", 1],
+    ["a ZWJ emoji sequence", "👩‍💻", 1],
+    ["an emoji with a skin tone", "👍🏽", 1],
+    ["a flag", "🇯🇵", 1],
+    ["mixed CJK and emoji", "朝ごはん🍚✨👨‍👩‍👧", 7],
+    ["an accent written as a combining mark", "Cafe\u0301", 4],
+  ])("counts %s as the characters a reader sees", (_case, text, expected) => {
+    expect(countCaptionCharacters(text)).toBe(expected);
+  });
+});
+
+describe("splitCharacters", () => {
+  it("keeps emoji sequences and syllables whole", () => {
+    expect(splitCharacters("한👩‍💻!")).toEqual(["한", "👩‍💻", "!"]);
+  });
+});
+
+describe("toHashtag", () => {
+  it.each([
+    ["Café", "french", "cafe"],
+    ["São", "portuguese", "sao"],
+    ["Küche!", "german", "kueche"],
+    ["Straße", "german", "strasse"],
+    ["Morning☕️", "english", "morning"],
+    ["🎉", "spanish", ""],
+  ] as const)("turns %s into a %s hashtag", (word, language, expected) => {
+    expect(toHashtag(word, language)).toBe(expected);
+  });
+
+  it.each([
+    ["朝ごはん！", "japanese", "朝ごはん"],
+    ["ｶﾚｰ", "japanese", "カレー"],
+    ["ラーメン🍜", "japanese", "ラーメン"],
+    ["Ｔｏｋｙｏ", "japanese", "tokyo"],
+    ["요리,", "korean", "요리"],
+    ["한글", "korean", "한글"],
+    ["서울❤️", "korean", "서울"],
+    ["👩‍💻", "korean", ""],
+  ] as const)("keeps the script of %s in a %s hashtag", (word, language, expected) => {
+    expect(toHashtag(word, language)).toBe(expected);
+  });
+});
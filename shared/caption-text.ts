@@ -0,0 +1,65 @@
+import type { CaptionFormValues } from "./schema";
+
+export type CaptionLanguage = CaptionFormValues["language"];
+
+// Splits text into user-perceived characters (grapheme clusters)
+const graphemeSegmenter = typeof Intl !== "undefined" && "Segmenter" in Intl
+  ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+  : null;
+
+/**
+ * Text split into the characters a reader sees. Emoji sequences such as "❤️"
+ * or "👩‍💻", and Hangul written as separate jamo, count as one character each.
+ */
+export function splitCharacters(text: string): string[] {
+  // Composed form, so decomposed Hangul and accents count like typed text
+  const normalized = text.normalize("NFC");
+  if (graphemeSegmenter) {
+    return Array.from(graphemeSegmenter.segment(normalized), (segment) => segment.segment);
+  }
+  return Array.from(normalized);
+}
+
+/**
+ * Caption length as platforms count it: one per visible character, so the
+ * same limits apply to Japanese and Korean as to Latin-script captions
+ */
+export function countCaptionCharacters(text: string): number {
+  return splitCharacters(text).length;
+}
+
+// Letters German spells out instead of dropping the umlaut
+const GERMAN_TRANSLITERATIONS: Record<string, string> = {
+  "ä": "ae",
+  "ö": "oe",
+  "ü": "ue",
+  "ß": "ss",
+};
+
+/**
+ * Turn a word into a hashtag body (without '#') following the language's
+ * conventions, or an empty string when nothing usable is left:
+ *
+ * - Latin-script languages lowercase and drop accents ("Café" -> "cafe");
+ *   German spells umlauts out ("Küche" -> "kueche")
+ * - Japanese and Korean keep their own script, since platforms support it;
+ *   half-width katakana and full-width Latin letters are normalized (NFKC)
+ */
+export function toHashtag(word: string, language: CaptionLanguage): string {
+  const normalized = word.normalize("NFKC");
+
+  if (language === "japanese" || language === "korean") {
+    // Long vowel marks are part of katakana words, not punctuation
+    return normalized.replace(/[^\p{L}\p{N}ー]/gu, "").toLowerCase();
+  }
+
+  let text = normalized.toLowerCase();
+  if (language === "german") {
+    text = text.replace(/[äöüß]/g, (letter) => GERMAN_TRANSLITERATIONS[letter]);
+  }
+
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^a-z0-9]/g, "");
+}
@@ -0,0 +1,98 @@
+/**
+ * Subscription plans and what each one includes, shared by the limit checks on
+ * the server and the usage display on the client. A null limit means unlimited.
+ */
+
+export const planTiers = ["free", "basic", "premium"] as const;
+export type PlanTier = typeof planTiers[number];
+
+// Output resolutions by the short edge of the video, e.g. 1080 for 1080p
+export const videoResolutions = [720, 1080, 1440] as const;
+export type VideoResolution = typeof videoResolutions[number];
+
+export const DEFAULT_RESOLUTION: VideoResolution = 720;
+
+export interface PlanLimits {
+  // Videos generated per calendar month (UTC)
+  monthlyGenerations: number | null;
+  maxDurationSeconds: number;
+  maxResolution: VideoResolution;
+  // Active connected social accounts
+  connectedAccounts: number | null;
+  // Posts waiting to be published by the scheduler
+  scheduledPosts: number | null;
+  // Bytes of videos, thumbnails and other generated files kept for the user
+  storageBytes: number | null;
+  premiumTemplates: boolean;
+}
+
+const GB = 1024 * 1024 * 1024;
+
+export const plans: Record<PlanTier, PlanLimits> = {
+  free: {
+    monthlyGenerations: 5,
+    maxDurationSeconds: 30,
+    maxResolution: 720,
+    connectedAccounts: 1,
+    scheduledPosts: 3,
+    storageBytes: 1 * GB,
+    premiumTemplates: false,
+  },
+  basic: {
+    monthlyGenerations: 30,
+    maxDurationSeconds: 90,
+    maxResolution: 1080,
+    connectedAccounts: 3,
+    scheduledPosts: 25,
+    storageBytes: 10 * GB,
+    premiumTemplates: false,
+  },
+  premium: {
+    monthlyGenerations: null,
+    maxDurationSeconds: 180,
+    maxResolution: 1440,
+    connectedAccounts: null,
+    scheduledPosts: null,
+    storageBytes: 100 * GB,
+    premiumTemplates: true,
+  },
+};
+
+// Monthly price of each tier in cents
+export const planPrices: Record<PlanTier, number> = {
+  free: 0,
+  basic: 900,
+  premium: 2900,
+};
+
+export function isPlanTier(value: unknown): value is PlanTier {
+  return typeof value === "string" && (planTiers as readonly string[]).includes(value);
+}
+
+/**
+ * Limits of a tier; unknown tiers get the free plan
+ */
+export function getPlanLimits(tier: string | null | undefined): PlanLimits {
+  return isPlanTier(tier) ? plans[tier] : plans.free;
+}
+
+/**
+ * Human-readable size, e.g. 1536 -> "1.5 KB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["bytes", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[0]}` : `${Number(value.toFixed(1))} ${units[unit]}`;
+}
+
+/**
+ * Longest edge in pixels for a resolution, matching 16:9 (720 -> 1280)
+ */
+export function resolutionMaxEdge(resolution: VideoResolution): number {
+  return Math.round((resolution * 16) / 9);
+}
@@ -0,0 +1,556 @@
+import { pgTable, text, serial, integer, boolean, timestamp, json, uniqueIndex } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+// Users table
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  email: text("email"),
+  displayName: text("display_name"),
+  bio: text("bio"),
+  profilePicture: text("profile_picture"),
+  provider: text("provider"), // 'local', 'youtube', 'google', etc.
+  providerId: text("provider_id"), // ID from the provider
+  accessToken: text("access_token"),
+  refreshToken: text("refresh_token"),
+  tokenExpiry: timestamp("token_expiry"),
+  subscriptionTier: text("subscription_tier").default("free"), // 'free', 'basic', 'premium'
+  teamId: integer("team_id"), // Users with the same team share 'team' templates; assigned by administrators
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+  email: true,
+  displayName: true,
+  bio: true,
+  profilePicture: true,
+  provider: true,
+  providerId: true,
+  accessToken: true,
+  refreshToken: true,
+  tokenExpiry: true,
+  subscriptionTier: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+
+// Spoken voiceover options. Voices and languages are the ones every TTS provider offers.
+export const voiceoverVoices = ["female", "male"] as const;
+export const voiceoverLanguages = ["en", "es", "fr", "de", "it", "pt"] as const;
+
+export const voiceoverSettingsSchema = z.object({
+  // Text to speak; derived from the title and prompt when left out
+  script: z.string().trim().max(5000, "Script must be at most 5000 characters").optional(),
+  voice: z.enum(voiceoverVoices).default("female"),
+  // Relative speaking rate, 1 being normal speech
+  speed: z.number().min(0.5).max(2).default(1),
+  language: z.enum(voiceoverLanguages).default("en"),
+});
+
+export type VoiceoverSettings = z.infer<typeof voiceoverSettingsSchema>;
+
+// Videos table
+export const videos = pgTable("videos", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  prompt: text("prompt").notNull(),
+  style: text("style").notNull(),
+  duration: text("duration").notNull(),
+  aspectRatio: text("aspect_ratio").notNull(),
+  platforms: text("platforms").array(),
+  status: text("status").notNull().default("draft"),
+  thumbnailUrl: text("thumbnail_url"), // Asset store key; responses carry a signed URL instead
+  videoUrl: text("video_url"), // Asset store key; responses carry a signed URL instead
+  provider: text("provider"), // Video generation provider that rendered the assets
+  templateId: integer("template_id"), // Template the video was created from
+  templateVersion: integer("template_version"), // Published version of that template, null for the owner's draft or catalog templates
+  currentRenderId: integer("current_render_id"), // Render whose assets videoUrl and thumbnailUrl point at
+  voiceover: json("voiceover").$type<VoiceoverSettings>(), // Spoken track mixed into the video; null for a silent video
+  burnSubtitles: boolean("burn_subtitles").notNull().default(false), // Draw the subtitles into the picture as well
+  subtitlesSrtUrl: text("subtitles_srt_url"), // Asset store keys of the SRT and WebVTT subtitle files
+  subtitlesVttUrl: text("subtitles_vtt_url"),
+  musicTrackId: integer("music_track_id"), // Background music from the library, kept for licensing audits
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+});
+
+export const insertVideoSchema = createInsertSchema(videos)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    prompt: z.string().min(10, "Prompt must be at least 10 characters long"),
+    platforms: z.array(z.enum(["youtube", "instagram", "tiktok"])).min(1, "Select at least one platform"),
+    voiceover: voiceoverSettingsSchema.nullable().optional(),
+  });
+
+export type InsertVideo = z.infer<typeof insertVideoSchema>;
+export type Video = typeof videos.$inferSelect;
+
+// Every render of a video with the settings it was made with. Renders of
+// unsaved videos have no videoId until the video is saved with them.
+export const videoRenders = pgTable("video_renders", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id"),
+  userId: integer("user_id").notNull(),
+  version: integer("version"), // 1 for a video's first render; null while not attached to a video
+  prompt: text("prompt").notNull(),
+  style: text("style").notNull(),
+  duration: text("duration").notNull(),
+  aspectRatio: text("aspect_ratio").notNull(),
+  resolution: integer("resolution").notNull(), // Short edge in pixels, e.g. 1080
+  provider: text("provider").notNull(),
+  templateId: integer("template_id"),
+  templateVersion: integer("template_version"),
+  voiceover: json("voiceover").$type<VoiceoverSettings>(),
+  burnSubtitles: boolean("burn_subtitles").notNull().default(false),
+  musicTrackId: integer("music_track_id"),
+  videoUrl: text("video_url").notNull(), // Asset store keys, like the video's
+  thumbnailUrl: text("thumbnail_url").notNull(),
+  subtitlesSrtUrl: text("subtitles_srt_url"), // Null for renders made before subtitles were generated
+  subtitlesVttUrl: text("subtitles_vtt_url"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("video_renders_video_version_idx").on(table.videoId, table.version),
+]);
+
+export const insertVideoRenderSchema = createInsertSchema(videoRenders).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  voiceover: voiceoverSettingsSchema.nullable().optional(),
+});
+
+export type InsertVideoRender = z.infer<typeof insertVideoRenderSchema>;
+export type VideoRender = typeof videoRenders.$inferSelect;
+
+// Render settings compared side by side, in display order
+export const videoRenderSettings = [
+  "prompt", "style", "duration", "aspectRatio", "resolution", "provider", "templateId", "templateVersion", "voiceover", "burnSubtitles", "musicTrackId",
+] as const;
+
+// Royalty-free background music, loaded from the library manifest in
+// MUSIC_LIBRARY_DIR. Tracks are kept after they leave the manifest so the
+// videos using them still show where their music came from.
+export const musicTracks = pgTable("music_tracks", {
+  id: serial("id").primaryKey(),
+  fileName: text("file_name").notNull().unique(), // Audio file, relative to the library directory
+  title: text("title").notNull(),
+  artist: text("artist").notNull(),
+  mood: text("mood").notNull(),
+  bpm: integer("bpm").notNull(),
+  durationSeconds: integer("duration_seconds").notNull(),
+  styles: text("styles").array().notNull(), // Video styles the track suits
+  license: text("license").notNull(), // e.g. "CC0 1.0"
+  licenseUrl: text("license_url"),
+  attribution: text("attribution"), // Credit the license asks for, if any
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertMusicTrackSchema = createInsertSchema(musicTracks)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    bpm: z.number().int().positive(),
+    durationSeconds: z.number().int().positive(),
+    styles: z.array(z.string()).min(1, "List at least one style"),
+  });
+
+export type InsertMusicTrack = z.infer<typeof insertMusicTrackSchema>;
+export type MusicTrack = typeof musicTracks.$inferSelect;
+
+// Registry of the files in the asset store, for per-user storage usage and for
+// removing files nothing refers to any more
+export const assets = pgTable("assets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  key: text("key").notNull().unique(), // Key in the asset store
+  contentType: text("content_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAssetSchema = createInsertSchema(assets).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAsset = z.infer<typeof insertAssetSchema>;
+export type Asset = typeof assets.$inferSelect;
+
+// Analytics table
+export const analytics = pgTable("analytics", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id").notNull(),
+  platform: text("platform").notNull(),
+  views: integer("views").notNull().default(0),
+  likes: integer("likes").notNull().default(0),
+  comments: integer("comments").notNull().default(0),
+  shares: integer("shares").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertAnalyticsSchema = createInsertSchema(analytics).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
+export type Analytics = typeof analytics.$inferSelect;
+
+// Analytics snapshots table - metrics for a publication as collected at one point in time.
+// Totals are cumulative; deltas are the change since the previous snapshot, so
+// summing deltas over a time range gives what was gained in it.
+export const analyticsSnapshots = pgTable("analytics_snapshots", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  videoId: integer("video_id").notNull(),
+  publicationId: integer("publication_id").notNull(),
+  platform: text("platform").notNull(),
+  views: integer("views").notNull().default(0),
+  likes: integer("likes").notNull().default(0),
+  comments: integer("comments").notNull().default(0),
+  shares: integer("shares").notNull().default(0),
+  viewsDelta: integer("views_delta").notNull().default(0),
+  likesDelta: integer("likes_delta").notNull().default(0),
+  commentsDelta: integer("comments_delta").notNull().default(0),
+  sharesDelta: integer("shares_delta").notNull().default(0),
+  capturedAt: timestamp("captured_at").notNull().defaultNow(),
+});
+
+export const insertAnalyticsSnapshotSchema = createInsertSchema(analyticsSnapshots).omit({
+  id: true,
+});
+
+export type InsertAnalyticsSnapshot = z.infer<typeof insertAnalyticsSnapshotSchema>;
+export type AnalyticsSnapshot = typeof analyticsSnapshots.$inferSelect;
+
+// Activities table
+export const activities = pgTable("activities", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id"),
+  userId: integer("user_id").notNull(),
+  action: text("action").notNull(),
+  details: json("details"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertActivitySchema = createInsertSchema(activities).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertActivity = z.infer<typeof insertActivitySchema>;
+export type Activity = typeof activities.$inferSelect;
+
+// Templates table
+export const templates = pgTable("templates", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: text("category").notNull(),
+  style: text("style").notNull(),
+  duration: text("duration").notNull(),
+  thumbUrl: text("thumb_url"),
+  previewUrl: text("preview_url"),
+  popular: boolean("popular").default(false),
+  premium: boolean("premium").default(false),
+  settings: json("settings"), // JSON settings for template configuration
+  ownerId: integer("owner_id"), // Null for the built-in catalog, which users cannot change
+  teamId: integer("team_id"), // Owner's team when the template was created
+  visibility: text("visibility").notNull().default("public"), // 'private', 'team', 'public'
+  currentVersion: integer("current_version").notNull().default(0), // Latest published version, 0 while unpublished
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const templateVisibilities = ["private", "team", "public"] as const;
+export type TemplateVisibility = typeof templateVisibilities[number];
+
+export const insertTemplateSchema = createInsertSchema(templates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  visibility: z.enum(templateVisibilities).optional(),
+});
+
+export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
+export type Template = typeof templates.$inferSelect;
+
+// Published template versions. Rows are never changed, so videos made from a
+// version keep rendering the same way when the owner edits the template.
+export const templateVersions = pgTable("template_versions", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull(),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: text("category").notNull(),
+  style: text("style").notNull(),
+  duration: text("duration").notNull(),
+  thumbUrl: text("thumb_url"),
+  previewUrl: text("preview_url"),
+  premium: boolean("premium").notNull().default(false),
+  settings: json("settings"),
+  changelog: text("changelog").notNull(),
+  publishedBy: integer("published_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("template_versions_template_version_idx").on(table.templateId, table.version),
+]);
+
+export const insertTemplateVersionSchema = createInsertSchema(templateVersions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  settings: z.unknown(),
+});
+
+export type InsertTemplateVersion = z.infer<typeof insertTemplateVersionSchema>;
+export type TemplateVersion = typeof templateVersions.$inferSelect;
+
+// Shape of templates.settings: one scene per section, joined by the transitions in turn
+export const templateSettingsSchema = z.object({
+  sections: z.array(z.string().min(1)).default([]),
+  transitions: z.array(z.string().min(1)).default([]),
+  // Pre-filled in the generator; set when a template is saved from a video
+  aspectRatio: z.string().optional(),
+  prompt: z.string().optional(),
+});
+
+export type TemplateSettings = z.infer<typeof templateSettingsSchema>;
+
+/**
+ * A template's settings, or empty ones when they are missing or malformed
+ */
+export function parseTemplateSettings(template: Pick<Template, "settings">): TemplateSettings {
+  const parsed = templateSettingsSchema.safeParse(template.settings ?? {});
+  return parsed.success ? parsed.data : { sections: [], transitions: [] };
+}
+
+// Subscriptions table
+export const subscriptions = pgTable("subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tier: text("tier").notNull(), // 'free', 'basic', 'premium'
+  price: integer("price").notNull(), // Monthly price in cents
+  status: text("status").notNull().default("active"), // 'active', 'past_due', 'canceled', 'expired'
+  paymentMethod: text("payment_method"),
+  paymentId: text("payment_id"), // Last payment reported by the billing provider
+  billingProvider: text("billing_provider"), // Null for free subscriptions that are not billed
+  externalSubscriptionId: text("external_subscription_id"), // The billing provider's id for the subscription
+  startDate: timestamp("start_date").notNull().defaultNow(),
+  endDate: timestamp("end_date"), // End of the paid period; the plan lapses to free after it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("subscriptions_provider_external_idx").on(table.billingProvider, table.externalSubscriptionId),
+]);
+
+export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Statuses that still grant the subscription's tier until its end date.
+// Canceled subscriptions do not renew but stay usable for the period paid for.
+export const entitledSubscriptionStatuses = ["active", "past_due", "canceled"] as const;
+
+export function isEntitledSubscriptionStatus(status: string): boolean {
+  return (entitledSubscriptionStatuses as readonly string[]).includes(status);
+}
+
+export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type Subscription = typeof subscriptions.$inferSelect;
+
+// Billing provider webhook events already applied, so redelivered ones are ignored
+export const processedBillingEvents = pgTable("processed_billing_events", {
+  id: serial("id").primaryKey(),
+  billingProvider: text("billing_provider").notNull(),
+  eventId: text("event_id").notNull(), // The provider's id for the event
+  type: text("type").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("processed_billing_events_provider_event_idx").on(table.billingProvider, table.eventId),
+]);
+
+export const insertProcessedBillingEventSchema = createInsertSchema(processedBillingEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertProcessedBillingEvent = z.infer<typeof insertProcessedBillingEventSchema>;
+export type ProcessedBillingEvent = typeof processedBillingEvents.$inferSelect;
+
+// Connected accounts table - platform accounts (channels, profiles) a user can publish to
+export const connectedAccounts = pgTable("connected_accounts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  platform: text("platform").notNull(), // 'youtube', 'tiktok', 'instagram'
+  externalAccountId: text("external_account_id").notNull(), // Channel/profile ID on the platform
+  displayName: text("display_name"),
+  accessToken: text("access_token").notNull(), // Encrypted
+  refreshToken: text("refresh_token"), // Encrypted
+  tokenExpiry: timestamp("token_expiry"),
+  scopes: text("scopes").array(),
+  status: text("status").notNull().default("active"), // 'active', 'expired', 'revoked'
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("connected_accounts_user_platform_external_idx").on(table.userId, table.platform, table.externalAccountId),
+]);
+
+export const insertConnectedAccountSchema = createInsertSchema(connectedAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertConnectedAccount = z.infer<typeof insertConnectedAccountSchema>;
+export type ConnectedAccount = typeof connectedAccounts.$inferSelect;
+// Connected account as returned by the API, without its tokens
+export type PublicConnectedAccount = Omit<ConnectedAccount, "accessToken" | "refreshToken">;
+
+// Scheduled posts table - a video queued for publishing to one account at a set time
+export const scheduledPosts = pgTable("scheduled_posts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  videoId: integer("video_id").notNull(),
+  accountId: integer("account_id").notNull(),
+  platform: text("platform").notNull(), // 'youtube', 'tiktok', 'instagram'
+  scheduledAt: timestamp("scheduled_at").notNull(), // UTC instant to publish at
+  timezone: text("timezone").notNull().default("UTC"), // IANA zone the time was picked in
+  status: text("status").notNull().default("scheduled"), // 'scheduled', 'publishing', 'published', 'failed', 'canceled'
+  result: json("result"), // Publish result from the platform
+  error: text("error"),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertScheduledPostSchema = createInsertSchema(scheduledPosts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertScheduledPost = z.infer<typeof insertScheduledPostSchema>;
+export type ScheduledPost = typeof scheduledPosts.$inferSelect;
+
+// Publications table - each video upload to a connected account and how it went
+export const publications = pgTable("publications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  videoId: integer("video_id").notNull(),
+  accountId: integer("account_id").notNull(),
+  platform: text("platform").notNull(), // 'youtube', 'tiktok', 'instagram'
+  idempotencyKey: text("idempotency_key").notNull(), // Same key + account never uploads twice
+  scheduledPostId: integer("scheduled_post_id"), // Set when published by the scheduler
+  status: text("status").notNull().default("pending"), // 'pending', 'publishing', 'retrying', 'succeeded', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  externalId: text("external_id"), // Post/video ID on the platform
+  externalUrl: text("external_url"),
+  simulated: boolean("simulated").notNull().default(false), // Upload was simulated, so the external ID is a placeholder with no metrics of the user's
+  error: text("error"),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("publications_user_key_account_idx").on(table.userId, table.idempotencyKey, table.accountId),
+]);
+
+export const insertPublicationSchema = createInsertSchema(publications).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertPublication = z.infer<typeof insertPublicationSchema>;
+export type Publication = typeof publications.$inferSelect;
+
+// Caption generation request - the options on the Create Caption page
+export const captionFormSchema = z.object({
+  topic: z.string().min(3, "Topic must be at least 3 characters").max(100, "Topic is too long"),
+  mood: z.enum(["professional", "casual", "funny", "inspirational", "serious"]),
+  platform: z.enum(["instagram", "tiktok", "youtube"]),
+  includeHashtags: z.boolean().default(true),
+  includeEmojis: z.boolean().default(true),
+  toneStrength: z.number().min(1).max(5),
+  imageDescription: z.string().optional(),
+  callToAction: z.enum(["none", "follow", "like", "comment", "share", "visit", "custom"]),
+  customCta: z.string().optional(),
+  language: z.enum(["english", "spanish", "french", "german", "portuguese", "japanese", "korean"]),
+  captionLength: z.enum(["short", "medium", "long"]),
+});
+
+export type CaptionFormValues = z.infer<typeof captionFormSchema>;
+
+// Caption limits per platform; maxLength is the recommended length in characters
+export const platformCaptionLimits = {
+  instagram: { hashtagLimit: 30, maxLength: 2200 },
+  tiktok: { hashtagLimit: 5, maxLength: 150 },
+  youtube: { hashtagLimit: 15, maxLength: 5000 },
+} as const;
+
+// Captions table - generated captions, optionally attached to a video for publishing
+export const captions = pgTable("captions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  videoId: integer("video_id"), // Video the caption is used for when publishing to its platform
+  platform: text("platform").notNull(),
+  language: text("language").notNull(),
+  text: text("text").notNull(),
+  hashtags: text("hashtags").array(),
+  options: json("options").$type<CaptionFormValues>().notNull(), // Request the caption was generated from
+  provider: text("provider").notNull(), // Text generation provider that wrote it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCaptionSchema = createInsertSchema(captions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  options: captionFormSchema,
+});
+
+export type InsertCaption = z.infer<typeof insertCaptionSchema>;
+export type Caption = typeof captions.$inferSelect;
+
+// SEO analysis request - the fields on the SEO Optimizer page
+export const seoFormSchema = z.object({
+  title: z.string().min(5, "Title must be at least 5 characters").max(60, "Title should be under 60 characters"),
+  description: z.string().min(50, "Description must be at least 50 characters").max(160, "Description should be under 160 characters"),
+  keywords: z.string().min(3, "Add at least a few keywords"),
+  platform: z.enum(["youtube", "tiktok", "instagram", "all"]),
+  contentType: z.enum(["video", "image", "text"]),
+});
+
+export type SeoFormValues = z.infer<typeof seoFormSchema>;
+
+// Video metadata table - per-platform title, description and tags used when publishing a video
+export const videoMetadata = pgTable("video_metadata", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id").notNull(),
+  userId: integer("user_id").notNull(),
+  platform: text("platform").notNull(), // 'youtube', 'tiktok', 'instagram'
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  tags: text("tags").array().notNull(),
+  seoScore: integer("seo_score"), // Overall score from the SEO analysis that produced it, if any
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("video_metadata_video_platform_idx").on(table.videoId, table.platform),
+]);
+
+export const insertVideoMetadataSchema = createInsertSchema(videoMetadata).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertVideoMetadata = z.infer<typeof insertVideoMetadataSchema>;
+export type VideoMetadata = typeof videoMetadata.$inferSelect;
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { isValidTimeZone, toZonedParts, zonedTimeToUtc } from "./timezone";
+
+describe("zonedTimeToUtc", () => {
+  it.each([
+    ["New York in winter", "2025-01-15T09:00", "America/New_York", "2025-01-15T14:00:00.000Z"],
+    ["New York in summer", "2025-07-15T09:00", "America/New_York", "2025-07-15T13:00:00.000Z"],
+    ["a half-hour offset", "2025-03-09T09:00", "Asia/Kolkata", "2025-03-09T03:30:00.000Z"],
+    ["seconds", "2025-01-15T09:00:30", "UTC", "2025-01-15T09:00:30.000Z"],
+  ])("converts a wall-clock time in %s", (_case, wallTime, timeZone, expected) => {
+    expect(zonedTimeToUtc(wallTime, timeZone)?.toISOString()).toBe(expected);
+  });
+
+  it("keeps the minutes either side of the spring-forward jump apart", () => {
+    expect(zonedTimeToUtc("2025-03-09T01:59", "America/New_York")?.toISOString()).toBe("2025-03-09T06:59:00.000Z");
+    expect(zonedTimeToUtc("2025-03-09T03:00", "America/New_York")?.toISOString()).toBe("2025-03-09T07:00:00.000Z");
+  });
+
+  it.each([
+    ["New York", "2025-03-09T02:30", "America/New_York", "2025-03-09T07:30:00.000Z", "03:30"],
+    ["London", "2025-03-30T01:30", "Europe/London", "2025-03-30T01:30:00.000Z", "02:30"],
+  ])("moves a time skipped by the clocks going forward in %s past the jump", (_case, wallTime, timeZone, expected, localTime) => {
+    const instant = zonedTimeToUtc(wallTime, timeZone)!;
+
+    expect(instant.toISOString()).toBe(expected);
+    expect(toZonedParts(instant, timeZone).time).toBe(localTime);
+  });
+
+  it("picks the first of the two times an hour repeated by the clocks going back", () => {
+    // 01:30 happens at 05:30Z in daylight time and again at 06:30Z in standard time
+    expect(zonedTimeToUtc("2025-11-02T01:30", "America/New_York")?.toISOString()).toBe("2025-11-02T05:30:00.000Z");
+  });
+
+  it("takes times with an offset as they are", () => {
+    expect(zonedTimeToUtc("2025-07-15T09:00:00+02:00", "America/New_York")?.toISOString()).toBe("2025-07-15T07:00:00.000Z");
+    expect(zonedTimeToUtc("2025-07-15T09:00:00Z", "Asia/Kolkata")?.toISOString()).toBe("2025-07-15T09:00:00.000Z");
+  });
+
+  it.each(["", "tomorrow", "2025-07-15", "2025-07-15 09:00", "2025-13-45T09:00:00Z"])("cannot parse %j", (wallTime) => {
+    expect(zonedTimeToUtc(wallTime, "UTC")).toBeNull();
+  });
+});
+
+describe("toZonedParts", () => {
+  it("gives the calendar date in the zone, which can differ from UTC's", () => {
+    const instant = new Date("2025-01-15T03:00:00Z");
+
+    expect(toZonedParts(instant, "UTC")).toEqual({ date: "2025-01-15", time: "03:00" });
+    expect(toZonedParts(instant, "America/Los_Angeles")).toEqual({ date: "2025-01-14", time: "19:00" });
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zone names only", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Time zone helpers built on Intl, shared by the scheduler API and the client.
+ * Wall-clock times are "YYYY-MM-DDTHH:mm[:ss]" strings without an offset.
+ */
+
+export interface ZonedParts {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+}
+
+const WALL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date and time of an instant as seen in the given zone
+ */
+export function toZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? "00";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffset(instant: Date, timeZone: string): number {
+  const { date, time } = toZonedParts(instant, timeZone);
+  const asUtc = Date.parse(`${date}T${time}:00Z`);
+  // toZonedParts drops seconds, so compare against the instant truncated to the minute
+  return asUtc - Math.floor(instant.getTime() / 60000) * 60000;
+}
+
+/**
+ * Converts a wall-clock time in the given zone to a UTC instant.
+ * Times with an explicit offset or Z are taken as-is.
+ * Returns null when the input cannot be parsed.
+ */
+export function zonedTimeToUtc(wallTime: string, timeZone: string): Date | null {
+  const match = WALL_TIME_PATTERN.exec(wallTime);
+  if (!match) {
+    const instant = new Date(wallTime);
+    return /(Z|[+-]\d{2}:?\d{2})$/i.test(wallTime) && !isNaN(instant.getTime()) ? instant : null;
+  }
+
+  const [, year, month, day, hour, minute, seconds] = match;
+  const guess = Date.UTC(+year, +month - 1, +day, +hour, +minute, +(seconds || 0));
+
+  // Correct by the zone's offset, then once more in case the first guess crossed a DST change
+  const firstPass = guess - zoneOffset(new Date(guess), timeZone);
+  const secondPass = guess - zoneOffset(new Date(firstPass), timeZone);
+
+  // Times skipped by a DST jump never round-trip; they land just after the jump instead
+  const { date, time } = toZonedParts(new Date(secondPass), timeZone);
+  const roundTrips = `${date}T${time}` === `${year}-${month}-${day}T${hour}:${minute}`;
+
+  return new Date(roundTrips ? secondPass : Math.max(firstPass, secondPass));
+}